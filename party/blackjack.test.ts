@@ -0,0 +1,67 @@
+import type * as Party from "partykit/server";
+import { describe, expect, it } from "vitest";
+import { PublicGameState, toPublicGameState } from "../src/lib/gameTypes";
+import { PROTOCOL_VERSION } from "../src/lib/protocol";
+import { PatchOp, applyStatePatch, toWireState } from "../src/lib/statePatch";
+import BlackjackServer from "./blackjack";
+
+// Just enough of a PartyKit room to run the server on - storage in memory, broadcasts recorded
+function fakeRoom(): { room: Party.Room; connect: (id: string) => Party.Connection & { sent: unknown[] } } {
+    const stored = new Map<string, unknown>();
+    const connections = new Map<string, Party.Connection & { sent: unknown[] }>();
+    const room = {
+        id: "main",
+        env: {},
+        storage: {
+            get: async (key: string | string[]) =>
+                Array.isArray(key) ? new Map(key.filter((k) => stored.has(k)).map((k) => [k, stored.get(k)])) : stored.get(key),
+            put: async (key: string, value: unknown) => { stored.set(key, value); },
+            delete: async (key: string) => stored.delete(key),
+            setAlarm: async () => {},
+            deleteAlarm: async () => {},
+        },
+        broadcast: (message: string) => {
+            for (const conn of connections.values()) conn.send(message);
+        },
+        getConnections: () => connections.values(),
+        context: { parties: { lobby: { get: () => ({ fetch: async () => new Response(null) }) } } },
+    } as unknown as Party.Room;
+    const connect = (id: string) => {
+        const sent: unknown[] = [];
+        const conn = { id, sent, send: (message: string) => sent.push(JSON.parse(message)), close: () => {} } as unknown as Party.Connection & { sent: unknown[] };
+        connections.set(id, conn);
+        return conn;
+    };
+    return { room, connect };
+}
+
+describe("table server", () => {
+    it("sends chat once, outside the state patches, and the log to clients that connect later", async () => {
+        const { room, connect } = fakeRoom();
+        const server = new BlackjackServer(room);
+        await server.onStart();
+        const url = `http://localhost/?v=${PROTOCOL_VERSION}&token=${"ab".repeat(32)}`;
+
+        const conn = connect("c1");
+        await server.onConnect(conn, { request: new Request(url) } as unknown as Party.ConnectionContext);
+        const initial = conn.sent.find((m) => (m as { type: string }).type === "state_update") as { state: PublicGameState };
+        conn.sent.length = 0;
+
+        await server.onMessage(JSON.stringify({ type: "chat_message", requestId: "1", message: "gl all" }), conn);
+        await server.onMessage(JSON.stringify({ type: "join_seat", requestId: "2", seatIndex: 0, displayName: "Alice" }), conn);
+
+        const ofType = (type: string) => conn.sent.filter((m) => (m as { type: string }).type === type);
+        expect(ofType("chat_broadcast")).toMatchObject([{ chatMessage: { message: "gl all" } }]);
+        const patches = ofType("state_patch") as { ops: PatchOp[] }[];
+        expect(patches).toHaveLength(1);
+        expect(patches[0].ops.some((op) => op.path[0] === "chatMessages")).toBe(false);
+
+        const replayed = patches.reduce((state, patch) => applyStatePatch(state, patch.ops), initial.state);
+        expect(replayed).toEqual(toWireState(toPublicGameState(server.state)));
+        expect(server.sentState).toEqual(replayed);
+
+        const late = connect("c2");
+        await server.onConnect(late, { request: new Request(url.replace("ab".repeat(32), "cd".repeat(32))) } as unknown as Party.ConnectionContext);
+        expect(late.sent).toContainEqual({ type: "chat_history", chatMessages: [expect.objectContaining({ message: "gl all" })] });
+    });
+});
@@ -1,81 +1,79 @@
 import type * as Party from "partykit/server";
 import {
     GameState,
+    PublicGameState,
     ClientMessage,
     ServerMessage,
+    CountQuizRecord,
+    CountingSystem,
     ChatMessage,
-    createInitialGameState,
-    createShoe,
-    createEmptySeat,
-    calculateHandValue,
-    isBlackjack,
-    canSplit,
-    canDouble,
-    Hand,
-    Card,
-    Rank,
+    ErrorCode,
+    LegacyRecord,
+    RoundRecord,
+    StrategyDecision,
+    TableRules,
+    TableOccupancyReport,
+    LOBBY_PARTY,
+    LOBBY_ROOM_ID,
+    toPublicGameState,
 } from "../src/lib/gameTypes";
-import { isOptimalAction, Action } from "./basicStrategy";
-
-const INITIAL_CHIPS = 10000;
-const BETTING_TIME = 5000; // 5 seconds - restarts on every bet change
-const TURN_TIME = 10000; // 10 seconds
-const PAYOUT_TIME = 2000; // 2 seconds (reduced from 5 for snappier feel)
-const DEALER_CARD_DELAY = 400; // 400ms between dealer cards (reduced from 800)
-const DEALING_DELAY = 500; // 500ms after dealing before player turns (reduced from 1000)
-
-// Sanitize user input to prevent XSS attacks
-function sanitizeInput(input: string, maxLength: number = 50): string {
-    return input
-        .slice(0, maxLength)
-        .replace(/[<>"'&]/g, '') // Remove HTML special chars
-        .replace(/[\x00-\x1F\x7F]/g, '') // Remove control characters
-        .trim();
-}
-
-// Rate limiter to prevent WebSocket spam attacks
-class RateLimiter {
-    private requests: Map<string, number[]> = new Map();
-    private readonly maxRequests: number;
-    private readonly windowMs: number;
-
-    constructor(maxRequests: number = 20, windowMs: number = 5000) {
-        this.maxRequests = maxRequests;
-        this.windowMs = windowMs;
-    }
-
-    isAllowed(connectionId: string): boolean {
-        const now = Date.now();
-        const timestamps = this.requests.get(connectionId) || [];
-
-        // Filter out old timestamps
-        const recentTimestamps = timestamps.filter(t => now - t < this.windowMs);
-
-        if (recentTimestamps.length >= this.maxRequests) {
-            return false; // Rate limit exceeded
-        }
-
-        recentTimestamps.push(now);
-        this.requests.set(connectionId, recentTimestamps);
-        return true;
-    }
-
-    cleanup(connectionId: string): void {
-        this.requests.delete(connectionId);
-    }
+import { sanitizeInput, RateLimiter, derivePlayerId, isPartyRequest, partyRequestHeaders } from "./utils";
+import { PROTOCOL_VERSION, isTableRuleChanges, parseClientMessage } from "../src/lib/protocol";
+import { diffState, toWireState } from "../src/lib/statePatch";
+import { randomSeed, isValidClientSeed } from "../src/lib/fairness";
+import {
+    RoundRecorder,
+    roundKey,
+    playerRoundsKey,
+    HAND_HISTORY_PAGE_SIZE,
+    MAX_STORED_ROUNDS,
+    MAX_PLAYER_ROUNDS,
+    MAX_PLAYER_DECISIONS,
+    playerDecisionsKey,
+    MAX_COUNT_QUIZZES,
+    countQuizzesKey,
+} from "./handHistory";
+import { COUNT_QUIZ_INTERVAL, getSystemTrueCount, roundTrueCount } from "../src/lib/countingSystems";
+import { EngineAction, EngineDeps, EngineEvent, EngineState, applyAction, createEngineState } from "./engine";
+
+// The engine reads the real clock and draws real server seeds here - tests inject their own
+const engineDeps: EngineDeps = {
+    now: () => Date.now(),
+    randomSeed: () => randomSeed(),
+};
+
+// Why a request was turned down - sent back to the client in its `rejected` reply
+interface Rejection {
+    code: ErrorCode;
+    message: string;
 }
 
+// PartyKit host for the game engine (engine.ts): turns messages into engine actions, runs
+// its timer on the room alarm, and broadcasts, records and persists what comes out.
 export default class BlackjackServer implements Party.Server {
-    state: GameState;
+    engine: EngineState;
     strategyStats: Record<string, { correct: number; total: number }> = {};
+    insuranceStats: Record<string, { correct: number; total: number }> = {}; // Insurance and even money, graded apart
     atmUsage: Record<string, number> = {};
     blackjackCounts: Record<string, number> = {};
-    timerCallback: (() => void) | null = null;
-    bettingTimerStarted: boolean = false;
+    playerNames: Record<string, string> = {}; // Latest display name for each player ID
+    legacyRecords: Record<string, LegacyRecord> = {}; // Unclaimed name-keyed stats from before player IDs
+    playerIds: Map<string, string> = new Map(); // Connection ID -> verified player ID
+    roundRecorder: RoundRecorder = new RoundRecorder();
+    pendingDecisions: Record<string, StrategyDecision[]> = {}; // Graded this round, saved when it's paid
+    countTrainers: Record<string, { system: CountingSystem; rounds: number }> = {}; // Counting trainees and rounds since they joined
+    pendingQuizzes: Record<string, Omit<CountQuizRecord, "runningAnswer" | "trueAnswer">> = {}; // Asked, not yet answered
+    chatMessages: ChatMessage[] = []; // Last 50 - kept out of the patched state, sent as chat_history and chat_broadcast
     rateLimiter: RateLimiter = new RateLimiter(20, 5000); // 20 messages per 5 seconds
+    sentState: PublicGameState | null = null; // The last state sent out, as clients have it - patches are diffed against it
+    stateVersion = 0;
 
     constructor(readonly room: Party.Room) {
-        this.state = createInitialGameState();
+        this.engine = createEngineState(undefined, engineDeps);
+    }
+
+    get state(): GameState {
+        return this.engine.game;
     }
 
     // Load persisted chip balances when server starts
@@ -88,6 +86,10 @@ export default class BlackjackServer implements Party.Server {
         if (storedStats) {
             this.strategyStats = storedStats;
         }
+        const storedInsuranceStats = await this.room.storage.get<Record<string, { correct: number; total: number }>>("insuranceStats");
+        if (storedInsuranceStats) {
+            this.insuranceStats = storedInsuranceStats;
+        }
         const storedAtmUsage = await this.room.storage.get<Record<string, number>>("atmUsage");
         if (storedAtmUsage) {
             this.atmUsage = storedAtmUsage;
@@ -96,254 +98,323 @@ export default class BlackjackServer implements Party.Server {
         if (storedBlackjackCounts) {
             this.blackjackCounts = storedBlackjackCounts;
         }
+        const storedRoundCounter = await this.room.storage.get<number>("roundCounter");
+        if (storedRoundCounter) {
+            this.engine.roundNumber = storedRoundCounter;
+        }
+        const storedNames = await this.room.storage.get<Record<string, string>>("playerNames");
+        if (storedNames) {
+            this.playerNames = storedNames;
+        }
+        await this.migrateNameKeyedRecords();
+        const storedRules = await this.room.storage.get<TableRules>("tableRules");
+        if (storedRules) {
+            await this.dispatch({ type: "set_rules", rules: storedRules });
+        }
     }
 
-    // PartyKit alarm handler - this is how timers work in PartyKit
-    async onAlarm() {
-        if (this.timerCallback) {
-            const callback = this.timerCallback;
-            this.timerCallback = null;
-            callback();
+    // Stats used to be keyed by display name, so anyone typing "Alice" got Alice's bankroll.
+    // On first start after the switch to player IDs, those records are set aside for claiming.
+    async migrateNameKeyedRecords() {
+        const legacyRecords = await this.room.storage.get<Record<string, LegacyRecord>>("legacyRecords");
+        if (legacyRecords) {
+            this.legacyRecords = legacyRecords;
+            return;
         }
-    }
 
-    onConnect(conn: Party.Connection, _ctx: Party.ConnectionContext) {
-        // Send current state to new connection
-        this.sendToConnection(conn, { type: "state_update", state: this.state });
+        const names = new Set([
+            ...Object.keys(this.state.chipBalances),
+            ...Object.keys(this.strategyStats),
+            ...Object.keys(this.atmUsage),
+            ...Object.keys(this.blackjackCounts),
+        ]);
+        for (const name of names) {
+            this.legacyRecords[name] = {
+                chips: this.state.chipBalances[name] ?? 0,
+                strategy: this.strategyStats[name] ?? null,
+                atmUsage: this.atmUsage[name] ?? 0,
+                blackjacks: this.blackjackCounts[name] ?? 0,
+            };
+        }
+
+        this.state.chipBalances = {};
+        this.strategyStats = {};
+        this.atmUsage = {};
+        this.blackjackCounts = {};
+        await this.room.storage.put("legacyRecords", this.legacyRecords);
+        await this.room.storage.put("chipBalances", this.state.chipBalances);
+        await this.room.storage.put("strategyStats", this.strategyStats);
+        await this.room.storage.put("atmUsage", this.atmUsage);
+        await this.room.storage.put("blackjackCounts", this.blackjackCounts);
     }
 
-    onClose(conn: Party.Connection) {
-        // Check if this player was in a seat
-        const seatIndex = this.state.seats.findIndex((s) => s.playerId === conn.id);
-        if (seatIndex !== -1) {
-            const seat = this.state.seats[seatIndex];
-            // Save chip balance before leaving
-            if (seat?.displayName) {
-                this.state.chipBalances[seat.displayName] = seat.chips;
-            }
+    // Rooms are configured over HTTP when they are created: POST { rules } sets the
+    // table rules once, before anyone sits down - only the lobby may (see isPartyRequest).
+    // GET returns the current rules.
+    async onRequest(req: Party.Request) {
+        if (req.method === "GET") {
+            return Response.json({ rules: this.state.rules });
+        }
 
-            // Check if this was the active player during their turn
-            const wasActivePlayer = this.state.phase === "player_turn" && this.state.activePlayerIndex === seatIndex;
+        if (req.method !== "POST") {
+            return new Response("Method not allowed", { status: 405 });
+        }
 
-            // Mark all their hands as forfeited (busted) so they don't hold up the game
-            for (const hand of seat.hands) {
-                if (hand.status === "playing") {
-                    hand.status = "busted";
-                }
-            }
+        if (!isPartyRequest(req, this.room.env)) {
+            return new Response("Forbidden", { status: 403 });
+        }
 
-            this.state.seats[seatIndex] = createEmptySeat();
-
-            // If this was the active player, advance to next player
-            if (wasActivePlayer) {
-                this.state.activePlayerIndex = this.findNextActivePlayer(seatIndex);
-                this.state.activeHandIndex = 0;
-
-                if (this.state.activePlayerIndex === -1) {
-                    // All players done, dealer's turn
-                    this.startDealerTurn();
-                } else {
-                    // Find first active hand for new player
-                    const newSeat = this.state.seats[this.state.activePlayerIndex];
-                    for (let i = 0; i < newSeat.hands.length; i++) {
-                        if (newSeat.hands[i].status === "playing") {
-                            this.state.activeHandIndex = i;
-                            break;
-                        }
-                    }
-                    // Restart turn timer for new active player
-                    this.state.timerEndTime = Date.now() + 10000; // TURN_TIME
-                    this.state.timer = 10000;
-                    this.startTimer(10000, () => this.onTurnTimeout());
-                }
-            }
+        const alreadyConfigured = await this.room.storage.get<TableRules>("tableRules");
+        if (alreadyConfigured || this.state.seats.some((s) => s.playerId !== null)) {
+            return new Response("Table rules are already set", { status: 409 });
         }
 
-        // Remove from spectators
-        this.state.spectators = this.state.spectators.filter((s) => s.id !== conn.id);
+        let body: unknown;
+        try {
+            body = await req.json();
+        } catch (_e) {
+            return new Response("Invalid JSON", { status: 400 });
+        }
 
-        // Cleanup rate limiter for this connection
-        this.rateLimiter.cleanup(conn.id);
+        const rules = typeof body === "object" && body !== null ? (body as { rules?: unknown }).rules : null;
+        if (rules !== undefined && !isTableRuleChanges(rules)) {
+            return new Response("Invalid table rules", { status: 400 });
+        }
+
+        await this.dispatch({ type: "set_rules", rules: rules ?? {} });
+        await this.room.storage.put("tableRules", this.state.rules);
 
-        this.broadcastState();
-        this.checkGameState();
+        return Response.json({ rules: this.state.rules });
+    }
+
+    // PartyKit alarm handler - the engine's one pending timer runs on the room alarm
+    async onAlarm() {
+        await this.dispatch({ type: "timer_expired" });
     }
 
-    onMessage(message: string, sender: Party.Connection) {
-        // Rate limiting check
-        if (!this.rateLimiter.isAllowed(sender.id)) {
-            this.sendToConnection(sender, { type: "error", message: "Too many requests. Please slow down." });
+    async onConnect(conn: Party.Connection, ctx: Party.ConnectionContext) {
+        const params = new URL(ctx.request.url).searchParams;
+
+        // A client built for another version of the protocol can't talk to this room - an
+        // old tab is told to refresh rather than left sending messages we'd turn down
+        if (params.get("v") !== String(PROTOCOL_VERSION)) {
+            this.sendToConnection(conn, {
+                type: "error",
+                code: "protocol_mismatch",
+                message: "This table has been updated. Please refresh the page.",
+            });
+            conn.close();
             return;
         }
 
-        try {
-            const msg: ClientMessage = JSON.parse(message);
-            this.handleMessage(msg, sender);
-        } catch (_e) {
-            this.sendToConnection(sender, { type: "error", message: "Invalid message format" });
+        // Verify the client's identity token before anything else
+        const playerId = await derivePlayerId(params.get("token"));
+        if (!playerId) {
+            this.sendToConnection(conn, { type: "error", code: "unauthorized", message: "Missing or invalid player token" });
+            conn.close();
+            return;
+        }
+        this.playerIds.set(conn.id, playerId);
+        this.sendToConnection(conn, { type: "session", playerId });
+
+        // Back within the grace period - the engine hands the held seat straight back
+        await this.dispatch({ type: "reconnect", playerId }, conn);
+        // Then the whole state, which later patches build on, and the chat so far
+        this.sendFullState(conn);
+        this.sendToConnection(conn, { type: "chat_history", chatMessages: this.chatMessages });
+        this.reportToLobby();
+    }
+
+    async onClose(conn: Party.Connection) {
+        const playerId = this.getPlayerId(conn);
+        this.playerIds.delete(conn.id);
+
+        // Cleanup rate limiter for this connection
+        this.rateLimiter.cleanup(conn.id);
+
+        // The same player can be connected from several tabs - only the last one leaving counts
+        const stillConnected = playerId !== "" && Array.from(this.playerIds.values()).includes(playerId);
+        if (playerId && !stillConnected) {
+            delete this.countTrainers[playerId];
+            delete this.pendingQuizzes[playerId];
+            await this.dispatch({ type: "disconnect", playerId });
+        }
+        this.reportToLobby();
+    }
+
+    // Every message is answered: an ack once it has been carried out, or a rejection saying
+    // why not. The request ID is read even from a message that fails its schema checks.
+    async onMessage(message: string, sender: Party.Connection) {
+        const allowed = this.rateLimiter.isAllowed(sender.id);
+        const parsed = parseClientMessage(message);
+        const requestId = parsed.ok ? parsed.message.requestId : parsed.requestId;
+
+        let rejection: Rejection | null;
+        if (!allowed) {
+            rejection = { code: "rate_limited", message: "Too many requests. Please slow down." };
+        } else if (!this.getPlayerId(sender)) {
+            // Connections that failed the identity check in onConnect get nothing
+            rejection = { code: "unauthorized", message: "Missing or invalid player token" };
+        } else if (!parsed.ok) {
+            rejection = { code: parsed.code, message: parsed.error };
+        } else {
+            rejection = await this.handleMessage(parsed.message, sender);
+        }
+
+        if (requestId === undefined) {
+            if (rejection) this.sendToConnection(sender, { type: "error", ...rejection });
+        } else if (rejection) {
+            this.sendToConnection(sender, { type: "rejected", requestId, ...rejection });
+        } else {
+            this.sendToConnection(sender, { type: "ack", requestId });
         }
     }
 
-    handleMessage(msg: ClientMessage, sender: Party.Connection) {
+    async handleMessage(msg: ClientMessage, sender: Party.Connection): Promise<Rejection | null> {
+        const playerId = this.getPlayerId(sender);
         switch (msg.type) {
             case "request_state":
-                this.sendToConnection(sender, { type: "state_update", state: this.state });
-                break;
+                this.sendFullState(sender);
+                return null;
 
             case "join_seat":
-                this.handleJoinSeat(msg.seatIndex, msg.displayName, sender);
-                break;
+                return this.handleJoinSeat(msg.seatIndex, msg.displayName, sender);
 
             case "leave_seat":
-                this.handleLeaveSeat(sender);
-                break;
+                return this.handleLeaveSeat(msg.seatIndex, sender);
 
             case "spectate":
-                this.handleSpectate(msg.displayName, sender);
-                break;
+                return this.handleSpectate(msg.displayName, sender);
 
             case "place_bet":
-                this.handlePlaceBet(msg.amount, sender);
-                break;
+                return this.refusal(await this.dispatch({ type: "place_bet", playerId, amount: msg.amount, seatIndex: msg.seatIndex }), playerId);
 
             case "clear_bet":
-                this.handleClearBet(sender);
-                break;
+                return this.refusal(await this.dispatch({ type: "clear_bet", playerId, seatIndex: msg.seatIndex }), playerId);
 
             case "hit":
-                this.handleHit(sender);
-                break;
-
             case "stand":
-                this.handleStand(sender);
-                break;
-
             case "double":
-                this.handleDouble(sender);
-                break;
-
             case "split":
-                this.handleSplit(sender);
-                break;
+            case "surrender":
+            case "use_atm":
+                return this.refusal(await this.dispatch({ type: msg.type, playerId }), playerId);
 
             case "insurance":
-                this.handleInsurance(msg.accept, sender);
-                break;
+                return this.refusal(await this.dispatch({ type: "insurance", playerId, accept: msg.accept, seatIndex: msg.seatIndex }), playerId);
 
-            case "surrender":
-                this.handleSurrender(sender);
-                break;
+            case "play_on":
+                return this.refusal(await this.dispatch({ type: "play_on", playerId, seatIndex: msg.seatIndex }), playerId);
+
+            case "queue_action": {
+                // Rebuilt field by field - the schema checks the queued action but passes it on whole
+                const action = msg.action && { action: msg.action.action, minTotal: msg.action.minTotal, maxTotal: msg.action.maxTotal };
+                return this.refusal(await this.dispatch({ type: "queue_action", playerId, action, seatIndex: msg.seatIndex }), playerId);
+            }
+
+            case "queue_insurance":
+                return this.refusal(await this.dispatch({ type: "queue_insurance", playerId, accept: msg.accept, seatIndex: msg.seatIndex }), playerId);
+
+            case "set_autoplay": {
+                const settings = msg.settings && {
+                    profile: msg.settings.profile,
+                    stopLoss: msg.settings.stopLoss,
+                    stopWin: msg.settings.stopWin,
+                    maxRounds: msg.settings.maxRounds,
+                };
+                return this.refusal(await this.dispatch({ type: "set_autoplay", playerId, settings }), playerId);
+            }
+
+            case "place_side_bet":
+                return this.refusal(await this.dispatch({ type: "place_side_bet", playerId, kind: msg.kind, amount: msg.amount, seatIndex: msg.seatIndex }), playerId);
+
+            case "bet_behind":
+                return this.refusal(await this.dispatch({
+                    type: "bet_behind",
+                    playerId,
+                    seatIndex: msg.seatIndex,
+                    amount: msg.amount,
+                    displayName: sanitizeInput(msg.displayName, 12) || "Spectator",
+                }), playerId);
+
+            case "clear_bet_behind":
+                return this.refusal(await this.dispatch({ type: "clear_bet_behind", playerId, seatIndex: msg.seatIndex }), playerId);
 
             case "request_leaderboard":
                 this.handleRequestLeaderboard(sender);
-                break;
+                return null;
 
             case "chat_message":
-                this.handleChatMessage(msg.message, sender);
-                break;
+                return this.handleChatMessage(msg.message, sender);
 
             case "chat_reaction":
-                this.handleChatReaction(msg.messageId, msg.emoji, sender);
-                break;
+                return this.handleChatReaction(msg.messageId, msg.emoji, sender);
 
             case "quick_emote":
-                this.handleQuickEmote(msg.emoji, sender);
-                break;
+                return this.handleQuickEmote(msg.emoji, sender);
 
-            case "use_atm":
-                this.handleUseAtm(sender);
-                break;
+            case "claim_legacy":
+                return this.handleClaimLegacy(msg.name, sender);
 
-            default:
-                this.sendToConnection(sender, { type: "error", message: "Unknown message type" });
-        }
-    }
+            case "set_client_seed":
+                return this.handleSetClientSeed(msg.seed, sender);
 
-    handleJoinSeat(seatIndex: number, displayName: string, sender: Party.Connection) {
-        // Sanitize display name
-        const sanitizedName = sanitizeInput(displayName, 12);
-        if (!sanitizedName) {
-            this.sendToConnection(sender, { type: "error", message: "Invalid name" });
-            return;
-        }
+            case "set_index_plays":
+                return this.refusal(await this.dispatch({ type: "set_index_plays", playerId, enabled: msg.enabled }), playerId);
 
-        if (seatIndex < 0 || seatIndex >= 6) {
-            this.sendToConnection(sender, { type: "error", message: "Invalid seat" });
-            return;
-        }
+            case "request_hand_history":
+                await this.handleRequestHandHistory(msg.before, sender);
+                return null;
 
-        const seat = this.state.seats[seatIndex];
-        if (seat.playerId !== null) {
-            this.sendToConnection(sender, { type: "error", message: "Seat is taken" });
-            return;
-        }
+            case "request_strategy_report":
+                await this.handleRequestStrategyReport(sender);
+                return null;
 
-        // Check if player is already in a seat
-        const existingSeat = this.state.seats.findIndex((s) => s.playerId === sender.id);
-        if (existingSeat !== -1) {
-            this.sendToConnection(sender, { type: "error", message: "Already in a seat" });
-            return;
-        }
+            case "set_count_trainer":
+                await this.handleSetCountTrainer(msg.system, sender);
+                return null;
 
-        // Remove from spectators if they were spectating
-        this.state.spectators = this.state.spectators.filter((s) => s.id !== sender.id);
-
-        // Get or create chip balance for this display name
-        const chips = this.state.chipBalances[sanitizedName] ?? INITIAL_CHIPS;
-        this.state.chipBalances[sanitizedName] = chips;
-
-        // Assign seat
-        this.state.seats[seatIndex] = {
-            playerId: sender.id,
-            displayName: sanitizedName,
-            chips,
-            bet: 0,
-            lastBet: 0,
-            insuranceBet: 0,
-            hands: [],
-            status: "waiting",
-        };
+            case "count_answer":
+                return this.handleCountAnswer(msg.runningCount, msg.trueCount, sender);
 
-        this.broadcastState();
-        this.checkGameState();
+            default:
+                return { code: "unknown_message", message: "Unknown message type" };
+        }
     }
 
-    handleLeaveSeat(sender: Party.Connection) {
-        const seatIndex = this.state.seats.findIndex((s) => s.playerId === sender.id);
-        if (seatIndex === -1) return;
+    // What the engine said when it turned down a player's action, if it did
+    refusal(events: EngineEvent[], playerId: string): Rejection | null {
+        const error = events.find((e) => e.type === "error" && e.playerId === playerId);
+        return error?.type === "error" ? { code: error.code, message: error.message } : null;
+    }
 
-        const seat = this.state.seats[seatIndex];
-        // Save chip balance
-        if (seat.displayName) {
-            this.state.chipBalances[seat.displayName] = seat.chips;
+    async handleJoinSeat(seatIndex: number, displayName: string, sender: Party.Connection): Promise<Rejection | null> {
+        // Sanitize display name
+        const sanitizedName = sanitizeInput(displayName, 12);
+        if (!sanitizedName) {
+            return { code: "invalid_name", message: "Invalid name" };
         }
 
-        this.state.seats[seatIndex] = createEmptySeat();
-        this.broadcastState();
-        this.checkGameState();
+        const playerId = this.getPlayerId(sender);
+        const events = await this.dispatch({ type: "join_seat", playerId, seatIndex, displayName: sanitizedName }, sender);
+        this.reportToLobby();
+        return this.refusal(events, playerId);
+    }
+
+    async handleLeaveSeat(seatIndex: number | undefined, sender: Party.Connection): Promise<Rejection | null> {
+        const playerId = this.getPlayerId(sender);
+        const events = await this.dispatch({ type: "leave_seat", playerId, seatIndex });
+        this.reportToLobby();
+        return this.refusal(events, playerId);
     }
 
-    handleSpectate(displayName: string, sender: Party.Connection) {
+    async handleSpectate(displayName: string, sender: Party.Connection): Promise<Rejection | null> {
         // Sanitize display name
         const sanitizedName = sanitizeInput(displayName, 12) || "Spectator";
 
-        // Remove from any seat first
-        const seatIndex = this.state.seats.findIndex((s) => s.playerId === sender.id);
-        if (seatIndex !== -1) {
-            const seat = this.state.seats[seatIndex];
-            if (seat.displayName) {
-                this.state.chipBalances[seat.displayName] = seat.chips;
-            }
-            this.state.seats[seatIndex] = createEmptySeat();
-        }
-
-        // Add to spectators if not already
-        if (!this.state.spectators.find((s) => s.id === sender.id)) {
-            this.state.spectators.push({ id: sender.id, name: sanitizedName });
-        }
-
-        this.broadcastState();
-        this.checkGameState();
+        await this.dispatch({ type: "spectate", playerId: this.getPlayerId(sender), displayName: sanitizedName });
+        this.reportToLobby();
+        return null;
     }
 
     handleRequestLeaderboard(sender: Party.Connection) {
@@ -352,40 +423,37 @@ export default class BlackjackServer implements Party.Server {
 
         // Also include currently seated players with their live chip counts
         for (const seat of this.state.seats) {
-            if (seat.playerId && seat.displayName) {
-                allBalances[seat.displayName] = seat.chips;
+            if (seat.playerId) {
+                allBalances[seat.playerId] = seat.chips;
             }
         }
 
-        // Calculate adherence percentages
-        const adherence: Record<string, number> = {};
-        for (const [name, stats] of Object.entries(this.strategyStats)) {
-            if (stats.total > 0) {
-                adherence[name] = Math.round((stats.correct / stats.total) * 100);
-            }
-        }
 
+        // Everything is keyed by player ID - names resolve them for display
         this.sendToConnection(sender, {
             type: "leaderboard",
+            names: this.playerNames,
             balances: allBalances,
-            adherence,
+            adherence: adherencePercentages(this.strategyStats),
+            insuranceAdherence: adherencePercentages(this.insuranceStats),
             atmUsage: this.atmUsage,
             blackjackCounts: this.blackjackCounts
         });
     }
 
-    handleChatMessage(message: string, sender: Party.Connection) {
+    handleChatMessage(message: string, sender: Party.Connection): Rejection | null {
         // Sanitize message content
         const sanitizedMessage = sanitizeInput(message, 200);
-        if (!sanitizedMessage) return;
+        if (!sanitizedMessage) return { code: "invalid_message", message: "Message is empty" };
 
         // Find sender name from seat or spectators
         let senderName = "Anonymous";
-        const seat = this.state.seats.find(s => s.playerId === sender.id);
+        const playerId = this.getPlayerId(sender);
+        const seat = this.state.seats.find(s => s.playerId === playerId);
         if (seat?.displayName) {
             senderName = seat.displayName;
         } else {
-            const spectator = this.state.spectators.find(s => s.id === sender.id);
+            const spectator = this.state.spectators.find(s => s.id === playerId);
             if (spectator) {
                 senderName = spectator.name;
             }
@@ -400,23 +468,25 @@ export default class BlackjackServer implements Party.Server {
         };
 
         // Add to state (keep last 50 messages)
-        this.state.chatMessages.push(chatMessage);
-        if (this.state.chatMessages.length > 50) {
-            this.state.chatMessages.shift();
+        this.chatMessages.push(chatMessage);
+        if (this.chatMessages.length > 50) {
+            this.chatMessages.shift();
         }
 
-        // Broadcast to all connections
+        // Broadcast to all connections - chat isn't in the patched state, so this is its only copy
         this.broadcast({ type: "chat_broadcast", chatMessage });
+        return null;
     }
 
-    handleChatReaction(messageId: string, emoji: string, sender: Party.Connection) {
+    handleChatReaction(messageId: string, emoji: string, sender: Party.Connection): Rejection | null {
         // Find sender name
         let senderName = "Anonymous";
-        const seat = this.state.seats.find(s => s.playerId === sender.id);
+        const playerId = this.getPlayerId(sender);
+        const seat = this.state.seats.find(s => s.playerId === playerId);
         if (seat?.displayName) {
             senderName = seat.displayName;
         } else {
-            const spectator = this.state.spectators.find(s => s.id === sender.id);
+            const spectator = this.state.spectators.find(s => s.id === playerId);
             if (spectator) {
                 senderName = spectator.name;
             }
@@ -424,7 +494,7 @@ export default class BlackjackServer implements Party.Server {
 
         // Validate emoji (only allow specific reaction emojis)
         const allowedEmojis = ["👍", "👎", "😂", "🔥", "💰", "🎉"];
-        if (!allowedEmojis.includes(emoji)) return;
+        if (!allowedEmojis.includes(emoji)) return { code: "invalid_message", message: "That reaction isn't available" };
 
         // Broadcast reaction to all
         this.broadcast({
@@ -433,16 +503,17 @@ export default class BlackjackServer implements Party.Server {
             emoji,
             sender: senderName
         });
+        return null;
     }
 
-    handleQuickEmote(emoji: string, sender: Party.Connection) {
+    handleQuickEmote(emoji: string, sender: Party.Connection): Rejection | null {
         // Find sender's seat
-        const seatIndex = this.state.seats.findIndex(s => s.playerId === sender.id);
-        if (seatIndex === -1) return; // Must be seated
+        const seatIndex = this.state.seats.findIndex(s => s.playerId === this.getPlayerId(sender));
+        if (seatIndex === -1) return { code: "not_seated", message: "Take a seat to send emotes" };
 
         // Validate emoji (only allow specific emotes)
         const allowedEmotes = ["🎉", "🔥", "😤", "🍀", "👏", "😎", "💪", "🤯"];
-        if (!allowedEmotes.includes(emoji)) return;
+        if (!allowedEmotes.includes(emoji)) return { code: "invalid_message", message: "That emote isn't available" };
 
         // Broadcast emote to all
         this.broadcast({
@@ -450,880 +521,410 @@ export default class BlackjackServer implements Party.Server {
             seatIndex,
             emoji
         });
+        return null;
     }
 
-    async handleUseAtm(sender: Party.Connection) {
-        const seatIndex = this.state.seats.findIndex(s => s.playerId === sender.id);
-        if (seatIndex === -1) {
-            this.sendToConnection(sender, { type: "error", message: "Must be seated to use ATM" });
-            return;
-        }
-
-        const seat = this.state.seats[seatIndex];
-
-        // Only allow ATM when player has $0
-        if (seat.chips > 0 || seat.bet > 0) {
-            this.sendToConnection(sender, { type: "error", message: "ATM only available when you have $0" });
-            return;
-        }
-
-        // Give $10,000 and track usage
-        seat.chips = INITIAL_CHIPS;
-        if (seat.displayName) {
-            this.atmUsage[seat.displayName] = (this.atmUsage[seat.displayName] || 0) + 1;
-            this.state.chipBalances[seat.displayName] = seat.chips;
-            await this.room.storage.put("atmUsage", this.atmUsage);
+    // Move a name-keyed record onto the caller's player ID. Those records were never protected,
+    // so the first player to claim a name gets it - the same trust they had before, but only once.
+    async handleClaimLegacy(name: string, sender: Party.Connection): Promise<Rejection | null> {
+        const playerId = this.getPlayerId(sender);
+        const sanitizedName = sanitizeInput(name, 12);
+        const legacy = this.legacyRecords[sanitizedName];
+        if (!legacy) {
+            return { code: "nothing_to_claim", message: "Nothing to claim for that name" };
         }
+        delete this.legacyRecords[sanitizedName];
 
-        this.broadcastState();
-    }
+        // Claimed chips are added to whatever the player already has
+        await this.dispatch({ type: "credit_chips", playerId, amount: legacy.chips });
 
-    async handlePlaceBet(amount: number, sender: Party.Connection) {
-        if (this.state.phase !== "betting") {
-            this.sendToConnection(sender, { type: "error", message: "Cannot bet now" });
-            return;
+        if (legacy.strategy) {
+            const stats = this.strategyStats[playerId] ?? { correct: 0, total: 0 };
+            this.strategyStats[playerId] = {
+                correct: stats.correct + legacy.strategy.correct,
+                total: stats.total + legacy.strategy.total,
+            };
         }
-
-        const seatIndex = this.state.seats.findIndex((s) => s.playerId === sender.id);
-        if (seatIndex === -1) {
-            this.sendToConnection(sender, { type: "error", message: "Not in a seat" });
-            return;
+        if (legacy.atmUsage > 0) {
+            this.atmUsage[playerId] = (this.atmUsage[playerId] || 0) + legacy.atmUsage;
         }
-
-        const seat = this.state.seats[seatIndex];
-        if (seat.bet + amount > seat.chips) {
-            this.sendToConnection(sender, { type: "error", message: "Not enough chips" });
-            return;
+        if (legacy.blackjacks > 0) {
+            this.blackjackCounts[playerId] = (this.blackjackCounts[playerId] || 0) + legacy.blackjacks;
         }
 
-        seat.bet += amount;
-        seat.status = "betting";
-
-        // Restart the 5-second timer on every bet change
-        this.bettingTimerStarted = true;
-        this.state.timerEndTime = Date.now() + BETTING_TIME;
-        this.state.timer = BETTING_TIME;
-        await this.startTimer(BETTING_TIME, () => this.onBettingEnd());
+        await this.room.storage.put("legacyRecords", this.legacyRecords);
+        await this.room.storage.put("chipBalances", this.state.chipBalances);
+        await this.room.storage.put("atmUsage", this.atmUsage);
+        await this.room.storage.put("blackjackCounts", this.blackjackCounts);
+        await this.saveStrategyStats();
 
-        this.broadcastState();
+        this.sendToConnection(sender, { type: "legacy_claimed", name: sanitizedName, chips: legacy.chips });
+        return null;
     }
 
-    async handleClearBet(sender: Party.Connection) {
-        if (this.state.phase !== "betting") return;
-
-        const seatIndex = this.state.seats.findIndex((s) => s.playerId === sender.id);
-        if (seatIndex === -1) return;
-
-        const previousBet = this.state.seats[seatIndex].bet;
-        this.state.seats[seatIndex].bet = 0;
-        this.state.seats[seatIndex].lastBet = 0; // Also clear lastBet to prevent auto-bet
-        this.state.seats[seatIndex].status = "waiting";
-
-        // Restart timer if there was a bet change and someone still has a bet
-        if (previousBet > 0 && this.state.seats.some(s => s.bet > 0)) {
-            this.state.timerEndTime = Date.now() + BETTING_TIME;
-            this.state.timer = BETTING_TIME;
-            await this.startTimer(BETTING_TIME, () => this.onBettingEnd());
+    async handleSetClientSeed(seed: string, sender: Party.Connection): Promise<Rejection | null> {
+        const trimmed = seed.trim();
+        if (!isValidClientSeed(trimmed)) {
+            return { code: "invalid_seed", message: "Client seed must be 1-64 letters or digits" };
         }
-
-        this.broadcastState();
+        await this.dispatch({ type: "set_client_seed", playerId: this.getPlayerId(sender), seed: trimmed });
+        return null;
     }
 
-    handleHit(sender: Party.Connection) {
-        if (this.state.phase !== "player_turn") return;
-
-        const seatIndex = this.state.seats.findIndex((s) => s.playerId === sender.id);
-        if (seatIndex === -1 || seatIndex !== this.state.activePlayerIndex) return;
+    // "My hands" - the requester's rounds, newest first, a page at a time
+    async handleRequestHandHistory(before: number | undefined, sender: Party.Connection) {
+        const playerRounds = (await this.room.storage.get<number[]>(playerRoundsKey(this.getPlayerId(sender)))) ?? [];
+        const older = typeof before === "number" ? playerRounds.filter((n) => n < before) : playerRounds;
+        const page = older.slice(-HAND_HISTORY_PAGE_SIZE).reverse();
 
-        const seat = this.state.seats[seatIndex];
-        const hand = seat.hands[this.state.activeHandIndex];
-        if (!hand || hand.status !== "playing") return;
+        const stored = await this.room.storage.get<RoundRecord>(page.map(roundKey));
+        const rounds = page
+            .map((n) => stored.get(roundKey(n)))
+            .filter((r): r is RoundRecord => r !== undefined);
 
-        // Track strategy decision before modifying hand
-        const handCanDouble = canDouble(hand) && seat.chips >= hand.bet;
-        const handCanSplit = canSplit(hand) && seat.hands.length < 4 && seat.chips >= hand.bet;
-        const handCanSurrender = hand.cards.length === 2 && !hand.isSplit;
-        const isOptimal = this.trackStrategyDecision(seat.displayName, "hit", hand, handCanDouble, handCanSplit, handCanSurrender);
-
-        // Broadcast action to all players
-        this.broadcast({ type: "player_action", playerId: sender.id, action: "hit", seatIndex, isOptimal });
-
-        // Deal card
-        const card = this.drawCard();
-        hand.cards.push(card);
-
-        this.broadcast({
-            type: "card_dealt",
-            target: "player",
-            seatIndex,
-            handIndex: this.state.activeHandIndex,
-            card,
+        this.sendToConnection(sender, {
+            type: "hand_history",
+            rounds,
+            hasMore: older.length > page.length,
+            before,
         });
-
-        // Check for bust
-        const { value } = calculateHandValue(hand.cards);
-        if (value > 21) {
-            hand.status = "busted";
-            this.nextPlayerOrHand();
-        } else if (value === 21) {
-            hand.status = "standing";
-            this.nextPlayerOrHand();
-        } else {
-            // Player can continue - reset timer for next action
-            this.state.timerEndTime = Date.now() + TURN_TIME;
-            this.state.timer = TURN_TIME;
-            this.startTimer(TURN_TIME, () => this.onTurnTimeout());
-        }
-
-        this.broadcastState();
     }
 
-    handleStand(sender: Party.Connection) {
-        if (this.state.phase !== "player_turn") return;
-
-        const seatIndex = this.state.seats.findIndex((s) => s.playerId === sender.id);
-        if (seatIndex === -1 || seatIndex !== this.state.activePlayerIndex) return;
-
-        const seat = this.state.seats[seatIndex];
-        const hand = seat.hands[this.state.activeHandIndex];
-        if (!hand || hand.status !== "playing") return;
-
-        // Track strategy decision
-        const handCanDouble = canDouble(hand) && seat.chips >= hand.bet;
-        const handCanSplit = canSplit(hand) && seat.hands.length < 4 && seat.chips >= hand.bet;
-        const handCanSurrender = hand.cards.length === 2 && !hand.isSplit;
-        const isOptimal = this.trackStrategyDecision(seat.displayName, "stand", hand, handCanDouble, handCanSplit, handCanSurrender);
-
-        // Broadcast action to all players
-        this.broadcast({ type: "player_action", playerId: sender.id, action: "stand", seatIndex, isOptimal });
-
-        hand.status = "standing";
-        this.nextPlayerOrHand();
-        this.broadcastState();
+    // The strategy report is worked out by the client from the requester's graded decisions
+    async handleRequestStrategyReport(sender: Party.Connection) {
+        const decisions = (await this.room.storage.get<StrategyDecision[]>(playerDecisionsKey(this.getPlayerId(sender)))) ?? [];
+        this.sendToConnection(sender, { type: "strategy_report", decisions });
     }
 
-    handleSurrender(sender: Party.Connection) {
-        if (this.state.phase !== "player_turn") return;
-
-        const seatIndex = this.state.seats.findIndex((s) => s.playerId === sender.id);
-        if (seatIndex === -1 || seatIndex !== this.state.activePlayerIndex) return;
-
-        const seat = this.state.seats[seatIndex];
-        const hand = seat.hands[this.state.activeHandIndex];
-        if (!hand || hand.status !== "playing") return;
-
-        // Can only surrender on first two cards, not on split hands
-        if (hand.cards.length !== 2 || hand.isSplit) {
-            this.sendToConnection(sender, { type: "error", message: "Cannot surrender now" });
+    // A trainee is quizzed on the count every few rounds, in the system they're learning
+    async handleSetCountTrainer(system: CountingSystem | null, sender: Party.Connection) {
+        const playerId = this.getPlayerId(sender);
+        delete this.pendingQuizzes[playerId];
+        if (system === null) {
+            delete this.countTrainers[playerId];
             return;
         }
-
-        // Track strategy decision
-        const handCanDouble = canDouble(hand) && seat.chips >= hand.bet;
-        const handCanSplit = canSplit(hand) && seat.hands.length < 4 && seat.chips >= hand.bet;
-        const isOptimal = this.trackStrategyDecision(seat.displayName, "surrender", hand, handCanDouble, true, true);
-
-        // Broadcast action to all players
-        this.broadcast({ type: "player_action", playerId: sender.id, action: "surrender", seatIndex, isOptimal });
-
-        // Return half the bet
-        seat.chips += Math.floor(hand.bet / 2);
-        hand.status = "surrendered";
-
-        this.nextPlayerOrHand();
-        this.broadcastState();
-    }
-
-    handleDouble(sender: Party.Connection) {
-        if (this.state.phase !== "player_turn") return;
-
-        const seatIndex = this.state.seats.findIndex((s) => s.playerId === sender.id);
-        if (seatIndex === -1 || seatIndex !== this.state.activePlayerIndex) return;
-
-        const seat = this.state.seats[seatIndex];
-        const hand = seat.hands[this.state.activeHandIndex];
-        if (!hand || !canDouble(hand)) return;
-
-        // Check if player has enough chips for the additional bet (equal to original bet)
-        if (seat.chips < hand.bet) {
-            this.sendToConnection(sender, { type: "error", message: "Not enough chips to double" });
-            return;
+        if (this.countTrainers[playerId]?.system !== system) {
+            this.countTrainers[playerId] = { system, rounds: 0 };
         }
-
-        // Track strategy decision
-        const handCanSplit = canSplit(hand) && seat.hands.length < 4 && seat.chips >= hand.bet;
-        const handCanSurrender = hand.cards.length === 2 && !hand.isSplit;
-        const isOptimal = this.trackStrategyDecision(seat.displayName, "double", hand, true, handCanSplit, handCanSurrender);
-
-        // Broadcast action to all players
-        this.broadcast({ type: "player_action", playerId: sender.id, action: "double", seatIndex, isOptimal });
-
-        // Double the bet - deduct additional chips equal to original bet
-        seat.chips -= hand.bet;
-        hand.bet *= 2;
-        hand.isDoubled = true;
-
-        // Deal one card
-        const card = this.drawCard();
-        hand.cards.push(card);
-
-        this.broadcast({
-            type: "card_dealt",
-            target: "player",
-            seatIndex,
-            handIndex: this.state.activeHandIndex,
-            card,
-        });
-
-        // Check for bust, then auto-stand
-        const { value } = calculateHandValue(hand.cards);
-        hand.status = value > 21 ? "busted" : "standing";
-
-        this.nextPlayerOrHand();
-        this.broadcastState();
+        const quizzes = (await this.room.storage.get<CountQuizRecord[]>(countQuizzesKey(playerId))) ?? [];
+        this.sendToConnection(sender, { type: "count_history", quizzes });
     }
 
-    handleSplit(sender: Party.Connection) {
-        if (this.state.phase !== "player_turn") return;
-
-        const seatIndex = this.state.seats.findIndex((s) => s.playerId === sender.id);
-        if (seatIndex === -1 || seatIndex !== this.state.activePlayerIndex) return;
-
-        const seat = this.state.seats[seatIndex];
-        const hand = seat.hands[this.state.activeHandIndex];
-        if (!hand || !canSplit(hand)) return;
-
-        // Check max splits (4 hands total)
-        if (seat.hands.length >= 4) {
-            this.sendToConnection(sender, { type: "error", message: "Max splits reached" });
-            return;
+    async handleCountAnswer(runningCount: number, trueCount: number | undefined, sender: Party.Connection): Promise<Rejection | null> {
+        const playerId = this.getPlayerId(sender);
+        const pending = this.pendingQuizzes[playerId];
+        if (!pending) {
+            return { code: "no_quiz", message: "No count quiz to answer" };
         }
+        delete this.pendingQuizzes[playerId];
 
-        // Check if player has enough chips
-        if (seat.chips < hand.bet) {
-            this.sendToConnection(sender, { type: "error", message: "Not enough chips to split" });
-            return;
-        }
-
-        // Track strategy decision
-        const handCanDouble = canDouble(hand) && seat.chips >= hand.bet;
-        const handCanSurrender = hand.cards.length === 2 && !hand.isSplit;
-        const isOptimal = this.trackStrategyDecision(seat.displayName, "split", hand, handCanDouble, true, handCanSurrender);
-
-        // Broadcast action to all players
-        this.broadcast({ type: "player_action", playerId: sender.id, action: "split", seatIndex, isOptimal });
-
-        // Deduct chips for new hand
-        seat.chips -= hand.bet;
-
-        // Create new hand with second card
-        const secondCard = hand.cards.pop()!;
-        const newHand: Hand = {
-            cards: [secondCard],
-            bet: hand.bet,
-            status: "playing",
-            isDoubled: false,
-            isSplit: true,
+        const quiz: CountQuizRecord = {
+            ...pending,
+            runningAnswer: Math.round(runningCount),
+            trueAnswer: pending.trueCount !== null && trueCount !== undefined ? roundTrueCount(trueCount) : null,
         };
-
-        hand.isSplit = true;
-
-        // Deal new cards to both hands
-        const card1 = this.drawCard();
-        const card2 = this.drawCard();
-        hand.cards.push(card1);
-        newHand.cards.push(card2);
-
-        // Insert new hand after current
-        seat.hands.splice(this.state.activeHandIndex + 1, 0, newHand);
-
-        // Reset timer to full 10 seconds for the first split hand
-        this.state.timerEndTime = Date.now() + TURN_TIME;
-        this.state.timer = TURN_TIME;
-        this.startTimer(TURN_TIME, () => this.onTurnTimeout());
-
-        this.broadcastState();
-    }
-
-    // Insurance methods
-    async startInsurancePhase() {
-        this.state.phase = "insurance";
-        this.state.timerEndTime = Date.now() + TURN_TIME;
-        this.state.timer = TURN_TIME;
-
-        // Mark all players with bets as needing to decide on insurance
-        // We track this by keeping insuranceBet at 0 - they haven't decided yet
-        // A value of -1 means they declined, >0 means they accepted
-
-        this.broadcastState();
-        await this.startTimer(TURN_TIME, () => this.onInsuranceTimeout());
-    }
-
-    async onInsuranceTimeout() {
-        // Anyone who hasn't decided declines insurance
-        for (const seat of this.state.seats) {
-            if (seat.playerId && seat.bet > 0 && seat.insuranceBet === 0) {
-                seat.insuranceBet = -1; // Declined
-            }
-        }
-        await this.checkInsuranceComplete();
-    }
-
-    handleInsurance(accept: boolean, sender: Party.Connection) {
-        if (this.state.phase !== "insurance") {
-            this.sendToConnection(sender, { type: "error", message: "Insurance not available" });
-            return;
-        }
-
-        const seatIndex = this.state.seats.findIndex((s) => s.playerId === sender.id);
-        if (seatIndex === -1) return;
-
-        const seat = this.state.seats[seatIndex];
-        if (seat.bet <= 0 || seat.insuranceBet !== 0) {
-            // No bet or already decided
-            return;
-        }
-
-        if (accept) {
-            // Insurance costs half the original bet
-            const insuranceCost = Math.floor(seat.bet / 2);
-            if (seat.chips >= insuranceCost) {
-                seat.chips -= insuranceCost;
-                seat.insuranceBet = insuranceCost;
+        const key = countQuizzesKey(playerId);
+        const quizzes = [...((await this.room.storage.get<CountQuizRecord[]>(key)) ?? []), quiz].slice(-MAX_COUNT_QUIZZES);
+        await this.room.storage.put(key, quizzes);
+        this.sendToConnection(sender, { type: "count_result", quiz, quizzes });
+        return null;
+    }
+
+    // Snapshot the counts as the round is paid, and ask the trainees who are due
+    sendCountQuizzes(engine: EngineState) {
+        for (const [playerId, trainer] of Object.entries(this.countTrainers)) {
+            trainer.rounds++;
+            if (trainer.rounds % COUNT_QUIZ_INTERVAL !== 0) continue;
+
+            const runningCount = engine.runningCounts[trainer.system];
+            const trueCount = getSystemTrueCount(trainer.system, runningCount, engine.game.shoe.length);
+            this.pendingQuizzes[playerId] = { at: Date.now(), system: trainer.system, runningCount, trueCount };
+            this.sendToPlayer(playerId, { type: "count_quiz", system: trainer.system, askTrueCount: trueCount !== null });
+        }
+    }
+
+    // Run an action through the engine, then do everything the engine can't: move the
+    // alarm, message players, record the round and persist stats. Errors come back in the
+    // events, for the request that caused them to answer with.
+    // Events are read against the state they came with - another action may land while this awaits.
+    async dispatch(action: EngineAction, sender?: Party.Connection): Promise<EngineEvent[]> {
+        const previousTimer = this.engine.pendingTimer;
+        const { state, events } = applyAction(this.engine, action, engineDeps);
+        this.engine = state;
+
+        const timer = this.engine.pendingTimer;
+        if (timer?.at !== previousTimer?.at || timer?.kind !== previousTimer?.kind) {
+            if (timer) {
+                await this.room.storage.setAlarm(timer.at);
             } else {
-                // Not enough chips - treat as decline
-                seat.insuranceBet = -1;
+                await this.room.storage.deleteAlarm();
             }
-        } else {
-            seat.insuranceBet = -1; // Declined
         }
 
-        this.broadcastState();
-        this.checkInsuranceComplete();
-    }
+        let stateChanged = false;
+        for (const event of events) {
+            switch (event.type) {
+                case "state_changed":
+                    stateChanged = true;
+                    break;
 
-    async checkInsuranceComplete() {
-        // Check if all players with bets have decided
-        const needsDecision = this.state.seats.some(
-            s => s.playerId && s.bet > 0 && s.insuranceBet === 0
-        );
+                case "error":
+                    // A request's own refusal goes back as its rejection - one from a timer
+                    // (e.g. a short bet dropped as betting closes) has no request to answer
+                    if (action.type === "timer_expired") {
+                        this.sendToPlayer(event.playerId, { type: "error", code: event.code, message: event.message });
+                    }
+                    break;
 
-        if (needsDecision) return;
+                case "seat_joined": {
+                    await this.setPlayerName(event.playerId, event.displayName);
+                    // Offer the bankroll saved under this name before player IDs, if nobody has claimed it yet
+                    const legacy = this.legacyRecords[event.displayName];
+                    if (legacy && sender) {
+                        this.sendToConnection(sender, { type: "legacy_record", name: event.displayName, chips: legacy.chips });
+                    }
+                    break;
+                }
 
-        await this.clearTimer();
+                case "round_started":
+                    this.roundRecorder.start(event.roundNumber, state.game, event.chips);
+                    break;
 
-        // Check if dealer has blackjack
-        const dealerHasBJ = isBlackjack(this.state.dealerHand);
+                case "card_dealt":
+                    this.roundRecorder.deal(event.seatIndex, event.handIndex, event.card);
+                    if (event.reason === "hit" || event.reason === "double") {
+                        this.broadcast({
+                            type: "card_dealt",
+                            target: "player",
+                            seatIndex: event.seatIndex ?? undefined,
+                            handIndex: event.handIndex,
+                            card: event.card,
+                        });
+                    }
+                    break;
 
-        if (dealerHasBJ) {
-            // Dealer has blackjack - set phase to prevent player actions
-            this.state.phase = "dealer_turn";
+                case "player_action":
+                    this.roundRecorder.action(event.seatIndex, event.handIndex, event.action, event.isOptimal);
+                    if (event.isOptimal !== undefined) {
+                        this.trackStrategyDecision(event.playerId, event.isOptimal);
+                    }
+                    if (event.decision) {
+                        (this.pendingDecisions[event.playerId] ??= []).push(event.decision);
+                    }
+                    if (event.action !== "timeout") {
+                        this.broadcast({
+                            type: "player_action",
+                            playerId: event.playerId,
+                            action: event.action,
+                            seatIndex: event.seatIndex,
+                            isOptimal: event.isOptimal,
+                            indexPlay: event.indexPlay,
+                        });
+                    }
+                    break;
 
-            // Reveal hole card
-            this.state.dealerHand[1].faceUp = true;
-            this.broadcastState();
+                case "insurance":
+                    this.roundRecorder.insurance(event.seatIndex, event.accepted, event.amount, event.isOptimal);
+                    if (event.isOptimal !== undefined) {
+                        this.trackInsuranceDecision(event.playerId, event.isOptimal);
+                    }
+                    break;
 
-            // Pay out insurance bets (2:1) and notify players
-            for (let seatIndex = 0; seatIndex < this.state.seats.length; seatIndex++) {
-                const seat = this.state.seats[seatIndex];
-                if (seat.insuranceBet > 0) {
-                    // Insurance pays 2:1, so player gets back bet + 2x bet = 3x
-                    const payoutAmount = seat.insuranceBet * 3;
-                    seat.chips += payoutAmount;
+                case "insurance_payout":
+                    this.roundRecorder.insurancePayout(event.seatIndex, event.amount);
+                    this.broadcast({ type: "insurance_payout", seatIndex: event.seatIndex, amount: event.amount });
+                    break;
 
-                    // Notify the player of insurance win
+                case "side_bet_settled":
+                    this.roundRecorder.sideBet(event.seatIndex, event.kind, event.stake, event.result, event.amount);
                     this.broadcast({
-                        type: "insurance_payout",
-                        seatIndex,
-                        amount: payoutAmount
+                        type: "side_bet_payout",
+                        seatIndex: event.seatIndex,
+                        kind: event.kind,
+                        result: event.result,
+                        amount: event.amount > 0 ? event.amount - event.stake : 0,
                     });
-                }
-            }
+                    break;
 
-            // Go directly to payout (dealer blackjack beats all except player blackjacks)
-            await this.startTimer(DEALING_DELAY, () => this.calculatePayouts());
-        } else {
-            // Dealer doesn't have blackjack - insurance bets are lost
-            // Reset insurance flags and continue to player turns
-            for (const seat of this.state.seats) {
-                if (seat.insuranceBet === -1) {
-                    seat.insuranceBet = 0;
-                }
-            }
-            this.broadcastState();
-            await this.startTimer(DEALING_DELAY, () => this.startPlayerTurns());
-        }
-    }
+                case "hole_card_revealed":
+                    this.roundRecorder.reveal();
+                    break;
 
-    drawCard(): Card {
-        if (this.state.shoe.length === 0) {
-            this.reshuffleShoe();
-        }
+                case "payout":
+                    this.roundRecorder.payout(event.seatIndex, event.handIndex, event.result, event.amount);
+                    if (event.result === "blackjack") {
+                        this.blackjackCounts[event.playerId] = (this.blackjackCounts[event.playerId] || 0) + 1;
+                    }
+                    this.broadcast({ type: "payout", seatIndex: event.seatIndex, amount: event.winnings, result: event.result });
+                    break;
 
-        const card = this.state.shoe.pop()!;
+                case "bet_behind_settled":
+                    this.broadcast({ type: "bet_behind_payout", playerId: event.playerId, seatIndex: event.seatIndex, amount: event.winnings, result: event.result });
+                    break;
 
-        // Update Hi-Lo running count
-        // 2-6 = +1, 7-9 = 0, 10-A = -1
-        const rank = card.rank;
-        if (['2', '3', '4', '5', '6'].includes(rank)) {
-            this.state.runningCount += 1;
-        } else if (['10', 'J', 'Q', 'K', 'A'].includes(rank)) {
-            this.state.runningCount -= 1;
-        }
-        // 7, 8, 9 are neutral (0)
+                case "atm_used":
+                    this.atmUsage[event.playerId] = (this.atmUsage[event.playerId] || 0) + 1;
+                    await this.room.storage.put("atmUsage", this.atmUsage);
+                    break;
 
-        // Check if we've passed the cut card
-        if (this.state.shoe.length <= this.state.cutCardIndex) {
-            this.state.needsReshuffle = true;
+                case "round_finished":
+                    // Persist chip balances, strategy stats, and blackjack counts to durable storage
+                    await this.room.storage.put("chipBalances", state.game.chipBalances);
+                    await this.room.storage.put("blackjackCounts", this.blackjackCounts);
+                    await this.saveStrategyStats();
+                    await this.saveStrategyDecisions();
+                    await this.saveRoundRecord(this.roundRecorder.finish(state.game));
+                    this.sendCountQuizzes(state);
+                    break;
+            }
         }
 
-        return { ...card, faceUp: true };
+        if (stateChanged) {
+            this.broadcastState();
+        }
+        return events;
     }
 
-    reshuffleShoe() {
-        this.state.shoe = createShoe(6);
-        this.state.cutCardIndex = Math.floor(this.state.shoe.length * 0.80);
-        this.state.needsReshuffle = false;
-        this.state.runningCount = 0; // Reset count on reshuffle
+    // Count a graded decision towards the player's basic strategy adherence
+    trackStrategyDecision(playerId: string, isOptimal: boolean) {
+        tallyDecision(this.strategyStats, playerId, isOptimal);
     }
 
-    // Track whether player action matches basic strategy - returns isOptimal
-    trackStrategyDecision(
-        displayName: string,
-        playerAction: Action,
-        hand: Hand,
-        canDoubleHand: boolean,
-        canSplitHand: boolean,
-        canSurrenderHand: boolean
-    ): boolean {
-        const dealerUpcard = this.state.dealerHand[0];
-        if (!dealerUpcard) return true;
-
-        const isOptimal = isOptimalAction(
-            playerAction,
-            hand,
-            dealerUpcard,
-            canDoubleHand,
-            canSplitHand,
-            canSurrenderHand
-        );
-
-        if (!this.strategyStats[displayName]) {
-            this.strategyStats[displayName] = { correct: 0, total: 0 };
-        }
-
-        this.strategyStats[displayName].total++;
-        if (isOptimal) {
-            this.strategyStats[displayName].correct++;
-        }
-
-        return isOptimal;
+    // Insurance is offered far less often than a hand is played, so it is kept apart
+    // rather than being lost in the main figure
+    trackInsuranceDecision(playerId: string, isOptimal: boolean) {
+        tallyDecision(this.insuranceStats, playerId, isOptimal);
     }
 
     async saveStrategyStats() {
         await this.room.storage.put("strategyStats", this.strategyStats);
+        await this.room.storage.put("insuranceStats", this.insuranceStats);
     }
 
-    async checkGameState() {
-        const activePlayers = this.state.seats.filter((s) => s.playerId !== null);
-
-        if (activePlayers.length === 0) {
-            // No players, go to waiting
-            this.state.phase = "waiting";
-            await this.clearTimer();
-            this.broadcastState();
-            return;
-        }
-
-        if (this.state.phase === "waiting") {
-            // Start betting phase
-            await this.startBettingPhase();
-        }
-    }
-
-    async startBettingPhase() {
-        // Reshuffle if needed
-        if (this.state.needsReshuffle) {
-            this.reshuffleShoe();
-        }
-
-        // Reset betting timer flag
-        this.bettingTimerStarted = false;
-
-        // Reset player hands and auto-bet previous amount
-        let anyBetsPlaced = false;
-        for (const seat of this.state.seats) {
-            if (seat.playerId) {
-                seat.hands = [];
-                seat.status = "waiting";
-
-                // Auto-bet the previous bet, or max chips if not enough
-                if (seat.lastBet > 0 && seat.chips > 0) {
-                    seat.bet = Math.min(seat.lastBet, seat.chips);
-                    seat.status = "betting";
-                    anyBetsPlaced = true;
-                } else {
-                    seat.bet = 0;
-                }
-            }
-        }
-
-        this.state.dealerHand = [];
-        this.state.phase = "betting";
-        this.state.activePlayerIndex = -1;
-        this.state.activeHandIndex = 0;
-
-        // If we auto-bet, start the timer
-        if (anyBetsPlaced) {
-            this.bettingTimerStarted = true;
-            this.state.timerEndTime = Date.now() + BETTING_TIME;
-            this.state.timer = BETTING_TIME;
-            await this.startTimer(BETTING_TIME, () => this.onBettingEnd());
-        } else {
-            // Don't set timer yet - it starts when first bet is placed
-            this.state.timerEndTime = null;
-            this.state.timer = 0;
+    // Append the round's graded decisions to each player's log, once per round rather than per decision
+    async saveStrategyDecisions() {
+        const pending = this.pendingDecisions;
+        this.pendingDecisions = {};
+        for (const [playerId, decisions] of Object.entries(pending)) {
+            const key = playerDecisionsKey(playerId);
+            const stored = (await this.room.storage.get<StrategyDecision[]>(key)) ?? [];
+            await this.room.storage.put(key, [...stored, ...decisions].slice(-MAX_PLAYER_DECISIONS));
         }
-
-        this.broadcastState();
     }
 
-    onBettingEnd() {
-        // Check which players placed bets
-        const playersWithBets = this.state.seats.filter((s) => s.playerId && s.bet > 0);
+    // Persist a finished round and index it under each player who took part
+    async saveRoundRecord(record: RoundRecord | null) {
+        if (!record) return;
 
-        if (playersWithBets.length === 0) {
-            // No bets, restart betting
-            this.startBettingPhase();
-            return;
+        await this.room.storage.put(roundKey(record.roundNumber), record);
+        await this.room.storage.put("roundCounter", this.engine.roundNumber);
+        if (record.roundNumber > MAX_STORED_ROUNDS) {
+            await this.room.storage.delete(roundKey(record.roundNumber - MAX_STORED_ROUNDS));
         }
 
-        // Deduct bets from chips and start dealing
-        for (const seat of this.state.seats) {
-            if (seat.playerId && seat.bet > 0) {
-                // Save the bet for next round auto-bet
-                seat.lastBet = seat.bet;
-                seat.chips -= seat.bet;
-                seat.hands = [
-                    {
-                        cards: [],
-                        bet: seat.bet,
-                        status: "playing",
-                        isDoubled: false,
-                        isSplit: false,
-                    },
-                ];
-                seat.status = "playing";
+        // Backers find the rounds they had money on in their history too
+        const playerIds = new Set(record.seats.flatMap((seat) => [seat.playerId, ...(seat.betsBehind ?? []).map((b) => b.playerId)]));
+        for (const playerId of playerIds) {
+            const key = playerRoundsKey(playerId);
+            const rounds = (await this.room.storage.get<number[]>(key)) ?? [];
+            if (rounds[rounds.length - 1] !== record.roundNumber) {
+                rounds.push(record.roundNumber);
             }
+            await this.room.storage.put(key, rounds.slice(-MAX_PLAYER_ROUNDS));
         }
-
-        this.dealInitialCards();
     }
 
-    async dealInitialCards() {
-        this.state.phase = "dealing";
-
-        // Deal 2 cards to each player with bet, then 2 to dealer
-        const seatsWithBets = this.state.seats
-            .map((s, i) => ({ seat: s, index: i }))
-            .filter((s) => s.seat.bet > 0);
-
-        // First card to each player
-        for (const { seat } of seatsWithBets) {
-            const card = this.drawCard();
-            seat.hands[0].cards.push(card);
-        }
-
-        // First card to dealer (face up)
-        const dealerCard1 = this.drawCard();
-        this.state.dealerHand.push(dealerCard1);
-
-        // Second card to each player
-        for (const { seat } of seatsWithBets) {
-            const card = this.drawCard();
-            seat.hands[0].cards.push(card);
-        }
-
-        // Second card to dealer (face down - hole card)
-        const dealerCard2 = this.drawCard();
-        dealerCard2.faceUp = false;
-        this.state.dealerHand.push(dealerCard2);
-
-        // Check for player blackjacks
-        for (const { seat } of seatsWithBets) {
-            if (isBlackjack(seat.hands[0].cards)) {
-                seat.hands[0].status = "blackjack";
-            }
-        }
-
-        // Reset insurance bets
-        for (const seat of this.state.seats) {
-            seat.insuranceBet = 0;
-        }
-
-        this.broadcastState();
-
-        // Check if dealer shows Ace - offer insurance
-        if (dealerCard1.rank === "A") {
-            await this.startInsurancePhase();
-        } else {
-            // Check for dealer blackjack (with 10-value showing)
-            const tenValues = ["10", "J", "Q", "K"];
-            if (tenValues.includes(dealerCard1.rank) && isBlackjack(this.state.dealerHand)) {
-                // Dealer has blackjack - set phase to prevent player actions
-                this.state.phase = "dealer_turn";
-                this.state.dealerHand[1].faceUp = true;
-                this.broadcastState();
-                await this.startTimer(DEALING_DELAY, () => this.calculatePayouts());
-            } else {
-                // Normal flow - start player turns
-                await this.startTimer(DEALING_DELAY, () => this.startPlayerTurns());
-            }
+    // Tell the lobby how full this table is. Must be called from a connection or
+    // request handler - room.id and other parties are unavailable inside onAlarm.
+    async reportToLobby() {
+        const report: TableOccupancyReport = {
+            roomId: this.room.id,
+            rules: this.state.rules,
+            seatsTaken: this.state.seats.filter((s) => s.playerId !== null).length,
+            seatCount: this.state.seats.length,
+            connections: Array.from(this.room.getConnections()).length,
+        };
+        try {
+            await this.room.context.parties[LOBBY_PARTY].get(LOBBY_ROOM_ID).fetch({
+                method: "POST",
+                headers: partyRequestHeaders(this.room.env),
+                body: JSON.stringify(report),
+            });
+        } catch {
+            // The lobby listing is informational - a failed report must never affect the game
         }
     }
 
-    async startPlayerTurns() {
-        this.state.phase = "player_turn";
-        this.state.activeHandIndex = 0;
-
-        // Find first player who needs to act
-        this.state.activePlayerIndex = this.findNextActivePlayer(-1);
-
-        if (this.state.activePlayerIndex === -1) {
-            // Everyone has blackjack or no active hands
-            await this.startDealerTurn();
-        } else {
-            this.state.timerEndTime = Date.now() + TURN_TIME;
-            this.state.timer = TURN_TIME;
-            await this.startTimer(TURN_TIME, () => this.onTurnTimeout());
-            this.broadcastState();
-        }
+    // Verified in onConnect - empty for connections that failed the check (onMessage turns those away)
+    getPlayerId(conn: Party.Connection): string {
+        return this.playerIds.get(conn.id) ?? "";
     }
 
-    findNextActivePlayer(currentIndex: number): number {
-        for (let i = currentIndex + 1; i < 6; i++) {
-            const seat = this.state.seats[i];
-            if (seat.playerId && seat.hands.length > 0) {
-                // Check if any hand needs action
-                const hasActiveHand = seat.hands.some((h) => h.status === "playing");
-                if (hasActiveHand) {
-                    return i;
-                }
-            }
-        }
-        return -1;
+    async setPlayerName(playerId: string, displayName: string) {
+        if (this.playerNames[playerId] === displayName) return;
+        this.playerNames[playerId] = displayName;
+        await this.room.storage.put("playerNames", this.playerNames);
     }
 
-    async nextPlayerOrHand() {
-        const seat = this.state.seats[this.state.activePlayerIndex];
-
-        // Check if there are more hands to play for this player
-        for (let i = this.state.activeHandIndex + 1; i < seat.hands.length; i++) {
-            if (seat.hands[i].status === "playing") {
-                this.state.activeHandIndex = i;
-                this.state.timerEndTime = Date.now() + TURN_TIME;
-                this.state.timer = TURN_TIME;
-                await this.startTimer(TURN_TIME, () => this.onTurnTimeout());
-                return;
-            }
-        }
-
-        // Mark player as done
-        seat.status = "done";
-
-        // Find next player
-        this.state.activePlayerIndex = this.findNextActivePlayer(this.state.activePlayerIndex);
-        this.state.activeHandIndex = 0;
-
-        if (this.state.activePlayerIndex === -1) {
-            // All players done, dealer's turn
-            await this.startDealerTurn();
-        } else {
-            // Find first active hand for new player
-            const newSeat = this.state.seats[this.state.activePlayerIndex];
-            for (let i = 0; i < newSeat.hands.length; i++) {
-                if (newSeat.hands[i].status === "playing") {
-                    this.state.activeHandIndex = i;
-                    break;
-                }
-            }
-            this.state.timerEndTime = Date.now() + TURN_TIME;
-            this.state.timer = TURN_TIME;
-            await this.startTimer(TURN_TIME, () => this.onTurnTimeout());
-        }
+    broadcast(msg: ServerMessage) {
+        this.room.broadcast(JSON.stringify(msg));
     }
 
-    onTurnTimeout() {
-        // Auto-stand on timeout
-        const seat = this.state.seats[this.state.activePlayerIndex];
-        if (seat && seat.hands[this.state.activeHandIndex]) {
-            seat.hands[this.state.activeHandIndex].status = "standing";
-            this.nextPlayerOrHand();
-            this.broadcastState();
+    // Sends what changed since the last state went out (public view - no shoe, no hole card).
+    // Messages arrive in order, so every open connection already has the version it patches.
+    broadcastState() {
+        this.state.lastUpdate = Date.now();
+        const next = toWireState(toPublicGameState(this.state));
+        this.stateVersion++;
+        if (this.sentState) {
+            this.broadcast({ type: "state_patch", version: this.stateVersion, ops: diffState(this.sentState, next) });
+        } else {
+            this.broadcast({ type: "state_update", state: next, version: this.stateVersion });
         }
+        this.sentState = next;
     }
 
-    async startDealerTurn() {
-        await this.clearTimer();
-        this.state.phase = "dealer_turn";
-        this.state.activePlayerIndex = -1;
-
-        // Reveal hole card
-        if (this.state.dealerHand[1]) {
-            this.state.dealerHand[1].faceUp = true;
-        }
-
-        this.broadcastState();
-
-        // Check if any players are still in (not all busted)
-        const activePlayers = this.state.seats.filter(
-            (s) => s.playerId && s.hands.some((h) => h.status === "standing" || h.status === "blackjack")
-        );
-
-        if (activePlayers.length === 0) {
-            // All players busted, skip dealer play
-            await this.calculatePayouts();
-            return;
-        }
-
-        // Dealer plays
-        await this.playDealerHand();
+    // The state as last sent out, for a client that has just connected or missed a patch
+    sendFullState(conn: Party.Connection) {
+        this.sentState ??= toWireState(toPublicGameState(this.state));
+        this.sendToConnection(conn, { type: "state_update", state: this.sentState, version: this.stateVersion });
     }
 
-    async playDealerHand() {
-        const { value } = calculateHandValue(this.state.dealerHand);
-
-        // Dealer stands on 17 or higher (including soft 17)
-        if (value >= 17) {
-            this.broadcastState();
-            // Use alarm for delay before payouts
-            await this.startTimer(DEALER_CARD_DELAY, () => this.calculatePayouts());
-            return;
-        }
-
-        // Dealer hits
-        const card = this.drawCard();
-        this.state.dealerHand.push(card);
-        this.broadcastState();
-
-        // Use alarm for delay before next card
-        await this.startTimer(DEALER_CARD_DELAY, () => this.playDealerHand());
+    sendToConnection(conn: Party.Connection, msg: ServerMessage) {
+        conn.send(JSON.stringify(msg));
     }
 
-    async calculatePayouts() {
-        this.state.phase = "payout";
-
-        const { value: dealerValue } = calculateHandValue(this.state.dealerHand);
-        const dealerBusted = dealerValue > 21;
-        const dealerBlackjack = isBlackjack(this.state.dealerHand);
-
-        for (let seatIndex = 0; seatIndex < 6; seatIndex++) {
-            const seat = this.state.seats[seatIndex];
-            if (!seat.playerId) continue;
-
-            for (const hand of seat.hands) {
-                if (hand.status === "busted") {
-                    // Player already lost
-                    this.broadcast({ type: "payout", seatIndex, amount: 0, result: "lose" });
-                    continue;
-                }
-
-                if (hand.status === "surrendered") {
-                    // Player surrendered - already got half bet back, no further payout
-                    this.broadcast({ type: "payout", seatIndex, amount: 0, result: "lose" });
-                    continue;
-                }
-
-                const { value: playerValue } = calculateHandValue(hand.cards);
-                const playerBlackjack = hand.status === "blackjack";
-
-                let payout = 0;
-                let result: "win" | "lose" | "push" | "blackjack" = "lose";
-
-                if (playerBlackjack && dealerBlackjack) {
-                    // Push
-                    payout = hand.bet;
-                    result = "push";
-                } else if (playerBlackjack) {
-                    // Blackjack pays 3:2
-                    payout = hand.bet + Math.floor(hand.bet * 1.5);
-                    result = "blackjack";
-                    // Track blackjack count for this player
-                    this.blackjackCounts[seat.displayName] = (this.blackjackCounts[seat.displayName] || 0) + 1;
-                } else if (dealerBlackjack) {
-                    // Player loses
-                    result = "lose";
-                } else if (dealerBusted) {
-                    // Player wins
-                    payout = hand.bet * 2;
-                    result = "win";
-                } else if (playerValue > dealerValue) {
-                    // Player wins
-                    payout = hand.bet * 2;
-                    result = "win";
-                } else if (playerValue === dealerValue) {
-                    // Push
-                    payout = hand.bet;
-                    result = "push";
-                }
-
-                seat.chips += payout;
-                // For display purposes, show net gain (payout - original bet for push = 0)
-                const displayAmount = result === "push" ? 0 : (result === "lose" ? 0 : payout - hand.bet);
-                this.broadcast({ type: "payout", seatIndex, amount: displayAmount, result });
+    // Every tab the player has open
+    sendToPlayer(playerId: string, msg: ServerMessage) {
+        for (const conn of this.room.getConnections()) {
+            if (this.playerIds.get(conn.id) === playerId) {
+                this.sendToConnection(conn, msg);
             }
-
-            // Save updated chip balance to state
-            this.state.chipBalances[seat.displayName] = seat.chips;
         }
-
-        // Persist chip balances, strategy stats, and blackjack counts to durable storage
-        await this.room.storage.put("chipBalances", this.state.chipBalances);
-        await this.room.storage.put("blackjackCounts", this.blackjackCounts);
-        await this.saveStrategyStats();
-
-        this.state.timerEndTime = Date.now() + PAYOUT_TIME;
-        this.broadcastState();
-
-        // Use alarm to wait then start new round
-        await this.startTimer(PAYOUT_TIME, async () => {
-            // Check if any players still have chips
-            const playersWithChips = this.state.seats.filter((s) => s.playerId && s.chips > 0);
-
-            if (playersWithChips.length > 0) {
-                await this.startBettingPhase();
-            } else {
-                this.state.phase = "waiting";
-                this.broadcastState();
-                await this.checkGameState();
-            }
-        });
-    }
-
-    async startTimer(duration: number, callback: () => void) {
-        await this.clearTimer();
-        this.timerCallback = callback;
-        // Use PartyKit's alarm API for reliable timers
-        await this.room.storage.setAlarm(Date.now() + duration);
     }
+}
 
-    async clearTimer() {
-        this.timerCallback = null;
-        await this.room.storage.deleteAlarm();
-        this.state.timerEndTime = null;
-        this.state.timer = 0;
-    }
+function tallyDecision(stats: Record<string, { correct: number; total: number }>, playerId: string, isOptimal: boolean) {
+    if (!playerId) return;
 
-    broadcast(msg: ServerMessage) {
-        this.room.broadcast(JSON.stringify(msg));
+    if (!stats[playerId]) {
+        stats[playerId] = { correct: 0, total: 0 };
     }
 
-    broadcastState() {
-        this.state.lastUpdate = Date.now();
-        this.broadcast({ type: "state_update", state: this.state });
+    stats[playerId].total++;
+    if (isOptimal) {
+        stats[playerId].correct++;
     }
+}
 
-    sendToConnection(conn: Party.Connection, msg: ServerMessage) {
-        conn.send(JSON.stringify(msg));
+// Share of graded decisions that were right, as whole percentages
+function adherencePercentages(stats: Record<string, { correct: number; total: number }>): Record<string, number> {
+    const adherence: Record<string, number> = {};
+    for (const [playerId, { correct, total }] of Object.entries(stats)) {
+        if (total > 0) {
+            adherence[playerId] = Math.round((correct / total) * 100);
+        }
     }
+    return adherence;
 }
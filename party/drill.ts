@@ -0,0 +1,185 @@
+import type * as Party from "partykit/server";
+import {
+    DrillHand,
+    DrillKind,
+    DrillMode,
+    DrillServerMessage,
+    DrillStats,
+    PlayAction,
+    TableRules,
+    normalizeTableRules,
+} from "../src/lib/gameTypes";
+import { DRILLS, dealDrillHand, explainDrillAnswer, getDrillAnswer, isDrillAvailable } from "../src/lib/drills";
+import { RateLimiter, derivePlayerId } from "./utils";
+import { parseDrillMessage } from "../src/lib/protocol";
+
+interface DrillSession {
+    playerId: string;
+    kind: DrillKind;
+    mode: DrillMode;
+    rules: TableRules;
+    hand: DrillHand | null; // Waiting for an answer
+    retrying: boolean; // A blocked hand being played again - not scored a second time
+    streak: number;
+}
+
+function drillStatsKey(playerId: string): string {
+    return `drillStats:${playerId}`;
+}
+
+// Practice room - every connection runs its own drill. Hands are dealt straight from the
+// drill's chart cells rather than a shoe, and no chips are involved: results are stored
+// here, apart from the table rooms' chip balances and strategy stats.
+export default class DrillServer implements Party.Server {
+    sessions: Map<string, DrillSession> = new Map(); // Connection ID -> drill in progress
+    playerIds: Map<string, string> = new Map(); // Connection ID -> verified player ID
+    rateLimiter: RateLimiter = new RateLimiter(30, 5000); // Rapid-fire, but not a flood
+
+    constructor(readonly room: Party.Room) { }
+
+    async onConnect(conn: Party.Connection, ctx: Party.ConnectionContext) {
+        const token = new URL(ctx.request.url).searchParams.get("token");
+        const playerId = await derivePlayerId(token);
+        if (!playerId) {
+            this.sendToConnection(conn, { type: "error", message: "Missing or invalid player token" });
+            conn.close();
+            return;
+        }
+        this.playerIds.set(conn.id, playerId);
+        this.sendToConnection(conn, { type: "drill_stats", stats: await this.loadStats(playerId) });
+    }
+
+    onClose(conn: Party.Connection) {
+        this.sessions.delete(conn.id);
+        this.playerIds.delete(conn.id);
+        this.rateLimiter.cleanup(conn.id);
+    }
+
+    async onMessage(message: string, sender: Party.Connection) {
+        if (!this.rateLimiter.isAllowed(sender.id)) {
+            this.sendToConnection(sender, { type: "error", message: "Too many requests. Please slow down." });
+            return;
+        }
+
+        const playerId = this.playerIds.get(sender.id);
+        if (!playerId) {
+            this.sendToConnection(sender, { type: "error", message: "Missing or invalid player token" });
+            return;
+        }
+
+        // Checked against the drill messages' schema, as the table room checks its own
+        const parsed = parseDrillMessage(message);
+        if (!parsed.ok) {
+            this.sendToConnection(sender, { type: "error", message: parsed.error });
+            return;
+        }
+
+        const msg = parsed.message;
+        switch (msg.type) {
+            case "drill_start":
+                this.handleStart(playerId, msg.kind, msg.mode, msg.rules, sender);
+                break;
+
+            case "drill_answer":
+                await this.handleAnswer(msg.action, sender);
+                break;
+
+            case "drill_next":
+                this.dealNext(sender);
+                break;
+        }
+    }
+
+    handleStart(playerId: string, kind: DrillKind, mode: DrillMode, rules: Partial<TableRules> | undefined, sender: Party.Connection) {
+        if (!Object.hasOwn(DRILLS, kind)) {
+            this.sendToConnection(sender, { type: "error", message: "Unknown drill" });
+            return;
+        }
+        const drillRules = normalizeTableRules(rules);
+        if (!isDrillAvailable(kind, drillRules)) {
+            this.sendToConnection(sender, { type: "error", message: "Those rules don't allow surrender" });
+            return;
+        }
+
+        this.sessions.set(sender.id, {
+            playerId,
+            kind,
+            mode: mode === "block" ? "block" : "flag",
+            rules: drillRules,
+            hand: null,
+            retrying: false,
+            streak: 0,
+        });
+        this.dealNext(sender);
+    }
+
+    dealNext(sender: Party.Connection) {
+        const session = this.sessions.get(sender.id);
+        if (!session) {
+            this.sendToConnection(sender, { type: "error", message: "Start a drill first" });
+            return;
+        }
+        if (session.retrying) {
+            this.sendToConnection(sender, { type: "error", message: "Play this hand right before moving on" });
+            return;
+        }
+
+        session.hand = dealDrillHand(session.kind, session.rules);
+        this.sendToConnection(sender, { type: "drill_hand", kind: session.kind, rules: session.rules, hand: session.hand });
+    }
+
+    async handleAnswer(action: PlayAction, sender: Party.Connection) {
+        const session = this.sessions.get(sender.id);
+        const hand = session?.hand;
+        if (!session || !hand) {
+            this.sendToConnection(sender, { type: "error", message: "No hand to play" });
+            return;
+        }
+        if ((action === "double" && !hand.canDouble) || (action === "split" && !hand.canSplit) ||
+            (action === "surrender" && !hand.canSurrender)) {
+            this.sendToConnection(sender, { type: "error", message: `Can't ${action} this hand` });
+            return;
+        }
+
+        const correct = getDrillAnswer(hand, session.rules);
+        const isCorrect = action === correct;
+
+        // Blocked hands stay up until they're played right - only the first try is scored
+        const scored = !session.retrying;
+        const retry = !isCorrect && session.mode === "block";
+        session.hand = retry ? hand : null;
+        session.retrying = retry;
+        if (scored) {
+            session.streak = isCorrect ? session.streak + 1 : 0;
+        }
+
+        const stats = await this.loadStats(session.playerId);
+        if (scored) {
+            const kindStats = stats[session.kind] ?? { correct: 0, total: 0, bestStreak: 0 };
+            kindStats.total++;
+            if (isCorrect) kindStats.correct++;
+            kindStats.bestStreak = Math.max(kindStats.bestStreak, session.streak);
+            stats[session.kind] = kindStats;
+            await this.room.storage.put(drillStatsKey(session.playerId), stats);
+        }
+
+        this.sendToConnection(sender, {
+            type: "drill_result",
+            action,
+            correct,
+            isCorrect,
+            explanation: explainDrillAnswer(hand, session.rules),
+            retry,
+            streak: session.streak,
+            stats,
+        });
+    }
+
+    async loadStats(playerId: string): Promise<DrillStats> {
+        return (await this.room.storage.get<DrillStats>(drillStatsKey(playerId))) ?? {};
+    }
+
+    sendToConnection(conn: Party.Connection, msg: DrillServerMessage) {
+        conn.send(JSON.stringify(msg));
+    }
+}
@@ -0,0 +1,741 @@
+import { describe, expect, it } from "vitest";
+import { Card, Rank, TableRules, normalizeTableRules, toPublicGameState } from "../src/lib/gameTypes";
+import {
+    EngineAction,
+    EngineDeps,
+    EngineEvent,
+    EngineState,
+    RECONNECT_GRACE,
+    applyAction,
+    createEngineState,
+} from "./engine";
+import { RoundRecorder } from "./handHistory";
+
+const ALICE = "alice-id";
+const BOB = "bob-id";
+
+// A table driven by a fake clock and counter-based seeds, so every run is the same
+function createTable(rules: Partial<TableRules> = {}) {
+    let clock = 1_000_000;
+    let seeds = 0;
+    const deps: EngineDeps = {
+        now: () => clock,
+        randomSeed: () => `server-seed-${++seeds}`,
+    };
+
+    let state: EngineState = createEngineState(normalizeTableRules(rules), deps);
+    const events: EngineEvent[] = [];
+
+    const table = {
+        get state() {
+            return state;
+        },
+        get game() {
+            return state.game;
+        },
+        events,
+
+        dispatch(action: EngineAction): EngineEvent[] {
+            const result = applyAction(state, action, deps);
+            state = result.state;
+            events.push(...result.events);
+            return result.events;
+        },
+
+        advance(ms: number) {
+            clock += ms;
+        },
+
+        // Fire the pending timer as the host's alarm would
+        expire(): EngineEvent[] {
+            if (!state.pendingTimer) throw new Error("No timer pending");
+            clock = Math.max(clock, state.pendingTimer.at);
+            return table.dispatch({ type: "timer_expired" });
+        },
+
+        // Put these cards on top of the shoe, first dealt first. Marking the shoe as
+        // finalized stops the first deal from reshuffling it with the players' seeds.
+        stack(ranks: Rank[]) {
+            const cards: Card[] = ranks.map((rank) => ({ rank, suit: "spades", faceUp: true }));
+            state.game.shoeFairness!.clientSeeds = [];
+            state.game.shoe = [...state.game.shoe.slice(0, 200), ...cards.reverse()];
+        },
+
+        // Seat the players, take their bets and deal
+        deal(bets: [playerId: string, seatIndex: number, amount: number][]) {
+            for (const [playerId, seatIndex] of bets) {
+                table.dispatch({ type: "join_seat", playerId, seatIndex, displayName: playerId });
+            }
+            for (const [playerId, , amount] of bets) {
+                table.dispatch({ type: "place_bet", playerId, amount });
+            }
+            table.expire();
+        },
+
+        // Run timers until the round is paid out
+        finishRound() {
+            while (state.pendingTimer && state.pendingTimer.kind !== "next_round") {
+                table.expire();
+            }
+        },
+
+        payouts() {
+            return events.filter((e) => e.type === "payout");
+        },
+    };
+    return table;
+}
+
+describe("engine", () => {
+    it("never modifies the state it is given", () => {
+        const table = createTable();
+        table.dispatch({ type: "join_seat", playerId: ALICE, seatIndex: 0, displayName: "Alice" });
+        const before = structuredClone(table.state);
+
+        const result = applyAction(table.state, { type: "place_bet", playerId: ALICE, amount: 100 }, {
+            now: () => 0,
+            randomSeed: () => "unused",
+        });
+
+        expect(table.state).toEqual(before);
+        expect(result.state.game.seats[0].bet).toBe(100);
+    });
+
+    it("plays the same game for the same inputs", () => {
+        const play = () => {
+            const table = createTable();
+            table.deal([[ALICE, 0, 100], [BOB, 3, 250]]);
+            while (table.game.phase !== "payout") {
+                if (table.game.phase === "player_turn") {
+                    const seat = table.game.seats[table.game.activePlayerIndex];
+                    table.dispatch({ type: "stand", playerId: seat.playerId! });
+                } else if (table.game.phase === "insurance") {
+                    table.dispatch({ type: "insurance", playerId: ALICE, accept: false });
+                    table.dispatch({ type: "insurance", playerId: BOB, accept: false });
+                } else {
+                    table.expire();
+                }
+            }
+            return table.state;
+        };
+
+        expect(play()).toEqual(play());
+    });
+
+    it("reports a rule violation as an error event", () => {
+        const table = createTable();
+        table.dispatch({ type: "join_seat", playerId: ALICE, seatIndex: 0, displayName: "Alice" });
+
+        const events = table.dispatch({ type: "join_seat", playerId: BOB, seatIndex: 0, displayName: "Bob" });
+
+        expect(events).toEqual([{ type: "error", playerId: BOB, code: "seat_taken", message: "Seat is taken" }]);
+    });
+
+    it("tells a player who acts out of turn why nothing happened", () => {
+        const table = createTable();
+        table.stack(["10", "9", "7", "8", "6", "10"]);
+        table.deal([[ALICE, 0, 100], [BOB, 1, 100]]);
+        table.expire();
+
+        const events = table.dispatch({ type: "hit", playerId: BOB });
+
+        expect(events).toEqual([{ type: "error", playerId: BOB, code: "not_your_turn", message: "It's not your turn" }]);
+        expect(table.game.seats[1].hands[0].cards).toHaveLength(2);
+    });
+
+    it("turns down bets that aren't whole chips or fall outside the table limits", () => {
+        const table = createTable({ minBet: 25, maxBet: 500 });
+        table.dispatch({ type: "join_seat", playerId: ALICE, seatIndex: 0, displayName: "Alice" });
+        const bet = (amount: number) => table.dispatch({ type: "place_bet", playerId: ALICE, amount })[0];
+
+        expect(bet(NaN)).toMatchObject({ type: "error", code: "invalid_amount" });
+        expect(bet(12.5)).toMatchObject({ type: "error", code: "invalid_amount" });
+        expect(bet(-50)).toMatchObject({ type: "error", code: "invalid_amount" });
+        // A $10 chip on its own is short of the minimum, but the bet can still be built up from it
+        expect(bet(10)).toEqual({ type: "state_changed" });
+        expect(bet(10)).toEqual({ type: "state_changed" });
+        expect(bet(10)).toEqual({ type: "state_changed" });
+        expect(bet(500)).toMatchObject({ type: "error", code: "above_maximum" });
+        expect(table.game.seats[0].bet).toBe(30);
+    });
+
+    it("drops bets still short of the minimum when betting closes", () => {
+        const table = createTable({ minBet: 25, maxBet: 500 });
+        table.dispatch({ type: "join_seat", playerId: ALICE, seatIndex: 0, displayName: "Alice" });
+        table.dispatch({ type: "join_seat", playerId: BOB, seatIndex: 1, displayName: "Bob" });
+        table.dispatch({ type: "place_bet", playerId: ALICE, amount: 10 });
+        table.dispatch({ type: "place_side_bet", playerId: ALICE, kind: "perfectPairs", amount: 5 });
+        table.dispatch({ type: "place_bet", playerId: BOB, amount: 40 });
+
+        expect(table.expire()).toContainEqual({ type: "error", playerId: ALICE, code: "below_minimum", message: "Bets at this table are $25 - $500" });
+        expect(table.game.seats[0]).toMatchObject({ bet: 0, hands: [], sideBets: { perfectPairs: 0 } });
+        expect(table.game.seats[1].hands[0].bet).toBe(40);
+        expect(table.game.seats[0].chips).toBe(10000);
+    });
+
+    it("keeps the auto-rebet within the table limits", () => {
+        const table = createTable({ minBet: 25, maxBet: 500 });
+        table.deal([[ALICE, 0, 500]]);
+        table.dispatch({ type: "stand", playerId: ALICE });
+        table.finishRound();
+        table.dispatch({ type: "set_rules", rules: { minBet: 25, maxBet: 200 } });
+        table.expire();
+
+        expect(table.game.phase).toBe("betting");
+        expect(table.game.seats[0].bet).toBe(200);
+    });
+
+    it("doubles for one card at twice the bet", () => {
+        const table = createTable();
+        table.stack(["5", "9", "6", "7", "10", "Q"]);
+        table.deal([[ALICE, 0, 100]]);
+        table.expire();
+
+        table.dispatch({ type: "double", playerId: ALICE });
+        const hand = table.game.seats[0].hands[0];
+        expect(hand.bet).toBe(200);
+        expect(hand.cards).toHaveLength(3);
+        expect(hand.status).toBe("standing");
+
+        // Dealer 16 draws the queen and busts
+        table.finishRound();
+        expect(table.payouts()).toMatchObject([{ result: "win", amount: 400, winnings: 200 }]);
+        expect(table.game.seats[0].chips).toBe(10200);
+    });
+
+    it("splits a pair into two hands that play one after the other", () => {
+        const table = createTable();
+        table.stack(["8", "6", "8", "10", "3", "J", "9"]);
+        table.deal([[ALICE, 0, 100]]);
+        table.expire();
+
+        table.dispatch({ type: "split", playerId: ALICE });
+        const seat = table.game.seats[0];
+        expect(seat.hands.map((h) => h.cards.map((c) => c.rank))).toEqual([["8", "3"], ["8", "J"]]);
+        expect(seat.chips).toBe(9800);
+        expect(table.game.activeHandIndex).toBe(0);
+
+        table.dispatch({ type: "stand", playerId: ALICE });
+        expect(table.game.activeHandIndex).toBe(1);
+        table.dispatch({ type: "stand", playerId: ALICE });
+
+        table.finishRound();
+        expect(table.payouts().map((p) => p.result)).toEqual(["win", "win"]);
+        expect(table.game.seats[0].chips).toBe(10200);
+    });
+
+    it("pays a bet behind with the hand it backs, following the owner's split", () => {
+        const table = createTable();
+        table.stack(["8", "6", "8", "10", "3", "J", "9"]);
+        table.dispatch({ type: "join_seat", playerId: ALICE, seatIndex: 0, displayName: "Alice" });
+
+        const early = table.dispatch({ type: "bet_behind", playerId: BOB, seatIndex: 0, amount: 100, displayName: "Bob" });
+        expect(early).toEqual([{ type: "error", playerId: BOB, code: "no_bet", message: "That seat has no bet yet" }]);
+
+        table.dispatch({ type: "place_bet", playerId: ALICE, amount: 100 });
+        const own = table.dispatch({ type: "bet_behind", playerId: ALICE, seatIndex: 0, amount: 100, displayName: "Alice" });
+        expect(own).toEqual([{ type: "error", playerId: ALICE, code: "own_seat", message: "Cannot bet behind your own seat" }]);
+
+        // Bob isn't seated - he backs Alice from the rail and is taken as a spectator
+        table.dispatch({ type: "bet_behind", playerId: BOB, seatIndex: 0, amount: 100, displayName: "Bob" });
+        expect(table.game.spectators).toEqual([{ id: BOB, name: "Bob" }]);
+        table.expire();
+        expect(table.game.chipBalances[BOB]).toBe(9900);
+        table.expire();
+
+        table.dispatch({ type: "split", playerId: ALICE });
+        expect(table.game.seats[0].betsBehind[0].stakes).toEqual([100, 100]);
+        expect(table.game.chipBalances[BOB]).toBe(9800);
+        table.dispatch({ type: "stand", playerId: ALICE });
+        table.dispatch({ type: "stand", playerId: ALICE });
+
+        table.finishRound();
+        expect(table.events.filter((e) => e.type === "bet_behind_settled")).toMatchObject([
+            { playerId: BOB, handIndex: 0, result: "win", stake: 100, amount: 200, winnings: 100 },
+            { playerId: BOB, handIndex: 1, result: "win", stake: 100, amount: 200, winnings: 100 },
+        ]);
+        expect(table.game.chipBalances[BOB]).toBe(10200);
+        expect(table.game.seats[0].chips).toBe(10200);
+    });
+
+    it("plays several spots for one player from one bankroll", () => {
+        const table = createTable();
+        table.stack(["10", "9", "6", "7", "8", "10", "K"]);
+        table.dispatch({ type: "join_seat", playerId: ALICE, seatIndex: 0, displayName: "Alice" });
+        table.dispatch({ type: "join_seat", playerId: ALICE, seatIndex: 2, displayName: "Alice" });
+        table.dispatch({ type: "join_seat", playerId: ALICE, seatIndex: 4, displayName: "Alice" });
+        const fourth = table.dispatch({ type: "join_seat", playerId: ALICE, seatIndex: 5, displayName: "Alice" });
+        expect(fourth).toEqual([{ type: "error", playerId: ALICE, code: "too_many_spots", message: "You can play at most 3 spots" }]);
+        table.dispatch({ type: "leave_seat", playerId: ALICE, seatIndex: 4 });
+
+        table.dispatch({ type: "place_bet", playerId: ALICE, amount: 100, seatIndex: 0 });
+        table.dispatch({ type: "place_bet", playerId: ALICE, amount: 200, seatIndex: 2 });
+        table.expire();
+        expect(table.game.seats.map((s) => s.chips)).toEqual([9700, 0, 9700, 0, 0, 0]);
+        table.expire();
+
+        // The turn moves from one of Alice's spots to the other
+        expect(table.game.activePlayerIndex).toBe(0);
+        table.dispatch({ type: "stand", playerId: ALICE });
+        expect(table.game.activePlayerIndex).toBe(2);
+        table.dispatch({ type: "stand", playerId: ALICE });
+
+        // Dealer 16 draws the king and busts
+        table.finishRound();
+        expect(table.payouts()).toMatchObject([{ seatIndex: 0, result: "win" }, { seatIndex: 2, result: "win" }]);
+        expect(table.game.seats[0].chips).toBe(10300);
+        expect(table.game.seats[2].chips).toBe(10300);
+        expect(table.game.chipBalances[ALICE]).toBe(10300);
+    });
+
+    it("gives split aces one card each when the table says so", () => {
+        const table = createTable({ hitSplitAces: false });
+        table.stack(["A", "6", "A", "10", "5", "9", "K"]);
+        table.deal([[ALICE, 0, 100]]);
+        table.expire();
+
+        table.dispatch({ type: "split", playerId: ALICE });
+
+        expect(table.game.seats[0].hands.map((h) => h.status)).toEqual(["standing", "standing"]);
+        expect(table.game.phase).toBe("dealer_turn");
+    });
+
+    it("pays insurance 2:1 when the dealer has blackjack", () => {
+        const table = createTable();
+        table.stack(["10", "A", "9", "K"]);
+        table.deal([[ALICE, 0, 100]]);
+        expect(table.game.phase).toBe("insurance");
+
+        table.dispatch({ type: "insurance", playerId: ALICE, accept: true });
+        expect(table.events).toContainEqual({ type: "insurance_payout", seatIndex: 0, amount: 150 });
+
+        table.finishRound();
+        expect(table.payouts()).toMatchObject([{ result: "lose", amount: 0 }]);
+        // Lost the hand, won it back on insurance
+        expect(table.game.seats[0].chips).toBe(10000);
+    });
+
+    it("plays a queued decision the moment the seat's turn comes", () => {
+        const table = createTable();
+        table.stack(["10", "9", "7", "8", "6", "10", "5"]);
+        table.deal([[ALICE, 0, 100], [BOB, 1, 100]]);
+        table.expire();
+
+        table.dispatch({ type: "queue_action", playerId: BOB, action: { action: "hit" } });
+        expect(table.dispatch({ type: "queue_action", playerId: ALICE, action: { action: "stand" } })).toMatchObject([
+            { type: "error", code: "wrong_phase" },
+        ]);
+
+        table.dispatch({ type: "stand", playerId: ALICE });
+        const seat = table.game.seats[1];
+        expect(seat.hands[0].cards.map((c) => c.rank)).toEqual(["9", "6", "5"]);
+        expect(seat.queuedAction).toBeNull();
+        expect(table.game.activePlayerIndex).toBe(1); // Still Bob's turn on 20
+    });
+
+    it("drops a queued decision the hand doesn't fit", () => {
+        const table = createTable();
+        table.stack(["10", "9", "7", "8", "6", "10"]);
+        table.deal([[ALICE, 0, 100], [BOB, 1, 100]]);
+        table.expire();
+
+        table.dispatch({ type: "queue_action", playerId: BOB, action: { action: "stand", minTotal: 17 } });
+        table.dispatch({ type: "stand", playerId: ALICE });
+
+        // Bob has 15, so he decides for himself
+        expect(table.game.activePlayerIndex).toBe(1);
+        expect(table.game.seats[1].hands[0].status).toBe("playing");
+        expect(table.game.seats[1].queuedAction).toBeNull();
+    });
+
+    it("leaves the hole card out of the public count until it is revealed", () => {
+        const table = createTable();
+        // 9 and 7 for Alice, ace up and a king in the hole for the dealer
+        table.stack(["9", "A", "7", "K"]);
+        table.deal([[ALICE, 0, 100]]);
+        expect(table.game.phase).toBe("insurance");
+
+        // Only the 9, ace and 7 are showing
+        expect(toPublicGameState(table.game).runningCount).toBe(-1);
+
+        table.dispatch({ type: "insurance", playerId: ALICE, accept: false });
+        expect(table.game.dealerHand[1].faceUp).toBe(true);
+        expect(toPublicGameState(table.game).runningCount).toBe(-2);
+    });
+
+    it("answers insurance queued before the deal as soon as the ace shows", () => {
+        const table = createTable();
+        table.stack(["10", "A", "9", "5"]);
+        table.dispatch({ type: "join_seat", playerId: ALICE, seatIndex: 0, displayName: "Alice" });
+        table.dispatch({ type: "place_bet", playerId: ALICE, amount: 100 });
+        table.dispatch({ type: "queue_insurance", playerId: ALICE, accept: false });
+        table.expire();
+
+        expect(table.events).toContainEqual(expect.objectContaining({ type: "insurance", seatIndex: 0, accepted: false }));
+        expect(table.state.pendingTimer?.kind).toBe("start_turns");
+    });
+
+    it("plays a player's hands on autoplay, ungraded, until its round limit", () => {
+        const table = createTable();
+        table.stack(["5", "2", "7", "10", "8"]);
+        table.deal([[ALICE, 0, 100]]);
+        table.dispatch({ type: "set_autoplay", playerId: ALICE, settings: { profile: "basic_strategy", stopLoss: null, stopWin: null, maxRounds: 1 } });
+        table.expire();
+
+        // 12 against a 2 hits, 20 stands
+        expect(table.game.seats[0].hands[0].cards.map((c) => c.rank)).toEqual(["5", "7", "8"]);
+        const actions = table.events.filter((e) => e.type === "player_action");
+        expect(actions.map((e) => e.action)).toEqual(["hit", "stand"]);
+        expect(actions.every((e) => e.isOptimal === undefined && e.decision === undefined)).toBe(true);
+
+        table.finishRound();
+        expect(table.game.autoplay[ALICE]).toBeUndefined();
+    });
+
+    it("declines insurance straight away on autoplay", () => {
+        const table = createTable();
+        table.stack(["10", "A", "9", "5"]);
+        table.dispatch({ type: "join_seat", playerId: ALICE, seatIndex: 0, displayName: "Alice" });
+        table.dispatch({ type: "set_autoplay", playerId: ALICE, settings: { profile: "decline_insurance", stopLoss: null, stopWin: null, maxRounds: null } });
+        table.dispatch({ type: "place_bet", playerId: ALICE, amount: 100 });
+        table.expire();
+
+        expect(table.events).toContainEqual({ type: "insurance", playerId: ALICE, seatIndex: 0, accepted: false, amount: 0, isOptimal: undefined });
+        expect(table.state.pendingTimer?.kind).toBe("start_turns");
+    });
+
+    it("settles side bets from the table's pay table as soon as the cards are out", () => {
+        const table = createTable();
+        table.stack(["8", "8", "8", "10"]);
+        table.dispatch({ type: "join_seat", playerId: ALICE, seatIndex: 0, displayName: "Alice" });
+
+        const early = table.dispatch({ type: "place_side_bet", playerId: ALICE, kind: "perfectPairs", amount: 10 });
+        expect(early).toEqual([{ type: "error", playerId: ALICE, code: "no_bet", message: "Place a main bet first" }]);
+
+        table.dispatch({ type: "place_bet", playerId: ALICE, amount: 100 });
+        table.dispatch({ type: "place_side_bet", playerId: ALICE, kind: "perfectPairs", amount: 10 });
+        table.dispatch({ type: "place_side_bet", playerId: ALICE, kind: "twentyOnePlusThree", amount: 5 });
+        table.expire();
+
+        // Two eights of spades and the dealer's eight of spades: a perfect pair and suited trips
+        expect(table.events.filter((e) => e.type === "side_bet_settled")).toMatchObject([
+            { kind: "perfectPairs", stake: 10, result: "perfect_pair", amount: 260 },
+            { kind: "twentyOnePlusThree", stake: 5, result: "suited_trips", amount: 505 },
+        ]);
+        expect(table.game.seats[0].chips).toBe(10000 - 115 + 260 + 505);
+    });
+
+    it("records the balance a round started from, not one with side bets already paid", () => {
+        const table = createTable();
+        const recorder = new RoundRecorder();
+        table.stack(["8", "8", "8", "10"]);
+        table.dispatch({ type: "join_seat", playerId: ALICE, seatIndex: 0, displayName: "Alice" });
+        table.dispatch({ type: "place_bet", playerId: ALICE, amount: 100 });
+        table.dispatch({ type: "place_side_bet", playerId: ALICE, kind: "perfectPairs", amount: 10 });
+
+        // As the host does it: the round_started event read against the state after the deal
+        const started = table.expire().find((e) => e.type === "round_started");
+        expect(started).toMatchObject({ chips: { [ALICE]: 9890 } });
+        if (started?.type === "round_started") recorder.start(started.roundNumber, table.game, started.chips);
+        table.finishRound();
+
+        const [seat] = recorder.finish(table.game)!.seats;
+        expect(seat.chipsBefore).toBe(10000);
+        expect(seat.chipsAfter).toBe(table.game.seats[0].chips);
+    });
+
+    it("records a round's balances with the player's bets behind other spots", () => {
+        const table = createTable();
+        const recorder = new RoundRecorder();
+        table.dispatch({ type: "join_seat", playerId: ALICE, seatIndex: 0, displayName: "Alice" });
+        table.dispatch({ type: "join_seat", playerId: BOB, seatIndex: 1, displayName: "Bob" });
+        table.dispatch({ type: "place_bet", playerId: ALICE, amount: 100 });
+        table.dispatch({ type: "place_bet", playerId: BOB, amount: 100 });
+        table.dispatch({ type: "bet_behind", playerId: ALICE, seatIndex: 1, amount: 50, displayName: "Alice" });
+
+        const started = table.expire().find((e) => e.type === "round_started");
+        if (started?.type === "round_started") recorder.start(started.roundNumber, table.game, started.chips);
+        table.finishRound();
+
+        const [alice] = recorder.finish(table.game)!.seats;
+        expect(alice.chipsBefore).toBe(10000);
+        expect(alice.chipsAfter).toBe(table.game.chipBalances[ALICE]);
+    });
+
+    it("grades insurance against the count only for index players", () => {
+        const insure = (rules: Partial<TableRules>, runningCount: number) => {
+            const table = createTable(rules);
+            table.stack(["A", "A", "K", "7"]);
+            table.deal([[ALICE, 0, 100]]);
+            table.game.runningCount = runningCount;
+            return table.dispatch({ type: "insurance", playerId: ALICE, accept: true }).find((e) => e.type === "insurance");
+        };
+
+        // Even money on a blackjack is still insurance, and basic strategy turns it down
+        expect(insure({}, 30)).toMatchObject({ playerId: ALICE, accepted: true, isOptimal: false });
+        expect(insure({ indexPlays: true }, 30)).toMatchObject({ isOptimal: true });
+        expect(insure({ indexPlays: true }, 0)).toMatchObject({ isOptimal: false });
+    });
+
+    it("grades insurance without the hole card it is betting on", () => {
+        const table = createTable({ indexPlays: true });
+        table.dispatch({ type: "join_seat", playerId: ALICE, seatIndex: 0, displayName: ALICE });
+        table.dispatch({ type: "place_bet", playerId: ALICE, amount: 100 });
+        // The ace showing takes the count to +12 over about 3.8 decks - a true count over +3.
+        // Counting the king in the hole would drop it below
+        table.stack(["9", "A", "9", "K"]);
+        table.state.runningCounts.hi_lo = 13;
+        table.expire();
+
+        expect(table.dispatch({ type: "insurance", playerId: ALICE, accept: true })).toContainEqual(
+            expect.objectContaining({ type: "insurance", accepted: true, isOptimal: true })
+        );
+    });
+
+    it("keeps a running count in every counting system", () => {
+        const table = createTable({ numDecks: 2 });
+        expect(table.state.runningCounts).toEqual({ hi_lo: 0, ko: -4, hi_opt_1: 0, omega_2: 0, zen: 0 });
+
+        // 5 and ace for Alice, 9 and 7 for the dealer - the 7 in the hole isn't counted yet
+        table.stack(["5", "9", "A", "7"]);
+        table.deal([[ALICE, 0, 100]]);
+
+        expect(table.state.runningCounts).toEqual({ hi_lo: 0, ko: -4, hi_opt_1: 1, omega_2: 1, zen: 1 });
+        expect(table.game.runningCount).toBe(0);
+    });
+
+    it("ends the round at once on a dealer blackjack under a ten", () => {
+        const table = createTable();
+        table.stack(["10", "K", "6", "A"]);
+        table.deal([[ALICE, 0, 100]]);
+
+        expect(table.game.phase).toBe("dealer_turn");
+        expect(table.game.dealerHand[1].faceUp).toBe(true);
+
+        table.finishRound();
+        expect(table.payouts()).toMatchObject([{ result: "lose", amount: 0 }]);
+        expect(table.game.seats[0].chips).toBe(9900);
+    });
+
+    it("returns half the bet on a late surrender", () => {
+        const table = createTable();
+        table.stack(["10", "10", "6", "7"]);
+        table.deal([[ALICE, 0, 100]]);
+        table.expire();
+
+        table.dispatch({ type: "surrender", playerId: ALICE });
+
+        expect(table.game.phase).toBe("payout");
+        expect(table.payouts()).toMatchObject([{ result: "lose", amount: 50, winnings: 0 }]);
+        expect(table.game.seats[0].chips).toBe(9950);
+    });
+
+    it("grades against index plays for players who opt in", () => {
+        const standOnSixteen = (optIn: boolean) => {
+            const table = createTable({ surrender: "none" });
+            if (optIn) table.dispatch({ type: "set_index_plays", playerId: ALICE, enabled: true });
+            table.stack(["10", "10", "6", "7"]);
+            table.deal([[ALICE, 0, 100]]);
+            table.expire();
+            table.game.runningCount = 10;
+            return table.dispatch({ type: "stand", playerId: ALICE }).find((e) => e.type === "player_action");
+        };
+
+        expect(standOnSixteen(false)).toMatchObject({
+            isOptimal: false,
+            decision: { section: "hard", rowKey: 16, column: 8, action: "stand", correct: "hit", bet: 100 },
+        });
+        expect(standOnSixteen(true)).toMatchObject({
+            isOptimal: true,
+            indexPlay: "Illustrious 18: 16 vs 10: stand at +0 or higher",
+        });
+    });
+
+    it("grades index plays on the cards showing, not the hole card", () => {
+        const table = createTable({ surrender: "none", indexPlays: true });
+        // 10 and 6 against a 10 - the 2 in the hole would lift the count to +0, where 16 stands
+        table.stack(["10", "10", "6", "2"]);
+        table.deal([[ALICE, 0, 100]]);
+        table.expire();
+
+        expect(table.dispatch({ type: "stand", playerId: ALICE }).find((e) => e.type === "player_action")).toMatchObject({
+            isOptimal: false,
+            decision: { action: "stand", correct: "hit" },
+        });
+    });
+
+    it("allows an early surrender before the dealer peeks", () => {
+        const table = createTable({ surrender: "early" });
+        table.stack(["10", "K", "6", "A"]);
+        table.deal([[ALICE, 0, 100]]);
+        expect(table.game.phase).toBe("insurance");
+
+        // Insurance is only on offer under an ace
+        expect(table.dispatch({ type: "insurance", playerId: ALICE, accept: true })).toMatchObject([{ type: "error" }]);
+
+        table.dispatch({ type: "surrender", playerId: ALICE });
+        table.finishRound();
+        expect(table.game.seats[0].hands[0].status).toBe("surrendered");
+        expect(table.game.seats[0].chips).toBe(9950);
+    });
+
+    it("plays on against a ten without counting it as an insurance decision", () => {
+        const table = createTable({ surrender: "early", indexPlays: true });
+        table.stack(["10", "K", "6", "7"]);
+        table.deal([[ALICE, 0, 100]]);
+        expect(table.game.phase).toBe("insurance");
+
+        expect(table.dispatch({ type: "insurance", playerId: ALICE, accept: false })).toMatchObject([{ type: "error" }]);
+
+        const events = table.dispatch({ type: "play_on", playerId: ALICE });
+        expect(events.some((e) => e.type === "insurance")).toBe(false);
+        expect(table.state.pendingTimer?.kind).toBe("start_turns");
+    });
+
+    it("holds a dropped player's seat and stands their hand on the turn timer", () => {
+        const table = createTable();
+        table.stack(["10", "9", "8", "8"]);
+        table.deal([[ALICE, 0, 100]]);
+        table.expire();
+
+        table.dispatch({ type: "disconnect", playerId: ALICE });
+        expect(table.game.seats[0].playerId).toBe(ALICE);
+        expect(table.game.seats[0].disconnectedUntil).not.toBeNull();
+
+        const events = table.expire();
+        expect(events).toContainEqual({ type: "player_action", playerId: ALICE, seatIndex: 0, handIndex: 0, action: "timeout" });
+
+        // 18 beats 17
+        table.finishRound();
+        expect(table.payouts()).toMatchObject([{ result: "win" }]);
+        expect(table.game.chipBalances[ALICE]).toBe(10100);
+    });
+
+    it("gives the seat back on a reconnect within the grace period", () => {
+        const table = createTable();
+        table.deal([[ALICE, 0, 100]]);
+
+        table.dispatch({ type: "disconnect", playerId: ALICE });
+        table.advance(RECONNECT_GRACE / 2);
+        table.dispatch({ type: "reconnect", playerId: ALICE });
+
+        expect(table.game.seats[0]).toMatchObject({ playerId: ALICE, disconnectedUntil: null });
+    });
+
+    it("drops unplaced side bets along with the main bet on a disconnect while betting", () => {
+        const table = createTable();
+        table.stack(["8", "8", "8", "10"]);
+        table.dispatch({ type: "join_seat", playerId: ALICE, seatIndex: 0, displayName: "Alice" });
+        table.dispatch({ type: "place_bet", playerId: ALICE, amount: 100 });
+        table.dispatch({ type: "place_side_bet", playerId: ALICE, kind: "perfectPairs", amount: 25 });
+
+        table.dispatch({ type: "disconnect", playerId: ALICE });
+        expect(table.game.seats[0].sideBets).toEqual({ perfectPairs: 0, twentyOnePlusThree: 0 });
+
+        table.dispatch({ type: "reconnect", playerId: ALICE });
+        table.dispatch({ type: "place_bet", playerId: ALICE, amount: 100 });
+        table.expire();
+
+        // The pair would have paid the old side bet
+        expect(table.events.some((e) => e.type === "side_bet_settled")).toBe(false);
+        expect(table.game.seats[0].chips).toBe(9900);
+    });
+
+    it("moves play on when the seat whose turn it is leaves", () => {
+        const table = createTable();
+        table.stack(["10", "9", "7", "8", "6", "10"]);
+        table.deal([[ALICE, 0, 100], [BOB, 1, 100]]);
+        table.expire();
+        expect(table.game.activePlayerIndex).toBe(0);
+
+        table.dispatch({ type: "leave_seat", playerId: ALICE, seatIndex: 0 });
+        expect(table.game).toMatchObject({ phase: "player_turn", activePlayerIndex: 1 });
+        expect(table.state.pendingTimer?.kind).toBe("turn");
+    });
+
+    it("goes on to the dealer when the last player to act spectates on their turn", () => {
+        const table = createTable();
+        table.stack(["10", "9", "7", "8", "6", "10"]);
+        table.deal([[ALICE, 0, 100], [BOB, 1, 100]]);
+        table.expire();
+        table.dispatch({ type: "stand", playerId: ALICE });
+        expect(table.game.activePlayerIndex).toBe(1);
+
+        table.dispatch({ type: "spectate", playerId: BOB, displayName: "Bob" });
+        expect(table.game.phase).not.toBe("player_turn");
+        table.finishRound();
+        expect(table.payouts()).toMatchObject([{ playerId: ALICE }]);
+    });
+
+    it("leaves the table idle when its only player leaves on their turn", () => {
+        const table = createTable();
+        table.deal([[ALICE, 0, 100]]);
+        table.expire();
+
+        table.dispatch({ type: "leave_seat", playerId: ALICE });
+        expect(table.game.phase).toBe("waiting");
+        expect(table.state.pendingTimer).toBeNull();
+    });
+
+    it("moves play on from a turn timer whose seat has emptied", () => {
+        const table = createTable();
+        table.stack(["10", "9", "7", "8", "6", "10"]);
+        table.deal([[ALICE, 0, 100], [BOB, 1, 100]]);
+        table.expire();
+        // Emptied without going through leave_seat, which would have moved play on itself
+        table.game.seats[0].hands = [];
+
+        table.expire();
+        expect(table.game).toMatchObject({ phase: "player_turn", activePlayerIndex: 1 });
+    });
+
+    it("adds a claimed legacy bankroll to the starting stake of a player who hasn't played yet", () => {
+        const table = createTable();
+        table.dispatch({ type: "credit_chips", playerId: ALICE, amount: 2500 });
+        table.dispatch({ type: "join_seat", playerId: ALICE, seatIndex: 0, displayName: "Alice" });
+
+        expect(table.game.seats[0].chips).toBe(12500);
+    });
+
+    it("frees held seats on a timer when everyone has dropped", () => {
+        const table = createTable();
+        table.dispatch({ type: "join_seat", playerId: ALICE, seatIndex: 0, displayName: "Alice" });
+        table.dispatch({ type: "join_seat", playerId: BOB, seatIndex: 2, displayName: "Bob" });
+        table.dispatch({ type: "disconnect", playerId: ALICE });
+        table.advance(1000);
+        table.dispatch({ type: "disconnect", playerId: BOB });
+
+        // Nobody is left to send a message - the first hold's expiry wakes the room
+        expect(table.state.pendingTimer).toMatchObject({ kind: "release_seats", at: table.game.seats[0].disconnectedUntil });
+        expect(table.game.timerEndTime).toBeNull();
+
+        table.expire();
+        expect(table.game.seats[0].playerId).toBeNull();
+        expect(table.state.pendingTimer).toMatchObject({ kind: "release_seats", at: table.game.seats[2].disconnectedUntil });
+
+        table.expire();
+        expect(table.game.seats[2].playerId).toBeNull();
+        expect(table.game.phase).toBe("waiting");
+        expect(table.state.pendingTimer).toBeNull();
+    });
+
+    it("frees the seat between rounds once the grace period is up", () => {
+        const table = createTable();
+        table.stack(["10", "9", "10", "8", "8", "7"]);
+        table.deal([[ALICE, 0, 100], [BOB, 2, 100]]);
+        table.expire();
+
+        table.dispatch({ type: "disconnect", playerId: ALICE });
+        table.advance(RECONNECT_GRACE);
+        table.expire();
+        table.dispatch({ type: "stand", playerId: BOB });
+        table.finishRound();
+        expect(table.game.seats[0].playerId).toBe(ALICE); // Still held until the round is settled
+
+        table.expire();
+        expect(table.game.phase).toBe("betting");
+        expect(table.game.seats[0].playerId).toBeNull();
+        expect(table.game.seats[2].bet).toBe(100); // Bob's bet carries over as usual
+        expect(table.game.chipBalances[ALICE]).toBe(10100);
+    });
+});
@@ -0,0 +1,1895 @@
+// Headless blackjack engine - every table rule, with no PartyKit in sight.
+//
+// applyAction(state, action, deps) returns the next state plus the events that happened
+// on the way there; the state passed in is never modified. The clock and the server seeds
+// come from `deps`, and timers are only requests (state.pendingTimer) that the host
+// schedules and answers with a `timer_expired` action - so a whole round can be played
+// synchronously. BlackjackServer in blackjack.ts is the PartyKit host.
+
+import {
+    GameState,
+    Card,
+    CountingSystem,
+    ErrorCode,
+    Hand,
+    HandResult,
+    AutoplayProfile,
+    AutoplaySettings,
+    PlayAction,
+    QueuedAction,
+    RoundActionType,
+    Seat,
+    SideBetKind,
+    SideBetResult,
+    StrategyDecision,
+    TableRules,
+    createInitialGameState,
+    createShoe,
+    createEmptySeat,
+    calculateHandValue,
+    isBlackjack,
+    canSplit,
+    canDouble,
+    canHit,
+    canSurrender,
+    dealerShouldHit,
+    blackjackWinnings,
+    getCutCardIndex,
+    isSplitAces,
+    normalizeTableRules,
+    checkBetLimits,
+    isShortBet,
+    formatBetLimits,
+} from "../src/lib/gameTypes";
+import { sha256Hex } from "../src/lib/fairness";
+import { getOptimalAction, getChartPosition, Action } from "../src/lib/basicStrategy";
+import { getIndexAction, getTrueCount, describeIndexPlay, shouldTakeInsurance } from "../src/lib/indexPlays";
+import { SIDE_BET_KINDS, evaluateSideBet, sideBetMultiplier, sideBetTotal } from "../src/lib/sideBets";
+import { COUNTING_SYSTEM_IDS, createRunningCounts, getCountTag } from "../src/lib/countingSystems";
+
+export const INITIAL_CHIPS = 10000;
+export const BETTING_TIME = 5000; // 5 seconds - restarts on every bet change
+export const TURN_TIME = 10000; // 10 seconds
+export const PAYOUT_TIME = 2000; // 2 seconds (reduced from 5 for snappier feel)
+export const DEALER_CARD_DELAY = 400; // 400ms between dealer cards (reduced from 800)
+export const DEALING_DELAY = 500; // 500ms after dealing before player turns (reduced from 1000)
+export const RECONNECT_GRACE = 60000; // 60 seconds to come back before a dropped player's seat is freed
+export const MAX_SPOTS_PER_PLAYER = 3; // Seats one player may play at once, from one bankroll
+
+// What to do when the pending timer runs out
+export type TimerKind =
+    | "betting"      // Close betting and deal
+    | "insurance"    // Undecided seats decline insurance
+    | "turn"         // Auto-stand the active hand
+    | "start_turns"  // Pause after the deal is over
+    | "dealer_draw"  // Dealer takes the next card
+    | "payouts"      // Settle the round
+    | "next_round"   // Payout display is over
+    | "release_seats"; // A dropped player's grace period is up - only set while no other timer runs
+
+export interface EngineState {
+    game: GameState;
+    serverSeed: string; // Secret until the shoe is retired - only its hash is public
+    clientSeeds: Record<string, string>; // Player ID -> seed mixed into the next shoe
+    indexPlayers: Record<string, boolean>; // Player IDs graded against index plays
+    runningCounts: Record<CountingSystem, number>; // Every system's count, for the counting trainer's quizzes - never sent out
+    roundNumber: number;
+    pendingTimer: { kind: TimerKind; at: number } | null;
+}
+
+export interface EngineDeps {
+    now: () => number;
+    randomSeed: () => string; // A fresh secret server seed for each shoe
+}
+
+// Player actions carry the already verified player ID of whoever sent them
+export type EngineAction =
+    | { type: "join_seat"; playerId: string; seatIndex: number; displayName: string }
+    | { type: "leave_seat"; playerId: string; seatIndex?: number }
+    | { type: "spectate"; playerId: string; displayName: string }
+    | { type: "disconnect"; playerId: string }
+    | { type: "reconnect"; playerId: string }
+    // seatIndex picks one of a player's spots - without it, their first seat that fits
+    | { type: "place_bet"; playerId: string; amount: number; seatIndex?: number }
+    | { type: "clear_bet"; playerId: string; seatIndex?: number }
+    | { type: "place_side_bet"; playerId: string; kind: SideBetKind; amount: number; seatIndex?: number }
+    | { type: "bet_behind"; playerId: string; seatIndex: number; amount: number; displayName: string }
+    | { type: "clear_bet_behind"; playerId: string; seatIndex: number }
+    | { type: "hit"; playerId: string }
+    | { type: "stand"; playerId: string }
+    | { type: "double"; playerId: string }
+    | { type: "split"; playerId: string }
+    | { type: "surrender"; playerId: string }
+    | { type: "insurance"; playerId: string; accept: boolean; seatIndex?: number }
+    | { type: "play_on"; playerId: string; seatIndex?: number }  // Pass on early surrender against a ten
+    | { type: "queue_action"; playerId: string; action: QueuedAction | null; seatIndex?: number }
+    | { type: "queue_insurance"; playerId: string; accept: boolean | null; seatIndex?: number }
+    | { type: "set_autoplay"; playerId: string; settings: AutoplaySettings | null }
+    | { type: "use_atm"; playerId: string }
+    | { type: "credit_chips"; playerId: string; amount: number }
+    | { type: "set_client_seed"; playerId: string; seed: string }
+    | { type: "set_index_plays"; playerId: string; enabled: boolean }
+    | { type: "set_rules"; rules: Partial<TableRules> }
+    | { type: "timer_expired" };
+
+export type CardDealtReason = "initial" | "hit" | "double" | "split" | "dealer";
+
+export type EngineEvent =
+    | { type: "state_changed" }
+    | { type: "error"; playerId: string; code: ErrorCode; message: string }
+    | { type: "seat_joined"; playerId: string; seatIndex: number; displayName: string }
+    | { type: "round_started"; roundNumber: number; chips: Record<string, number> }  // chips: bankrolls with the bets taken, before anything is paid
+    | { type: "card_dealt"; seatIndex: number | null; handIndex: number; card: Card; reason: CardDealtReason }
+    | { type: "player_action"; playerId: string; seatIndex: number; handIndex: number; action: RoundActionType; isOptimal?: boolean; indexPlay?: string; decision?: StrategyDecision }
+    | { type: "insurance"; playerId: string; seatIndex: number; accepted: boolean; amount: number; isOptimal?: boolean }
+    | { type: "insurance_payout"; seatIndex: number; amount: number }
+    // amount is what went back to the seat: the stake plus winnings, or nothing
+    | { type: "side_bet_settled"; playerId: string; seatIndex: number; kind: SideBetKind; stake: number; result: SideBetResult | null; amount: number }
+    | { type: "hole_card_revealed" }
+    // amount is what went back to the seat, winnings the profit shown to players
+    | { type: "payout"; playerId: string; seatIndex: number; handIndex: number; result: HandResult; amount: number; winnings: number }
+    // The same for one backer's stake on a hand; playerId is the backer
+    | { type: "bet_behind_settled"; playerId: string; seatIndex: number; handIndex: number; result: HandResult; stake: number; amount: number; winnings: number }
+    | { type: "atm_used"; playerId: string }
+    | { type: "round_finished" };
+
+export interface EngineResult {
+    state: EngineState;
+    events: EngineEvent[];
+}
+
+export function createEngineState(rules: TableRules | undefined, deps: EngineDeps): EngineState {
+    const game = createInitialGameState(rules);
+    const run = new EngineRun({
+        game,
+        serverSeed: "",
+        clientSeeds: {},
+        indexPlayers: {},
+        runningCounts: createRunningCounts(game.rules.numDecks),
+        roundNumber: 0,
+        pendingTimer: null,
+    }, deps);
+    run.reshuffleShoe();
+    return run.state;
+}
+
+export function applyAction(state: EngineState, action: EngineAction, deps: EngineDeps): EngineResult {
+    const run = new EngineRun(structuredClone(state), deps);
+    run.apply(action);
+    return { state: run.state, events: run.events };
+}
+
+interface HandOptions {
+    canDouble: boolean;
+    canSplit: boolean;
+    canSurrender: boolean;
+}
+
+interface DecisionGrade {
+    isOptimal: boolean;
+    indexPlay?: string;
+    decision?: StrategyDecision;
+}
+
+// Works on a private copy of the state for the length of one action
+class EngineRun {
+    events: EngineEvent[] = [];
+
+    constructor(readonly state: EngineState, readonly deps: EngineDeps) {}
+
+    get game(): GameState {
+        return this.state.game;
+    }
+
+    apply(action: EngineAction) {
+        switch (action.type) {
+            case "join_seat":
+                this.joinSeat(action.playerId, action.seatIndex, action.displayName);
+                break;
+            case "leave_seat":
+                this.leaveSeat(action.playerId, action.seatIndex);
+                break;
+            case "spectate":
+                this.spectate(action.playerId, action.displayName);
+                break;
+            case "disconnect":
+                this.disconnect(action.playerId);
+                break;
+            case "reconnect":
+                this.reconnect(action.playerId);
+                break;
+            case "place_bet":
+                this.placeBet(action.playerId, action.amount, action.seatIndex);
+                break;
+            case "clear_bet":
+                this.clearBet(action.playerId, action.seatIndex);
+                break;
+            case "place_side_bet":
+                this.placeSideBet(action.playerId, action.kind, action.amount, action.seatIndex);
+                break;
+            case "bet_behind":
+                this.betBehind(action.playerId, action.seatIndex, action.amount, action.displayName);
+                break;
+            case "clear_bet_behind":
+                this.clearBetBehind(action.playerId, action.seatIndex);
+                break;
+            case "hit":
+                this.hit(action.playerId);
+                break;
+            case "stand":
+                this.stand(action.playerId);
+                break;
+            case "double":
+                this.double(action.playerId);
+                break;
+            case "split":
+                this.split(action.playerId);
+                break;
+            case "surrender":
+                this.surrender(action.playerId);
+                break;
+            case "insurance":
+                this.insurance(action.playerId, action.accept, action.seatIndex);
+                break;
+            case "play_on":
+                this.playOn(action.playerId, action.seatIndex);
+                break;
+            case "queue_action":
+                this.queueAction(action.playerId, action.action, action.seatIndex);
+                break;
+            case "queue_insurance":
+                this.queueInsurance(action.playerId, action.accept, action.seatIndex);
+                break;
+            case "set_autoplay":
+                this.setAutoplay(action.playerId, action.settings);
+                break;
+            case "use_atm":
+                this.useAtm(action.playerId);
+                break;
+            case "credit_chips":
+                this.creditChips(action.playerId, action.amount);
+                break;
+            case "set_client_seed":
+                this.state.clientSeeds[action.playerId] = action.seed;
+                break;
+            case "set_index_plays":
+                if (action.enabled) {
+                    this.state.indexPlayers[action.playerId] = true;
+                } else {
+                    delete this.state.indexPlayers[action.playerId];
+                }
+                break;
+            case "set_rules":
+                this.game.rules = normalizeTableRules(action.rules);
+                this.reshuffleShoe();
+                this.changed();
+                break;
+            case "timer_expired":
+                this.timerExpired();
+                break;
+        }
+    }
+
+    // --- Seats and connections ---
+
+    joinSeat(playerId: string, seatIndex: number, displayName: string) {
+        if (seatIndex < 0 || seatIndex >= 6) {
+            this.error(playerId, "invalid_seat", "Invalid seat");
+            return;
+        }
+
+        const seat = this.game.seats[seatIndex];
+        if (seat.playerId !== null) {
+            this.error(playerId, "seat_taken", "Seat is taken");
+            return;
+        }
+
+        // A player may play a few spots, all from the same bankroll
+        const spots = this.spotsOf(playerId);
+        if (spots.length >= MAX_SPOTS_PER_PLAYER) {
+            this.error(playerId, "too_many_spots", `You can play at most ${MAX_SPOTS_PER_PLAYER} spots`);
+            return;
+        }
+
+        // Remove from spectators if they were spectating
+        this.game.spectators = this.game.spectators.filter((s) => s.id !== playerId);
+
+        // Get or create chip balance for this player - the display name is just a label
+        const chips = this.chipsOf(playerId);
+        this.game.chipBalances[playerId] = chips;
+
+        this.game.seats[seatIndex] = {
+            playerId,
+            displayName: spots.length > 0 ? this.game.seats[spots[0]].displayName : displayName,
+            chips,
+            bet: 0,
+            lastBet: 0,
+            insuranceBet: 0,
+            sideBets: { perfectPairs: 0, twentyOnePlusThree: 0 },
+            betsBehind: [],
+            hands: [],
+            status: "waiting",
+            disconnectedUntil: null,
+            queuedAction: null,
+            queuedInsurance: null,
+        };
+        this.events.push({ type: "seat_joined", playerId, seatIndex, displayName });
+
+        this.changed();
+        this.checkGameState();
+    }
+
+    // Leave one spot, or every spot the player holds
+    leaveSeat(playerId: string, seatIndex?: number) {
+        const spots = this.spotsOf(playerId).filter((i) => seatIndex === undefined || i === seatIndex);
+        if (spots.length === 0) return;
+
+        // Save chip balance
+        this.game.chipBalances[playerId] = this.chipsOf(playerId);
+        this.emptySeats(spots);
+
+        this.changed();
+        this.checkGameState();
+    }
+
+    spectate(playerId: string, displayName: string) {
+        // Remove from any seats first
+        const spots = this.spotsOf(playerId);
+        if (spots.length > 0) {
+            this.game.chipBalances[playerId] = this.chipsOf(playerId);
+        }
+        this.emptySeats(spots);
+
+        // Add to spectators if not already
+        if (!this.game.spectators.find((s) => s.id === playerId)) {
+            this.game.spectators.push({ id: playerId, name: displayName });
+        }
+
+        this.changed();
+        this.checkGameState();
+    }
+
+    // Frees the spots, handing back what was bet behind them. A spot left on its own turn
+    // has nobody to act for it, so play moves on to the next seat.
+    emptySeats(spots: number[]) {
+        for (const spot of spots) {
+            this.returnBetsBehind(this.game.seats[spot]);
+            this.game.seats[spot] = createEmptySeat();
+        }
+        if (this.game.phase === "player_turn" && spots.includes(this.game.activePlayerIndex)) {
+            this.nextPlayer();
+        }
+    }
+
+    // Hold the seat and hands for a while instead of forfeiting - a phone switching
+    // networks mid-hand shouldn't lose the bet. The turn timer keeps running and
+    // auto-stands as usual; the seat is freed between rounds once the grace period is up.
+    disconnect(playerId: string) {
+        for (const spot of this.spotsOf(playerId)) {
+            const seat = this.game.seats[spot];
+            this.game.chipBalances[playerId] = seat.chips;
+            seat.disconnectedUntil = this.deps.now() + RECONNECT_GRACE;
+
+            // Bets are only taken from chips at the deal, so an unplaced bet is simply dropped
+            if (this.game.phase === "betting") {
+                seat.bet = 0;
+                seat.sideBets = { perfectPairs: 0, twentyOnePlusThree: 0 };
+                seat.status = "waiting";
+            }
+        }
+
+        // Likewise the player's backing of other seats - once dealt it plays out and is paid to their balance
+        if (this.game.phase === "betting") {
+            for (const other of this.game.seats) {
+                other.betsBehind = other.betsBehind.filter((b) => b.playerId !== playerId);
+            }
+        }
+
+        this.game.spectators = this.game.spectators.filter((s) => s.id !== playerId);
+
+        this.changed();
+        this.checkGameState();
+        this.scheduleSeatRelease();
+    }
+
+    // Back within the grace period - hand the held seat straight back
+    reconnect(playerId: string) {
+        const released = this.releaseExpiredSeats();
+        const heldSeats = this.game.seats.filter((s) => s.playerId === playerId && s.disconnectedUntil !== null);
+        for (const seat of heldSeats) {
+            seat.disconnectedUntil = null;
+        }
+
+        if (heldSeats.length > 0 || released) {
+            this.changed();
+            this.checkGameState();
+        }
+    }
+
+    // Free seats whose player didn't come back in time. Only between rounds, so a held
+    // hand still plays out (auto-standing) and gets paid before the seat is emptied.
+    releaseExpiredSeats(): boolean {
+        if (this.game.phase !== "waiting" && this.game.phase !== "betting") return false;
+
+        const now = this.deps.now();
+        let released = false;
+        for (let i = 0; i < this.game.seats.length; i++) {
+            const seat = this.game.seats[i];
+            if (seat.playerId && seat.disconnectedUntil !== null && seat.disconnectedUntil <= now) {
+                this.game.chipBalances[seat.playerId] = seat.chips;
+                this.game.seats[i] = createEmptySeat();
+                released = true;
+            }
+        }
+        return released;
+    }
+
+    // A round's timers lead back to the betting phase, which frees expired seats. With no
+    // timer running, the earliest hold's expiry has to wake the room instead - otherwise a
+    // table everyone dropped from would keep their seats for good.
+    scheduleSeatRelease() {
+        if (this.state.pendingTimer || (this.game.phase !== "waiting" && this.game.phase !== "betting")) return;
+
+        const expiries = this.game.seats.flatMap((s) => s.playerId && s.disconnectedUntil !== null ? [s.disconnectedUntil] : []);
+        if (expiries.length > 0) {
+            // Not a countdown anyone needs to see, so the public timer is left alone
+            this.state.pendingTimer = { kind: "release_seats", at: Math.min(...expiries) };
+        }
+    }
+
+    useAtm(playerId: string) {
+        const seatIndex = this.seatIndexOf(playerId);
+        if (seatIndex === -1) {
+            this.error(playerId, "not_seated", "Must be seated to use ATM");
+            return;
+        }
+
+        // Only allow ATM when player has $0
+        if (this.chipsOf(playerId) > 0 || this.pendingStake(playerId) > 0) {
+            this.error(playerId, "not_allowed", "ATM only available when you have $0");
+            return;
+        }
+
+        this.setChips(playerId, INITIAL_CHIPS);
+        this.events.push({ type: "atm_used", playerId });
+        this.changed();
+    }
+
+    // Chips from outside the game (claimed legacy bankrolls) - added to whatever the player has
+    creditChips(playerId: string, amount: number) {
+        this.addChips(playerId, amount);
+        this.changed();
+    }
+
+    // --- Betting ---
+
+    placeBet(playerId: string, amount: number, spot?: number) {
+        if (this.game.phase !== "betting") {
+            this.error(playerId, "wrong_phase", "Cannot bet now");
+            return;
+        }
+
+        const seatIndex = this.spotOf(playerId, spot);
+        if (seatIndex === -1) {
+            this.error(playerId, "not_seated", "Not in a seat");
+            return;
+        }
+
+        const seat = this.game.seats[seatIndex];
+        if (!this.withinLimits(playerId, amount, seat.bet + amount)) return;
+        if (this.pendingStake(playerId) + amount > this.chipsOf(playerId)) {
+            this.error(playerId, "insufficient_chips", "Not enough chips");
+            return;
+        }
+
+        seat.bet += amount;
+        seat.status = "betting";
+
+        // Restart the 5-second timer on every bet change
+        this.startTimer("betting", BETTING_TIME);
+        this.changed();
+    }
+
+    clearBet(playerId: string, spot?: number) {
+        if (this.game.phase !== "betting") return;
+
+        const seatIndex = this.spotOf(playerId, spot);
+        if (seatIndex === -1) return;
+
+        const seat = this.game.seats[seatIndex];
+        const previousBet = seat.bet;
+        seat.bet = 0;
+        seat.lastBet = 0; // Also clear lastBet to prevent auto-bet
+        seat.sideBets = { perfectPairs: 0, twentyOnePlusThree: 0 }; // They ride on the main bet
+        seat.status = "waiting";
+
+        // Restart timer if there was a bet change and someone still has a bet
+        if (previousBet > 0 && this.game.seats.some((s) => s.bet > 0)) {
+            this.startTimer("betting", BETTING_TIME);
+        }
+
+        this.changed();
+    }
+
+    // Side bets go on a seat that already has a main bet, and don't carry over to the next round
+    placeSideBet(playerId: string, kind: SideBetKind, amount: number, spot?: number) {
+        if (this.game.phase !== "betting") {
+            this.error(playerId, "wrong_phase", "Cannot bet now");
+            return;
+        }
+        if (!this.game.rules.sideBets) {
+            this.error(playerId, "not_allowed", "This table has no side bets");
+            return;
+        }
+        if (!SIDE_BET_KINDS.includes(kind)) {
+            this.error(playerId, "invalid_message", "Unknown side bet");
+            return;
+        }
+        if (!Number.isInteger(amount) || amount <= 0) {
+            this.error(playerId, "invalid_amount", "Invalid bet amount");
+            return;
+        }
+
+        const seatIndex = this.spotOf(playerId, spot);
+        if (seatIndex === -1) {
+            this.error(playerId, "not_seated", "Not in a seat");
+            return;
+        }
+
+        const seat = this.game.seats[seatIndex];
+        if (seat.bet === 0) {
+            this.error(playerId, "no_bet", "Place a main bet first");
+            return;
+        }
+        if (this.pendingStake(playerId) + amount > this.chipsOf(playerId)) {
+            this.error(playerId, "insufficient_chips", "Not enough chips");
+            return;
+        }
+
+        seat.sideBets[kind] += amount;
+        this.startTimer("betting", BETTING_TIME);
+        this.changed();
+    }
+
+    // Anyone at the table - seated or watching - can back a seat that has a bet down.
+    // Like the seat's own bet, nothing is taken from their chips until the deal.
+    betBehind(playerId: string, seatIndex: number, amount: number, displayName: string) {
+        if (this.game.phase !== "betting") {
+            this.error(playerId, "wrong_phase", "Cannot bet now");
+            return;
+        }
+
+        const seat = this.game.seats[seatIndex];
+        if (!seat || !seat.playerId) {
+            this.error(playerId, "invalid_seat", "Nobody is in that seat");
+            return;
+        }
+        if (seat.playerId === playerId) {
+            this.error(playerId, "own_seat", "Cannot bet behind your own seat");
+            return;
+        }
+        if (seat.bet === 0) {
+            this.error(playerId, "no_bet", "That seat has no bet yet");
+            return;
+        }
+        const backed = seat.betsBehind.find((b) => b.playerId === playerId)?.stakes[0] ?? 0;
+        if (!this.withinLimits(playerId, amount, backed + amount)) return;
+
+        this.game.chipBalances[playerId] ??= INITIAL_CHIPS;
+        if (this.pendingStake(playerId) + amount > this.chipsOf(playerId)) {
+            this.error(playerId, "insufficient_chips", "Not enough chips");
+            return;
+        }
+
+        // Backers who aren't seated watch the table
+        const ownSeat = this.game.seats.find((s) => s.playerId === playerId);
+        const spectator = this.game.spectators.find((s) => s.id === playerId);
+        if (!ownSeat && !spectator) {
+            this.game.spectators.push({ id: playerId, name: displayName });
+        }
+
+        const backer = seat.betsBehind.find((b) => b.playerId === playerId);
+        if (backer) {
+            backer.stakes[0] += amount;
+        } else {
+            seat.betsBehind.push({ playerId, displayName: ownSeat?.displayName ?? spectator?.name ?? displayName, stakes: [amount] });
+        }
+
+        this.startTimer("betting", BETTING_TIME);
+        this.changed();
+    }
+
+    clearBetBehind(playerId: string, seatIndex: number) {
+        if (this.game.phase !== "betting") return;
+
+        const seat = this.game.seats[seatIndex];
+        if (!seat || !seat.betsBehind.some((b) => b.playerId === playerId)) return;
+
+        seat.betsBehind = seat.betsBehind.filter((b) => b.playerId !== playerId);
+        this.changed();
+    }
+
+    // A seat emptied mid-round takes its hands with it - backers get back what was still riding
+    returnBetsBehind(seat: Seat) {
+        if (this.game.phase === "waiting" || this.game.phase === "betting" || this.game.phase === "payout") return;
+
+        for (const backer of seat.betsBehind) {
+            const live = seat.hands.reduce((total, hand, handIndex) =>
+                hand.status === "busted" || hand.status === "surrendered" ? total : total + (backer.stakes[handIndex] ?? 0), 0);
+            this.addChips(backer.playerId, live);
+        }
+    }
+
+    checkGameState() {
+        this.releaseExpiredSeats();
+
+        const activePlayers = this.game.seats.filter((s) => s.playerId !== null);
+
+        if (activePlayers.length === 0) {
+            // No players, go to waiting
+            this.game.phase = "waiting";
+            this.clearTimer();
+            this.changed();
+            return;
+        }
+
+        if (this.game.phase === "waiting") {
+            this.startBettingPhase();
+        }
+    }
+
+    startBettingPhase() {
+        // Reshuffle if needed
+        if (this.game.needsReshuffle) {
+            this.reshuffleShoe();
+        }
+
+        // Betting first, so seats past their grace period are freed coming out of a payout
+        this.game.phase = "betting";
+        this.releaseExpiredSeats();
+
+        // Autoplay ends with the player's last seat
+        for (const playerId of Object.keys(this.game.autoplay)) {
+            if (this.spotsOf(playerId).length === 0) delete this.game.autoplay[playerId];
+        }
+
+        // Reset player hands
+        for (const seat of this.game.seats) {
+            seat.betsBehind = []; // Backing is placed fresh every round
+            if (seat.playerId) {
+                seat.hands = [];
+                seat.bet = 0;
+                seat.sideBets = { perfectPairs: 0, twentyOnePlusThree: 0 };
+                seat.status = "waiting";
+                seat.queuedAction = null;
+                seat.queuedInsurance = null;
+            }
+        }
+
+        // Auto-bet the previous bet, or whatever is left of the bankroll across a player's
+        // spots if not enough - kept within the table limits, and not for a dropped player
+        let anyBetsPlaced = false;
+        const { minBet, maxBet } = this.game.rules;
+        for (const seat of this.game.seats) {
+            if (!seat.playerId) continue;
+            const available = this.chipsOf(seat.playerId) - this.pendingStake(seat.playerId);
+            const bet = Math.min(seat.lastBet, available, maxBet);
+            if (seat.lastBet > 0 && bet >= minBet && seat.disconnectedUntil === null) {
+                seat.bet = bet;
+                seat.status = "betting";
+                anyBetsPlaced = true;
+            }
+        }
+
+        this.game.dealerHand = [];
+        this.game.activePlayerIndex = -1;
+        this.game.activeHandIndex = 0;
+
+        // If we auto-bet, start the timer - otherwise it starts when the first bet is placed
+        if (anyBetsPlaced) {
+            this.startTimer("betting", BETTING_TIME);
+        } else {
+            this.clearTimer();
+        }
+
+        this.changed();
+    }
+
+    onBettingEnd() {
+        this.dropShortBets();
+        const playersWithBets = this.game.seats.filter((s) => s.playerId && s.bet > 0);
+
+        if (playersWithBets.length === 0) {
+            // No bets, restart betting
+            this.startBettingPhase();
+            return;
+        }
+
+        // Deduct bets from chips and start dealing
+        for (const seat of this.game.seats) {
+            if (seat.playerId && seat.bet > 0) {
+                // Save the bet for next round auto-bet
+                seat.lastBet = seat.bet;
+                this.addChips(seat.playerId, -(seat.bet + sideBetTotal(seat)));
+                seat.hands = [
+                    {
+                        cards: [],
+                        bet: seat.bet,
+                        status: "playing",
+                        isDoubled: false,
+                        isSplit: false,
+                    },
+                ];
+                seat.status = "playing";
+            }
+        }
+
+        // Then the bets behind - dropped if the seat never bet or the backer can't cover them
+        for (const seat of this.game.seats) {
+            if (!seat.playerId || seat.bet === 0) {
+                seat.betsBehind = [];
+                continue;
+            }
+            seat.betsBehind = seat.betsBehind.filter((backer) => {
+                const stake = backer.stakes[0];
+                if (this.chipsOf(backer.playerId) < stake) return false;
+                this.addChips(backer.playerId, -stake);
+                return true;
+            });
+        }
+
+        // Bankrolls as they stand now - side bets are paid as soon as the cards are out
+        const chips: Record<string, number> = {};
+        for (const seat of this.game.seats) {
+            if (seat.playerId) chips[seat.playerId] = seat.chips;
+        }
+
+        this.state.roundNumber++;
+        this.events.push({ type: "round_started", roundNumber: this.state.roundNumber, chips });
+        this.dealInitialCards();
+    }
+
+    // Bets are built a chip at a time, so the minimum is only enforced as betting closes.
+    // A short bet was never taken from chips - it's handed back with the side bets on it.
+    dropShortBets() {
+        const { rules } = this.game;
+        const limits = `Bets at this table are ${formatBetLimits(rules)}`;
+        for (const seat of this.game.seats) {
+            if (seat.playerId && isShortBet(seat.bet, rules)) {
+                this.error(seat.playerId, "below_minimum", limits);
+                seat.bet = 0;
+                seat.sideBets = { perfectPairs: 0, twentyOnePlusThree: 0 };
+                seat.status = "waiting";
+            }
+            seat.betsBehind = seat.betsBehind.filter((backer) => {
+                if (!isShortBet(backer.stakes[0], rules)) return true;
+                this.error(backer.playerId, "below_minimum", limits);
+                return false;
+            });
+        }
+    }
+
+    // --- Dealing ---
+
+    dealInitialCards() {
+        this.game.phase = "dealing";
+
+        // Deal 2 cards to each player with bet, then 2 to dealer
+        const seatsWithBets = this.game.seats
+            .map((s, i) => ({ seat: s, index: i }))
+            .filter((s) => s.seat.bet > 0);
+
+        // First card to each player
+        for (const { seat, index } of seatsWithBets) {
+            this.dealTo(seat.hands[0], index, 0, "initial");
+        }
+
+        // First card to dealer (face up)
+        const dealerCard1 = this.dealToDealer("initial");
+
+        // Second card to each player
+        for (const { seat, index } of seatsWithBets) {
+            this.dealTo(seat.hands[0], index, 0, "initial");
+        }
+
+        // Second card to dealer (face down - hole card)
+        this.dealToDealer("initial", false);
+
+        // Check for player blackjacks
+        for (const { seat } of seatsWithBets) {
+            if (isBlackjack(seat.hands[0].cards)) {
+                seat.hands[0].status = "blackjack";
+            }
+        }
+
+        // Reset insurance bets
+        for (const seat of this.game.seats) {
+            seat.insuranceBet = 0;
+        }
+
+        this.settleSideBets(dealerCard1);
+        this.changed();
+
+        // Check if dealer shows Ace - offer insurance. Under early surrender a ten
+        // upcard also opens a decision window before the dealer peeks.
+        const tenValues = ["10", "J", "Q", "K"];
+        const earlySurrenderWindow = this.game.rules.surrender === "early" && tenValues.includes(dealerCard1.rank);
+        if (dealerCard1.rank === "A" || earlySurrenderWindow) {
+            this.startInsurancePhase();
+        } else if (tenValues.includes(dealerCard1.rank) && isBlackjack(this.game.dealerHand)) {
+            // Dealer has blackjack - set phase to prevent player actions
+            this.game.phase = "dealer_turn";
+            this.revealHoleCard();
+            this.changed();
+            this.startTimer("payouts", DEALING_DELAY);
+        } else {
+            // Normal flow - start player turns
+            this.startTimer("start_turns", DEALING_DELAY);
+        }
+    }
+
+    // Paid on the first two cards and the upcard, whatever happens to the hand afterwards
+    settleSideBets(upcard: Card) {
+        this.game.seats.forEach((seat, seatIndex) => {
+            if (!seat.playerId || seat.bet === 0) return;
+            for (const kind of SIDE_BET_KINDS) {
+                const stake = seat.sideBets[kind];
+                if (stake === 0) continue;
+
+                const result = evaluateSideBet(kind, seat.hands[0].cards, upcard);
+                const amount = result ? stake + stake * sideBetMultiplier(kind, result, this.game.rules) : 0;
+                this.addChips(seat.playerId, amount);
+                this.events.push({ type: "side_bet_settled", playerId: seat.playerId, seatIndex, kind, stake, result, amount });
+            }
+        });
+    }
+
+    dealTo(hand: Hand, seatIndex: number, handIndex: number, reason: CardDealtReason): Card {
+        const card = this.drawCard();
+        this.countCard(card);
+        hand.cards.push(card);
+        this.events.push({ type: "card_dealt", seatIndex, handIndex, card: { ...card }, reason });
+        return card;
+    }
+
+    dealToDealer(reason: CardDealtReason, faceUp: boolean = true): Card {
+        const card = this.drawCard();
+        card.faceUp = faceUp;
+        if (faceUp) this.countCard(card);
+        this.game.dealerHand.push(card);
+        this.events.push({ type: "card_dealt", seatIndex: null, handIndex: 0, card: { ...card }, reason });
+        return card;
+    }
+
+    // The hole card only counts once it's turned over - until then nobody at the table has seen it
+    revealHoleCard() {
+        const holeCard = this.game.dealerHand[1];
+        if (holeCard && !holeCard.faceUp) {
+            holeCard.faceUp = true;
+            this.countCard(holeCard);
+            this.events.push({ type: "hole_card_revealed" });
+        }
+    }
+
+    // --- Insurance and early surrender ---
+
+    startInsurancePhase() {
+        this.game.phase = "insurance";
+
+        // Every seat with a bet decides: insuranceBet 0 = undecided, -1 = declined, >0 = taken.
+        // With a ten showing the window is only for early surrender, so seats
+        // that cannot surrender (e.g. a player blackjack) have nothing to decide
+        if (this.game.dealerHand[0]?.rank !== "A") {
+            for (const seat of this.game.seats) {
+                const hand = seat.hands[0];
+                if (seat.playerId && seat.bet > 0 && (!hand || hand.status !== "playing" || !canSurrender(hand, this.game.rules))) {
+                    seat.insuranceBet = -1;
+                }
+            }
+        }
+
+        this.changed();
+        this.startTimer("insurance", TURN_TIME);
+        if (this.answerInsuranceAhead()) this.checkInsuranceComplete();
+    }
+
+    // Decides the seats that answered before the deal - for insurance, so an ace upcard,
+    // only - and the ones on autoplay, which decline. True if any seat was decided.
+    answerInsuranceAhead(): boolean {
+        const aceUp = this.game.dealerHand[0]?.rank === "A";
+        let answered = false;
+        this.game.seats.forEach((seat, seatIndex) => {
+            if (!seat.playerId || seat.bet === 0 || seat.insuranceBet !== 0) return;
+            if (!aceUp) {
+                // Nothing to insure against a ten - autoplay just passes on early surrender
+                if (!this.game.autoplay[seat.playerId]) return;
+                seat.insuranceBet = -1;
+                answered = true;
+                return;
+            }
+            const answer = seat.queuedInsurance !== null
+                ? seat.queuedInsurance
+                : this.game.autoplay[seat.playerId] ? false : null;
+            if (answer === null) return;
+            this.decideInsurance(seat.playerId, seatIndex, answer);
+            answered = true;
+        });
+        return answered;
+    }
+
+    onInsuranceTimeout() {
+        // Anyone who hasn't decided declines insurance
+        for (const seat of this.game.seats) {
+            if (seat.playerId && seat.bet > 0 && seat.insuranceBet === 0) {
+                seat.insuranceBet = -1; // Declined
+            }
+        }
+        this.checkInsuranceComplete();
+    }
+
+    insurance(playerId: string, accept: boolean, spot?: number) {
+        if (this.game.phase !== "insurance") {
+            this.error(playerId, "wrong_phase", "Insurance not available");
+            return;
+        }
+
+        const seatIndex = this.spotOf(playerId, spot, (s) => s.bet > 0 && s.insuranceBet === 0);
+        if (seatIndex === -1) return;
+
+        const seat = this.game.seats[seatIndex];
+        if (seat.bet <= 0 || seat.insuranceBet !== 0) {
+            // No bet or already decided
+            return;
+        }
+
+        // A ten upcard opens the window for early surrender only - passing on it is play_on
+        if (this.game.dealerHand[0]?.rank !== "A") {
+            this.error(playerId, "wrong_phase", "Insurance not available");
+            return;
+        }
+
+        this.decideInsurance(playerId, seatIndex, accept);
+        this.changed();
+        this.checkInsuranceComplete();
+    }
+
+    // Keeps the hand in play when early surrender is offered against a ten. Not an
+    // insurance decision, so it isn't graded or reported.
+    playOn(playerId: string, spot?: number) {
+        if (this.game.phase !== "insurance" || this.game.dealerHand[0]?.rank === "A") {
+            this.error(playerId, "wrong_phase", "Cannot play on now");
+            return;
+        }
+
+        const seatIndex = this.spotOf(playerId, spot, (s) => s.bet > 0 && s.insuranceBet === 0);
+        if (seatIndex === -1) return;
+
+        const seat = this.game.seats[seatIndex];
+        if (seat.bet <= 0 || seat.insuranceBet !== 0) return;
+
+        seat.insuranceBet = -1;
+        this.changed();
+        this.checkInsuranceComplete();
+    }
+
+    // Settles one seat's insurance decision, asked for now or queued before the deal
+    decideInsurance(playerId: string, seatIndex: number, accept: boolean) {
+        const seat = this.game.seats[seatIndex];
+
+        // Graded on what the player asked for - undecided seats that time out aren't graded.
+        // The count leaves out the hole card, the very card insurance is betting on.
+        const isOptimal = accept === shouldTakeInsurance(this.indexTrueCount(playerId));
+
+        if (accept) {
+            // Insurance costs half the original bet
+            const insuranceCost = Math.floor(seat.bet / 2);
+            if (this.chipsOf(playerId) >= insuranceCost) {
+                this.addChips(playerId, -insuranceCost);
+                seat.insuranceBet = insuranceCost;
+            } else {
+                // Not enough chips - treat as decline
+                seat.insuranceBet = -1;
+            }
+        } else {
+            seat.insuranceBet = -1; // Declined
+        }
+        this.events.push({
+            type: "insurance",
+            playerId,
+            seatIndex,
+            accepted: seat.insuranceBet > 0,
+            amount: Math.max(seat.insuranceBet, 0),
+            isOptimal: this.game.autoplay[playerId] ? undefined : isOptimal,
+        });
+    }
+
+    // Early surrender: during the pre-peek decision window the original hand can be
+    // given up for half the bet, even if the dealer turns out to have blackjack
+    earlySurrender(playerId: string) {
+        if (this.game.rules.surrender !== "early") {
+            this.error(playerId, "wrong_phase", "Cannot surrender now");
+            return;
+        }
+
+        const seatIndex = this.spotOf(playerId, undefined, (s) => s.bet > 0 && s.insuranceBet === 0);
+        if (seatIndex === -1) return;
+
+        const seat = this.game.seats[seatIndex];
+        const hand = seat.hands[0];
+        if (!hand || hand.status !== "playing" || seat.insuranceBet !== 0 || !canSurrender(hand, this.game.rules)) {
+            return;
+        }
+
+        // Basic strategy tables cover late surrender only, so pre-peek decisions are not graded
+        this.events.push({ type: "player_action", playerId, seatIndex, handIndex: 0, action: "surrender" });
+
+        this.addChips(playerId, Math.floor(hand.bet / 2));
+        hand.status = "surrendered";
+        this.surrenderBetsBehind(seat, 0);
+        seat.insuranceBet = -1; // Surrendering settles the seat's decision for this window
+
+        this.changed();
+        this.checkInsuranceComplete();
+    }
+
+    checkInsuranceComplete() {
+        // Check if all players with bets have decided
+        const needsDecision = this.game.seats.some(
+            (s) => s.playerId && s.bet > 0 && s.insuranceBet === 0
+        );
+        if (needsDecision) return;
+
+        this.clearTimer();
+
+        if (isBlackjack(this.game.dealerHand)) {
+            // Dealer has blackjack - set phase to prevent player actions
+            this.game.phase = "dealer_turn";
+            this.revealHoleCard();
+            this.changed();
+
+            // Pay out insurance bets (2:1) - the stake comes back too, so 3x in total
+            for (let seatIndex = 0; seatIndex < this.game.seats.length; seatIndex++) {
+                const seat = this.game.seats[seatIndex];
+                if (seat.insuranceBet > 0) {
+                    const payoutAmount = seat.insuranceBet * 3;
+                    this.addChips(seat.playerId!, payoutAmount);
+                    this.events.push({ type: "insurance_payout", seatIndex, amount: payoutAmount });
+                }
+            }
+
+            // Go directly to payout (dealer blackjack beats all except player blackjacks)
+            this.startTimer("payouts", DEALING_DELAY);
+        } else {
+            // Dealer doesn't have blackjack - insurance bets are lost.
+            // Reset the decline markers and continue to player turns
+            for (const seat of this.game.seats) {
+                if (seat.insuranceBet === -1) {
+                    seat.insuranceBet = 0;
+                }
+            }
+            this.changed();
+            this.startTimer("start_turns", DEALING_DELAY);
+        }
+    }
+
+    // --- Player turns ---
+
+    // The active hand waits on its player with the turn timer running - unless a queued
+    // decision or autoplay makes it straight away
+    awaitPlayer() {
+        this.startTimer("turn", TURN_TIME);
+        if (!this.playQueuedAction()) this.playAutoplay();
+    }
+
+    // The active hand of the player if it is their turn, or null
+    turnOf(playerId: string): { seat: Seat; seatIndex: number; hand: Hand } | null {
+        if (this.game.phase !== "player_turn") return null;
+
+        // The active seat may be any one of the player's spots
+        const seatIndex = this.game.activePlayerIndex;
+        if (this.game.seats[seatIndex]?.playerId !== playerId) return null;
+
+        const seat = this.game.seats[seatIndex];
+        const hand = seat.hands[this.game.activeHandIndex];
+        if (!hand || hand.status !== "playing") return null;
+
+        return { seat, seatIndex, hand };
+    }
+
+    // turnOf for a player who is trying to act - tells them when it isn't their turn
+    actingTurn(playerId: string): { seat: Seat; seatIndex: number; hand: Hand } | null {
+        const turn = this.turnOf(playerId);
+        if (!turn) this.error(playerId, "not_your_turn", "It's not your turn");
+        return turn;
+    }
+
+    hit(playerId: string) {
+        const turn = this.actingTurn(playerId);
+        if (!turn) return;
+        const { seat, seatIndex, hand } = turn;
+
+        if (!canHit(hand, this.game.rules)) {
+            this.error(playerId, "not_allowed", "Split aces receive one card only");
+            return;
+        }
+
+        // Grade the decision before the hand changes
+        const options = this.getHandOptions(seat, hand);
+        this.playerAction(playerId, seatIndex, "hit", this.gradeDecision(playerId, "hit", hand, options));
+
+        this.dealTo(hand, seatIndex, this.game.activeHandIndex, "hit");
+
+        // Check for bust
+        const { value } = calculateHandValue(hand.cards);
+        if (value > 21) {
+            hand.status = "busted";
+            this.nextPlayerOrHand();
+        } else if (value === 21) {
+            hand.status = "standing";
+            this.nextPlayerOrHand();
+        } else {
+            // Player can continue - reset timer for next action
+            this.awaitPlayer();
+        }
+
+        this.changed();
+    }
+
+    stand(playerId: string) {
+        const turn = this.actingTurn(playerId);
+        if (!turn) return;
+        const { seat, seatIndex, hand } = turn;
+
+        const options = this.getHandOptions(seat, hand);
+        this.playerAction(playerId, seatIndex, "stand", this.gradeDecision(playerId, "stand", hand, options));
+
+        hand.status = "standing";
+        this.nextPlayerOrHand();
+        this.changed();
+    }
+
+    surrender(playerId: string) {
+        if (this.game.phase === "insurance") {
+            this.earlySurrender(playerId);
+            return;
+        }
+
+        const turn = this.actingTurn(playerId);
+        if (!turn) return;
+        const { seat, seatIndex, hand } = turn;
+
+        // Can only surrender on first two cards, not on split hands
+        if (!canSurrender(hand, this.game.rules)) {
+            this.error(playerId, "wrong_phase", "Cannot surrender now");
+            return;
+        }
+
+        const options = this.getHandOptions(seat, hand);
+        this.playerAction(playerId, seatIndex, "surrender", this.gradeDecision(playerId, "surrender", hand, { ...options, canSurrender: true }));
+
+        // Return half the bet
+        this.addChips(playerId, Math.floor(hand.bet / 2));
+        hand.status = "surrendered";
+        this.surrenderBetsBehind(seat, this.game.activeHandIndex);
+
+        this.nextPlayerOrHand();
+        this.changed();
+    }
+
+    double(playerId: string) {
+        const turn = this.actingTurn(playerId);
+        if (!turn) return;
+        if (!canDouble(turn.hand, this.game.rules)) {
+            this.error(playerId, "not_allowed", "Cannot double this hand");
+            return;
+        }
+        const { seat, seatIndex, hand } = turn;
+
+        // Check if player has enough chips for the additional bet (equal to original bet)
+        if (this.chipsOf(playerId) < hand.bet) {
+            this.error(playerId, "insufficient_chips", "Not enough chips to double");
+            return;
+        }
+
+        const options = this.getHandOptions(seat, hand);
+        this.playerAction(playerId, seatIndex, "double", this.gradeDecision(playerId, "double", hand, { ...options, canDouble: true }));
+
+        // Double the bet - deduct additional chips equal to original bet
+        this.addChips(playerId, -hand.bet);
+        hand.bet *= 2;
+        hand.isDoubled = true;
+
+        // Backers double with the seat when they can cover it - otherwise their stake stays as it was
+        for (const backer of seat.betsBehind) {
+            const stake = backer.stakes[this.game.activeHandIndex] ?? 0;
+            if (stake > 0 && this.chipsOf(backer.playerId) >= stake) {
+                this.addChips(backer.playerId, -stake);
+                backer.stakes[this.game.activeHandIndex] = stake * 2;
+            }
+        }
+
+        // One card, then the hand stands
+        this.dealTo(hand, seatIndex, this.game.activeHandIndex, "double");
+        const { value } = calculateHandValue(hand.cards);
+        hand.status = value > 21 ? "busted" : "standing";
+
+        this.nextPlayerOrHand();
+        this.changed();
+    }
+
+    split(playerId: string) {
+        const turn = this.actingTurn(playerId);
+        if (!turn) return;
+        const { seat, seatIndex, hand } = turn;
+
+        // Check split limits (max hands, resplitting aces)
+        if (!canSplit(hand, seat.hands.length, this.game.rules)) {
+            this.error(playerId, "not_allowed", "Cannot split this hand");
+            return;
+        }
+
+        if (this.chipsOf(playerId) < hand.bet) {
+            this.error(playerId, "insufficient_chips", "Not enough chips to split");
+            return;
+        }
+
+        const options = this.getHandOptions(seat, hand);
+        this.playerAction(playerId, seatIndex, "split", this.gradeDecision(playerId, "split", hand, { ...options, canSplit: true }));
+
+        // Deduct chips for new hand
+        this.addChips(playerId, -hand.bet);
+
+        // New hand with the second card, inserted after the current one
+        const handIndex = this.game.activeHandIndex;
+        const secondCard = hand.cards.pop()!;
+        const newHand: Hand = {
+            cards: [secondCard],
+            bet: hand.bet,
+            status: "playing",
+            isDoubled: false,
+            isSplit: true,
+        };
+        hand.isSplit = true;
+        seat.hands.splice(handIndex + 1, 0, newHand);
+
+        // Backers put the same stake on the new hand when they can cover it, or sit it out
+        for (const backer of seat.betsBehind) {
+            const stake = backer.stakes[handIndex] ?? 0;
+            const follows = stake > 0 && this.chipsOf(backer.playerId) >= stake;
+            if (follows) {
+                this.addChips(backer.playerId, -stake);
+            }
+            backer.stakes.splice(handIndex + 1, 0, follows ? stake : 0);
+        }
+
+        // Deal new cards to both hands
+        this.dealTo(hand, seatIndex, handIndex, "split");
+        this.dealTo(newHand, seatIndex, handIndex + 1, "split");
+
+        // Split aces get one card each unless the table allows hitting them -
+        // a hand that can be resplit stays open so the player can choose
+        if (isSplitAces(hand) && !this.game.rules.hitSplitAces) {
+            for (const splitHand of [hand, newHand]) {
+                if (!canSplit(splitHand, seat.hands.length, this.game.rules)) {
+                    splitHand.status = "standing";
+                }
+            }
+        }
+
+        if (hand.status !== "playing") {
+            this.nextPlayerOrHand();
+        } else {
+            // Full turn time again for the first split hand
+            this.awaitPlayer();
+        }
+
+        this.changed();
+    }
+
+    onTurnTimeout() {
+        // Auto-stand on timeout
+        const seat = this.game.seats[this.game.activePlayerIndex];
+        const hand = seat?.hands[this.game.activeHandIndex];
+        if (!seat || !hand) {
+            // The seat emptied on its turn - nothing to stand, but play still moves on
+            this.nextPlayer();
+            this.changed();
+            return;
+        }
+
+        hand.status = "standing";
+        this.events.push({
+            type: "player_action",
+            playerId: seat.playerId ?? "",
+            seatIndex: this.game.activePlayerIndex,
+            handIndex: this.game.activeHandIndex,
+            action: "timeout",
+        });
+        this.nextPlayerOrHand();
+        this.changed();
+    }
+
+    // Autoplay's decisions go ungraded, so they stay out of the player's stats
+    playerAction(playerId: string, seatIndex: number, action: RoundActionType, grade: DecisionGrade) {
+        const graded = this.autoplayProfile(playerId) === null ? grade : {};
+        this.events.push({ type: "player_action", playerId, seatIndex, handIndex: this.game.activeHandIndex, action, ...graded });
+    }
+
+    // Which options the table rules and the seat's bankroll allow for a hand
+    getHandOptions(seat: Seat, hand: Hand): HandOptions {
+        const rules = this.game.rules;
+        return {
+            canDouble: canDouble(hand, rules) && seat.chips >= hand.bet,
+            canSplit: canSplit(hand, seat.hands.length, rules) && seat.chips >= hand.bet,
+            canSurrender: canSurrender(hand, rules),
+        };
+    }
+
+    // The true count a player's decisions are graded at - null unless the table or the
+    // player grades with index plays. Built from the cards showing, as the player counts:
+    // the hole card isn't in the running count until it is revealed.
+    indexTrueCount(playerId: string): number | null {
+        if (!this.game.rules.indexPlays && !this.state.indexPlayers[playerId]) return null;
+        return getTrueCount(this.game.runningCount, this.game.shoe.length);
+    }
+
+    // Whether the action matches basic strategy for the table's rules - or, for players
+    // (or tables) that opted in, the play at the current true count
+    gradeDecision(playerId: string, playerAction: Action, hand: Hand, options: HandOptions): DecisionGrade {
+        const dealerUpcard = this.game.dealerHand[0];
+        if (!dealerUpcard) return { isOptimal: true };
+
+        const { canDouble, canSplit, canSurrender } = options;
+        const rules = this.game.rules;
+        const trueCount = this.indexTrueCount(playerId);
+        const decision = trueCount === null
+            ? { action: getOptimalAction(hand, dealerUpcard, canDouble, canSplit, canSurrender, rules), indexPlay: null }
+            : getIndexAction(hand, dealerUpcard, canDouble, canSplit, canSurrender, trueCount, rules);
+
+        // Where on the chart it happened, for the player's strategy report (soft 12 is off the chart)
+        const position = getChartPosition(hand, dealerUpcard, canSplit);
+        return {
+            isOptimal: playerAction === decision.action,
+            indexPlay: decision.indexPlay ? `${decision.indexPlay.set}: ${describeIndexPlay(decision.indexPlay)}` : undefined,
+            decision: position ? {
+                at: this.deps.now(),
+                ...position,
+                action: playerAction,
+                correct: decision.action,
+                bet: hand.bet,
+            } : undefined,
+        };
+    }
+
+    startPlayerTurns() {
+        this.game.phase = "player_turn";
+        this.game.activeHandIndex = 0;
+
+        // Find first player who needs to act
+        this.game.activePlayerIndex = this.findNextActivePlayer(-1);
+
+        if (this.game.activePlayerIndex === -1) {
+            // Everyone has blackjack or no active hands
+            this.startDealerTurn();
+        } else {
+            this.changed();
+            this.awaitPlayer();
+        }
+    }
+
+    findNextActivePlayer(currentIndex: number): number {
+        for (let i = currentIndex + 1; i < 6; i++) {
+            const seat = this.game.seats[i];
+            if (seat.playerId && seat.hands.some((h) => h.status === "playing")) {
+                return i;
+            }
+        }
+        return -1;
+    }
+
+    nextPlayerOrHand() {
+        const seat = this.game.seats[this.game.activePlayerIndex];
+
+        // Check if there are more hands to play for this player
+        for (let i = this.game.activeHandIndex + 1; i < seat.hands.length; i++) {
+            if (seat.hands[i].status === "playing") {
+                this.game.activeHandIndex = i;
+                this.awaitPlayer();
+                return;
+            }
+        }
+
+        // Mark player as done
+        seat.status = "done";
+        this.nextPlayer();
+    }
+
+    // Turn to the next seat with a hand to play, or to the dealer once there are none
+    nextPlayer() {
+        this.game.activePlayerIndex = this.findNextActivePlayer(this.game.activePlayerIndex);
+        this.game.activeHandIndex = 0;
+
+        if (this.game.activePlayerIndex === -1) {
+            // All players done, dealer's turn
+            this.startDealerTurn();
+        } else {
+            // Find first active hand for new player
+            const newSeat = this.game.seats[this.game.activePlayerIndex];
+            this.game.activeHandIndex = Math.max(0, newSeat.hands.findIndex((h) => h.status === "playing"));
+            this.awaitPlayer();
+        }
+    }
+
+    // --- Queued decisions ---
+
+    // Whether the seat has a hand still to play whose turn hasn't started
+    awaitsTurn(seat: Seat): boolean {
+        if (!["dealing", "insurance", "player_turn"].includes(this.game.phase)) return false;
+        if (seat.status !== "playing" || seat.hands[0]?.status !== "playing") return false;
+        return this.game.phase !== "player_turn" || this.game.seats[this.game.activePlayerIndex] !== seat;
+    }
+
+    queueAction(playerId: string, action: QueuedAction | null, spot?: number) {
+        const seat = this.game.seats[this.spotOf(playerId, spot, (s) => this.awaitsTurn(s))];
+        if (!seat || !this.awaitsTurn(seat)) {
+            this.error(playerId, "wrong_phase", "You have no hand waiting for its turn");
+            return;
+        }
+
+        seat.queuedAction = action;
+        this.changed();
+    }
+
+    queueInsurance(playerId: string, accept: boolean | null, spot?: number) {
+        if (this.game.phase !== "betting") {
+            this.error(playerId, "wrong_phase", "Insurance can only be answered ahead of the deal");
+            return;
+        }
+
+        const seatIndex = this.spotOf(playerId, spot);
+        if (seatIndex === -1) {
+            this.error(playerId, "not_seated", "Take a seat to answer insurance");
+            return;
+        }
+
+        this.game.seats[seatIndex].queuedInsurance = accept;
+        this.changed();
+    }
+
+    // Plays the decision queued for the seat whose turn just came. It runs once, and only if
+    // the hand still allows it and is within its totals - otherwise the player decides.
+    playQueuedAction(): boolean {
+        const seat = this.game.seats[this.game.activePlayerIndex];
+        const queued = seat.queuedAction;
+        if (!queued || !seat.playerId) return false;
+        seat.queuedAction = null;
+
+        const hand = seat.hands[this.game.activeHandIndex];
+        const options = this.getHandOptions(seat, hand);
+        const allowed = {
+            hit: canHit(hand, this.game.rules),
+            stand: true,
+            double: options.canDouble,
+            split: options.canSplit,
+            surrender: options.canSurrender,
+        }[queued.action];
+        const { value } = calculateHandValue(hand.cards);
+        if (!allowed || value < (queued.minTotal ?? 0) || value > (queued.maxTotal ?? 21)) {
+            this.changed();
+            return false;
+        }
+
+        this.apply({ type: queued.action, playerId: seat.playerId });
+        return true;
+    }
+
+    // --- Autoplay ---
+
+    setAutoplay(playerId: string, settings: AutoplaySettings | null) {
+        if (!settings) {
+            delete this.game.autoplay[playerId];
+            this.changed();
+            return;
+        }
+        if (this.spotsOf(playerId).length === 0) {
+            this.error(playerId, "not_seated", "Take a seat to turn on autoplay");
+            return;
+        }
+
+        this.game.autoplay[playerId] = { ...settings, startChips: this.chipsOf(playerId), roundsPlayed: 0 };
+        this.changed();
+
+        // Turned on while a decision is waiting, it takes that one too
+        if (this.game.phase === "insurance" && this.answerInsuranceAhead()) {
+            this.checkInsuranceComplete();
+        } else if (this.turnOf(playerId)) {
+            this.playAutoplay();
+        }
+    }
+
+    // The profile playing a player's hands, if any - one that only declines insurance doesn't
+    autoplayProfile(playerId: string): AutoplayProfile | null {
+        const profile = this.game.autoplay[playerId]?.profile;
+        return profile && profile !== "decline_insurance" ? profile : null;
+    }
+
+    // Plays the active hand for a player on autoplay. The action leads back here through
+    // awaitPlayer for as long as the hand goes on.
+    playAutoplay() {
+        const seat = this.game.seats[this.game.activePlayerIndex];
+        const hand = seat?.hands[this.game.activeHandIndex];
+        const profile = seat?.playerId ? this.autoplayProfile(seat.playerId) : null;
+        if (!seat?.playerId || !hand || !profile) return;
+
+        this.apply({ type: this.autoplayAction(profile, seat, hand), playerId: seat.playerId });
+    }
+
+    autoplayAction(profile: AutoplayProfile, seat: Seat, hand: Hand): PlayAction {
+        const rules = this.game.rules;
+        const dealerUpcard = this.game.dealerHand[0];
+        let action: PlayAction;
+        if (profile === "stand_on_12" || !dealerUpcard) {
+            action = calculateHandValue(hand.cards).value >= 12 ? "stand" : "hit";
+        } else {
+            const { canDouble, canSplit, canSurrender } = this.getHandOptions(seat, hand);
+            action = getOptimalAction(hand, dealerUpcard, canDouble, canSplit, canSurrender, rules);
+        }
+        // Split aces that take no more cards stand
+        return action === "hit" && !canHit(hand, rules) ? "stand" : action;
+    }
+
+    // Counts the round for everyone on autoplay, and turns it off for whoever reached a limit
+    finishAutoplayRound() {
+        for (const [playerId, autoplay] of Object.entries(this.game.autoplay)) {
+            if (!this.game.seats.some((s) => s.playerId === playerId && s.hands.length > 0)) continue;
+
+            autoplay.roundsPlayed++;
+            const net = this.chipsOf(playerId) - autoplay.startChips;
+            const done = (autoplay.maxRounds !== null && autoplay.roundsPlayed >= autoplay.maxRounds)
+                || (autoplay.stopLoss !== null && net <= -autoplay.stopLoss)
+                || (autoplay.stopWin !== null && net >= autoplay.stopWin);
+            if (done) delete this.game.autoplay[playerId];
+        }
+    }
+
+    // --- Dealer and payouts ---
+
+    startDealerTurn() {
+        this.clearTimer();
+        this.game.phase = "dealer_turn";
+        this.game.activePlayerIndex = -1;
+        this.revealHoleCard();
+        this.changed();
+
+        // Check if any players are still in (not all busted)
+        const activePlayers = this.game.seats.filter(
+            (s) => s.playerId && s.hands.some((h) => h.status === "standing" || h.status === "blackjack")
+        );
+
+        if (activePlayers.length === 0) {
+            // All players busted, skip dealer play
+            this.calculatePayouts();
+            return;
+        }
+
+        this.playDealerHand();
+    }
+
+    playDealerHand() {
+        // Dealer draws to 17, hitting soft 17 only if the table rules say so
+        if (!dealerShouldHit(this.game.dealerHand, this.game.rules)) {
+            this.changed();
+            this.startTimer("payouts", DEALER_CARD_DELAY);
+            return;
+        }
+
+        // Dealer hits - one card per timer so players can watch it come out
+        this.dealToDealer("dealer");
+        this.changed();
+        this.startTimer("dealer_draw", DEALER_CARD_DELAY);
+    }
+
+    calculatePayouts() {
+        this.game.phase = "payout";
+
+        const { value: dealerValue } = calculateHandValue(this.game.dealerHand);
+        const dealerBusted = dealerValue > 21;
+        const dealerBlackjack = isBlackjack(this.game.dealerHand);
+
+        for (let seatIndex = 0; seatIndex < 6; seatIndex++) {
+            const seat = this.game.seats[seatIndex];
+            if (!seat.playerId) continue;
+
+            for (const [handIndex, hand] of seat.hands.entries()) {
+                const settle = (result: HandResult, amount: number, winnings: number) => {
+                    this.events.push({ type: "payout", playerId: seat.playerId ?? "", seatIndex, handIndex, result, amount, winnings });
+                };
+
+                if (hand.status === "busted") {
+                    // Player already lost
+                    settle("lose", 0, 0);
+                    this.settleBetsBehind(seat, seatIndex, handIndex, "lose");
+                    continue;
+                }
+
+                if (hand.status === "surrendered") {
+                    // Half the bet already went back at the surrender
+                    settle("lose", Math.floor(hand.bet / 2), 0);
+                    this.settleBetsBehind(seat, seatIndex, handIndex, "lose");
+                    continue;
+                }
+
+                const { value: playerValue } = calculateHandValue(hand.cards);
+                const playerBlackjack = hand.status === "blackjack";
+
+                let result: HandResult = "lose";
+                if (playerBlackjack && dealerBlackjack) {
+                    result = "push";
+                } else if (playerBlackjack) {
+                    result = "blackjack";
+                } else if (dealerBlackjack) {
+                    result = "lose";
+                } else if (dealerBusted || playerValue > dealerValue) {
+                    result = "win";
+                } else if (playerValue === dealerValue) {
+                    result = "push";
+                }
+
+                const payout = this.handPayout(result, hand.bet);
+                this.addChips(seat.playerId, payout);
+                // Players see the net gain - nothing for a push or a loss
+                settle(result, payout, result === "win" || result === "blackjack" ? payout - hand.bet : 0);
+                this.settleBetsBehind(seat, seatIndex, handIndex, result);
+            }
+
+            this.game.chipBalances[seat.playerId] = seat.chips;
+        }
+
+        this.finishAutoplayRound();
+        this.events.push({ type: "round_finished" });
+        this.startTimer("next_round", PAYOUT_TIME);
+        this.changed();
+    }
+
+    // What goes back for a settled stake - blackjack pays 3:2 or 6:5 depending on the table
+    handPayout(result: HandResult, bet: number): number {
+        switch (result) {
+            case "blackjack":
+                return bet + blackjackWinnings(bet, this.game.rules);
+            case "win":
+                return bet * 2;
+            case "push":
+                return bet;
+            case "lose":
+                return 0;
+        }
+    }
+
+    // Backers are paid just like the seat's own hand; a surrendered hand already returned their half
+    settleBetsBehind(seat: Seat, seatIndex: number, handIndex: number, result: HandResult) {
+        const surrendered = seat.hands[handIndex].status === "surrendered";
+        for (const backer of seat.betsBehind) {
+            const stake = backer.stakes[handIndex] ?? 0;
+            if (stake === 0) continue;
+
+            const amount = surrendered ? Math.floor(stake / 2) : this.handPayout(result, stake);
+            if (!surrendered) {
+                this.addChips(backer.playerId, amount);
+            }
+            const winnings = result === "win" || result === "blackjack" ? amount - stake : 0;
+            this.events.push({ type: "bet_behind_settled", playerId: backer.playerId, seatIndex, handIndex, result, stake, amount, winnings });
+        }
+    }
+
+    surrenderBetsBehind(seat: Seat, handIndex: number) {
+        for (const backer of seat.betsBehind) {
+            this.addChips(backer.playerId, Math.floor((backer.stakes[handIndex] ?? 0) / 2));
+        }
+    }
+
+    onPayoutShown() {
+        // Check if any players still have chips
+        const playersWithChips = this.game.seats.filter((s) => s.playerId && s.chips > 0);
+
+        if (playersWithChips.length > 0) {
+            this.startBettingPhase();
+        } else {
+            this.game.phase = "waiting";
+            this.changed();
+            this.checkGameState();
+        }
+    }
+
+    // --- Shoe ---
+
+    // Lock in the shoe order using the seeds of everyone seated at the first deal
+    finalizeShoe() {
+        const fairness = this.game.shoeFairness;
+        if (!fairness) return;
+
+        fairness.clientSeeds = [];
+        for (const seat of this.game.seats) {
+            const seed = seat.playerId ? this.state.clientSeeds[seat.playerId] : undefined;
+            if (seed) {
+                fairness.clientSeeds.push({ name: seat.displayName, seed });
+            }
+        }
+        this.game.shoe = createShoe(fairness.numDecks, this.state.serverSeed, fairness.clientSeeds.map((c) => c.seed));
+    }
+
+    drawCard(): Card {
+        if (this.game.shoe.length === 0) {
+            this.reshuffleShoe();
+        }
+        if (this.game.shoeFairness?.clientSeeds === null) {
+            this.finalizeShoe();
+        }
+
+        const shoeIndex = this.game.rules.numDecks * 52 - this.game.shoe.length;
+        const card = this.game.shoe.pop()!;
+
+        // Check if we've passed the cut card
+        if (this.game.shoe.length <= this.game.cutCardIndex) {
+            this.game.needsReshuffle = true;
+        }
+
+        return { ...card, faceUp: true, shoeIndex };
+    }
+
+    // Every system's running count moves by the card's tag; Hi-Lo is the table's own count.
+    // Only cards the players can see are counted (see revealHoleCard).
+    countCard(card: Card) {
+        for (const system of COUNTING_SYSTEM_IDS) {
+            this.state.runningCounts[system] += getCountTag(system, card.rank);
+        }
+        this.game.runningCount = this.state.runningCounts.hi_lo;
+    }
+
+    // Retire the current shoe (revealing its seed) and commit to a fresh server seed.
+    // The real shuffle waits for the first deal so seated players' seeds can be mixed in.
+    reshuffleShoe() {
+        const retired = this.game.shoeFairness;
+        if (retired) {
+            this.game.previousShoeFairness = { ...retired, serverSeed: this.state.serverSeed };
+        }
+
+        this.state.serverSeed = this.deps.randomSeed();
+        this.game.shoeFairness = {
+            shoeNumber: (retired?.shoeNumber ?? 0) + 1,
+            numDecks: this.game.rules.numDecks,
+            commitment: sha256Hex(this.state.serverSeed),
+            clientSeeds: null,
+            serverSeed: null,
+        };
+
+        // Placeholder order until finalizeShoe - nothing is dealt from it
+        this.game.shoe = createShoe(this.game.rules.numDecks, this.state.serverSeed, []);
+        this.game.cutCardIndex = getCutCardIndex(this.game.shoe.length, this.game.rules);
+        this.game.needsReshuffle = false;
+        this.game.runningCount = 0; // Reset count on reshuffle
+        this.state.runningCounts = createRunningCounts(this.game.rules.numDecks);
+    }
+
+    // --- Timers ---
+
+    timerExpired() {
+        const timer = this.state.pendingTimer;
+        if (!timer) return;
+        this.state.pendingTimer = null;
+
+        switch (timer.kind) {
+            case "betting":
+                this.onBettingEnd();
+                break;
+            case "insurance":
+                this.onInsuranceTimeout();
+                break;
+            case "turn":
+                this.onTurnTimeout();
+                break;
+            case "start_turns":
+                this.startPlayerTurns();
+                break;
+            case "dealer_draw":
+                this.playDealerHand();
+                break;
+            case "payouts":
+                this.calculatePayouts();
+                break;
+            case "next_round":
+                this.onPayoutShown();
+                break;
+            case "release_seats":
+                if (this.releaseExpiredSeats()) this.changed();
+                this.checkGameState();
+                this.scheduleSeatRelease();
+                break;
+        }
+    }
+
+    // Only one timer runs at a time - starting one replaces the last
+    startTimer(kind: TimerKind, duration: number) {
+        const at = this.deps.now() + duration;
+        this.state.pendingTimer = { kind, at };
+        this.game.timerEndTime = at;
+        this.game.timer = duration;
+    }
+
+    clearTimer() {
+        this.state.pendingTimer = null;
+        this.game.timerEndTime = null;
+        this.game.timer = 0;
+        this.scheduleSeatRelease();
+    }
+
+    // --- Helpers ---
+
+    // Seated players play from their seat, everyone else from their saved balance
+    chipsOf(playerId: string): number {
+        const seat = this.game.seats.find((s) => s.playerId === playerId);
+        return seat ? seat.chips : this.game.chipBalances[playerId] ?? INITIAL_CHIPS;
+    }
+
+    addChips(playerId: string, amount: number) {
+        this.setChips(playerId, this.chipsOf(playerId) + amount);
+    }
+
+    // A player's spots share one bankroll - every one of their seats shows the same chips
+    setChips(playerId: string, chips: number) {
+        for (const seat of this.game.seats) {
+            if (seat.playerId === playerId) seat.chips = chips;
+        }
+        this.game.chipBalances[playerId] = chips;
+    }
+
+    // Chips a player has down this betting round - none are taken until the deal
+    pendingStake(playerId: string): number {
+        let total = 0;
+        for (const seat of this.game.seats) {
+            if (seat.playerId === playerId) {
+                total += seat.bet + sideBetTotal(seat);
+            }
+            for (const backer of seat.betsBehind) {
+                if (backer.playerId === playerId) total += backer.stakes[0];
+            }
+        }
+        return total;
+    }
+
+    seatIndexOf(playerId: string): number {
+        return this.game.seats.findIndex((s) => s.playerId === playerId);
+    }
+
+    spotsOf(playerId: string): number[] {
+        return this.game.seats.flatMap((s, i) => (s.playerId === playerId ? [i] : []));
+    }
+
+    // The spot a bet or decision is for: the seat the player named, or else their first seat that fits
+    spotOf(playerId: string, seatIndex: number | undefined, fits: (seat: Seat) => boolean = () => true): number {
+        if (seatIndex !== undefined) {
+            return this.game.seats[seatIndex]?.playerId === playerId ? seatIndex : -1;
+        }
+        return this.game.seats.findIndex((s) => s.playerId === playerId && fits(s));
+    }
+
+    // Turns down a bet that isn't a whole number of chips or would take the total out of
+    // the table limits
+    withinLimits(playerId: string, amount: number, total: number): boolean {
+        const code = checkBetLimits(amount, total, this.game.rules);
+        if (code === "invalid_amount") {
+            this.error(playerId, code, "Invalid bet amount");
+        } else if (code) {
+            this.error(playerId, code, `Bets at this table are ${formatBetLimits(this.game.rules)}`);
+        }
+        return code === null;
+    }
+
+    error(playerId: string, code: ErrorCode, message: string) {
+        this.events.push({ type: "error", playerId, code, message });
+    }
+
+    changed() {
+        this.game.lastUpdate = this.deps.now();
+        this.events.push({ type: "state_changed" });
+    }
+}
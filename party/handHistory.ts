@@ -0,0 +1,138 @@
+// Hand history recording - collects everything that happens in a round into a RoundRecord
+// that the server persists once the round is paid out
+
+import {
+    Card,
+    GameState,
+    HandResult,
+    RoundActionType,
+    RoundEvent,
+    RoundRecord,
+    SideBetKind,
+    SideBetResult,
+} from "../src/lib/gameTypes";
+import { sideBetTotal } from "../src/lib/sideBets";
+
+export const ROUND_KEY_PREFIX = "round:";
+export const HAND_HISTORY_PAGE_SIZE = 10;
+export const MAX_STORED_ROUNDS = 2000; // Older rounds are deleted as new ones are written
+export const MAX_PLAYER_ROUNDS = 500; // Rounds remembered per player for "My hands"
+export const MAX_PLAYER_DECISIONS = 1000; // Graded decisions kept per player for the strategy report
+export const MAX_COUNT_QUIZZES = 500; // Counting trainer answers kept per player
+
+// Zero-padded so storage.list() returns rounds in order
+export function roundKey(roundNumber: number): string {
+    return `${ROUND_KEY_PREFIX}${String(roundNumber).padStart(10, "0")}`;
+}
+
+export function playerRoundsKey(playerId: string): string {
+    return `playerRounds:${playerId}`;
+}
+
+export function playerDecisionsKey(playerId: string): string {
+    return `playerDecisions:${playerId}`;
+}
+
+export function countQuizzesKey(playerId: string): string {
+    return `countQuizzes:${playerId}`;
+}
+
+export class RoundRecorder {
+    private record: RoundRecord | null = null;
+
+    // Called once bets are taken, before the first card. The host hands over the state after
+    // the whole action, so balances come from the round_started event instead.
+    start(roundNumber: number, state: GameState, chips: Record<string, number>) {
+        const now = Date.now();
+        const record: RoundRecord = {
+            roundNumber,
+            shoeNumber: state.shoeFairness?.shoeNumber ?? null,
+            rules: state.rules,
+            startedAt: now,
+            endedAt: now,
+            dealerHand: [],
+            seats: [],
+            events: [],
+        };
+
+        // Everything a player staked this round, over all of their spots and behind other hands
+        const staked = (playerId: string) => state.seats.reduce((total, s) => {
+            const own = s.playerId === playerId ? s.bet + sideBetTotal(s) : 0;
+            const behind = s.betsBehind.filter((b) => b.playerId === playerId).reduce((sum, b) => sum + b.stakes[0], 0);
+            return total + own + behind;
+        }, 0);
+
+        state.seats.forEach((seat, seatIndex) => {
+            if (!seat.playerId || seat.bet <= 0) return;
+            record.seats.push({
+                seatIndex,
+                playerId: seat.playerId,
+                displayName: seat.displayName,
+                bet: seat.bet,
+                sideBets: { ...seat.sideBets },
+                chipsBefore: chips[seat.playerId] + staked(seat.playerId),
+                chipsAfter: chips[seat.playerId],
+                insuranceBet: 0,
+                insurancePayout: 0,
+                hands: [],
+            });
+        });
+        this.record = record;
+    }
+
+    deal(seatIndex: number | null, handIndex: number, card: Card) {
+        // Copy - the dealer's hole card object is flipped face up later
+        this.push({ type: "deal", at: Date.now(), seatIndex, handIndex, card: { ...card } });
+    }
+
+    action(seatIndex: number, handIndex: number, action: RoundActionType, isOptimal?: boolean) {
+        this.push({ type: "action", at: Date.now(), seatIndex, handIndex, action, isOptimal });
+    }
+
+    insurance(seatIndex: number, accepted: boolean, amount: number, isOptimal?: boolean) {
+        this.push({ type: "insurance", at: Date.now(), seatIndex, accepted, amount, isOptimal });
+    }
+
+    sideBet(seatIndex: number, kind: SideBetKind, stake: number, result: SideBetResult | null, amount: number) {
+        this.push({ type: "side_bet", at: Date.now(), seatIndex, kind, stake, result, amount });
+    }
+
+    insurancePayout(seatIndex: number, amount: number) {
+        const seat = this.record?.seats.find((s) => s.seatIndex === seatIndex);
+        if (seat) {
+            seat.insurancePayout = amount;
+        }
+    }
+
+    reveal() {
+        this.push({ type: "reveal", at: Date.now() });
+    }
+
+    payout(seatIndex: number, handIndex: number, result: HandResult, amount: number) {
+        this.push({ type: "payout", at: Date.now(), seatIndex, handIndex, result, amount });
+    }
+
+    // Snapshot the final hands and balances and hand the record over for storage
+    finish(state: GameState): RoundRecord | null {
+        const record = this.record;
+        this.record = null;
+        if (!record) return null;
+
+        record.endedAt = Date.now();
+        record.dealerHand = state.dealerHand.map((card) => ({ ...card, faceUp: true }));
+        for (const seatRecord of record.seats) {
+            const seat = state.seats[seatRecord.seatIndex];
+            // The seat may have been freed mid-round - keep what we saw at the start
+            if (seat.playerId !== seatRecord.playerId) continue;
+            seatRecord.hands = seat.hands.map((hand) => ({ ...hand, cards: hand.cards.map((card) => ({ ...card })) }));
+            seatRecord.chipsAfter = seat.chips;
+            seatRecord.insuranceBet = Math.max(seat.insuranceBet, 0);
+            seatRecord.betsBehind = seat.betsBehind.map((backer) => ({ ...backer, stakes: [...backer.stakes] }));
+        }
+        return record;
+    }
+
+    private push(event: RoundEvent) {
+        this.record?.events.push(event);
+    }
+}
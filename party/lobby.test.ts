@@ -0,0 +1,48 @@
+import type * as Party from "partykit/server";
+import { describe, expect, it } from "vitest";
+import LobbyServer from "./lobby";
+
+// A lobby room whose table rooms can't be reached - every fetch to one rejects
+function unreachableTablesRoom(): Party.Room {
+    const stored = new Map<string, unknown>();
+    return {
+        id: "lobby",
+        env: {},
+        storage: {
+            get: async (key: string) => stored.get(key),
+            put: async (key: string, value: unknown) => { stored.set(key, value); },
+        },
+        broadcast: () => {},
+        context: { parties: { main: { get: () => ({ fetch: async () => { throw new Error("Network down"); } }) } } },
+    } as unknown as Party.Room;
+}
+
+function connect() {
+    const sent: { type: string; message?: string }[] = [];
+    const conn = { id: "c1", send: (message: string) => sent.push(JSON.parse(message)) } as unknown as Party.Connection;
+    return { conn, sent };
+}
+
+describe("lobby server", () => {
+    it("turns away a message that doesn't fit the lobby's schema", async () => {
+        const server = new LobbyServer(unreachableTablesRoom());
+        await server.onStart();
+        const { conn, sent } = connect();
+
+        await server.onMessage(JSON.stringify({ type: "join_by_code", inviteCode: 42 }), conn);
+
+        expect(sent).toEqual([{ type: "error", message: "Invalid join_by_code message: bad inviteCode" }]);
+    });
+
+    it("answers with an error when the new table's room can't be set up", async () => {
+        const server = new LobbyServer(unreachableTablesRoom());
+        await server.onStart();
+        const { conn, sent } = connect();
+
+        const create = { type: "create_table", name: "High Rollers", isPrivate: false, minBet: 100, maxBet: 5000, rules: {} };
+        await server.onMessage(JSON.stringify(create), conn);
+
+        expect(sent).toEqual([{ type: "error", message: "Could not create table" }]);
+        expect(server.getPublicListings()).toHaveLength(1);
+    });
+});
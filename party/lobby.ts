@@ -0,0 +1,264 @@
+import type * as Party from "partykit/server";
+import {
+    TableListing,
+    TableRules,
+    LobbyClientMessage,
+    LobbyServerMessage,
+    DEFAULT_TABLE_ID,
+    DEFAULT_TABLE_RULES,
+    MIN_BET_FLOOR,
+    MAX_BET_CEILING,
+} from "../src/lib/gameTypes";
+import { sanitizeInput, RateLimiter, isPartyRequest, partyRequestHeaders } from "./utils";
+import { isOccupancyReport, parseLobbyMessage } from "../src/lib/protocol";
+
+const SEAT_COUNT = 6;
+const IDLE_TABLE_TTL = 30 * 60 * 1000; // Empty tables drop out of the lobby after 30 minutes
+const INVITE_CODE_LENGTH = 6;
+const INVITE_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"; // No 0/O or 1/I lookalikes
+
+interface LobbyTable extends TableListing {
+    inviteCode: string | null;
+}
+
+// The shared default table is always listed, even before anyone has played there
+function createDefaultTable(): LobbyTable {
+    const now = Date.now();
+    return {
+        roomId: DEFAULT_TABLE_ID,
+        name: "Main Table",
+        isPrivate: false,
+        inviteCode: null,
+        minBet: DEFAULT_TABLE_RULES.minBet,
+        maxBet: DEFAULT_TABLE_RULES.maxBet,
+        rules: DEFAULT_TABLE_RULES,
+        seatsTaken: 0,
+        seatCount: SEAT_COUNT,
+        connections: 0,
+        createdAt: now,
+        updatedAt: now,
+    };
+}
+
+function generateInviteCode(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(INVITE_CODE_LENGTH));
+    return Array.from(bytes, (b) => INVITE_CODE_ALPHABET[b % INVITE_CODE_ALPHABET.length]).join("");
+}
+
+// Strip the invite code before a listing leaves the lobby
+function toListing(table: LobbyTable): TableListing {
+    const listing: Omit<LobbyTable, "inviteCode"> & { inviteCode?: string | null } = { ...table };
+    delete listing.inviteCode;
+    return listing;
+}
+
+export default class LobbyServer implements Party.Server {
+    tables: Record<string, LobbyTable> = {};
+    rateLimiter: RateLimiter = new RateLimiter(10, 5000); // 10 messages per 5 seconds
+
+    constructor(readonly room: Party.Room) { }
+
+    async onStart() {
+        const storedTables = await this.room.storage.get<Record<string, LobbyTable>>("tables");
+        if (storedTables) {
+            this.tables = storedTables;
+        }
+        if (!this.tables[DEFAULT_TABLE_ID]) {
+            this.tables[DEFAULT_TABLE_ID] = createDefaultTable();
+        }
+    }
+
+    onConnect(conn: Party.Connection) {
+        this.sendToConnection(conn, { type: "tables", tables: this.getPublicListings() });
+    }
+
+    onClose(conn: Party.Connection) {
+        this.rateLimiter.cleanup(conn.id);
+    }
+
+    // Table rooms POST their occupancy here (see BlackjackServer.reportToLobby), signed
+    // with the same secret the lobby uses to set their rules
+    async onRequest(req: Party.Request) {
+        if (req.method !== "POST") {
+            return new Response("Method not allowed", { status: 405 });
+        }
+
+        if (!isPartyRequest(req, this.room.env)) {
+            return new Response("Forbidden", { status: 403 });
+        }
+
+        let report: unknown;
+        try {
+            report = await req.json();
+        } catch {
+            return new Response("Invalid JSON", { status: 400 });
+        }
+        if (!isOccupancyReport(report)) {
+            return new Response("Invalid occupancy report", { status: 400 });
+        }
+
+        // Only rooms created through the lobby are listed
+        const table = this.tables[report.roomId];
+        if (!table) {
+            return new Response("Unknown table", { status: 404 });
+        }
+
+        table.rules = report.rules;
+        table.minBet = report.rules.minBet;
+        table.maxBet = report.rules.maxBet;
+        table.seatsTaken = report.seatsTaken;
+        table.seatCount = report.seatCount;
+        table.connections = report.connections;
+        table.updatedAt = Date.now();
+
+        await this.saveTables();
+        this.broadcastTables();
+        return new Response("OK");
+    }
+
+    async onMessage(message: string, sender: Party.Connection) {
+        if (!this.rateLimiter.isAllowed(sender.id)) {
+            this.sendToConnection(sender, { type: "error", message: "Too many requests. Please slow down." });
+            return;
+        }
+
+        // Checked against the lobby messages' schema, as the table room checks its own
+        const parsed = parseLobbyMessage(message);
+        if (!parsed.ok) {
+            this.sendToConnection(sender, { type: "error", message: parsed.error });
+            return;
+        }
+
+        const msg = parsed.message;
+        switch (msg.type) {
+            case "request_tables":
+                this.sendToConnection(sender, { type: "tables", tables: this.getPublicListings() });
+                break;
+
+            case "create_table":
+                await this.handleCreateTable(msg, sender);
+                break;
+
+            case "join_by_code":
+                this.handleJoinByCode(msg.inviteCode, sender);
+                break;
+        }
+    }
+
+    async handleCreateTable(
+        msg: Extract<LobbyClientMessage, { type: "create_table" }>,
+        sender: Party.Connection
+    ) {
+        const name = sanitizeInput(msg.name, 24);
+        if (!name) {
+            this.sendToConnection(sender, { type: "error", message: "Table name is required" });
+            return;
+        }
+
+        const minBet = Math.floor(msg.minBet);
+        const maxBet = Math.floor(msg.maxBet);
+        if (minBet < MIN_BET_FLOOR || maxBet > MAX_BET_CEILING || minBet > maxBet) {
+            this.sendToConnection(sender, {
+                type: "error",
+                message: `Bets must be between $${MIN_BET_FLOOR} and $${MAX_BET_CEILING.toLocaleString()}`,
+            });
+            return;
+        }
+
+        const roomId = `t-${crypto.randomUUID().slice(0, 8)}`;
+
+        // The table room owns its rules - it normalizes them and hands back what it accepted.
+        // The limits are part of them, so the table can enforce them.
+        let rules: TableRules;
+        try {
+            const response = await this.room.context.parties.main.get(roomId).fetch({
+                method: "POST",
+                headers: partyRequestHeaders(this.room.env),
+                body: JSON.stringify({ rules: { ...msg.rules, minBet, maxBet } }),
+            });
+            if (!response.ok) throw new Error(`Table room answered ${response.status}`);
+            ({ rules } = await response.json() as { rules: TableRules });
+        } catch {
+            // Unreachable or refused - either way there's no table to list
+            this.sendToConnection(sender, { type: "error", message: "Could not create table" });
+            return;
+        }
+
+        const now = Date.now();
+        const table: LobbyTable = {
+            roomId,
+            name,
+            isPrivate: msg.isPrivate,
+            inviteCode: msg.isPrivate ? this.createUniqueInviteCode() : null,
+            minBet: rules.minBet,
+            maxBet: rules.maxBet,
+            rules,
+            seatsTaken: 0,
+            seatCount: SEAT_COUNT,
+            connections: 0,
+            createdAt: now,
+            updatedAt: now,
+        };
+        this.tables[roomId] = table;
+        await this.saveTables();
+
+        this.sendToConnection(sender, { type: "table_created", table: toListing(table), inviteCode: table.inviteCode });
+        if (!table.isPrivate) {
+            this.broadcastTables();
+        }
+    }
+
+    handleJoinByCode(inviteCode: string, sender: Party.Connection) {
+        const code = inviteCode.trim().toUpperCase();
+        const table = Object.values(this.tables).find((t) => t.inviteCode !== null && t.inviteCode === code);
+        if (!table) {
+            this.sendToConnection(sender, { type: "error", message: "No table with that invite code" });
+            return;
+        }
+        this.sendToConnection(sender, { type: "invite_resolved", roomId: table.roomId });
+    }
+
+    createUniqueInviteCode(): string {
+        const taken = new Set(Object.values(this.tables).map((t) => t.inviteCode));
+        let code = generateInviteCode();
+        while (taken.has(code)) {
+            code = generateInviteCode();
+        }
+        return code;
+    }
+
+    // Drop tables that have sat empty for a while (the default table always stays)
+    pruneIdleTables() {
+        const now = Date.now();
+        for (const [roomId, table] of Object.entries(this.tables)) {
+            if (roomId === DEFAULT_TABLE_ID) continue;
+            if (table.connections === 0 && now - table.updatedAt > IDLE_TABLE_TTL) {
+                delete this.tables[roomId];
+            }
+        }
+    }
+
+    getPublicListings(): TableListing[] {
+        return Object.values(this.tables)
+            .filter((t) => !t.isPrivate)
+            .map(toListing)
+            .sort((a, b) => a.createdAt - b.createdAt);
+    }
+
+    async saveTables() {
+        this.pruneIdleTables();
+        await this.room.storage.put("tables", this.tables);
+    }
+
+    broadcastTables() {
+        this.broadcast({ type: "tables", tables: this.getPublicListings() });
+    }
+
+    broadcast(msg: LobbyServerMessage) {
+        this.room.broadcast(JSON.stringify(msg));
+    }
+
+    sendToConnection(conn: Party.Connection, msg: LobbyServerMessage) {
+        conn.send(JSON.stringify(msg));
+    }
+}
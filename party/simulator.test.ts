@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { normalizeTableRules } from "../src/lib/gameTypes";
+import { riskOfRuin, simulate } from "./simulator";
+
+describe("simulator", () => {
+    it("plays the same hands for the same seed", () => {
+        const run = () => simulate({ rules: normalizeTableRules(), hands: 5000, seed: "repeat" });
+        expect(run()).toEqual(run());
+    });
+
+    it("only changes blackjack payouts between 3:2 and 6:5", () => {
+        const hands = 20000;
+        const threeToTwo = simulate({ rules: normalizeTableRules({ blackjackPayout: "3:2" }), hands, seed: "payout" });
+        const sixToFive = simulate({ rules: normalizeTableRules({ blackjackPayout: "6:5" }), hands, seed: "payout" });
+
+        // Same cards and same decisions - each unpushed blackjack pays 0.3 bets less
+        expect(sixToFive.blackjackRate).toBe(threeToTwo.blackjackRate);
+        expect(sixToFive.houseEdge).toBeGreaterThan(threeToTwo.houseEdge);
+        expect(sixToFive.houseEdge - threeToTwo.houseEdge).toBeLessThanOrEqual(0.3 * threeToTwo.blackjackRate + 1e-9);
+    });
+
+    it("lands near the known edge for a standard shoe", () => {
+        const report = simulate({ rules: normalizeTableRules(), hands: 100000, seed: "edge" });
+        expect(report.houseEdge).toBeGreaterThan(-0.015);
+        expect(report.houseEdge).toBeLessThan(0.02);
+        expect(report.standardDeviation).toBeGreaterThan(1.05);
+        expect(report.standardDeviation).toBeLessThan(1.25);
+    });
+
+    it("rejects a strategy that breaks the rules", () => {
+        expect(() => simulate({
+            rules: normalizeTableRules({ surrender: "none" }),
+            hands: 100,
+            strategy: () => "surrender",
+        })).toThrow("rules don't allow");
+    });
+
+    it("treats any losing game as certain ruin", () => {
+        expect(riskOfRuin(-0.005, 1.3, 100)).toBe(1);
+        expect(riskOfRuin(0.01, 1.3, 100)).toBeCloseTo(Math.exp(-2 / 1.3));
+    });
+});
@@ -0,0 +1,328 @@
+// Monte Carlo simulator - plays hands offline against createShoe to measure what a rule
+// set and a strategy are worth. It settles hands with the same rule helpers as the engine
+// but keeps no table state, so millions of hands take seconds rather than hours.
+// scripts/simulate.ts is the command line front end.
+
+import {
+    Card,
+    Hand,
+    Rank,
+    TableRules,
+    createShoe,
+    calculateHandValue,
+    isBlackjack,
+    canSplit,
+    canDouble,
+    canHit,
+    canSurrender,
+    dealerShouldHit,
+    blackjackWinnings,
+    getCutCardIndex,
+    isSplitAces,
+} from "../src/lib/gameTypes";
+import { Action, getOptimalAction } from "../src/lib/basicStrategy";
+
+// Same shape as getOptimalAction, so any chart can be dropped in
+export type Strategy = (
+    hand: Hand,
+    dealerUpcard: Card,
+    canDouble: boolean,
+    canSplit: boolean,
+    canSurrender: boolean,
+    rules: TableRules
+) => Action;
+
+export interface SimulationOptions {
+    rules: TableRules;
+    hands: number; // Rounds to play, one seat at the table
+    strategy?: Strategy; // Basic strategy if not given
+    seed?: string; // Shoes are shuffled from this, so the same seed plays the same cards
+    bet?: number; // Chips per round - payouts round to whole chips as they do at the table
+    bankroll?: number; // In bets, for the risk of ruin figures
+    tripHands?: number; // Rounds per trip for the simulated ruin rate
+    onProgress?: (handsPlayed: number) => void;
+}
+
+export interface SimulationReport {
+    rules: TableRules;
+    seed: string;
+    hands: number;
+    shoes: number;
+    houseEdge: number; // Share of the initial bet the house keeps per round
+    standardError: number; // Of the house edge
+    variance: number; // Of the net result per round, in bets squared
+    standardDeviation: number;
+    winRate: number;
+    pushRate: number;
+    lossRate: number;
+    blackjackRate: number;
+    doubleRate: number;
+    splitRate: number;
+    surrenderRate: number;
+    playerBustRate: number; // Share of player hands (split hands counted apart) that busted
+    dealerBustRate: number; // Share of dealer hands played out that busted
+    dealerBustByUpcard: Partial<Record<Rank, number>>; // Tens are all counted under "10"
+    bankroll: number;
+    riskOfRuin: number; // Long run, from the mean and variance
+    tripHands: number;
+    trips: number;
+    tripRuinRate: number; // Share of trips that lost the whole bankroll
+}
+
+const TEN_VALUES = ["10", "J", "Q", "K"];
+const PROGRESS_EVERY = 100000;
+
+export function simulate(options: SimulationOptions): SimulationReport {
+    const { rules, hands } = options;
+    const strategy = options.strategy ?? getOptimalAction;
+    const seed = options.seed ?? "simulation";
+    const bet = options.bet ?? 100;
+    const bankroll = options.bankroll ?? 100;
+    const tripHands = options.tripHands ?? 1000;
+
+    let shoe: Card[] = [];
+    let shoes = 0;
+    let cutCardIndex = 0;
+
+    const newShoe = () => {
+        shoe = createShoe(rules.numDecks, `${seed}:${shoes++}`, []);
+        cutCardIndex = getCutCardIndex(shoe.length, rules);
+    };
+
+    // Like the engine: a shoe that runs out mid-round is replaced on the spot
+    const draw = (): Card => {
+        if (shoe.length === 0) newShoe();
+        return shoe.pop()!;
+    };
+
+    let total = 0;
+    let totalSquares = 0;
+    let wins = 0;
+    let pushes = 0;
+    let losses = 0;
+    let blackjacks = 0;
+    let doubles = 0;
+    let splits = 0;
+    let surrenders = 0;
+    let playerHands = 0;
+    let playerBusts = 0;
+    let dealerHands = 0;
+    let dealerBusts = 0;
+    const upcardHands: Partial<Record<Rank, number>> = {};
+    const upcardBusts: Partial<Record<Rank, number>> = {};
+
+    let trips = 0;
+    let ruinedTrips = 0;
+    let tripBalance = bankroll;
+    let tripRuined = false;
+
+    // One round at one seat, returning the net result in chips
+    const playRound = (): number => {
+        // The cut card only takes effect between rounds
+        if (shoe.length <= cutCardIndex) newShoe();
+
+        const first = draw();
+        const upcard = draw();
+        const second = draw();
+        const holeCard = draw();
+        const dealerHand = [upcard, holeCard];
+        const hand: Hand = { cards: [first, second], bet, status: "playing", isDoubled: false, isSplit: false };
+
+        const dealerBlackjack = isBlackjack(dealerHand);
+        if (isBlackjack(hand.cards)) {
+            blackjacks++;
+            if (dealerBlackjack) return 0;
+            return blackjackWinnings(bet, rules);
+        }
+
+        // Early surrender is decided before the dealer peeks under an ace or a ten
+        const peeks = upcard.rank === "A" || TEN_VALUES.includes(upcard.rank);
+        if (rules.surrender === "early" && peeks && canSurrender(hand, rules)) {
+            if (strategy(hand, upcard, canDouble(hand, rules), canSplit(hand, 1, rules), true, rules) === "surrender") {
+                surrenders++;
+                return -bet + Math.floor(bet / 2);
+            }
+        }
+        if (dealerBlackjack) return -bet;
+
+        const seatHands = [hand];
+        let net = -bet;
+        for (let i = 0; i < seatHands.length; i++) {
+            const current = seatHands[i];
+            while (current.status === "playing") {
+                const { value } = calculateHandValue(current.cards);
+                if (value >= 21) {
+                    current.status = value > 21 ? "busted" : "standing";
+                    break;
+                }
+
+                const splittable = canSplit(current, seatHands.length, rules);
+                if (!canHit(current, rules) && !splittable) {
+                    current.status = "standing";
+                    break;
+                }
+
+                const action = strategy(
+                    current,
+                    upcard,
+                    canDouble(current, rules),
+                    splittable,
+                    canSurrender(current, rules),
+                    rules
+                );
+                if (!isAllowed(action, current, splittable, rules)) {
+                    throw new Error(`Strategy chose to ${action} a hand where the rules don't allow it`);
+                }
+
+                if (action === "stand") {
+                    current.status = "standing";
+                } else if (action === "hit") {
+                    current.cards.push(draw());
+                } else if (action === "double") {
+                    doubles++;
+                    net -= current.bet;
+                    current.bet *= 2;
+                    current.isDoubled = true;
+                    current.cards.push(draw());
+                    current.status = calculateHandValue(current.cards).value > 21 ? "busted" : "standing";
+                } else if (action === "surrender") {
+                    surrenders++;
+                    current.status = "surrendered";
+                    net += Math.floor(current.bet / 2);
+                } else {
+                    splits++;
+                    net -= current.bet;
+                    const newHand: Hand = {
+                        cards: [current.cards.pop()!],
+                        bet: current.bet,
+                        status: "playing",
+                        isDoubled: false,
+                        isSplit: true,
+                    };
+                    current.isSplit = true;
+                    seatHands.splice(i + 1, 0, newHand);
+                    current.cards.push(draw());
+                    newHand.cards.push(draw());
+
+                    // Split aces that can't be hit or resplit stand on their one card
+                    if (isSplitAces(current) && !rules.hitSplitAces) {
+                        for (const splitHand of [current, newHand]) {
+                            if (!canSplit(splitHand, seatHands.length, rules)) {
+                                splitHand.status = "standing";
+                            }
+                        }
+                    }
+                }
+            }
+        }
+
+        playerHands += seatHands.length;
+        playerBusts += seatHands.filter((h) => h.status === "busted").length;
+
+        // The dealer only plays out if a hand is still waiting on the result
+        if (!seatHands.some((h) => h.status === "standing")) return net;
+
+        while (dealerShouldHit(dealerHand, rules)) {
+            dealerHand.push(draw());
+        }
+        const dealerValue = calculateHandValue(dealerHand).value;
+        const dealerBusted = dealerValue > 21;
+        const upcardRank: Rank = TEN_VALUES.includes(upcard.rank) ? "10" : upcard.rank;
+        dealerHands++;
+        upcardHands[upcardRank] = (upcardHands[upcardRank] ?? 0) + 1;
+        if (dealerBusted) {
+            dealerBusts++;
+            upcardBusts[upcardRank] = (upcardBusts[upcardRank] ?? 0) + 1;
+        }
+
+        for (const current of seatHands) {
+            if (current.status !== "standing") continue;
+            const value = calculateHandValue(current.cards).value;
+            if (dealerBusted || value > dealerValue) {
+                net += current.bet * 2;
+            } else if (value === dealerValue) {
+                net += current.bet;
+            }
+        }
+        return net;
+    };
+
+    for (let played = 1; played <= hands; played++) {
+        const result = playRound() / bet;
+        total += result;
+        totalSquares += result * result;
+        if (result > 0) wins++;
+        else if (result < 0) losses++;
+        else pushes++;
+
+        tripBalance += result;
+        if (tripBalance <= 0) tripRuined = true;
+        if (played % tripHands === 0) {
+            trips++;
+            if (tripRuined) ruinedTrips++;
+            tripBalance = bankroll;
+            tripRuined = false;
+        }
+
+        if (options.onProgress && played % PROGRESS_EVERY === 0) {
+            options.onProgress(played);
+        }
+    }
+
+    const mean = hands > 0 ? total / hands : 0;
+    const variance = hands > 0 ? totalSquares / hands - mean * mean : 0;
+    const rate = (count: number, of: number) => (of > 0 ? count / of : 0);
+
+    const dealerBustByUpcard: Partial<Record<Rank, number>> = {};
+    for (const [rank, count] of Object.entries(upcardHands) as [Rank, number][]) {
+        dealerBustByUpcard[rank] = rate(upcardBusts[rank] ?? 0, count);
+    }
+
+    return {
+        rules,
+        seed,
+        hands,
+        shoes,
+        houseEdge: -mean,
+        standardError: hands > 0 ? Math.sqrt(variance / hands) : 0,
+        variance,
+        standardDeviation: Math.sqrt(variance),
+        winRate: rate(wins, hands),
+        pushRate: rate(pushes, hands),
+        lossRate: rate(losses, hands),
+        blackjackRate: rate(blackjacks, hands),
+        doubleRate: rate(doubles, hands),
+        splitRate: rate(splits, hands),
+        surrenderRate: rate(surrenders, hands),
+        playerBustRate: rate(playerBusts, playerHands),
+        dealerBustRate: rate(dealerBusts, dealerHands),
+        dealerBustByUpcard,
+        bankroll,
+        riskOfRuin: riskOfRuin(mean, variance, bankroll),
+        tripHands,
+        trips,
+        tripRuinRate: rate(ruinedTrips, trips),
+    };
+}
+
+// Chance of ever losing `bankroll` bets with the given per-round mean and variance
+// (diffusion approximation). With no edge over the house, ruin is only a matter of time.
+export function riskOfRuin(mean: number, variance: number, bankroll: number): number {
+    if (mean <= 0 || variance <= 0) return 1;
+    return Math.exp((-2 * mean * bankroll) / variance);
+}
+
+function isAllowed(action: Action, hand: Hand, splittable: boolean, rules: TableRules): boolean {
+    switch (action) {
+        case "stand":
+            return true;
+        case "hit":
+            return canHit(hand, rules);
+        case "double":
+            return canDouble(hand, rules);
+        case "split":
+            return splittable;
+        case "surrender":
+            return canSurrender(hand, rules);
+    }
+}
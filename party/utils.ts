@@ -0,0 +1,73 @@
+import type * as Party from "partykit/server";
+
+// Shared helpers for the PartyKit servers
+
+// Sanitize user input to prevent XSS attacks
+export function sanitizeInput(input: string, maxLength: number = 50): string {
+    return input
+        .slice(0, maxLength)
+        .replace(/[<>"'&]/g, '') // Remove HTML special chars
+        .replace(/[\x00-\x1F\x7F]/g, '') // Remove control characters
+        .trim();
+}
+
+// Rate limiter to prevent WebSocket spam attacks
+export class RateLimiter {
+    private requests: Map<string, number[]> = new Map();
+    private readonly maxRequests: number;
+    private readonly windowMs: number;
+
+    constructor(maxRequests: number = 20, windowMs: number = 5000) {
+        this.maxRequests = maxRequests;
+        this.windowMs = windowMs;
+    }
+
+    isAllowed(connectionId: string): boolean {
+        const now = Date.now();
+        const timestamps = this.requests.get(connectionId) || [];
+
+        // Filter out old timestamps
+        const recentTimestamps = timestamps.filter(t => now - t < this.windowMs);
+
+        if (recentTimestamps.length >= this.maxRequests) {
+            return false; // Rate limit exceeded
+        }
+
+        recentTimestamps.push(now);
+        this.requests.set(connectionId, recentTimestamps);
+        return true;
+    }
+
+    cleanup(connectionId: string): void {
+        this.requests.delete(connectionId);
+    }
+}
+
+
+// Player tokens are 32 random bytes, hex-encoded, generated by the client (see src/lib/playerIdentity.ts)
+const PLAYER_TOKEN_PATTERN = /^[0-9a-f]{64}$/;
+
+// Verify a client's token and derive its stable player ID. The ID is a hash of the
+// token, so it can be shown to other players without letting them impersonate the owner.
+export async function derivePlayerId(token: string | null): Promise<string | null> {
+    if (!token || !PLAYER_TOKEN_PATTERN.test(token)) {
+        return null;
+    }
+    const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+    return Array.from(new Uint8Array(digest).slice(0, 16), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// Rooms set up and report to each other over HTTP. Those requests carry the PARTY_SECRET
+// environment variable in this header, so nobody outside can set a table's rules or
+// fake its lobby listing.
+export const PARTY_SECRET_HEADER = "X-Party-Secret";
+
+export function partyRequestHeaders(env: Record<string, unknown>): Record<string, string> {
+    return { "Content-Type": "application/json", [PARTY_SECRET_HEADER]: String(env.PARTY_SECRET ?? "") };
+}
+
+// With no secret configured, no request is trusted
+export function isPartyRequest(req: Party.Request, env: Record<string, unknown>): boolean {
+    const secret = env.PARTY_SECRET;
+    return typeof secret === "string" && secret !== "" && req.headers.get(PARTY_SECRET_HEADER) === secret;
+}
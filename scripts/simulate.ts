@@ -0,0 +1,137 @@
+// Monte Carlo simulator CLI - see party/simulator.ts
+//
+//   npm run simulate -- --hands 1000000 --rules '{"dealerHitsSoft17": true}'
+//   npm run simulate -- --strategy ./my-chart.ts --seed abc --json
+
+import { resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import { parseArgs } from "node:util";
+import { TableRules, normalizeTableRules } from "../src/lib/gameTypes";
+import { randomSeed } from "../src/lib/fairness";
+import { SimulationReport, Strategy, simulate } from "../party/simulator";
+
+const USAGE = `Usage: npm run simulate -- [options]
+
+  --hands <n>          Rounds to play (default 1000000)
+  --rules <json>       Table rules, same shape as the room creation POST
+  --decks <n>          Shortcut for rules.numDecks
+  --penetration <f>    Shortcut for rules.penetration (0.5-0.9)
+  --strategy <file>    Module whose default export (or getOptimalAction) picks the play
+  --seed <text>        Shuffle seed - the same seed plays the same cards
+  --bankroll <n>       Bankroll in bets, for risk of ruin (default 100)
+  --trip <n>           Rounds per trip for the trip ruin rate (default 1000)
+  --json               Print the report as JSON
+  --help               Show this message`;
+
+async function main() {
+    const { values } = parseArgs({
+        options: {
+            hands: { type: "string", default: "1000000" },
+            rules: { type: "string" },
+            decks: { type: "string" },
+            penetration: { type: "string" },
+            strategy: { type: "string" },
+            seed: { type: "string" },
+            bankroll: { type: "string", default: "100" },
+            trip: { type: "string", default: "1000" },
+            json: { type: "boolean", default: false },
+            help: { type: "boolean", default: false },
+        },
+    });
+
+    if (values.help) {
+        console.log(USAGE);
+        return;
+    }
+
+    const ruleInput: Partial<TableRules> = values.rules ? JSON.parse(values.rules) : {};
+    if (values.decks) ruleInput.numDecks = Number(values.decks);
+    if (values.penetration) ruleInput.penetration = Number(values.penetration);
+    const rules = normalizeTableRules(ruleInput);
+
+    const hands = positiveInteger("hands", values.hands);
+    const bankroll = positiveInteger("bankroll", values.bankroll);
+    const tripHands = positiveInteger("trip", values.trip);
+    const strategy = values.strategy ? await loadStrategy(values.strategy) : undefined;
+    const seed = values.seed ?? randomSeed(8);
+
+    const startedAt = Date.now();
+    const report = simulate({
+        rules,
+        hands,
+        strategy,
+        seed,
+        bankroll,
+        tripHands,
+        onProgress: values.json ? undefined : (played) => {
+            process.stderr.write(`\r${played.toLocaleString()} / ${hands.toLocaleString()} hands`);
+        },
+    });
+    if (!values.json) process.stderr.write("\r\x1b[K");
+
+    if (values.json) {
+        console.log(JSON.stringify(report, null, 2));
+    } else {
+        printReport(report, values.strategy ?? "basic strategy", Date.now() - startedAt);
+    }
+}
+
+function positiveInteger(name: string, value: string | undefined): number {
+    const n = Number(value);
+    if (!Number.isInteger(n) || n <= 0) {
+        throw new Error(`--${name} must be a positive whole number`);
+    }
+    return n;
+}
+
+async function loadStrategy(file: string): Promise<Strategy> {
+    const loaded = await import(pathToFileURL(resolve(file)).href);
+    const strategy = loaded.default ?? loaded.getOptimalAction;
+    if (typeof strategy !== "function") {
+        throw new Error(`${file} must export a strategy function as default or getOptimalAction`);
+    }
+    return strategy;
+}
+
+function percent(value: number, digits: number = 2): string {
+    return `${(value * 100).toFixed(digits)}%`;
+}
+
+function printReport(report: SimulationReport, strategyName: string, elapsed: number) {
+    const { rules } = report;
+    const lines = [
+        `Rules       ${rules.numDecks} decks, ${percent(rules.penetration, 0)} penetration, ${rules.dealerHitsSoft17 ? "H17" : "S17"}, ` +
+            `${rules.doubleAfterSplit ? "DAS" : "no DAS"}, split to ${rules.maxSplitHands}` +
+            `${rules.resplitAces ? ", RSA" : ""}${rules.hitSplitAces ? ", hit split aces" : ""}, ` +
+            `${rules.surrender === "none" ? "no" : rules.surrender} surrender, blackjack pays ${rules.blackjackPayout}`,
+        `Strategy    ${strategyName}`,
+        `Hands       ${report.hands.toLocaleString()} from ${report.shoes.toLocaleString()} shoes (seed ${report.seed}, ${(elapsed / 1000).toFixed(1)}s)`,
+        "",
+        `House edge  ${percent(report.houseEdge, 3)} ± ${percent(report.standardError * 1.96, 3)} (95%)`,
+        `Std dev     ${report.standardDeviation.toFixed(3)} bets per hand (variance ${report.variance.toFixed(3)})`,
+        "",
+        `Win / push / lose   ${percent(report.winRate)} / ${percent(report.pushRate)} / ${percent(report.lossRate)}`,
+        `Blackjacks          ${percent(report.blackjackRate)}`,
+        `Doubles / splits    ${percent(report.doubleRate)} / ${percent(report.splitRate)}`,
+        `Surrenders          ${percent(report.surrenderRate)}`,
+        `Player busts        ${percent(report.playerBustRate)} of hands`,
+        `Dealer busts        ${percent(report.dealerBustRate)} of hands played out`,
+    ];
+
+    const upcards = ["2", "3", "4", "5", "6", "7", "8", "9", "10", "A"] as const;
+    lines.push(`  by upcard         ${upcards.map((rank) => `${rank}: ${percent(report.dealerBustByUpcard[rank] ?? 0, 1)}`).join("  ")}`);
+
+    lines.push(
+        "",
+        `Risk of ruin        ${percent(report.riskOfRuin)} long run with ${report.bankroll} bets`,
+        `Trip ruin           ${percent(report.tripRuinRate)} of ${report.trips.toLocaleString()} trips of ${report.tripHands.toLocaleString()} hands`
+    );
+
+    console.log(lines.join("\n"));
+}
+
+main().catch((error: unknown) => {
+    console.error(error instanceof Error ? error.message : error);
+    console.error(`\n${USAGE}`);
+    process.exit(1);
+});
@@ -1,7 +1,15 @@
 "use client";
 
+import { Suspense, useCallback, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
 import { usePartySocket } from "@/hooks/usePartySocket";
+import { useLobbySocket } from "@/hooks/useLobbySocket";
+import { useDrillSocket } from "@/hooks/useDrillSocket";
 import { Table } from "@/components/Table";
+import { Lobby } from "@/components/Lobby";
+import { ReplayViewer } from "@/components/ReplayViewer";
+import { Drill } from "@/components/Drill";
+import { RoundRecord } from "@/lib/gameTypes";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
 import { motion } from "framer-motion";
 
@@ -20,11 +28,132 @@ function safeLocalStorage(action: 'get' | 'set', key: string, value?: string): s
 }
 
 export default function Home() {
+  return (
+    <Suspense fallback={<div className="min-h-screen bg-[#061a10]" />}>
+      <HomeContent />
+    </Suspense>
+  );
+}
+
+// The ?table= query param picks the room, ?drill opens practice; otherwise we show the lobby
+function HomeContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const roomId = searchParams.get("table");
+  const isDrill = searchParams.has("drill");
+
+  const enterTable = useCallback((id: string) => {
+    router.push(`/?table=${encodeURIComponent(id)}`);
+  }, [router]);
+
+  const backToLobby = useCallback(() => {
+    router.push("/");
+  }, [router]);
+
+  const startDrills = useCallback(() => {
+    router.push("/?drill");
+  }, [router]);
+
+  if (isDrill) {
+    return <DrillRoom onBackToLobby={backToLobby} />;
+  }
+
+  if (!roomId) {
+    return <LobbyRoom onEnterTable={enterTable} onStartDrills={startDrills} />;
+  }
+
+  // Keyed by room so switching tables opens a fresh socket
+  return <TableRoom key={roomId} roomId={roomId} onBackToLobby={backToLobby} />;
+}
+
+function LobbyRoom({ onEnterTable, onStartDrills }: { onEnterTable: (roomId: string) => void; onStartDrills: () => void }) {
+  const {
+    tables,
+    connected,
+    error,
+    createdTable,
+    createTable,
+    joinByCode,
+    dismissCreatedTable,
+  } = useLobbySocket(onEnterTable);
+
+  return (
+    <>
+      <Lobby
+        tables={tables}
+        connected={connected}
+        createdTable={createdTable}
+        onEnterTable={onEnterTable}
+        onCreateTable={createTable}
+        onJoinByCode={joinByCode}
+        onDismissCreatedTable={dismissCreatedTable}
+        onStartDrills={onStartDrills}
+      />
+      {/* Error toast */}
+      {error && (
+        <motion.div
+          initial={{ opacity: 0, y: 50 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0 }}
+          className="fixed bottom-10 left-1/2 -translate-x-1/2 
+                     bg-red-500/90 text-white px-4 py-2 rounded-lg text-sm font-medium shadow-lg z-50"
+        >
+          {error}
+        </motion.div>
+      )}
+    </>
+  );
+}
+
+function DrillRoom({ onBackToLobby }: { onBackToLobby: () => void }) {
+  const {
+    connected,
+    error,
+    stats,
+    drill,
+    hand,
+    result,
+    startDrill,
+    answer,
+    nextHand,
+  } = useDrillSocket();
+
+  return (
+    <>
+      <Drill
+        connected={connected}
+        stats={stats}
+        drill={drill}
+        hand={hand}
+        result={result}
+        onStartDrill={startDrill}
+        onAnswer={answer}
+        onNextHand={nextHand}
+        onBackToLobby={onBackToLobby}
+      />
+      {/* Error toast */}
+      {error && (
+        <motion.div
+          initial={{ opacity: 0, y: 50 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0 }}
+          className="fixed bottom-10 left-1/2 -translate-x-1/2 
+                     bg-red-500/90 text-white px-4 py-2 rounded-lg text-sm font-medium shadow-lg z-50"
+        >
+          {error}
+        </motion.div>
+      )}
+    </>
+  );
+}
+
+function TableRoom({ roomId, onBackToLobby }: { roomId: string; onBackToLobby: () => void }) {
   const {
     gameState,
     connected,
     reconnecting,
     error,
+    outdated,
     joinSeat,
     leaveSeat,
     placeBet,
@@ -35,12 +164,23 @@ export default function Home() {
     split,
     surrender,
     insurance,
-    connectionId,
+    playOn,
+    queueAction,
+    queueInsurance,
+    setAutoplay,
+    placeSideBet,
+    betBehind,
+    clearBetBehind,
+    playerId,
     lastPayout,
     seatPayouts,
+    sideBetPayouts,
+    betBehindWinnings,
     lastInsurancePayout,
+    leaderboardNames,
     leaderboard,
     leaderboardAdherence,
+    leaderboardInsuranceAdherence,
     leaderboardAtmUsage,
     leaderboardBlackjacks,
     chatMessages,
@@ -50,7 +190,28 @@ export default function Home() {
     sendReaction,
     sendQuickEmote,
     useAtm,
-  } = usePartySocket("main-table");
+    legacyRecord,
+    claimLegacy,
+    dismissLegacyRecord,
+    clientSeed,
+    setClientSeed,
+    indexPlays,
+    setIndexPlays,
+    countTrainer,
+    setCountTrainer,
+    countQuiz,
+    countResult,
+    countQuizzes,
+    answerCountQuiz,
+    dismissCountQuiz,
+    getObservedCards,
+    handHistory,
+    handHistoryHasMore,
+    requestHandHistory,
+    strategyDecisions,
+    requestStrategyReport,
+  } = usePartySocket(roomId);
+  const [replayRound, setReplayRound] = useState<RoundRecord | null>(null);
 
   const handleJoinSeat = (seatIndex: number, name: string) => {
     // Save name to localStorage for persistence (safe for private browsing)
@@ -58,6 +219,26 @@ export default function Home() {
     joinSeat(seatIndex, name);
   };
 
+  // Spectators back a seat under the name they last sat down with
+  const handleBetBehind = (seatIndex: number, amount: number) => {
+    betBehind(seatIndex, amount, safeLocalStorage('get', "blackjack_name") || "Spectator");
+  };
+
+  // This page is older than the table's protocol - the room won't talk to it until it reloads
+  if (outdated) {
+    return (
+      <div className="min-h-screen flex flex-col gap-4 items-center justify-center bg-[#061a10] px-6 text-center">
+        <span className="text-amber-400/80 text-sm">This table has been updated. Please refresh the page.</span>
+        <button
+          onClick={() => window.location.reload()}
+          className="px-4 py-2 bg-amber-500 hover:bg-amber-400 text-black font-bold text-sm rounded-lg transition-all"
+        >
+          Refresh
+        </button>
+      </div>
+    );
+  }
+
   // Loading/reconnecting state
   if (!connected) {
     return (
@@ -85,34 +266,72 @@ export default function Home() {
   return (
     <>
       <ErrorBoundary>
-        <Table
-          gameState={gameState}
-          playerId={connectionId}
-          lastPayout={lastPayout}
-          seatPayouts={seatPayouts}
-          lastInsurancePayout={lastInsurancePayout}
-          leaderboard={leaderboard}
-          leaderboardAdherence={leaderboardAdherence}
-          leaderboardAtmUsage={leaderboardAtmUsage}
-          leaderboardBlackjacks={leaderboardBlackjacks}
-          chatMessages={chatMessages}
-          lastAction={lastAction}
-          onJoinSeat={handleJoinSeat}
-          onPlaceBet={placeBet}
-          onClearBet={clearBet}
-          onHit={hit}
-          onStand={stand}
-          onDouble={double}
-          onSplit={split}
-          onSurrender={surrender}
-          onInsurance={insurance}
-          onLeaveSeat={leaveSeat}
-          onRequestLeaderboard={requestLeaderboard}
-          onSendChat={sendChat}
-          onSendReaction={sendReaction}
-          onSendQuickEmote={sendQuickEmote}
-          onUseAtm={useAtm}
-        />
+        {replayRound ? (
+          <ReplayViewer
+            round={replayRound}
+            playerId={playerId}
+            onClose={() => setReplayRound(null)}
+          />
+        ) : (
+          <Table
+            gameState={gameState}
+            playerId={playerId}
+            lastPayout={lastPayout}
+            seatPayouts={seatPayouts}
+            sideBetPayouts={sideBetPayouts}
+            betBehindWinnings={betBehindWinnings}
+            lastInsurancePayout={lastInsurancePayout}
+            leaderboardNames={leaderboardNames}
+            leaderboard={leaderboard}
+            leaderboardAdherence={leaderboardAdherence}
+            leaderboardInsuranceAdherence={leaderboardInsuranceAdherence}
+            leaderboardAtmUsage={leaderboardAtmUsage}
+            leaderboardBlackjacks={leaderboardBlackjacks}
+            chatMessages={chatMessages}
+            lastAction={lastAction}
+            onJoinSeat={handleJoinSeat}
+            onPlaceBet={placeBet}
+            onClearBet={clearBet}
+            onHit={hit}
+            onStand={stand}
+            onDouble={double}
+            onSplit={split}
+            onSurrender={surrender}
+            onInsurance={insurance}
+            onPlayOn={playOn}
+            onQueueAction={queueAction}
+            onQueueInsurance={queueInsurance}
+            onSetAutoplay={setAutoplay}
+            onPlaceSideBet={placeSideBet}
+            onBetBehind={handleBetBehind}
+            onClearBetBehind={clearBetBehind}
+            onLeaveSeat={leaveSeat}
+            onRequestLeaderboard={requestLeaderboard}
+            onSendChat={sendChat}
+            onSendReaction={sendReaction}
+            onSendQuickEmote={sendQuickEmote}
+            onUseAtm={useAtm}
+            onBackToLobby={onBackToLobby}
+            clientSeed={clientSeed}
+            onSetClientSeed={setClientSeed}
+            indexPlays={indexPlays}
+            onSetIndexPlays={setIndexPlays}
+            countTrainer={countTrainer}
+            onSetCountTrainer={setCountTrainer}
+            countQuiz={countQuiz}
+            countResult={countResult}
+            countQuizzes={countQuizzes}
+            onAnswerCountQuiz={answerCountQuiz}
+            onDismissCountQuiz={dismissCountQuiz}
+            getObservedCards={getObservedCards}
+            handHistory={handHistory}
+            handHistoryHasMore={handHistoryHasMore}
+            onRequestHandHistory={requestHandHistory}
+            strategyDecisions={strategyDecisions}
+            onRequestStrategyReport={requestStrategyReport}
+            onReplayRound={setReplayRound}
+          />
+        )}
       </ErrorBoundary>
       {/* Error toast */}
       {error && (
@@ -126,6 +345,34 @@ export default function Home() {
           {error}
         </motion.div>
       )}
+      {/* Offer to claim a bankroll saved under this name before player IDs */}
+      {legacyRecord && (
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="fixed top-20 left-1/2 -translate-x-1/2 z-50 w-[90vw] max-w-sm p-4
+                     bg-gray-900/95 border border-amber-500/30 rounded-xl shadow-lg text-center"
+        >
+          <div className="text-white text-sm">
+            Found a saved bankroll of <span className="text-amber-400 font-bold">${legacyRecord.chips.toLocaleString()}</span> for{" "}
+            <span className="font-semibold">{legacyRecord.name}</span>. Is it yours?
+          </div>
+          <div className="flex gap-2 justify-center mt-3">
+            <button
+              onClick={() => claimLegacy(legacyRecord.name)}
+              className="px-4 py-1.5 bg-amber-500 hover:bg-amber-400 text-black font-bold text-xs rounded-lg transition-colors"
+            >
+              Claim it
+            </button>
+            <button
+              onClick={dismissLegacyRecord}
+              className="px-4 py-1.5 bg-white/10 hover:bg-white/20 text-white text-xs rounded-lg transition-colors"
+            >
+              Not me
+            </button>
+          </div>
+        </motion.div>
+      )}
     </>
   );
 }
@@ -0,0 +1,85 @@
+"use client";
+
+import { QueuedAction } from "@/lib/gameTypes";
+
+// Plays a player can queue while the others take their turns
+const QUEUE_OPTIONS: { label: string; title: string; action: QueuedAction }[] = [
+    { label: "HIT", title: "Take a card", action: { action: "hit" } },
+    { label: "STAND", title: "Stand on whatever you have", action: { action: "stand" } },
+    { label: "STAND 17+", title: "Stand on 17 or more - below that you decide", action: { action: "stand", minTotal: 17 } },
+    { label: "DOUBLE", title: "Double down if the hand allows it", action: { action: "double" } },
+];
+
+const INSURANCE_OPTIONS: { label: string; title: string; accept: boolean | null }[] = [
+    { label: "Ask", title: "Ask me if the dealer shows an ace", accept: null },
+    { label: "Yes", title: "Take insurance if the dealer shows an ace", accept: true },
+    { label: "No", title: "Decline insurance if the dealer shows an ace", accept: false },
+];
+
+function sameAction(a: QueuedAction | null, b: QueuedAction): boolean {
+    return !!a && a.action === b.action && a.minTotal === b.minTotal && a.maxTotal === b.maxTotal;
+}
+
+function optionClass(selected: boolean): string {
+    return `px-2 py-1 rounded text-[10px] sm:text-xs font-bold transition-all
+        ${selected ? "bg-amber-400 text-black" : "bg-white/10 text-white/60 hover:bg-white/20"}`;
+}
+
+interface ActionQueueProps {
+    queued: QueuedAction | null;
+    onQueue: (action: QueuedAction | null) => void;
+}
+
+// Picks the play made the moment this hand's turn comes - a second click takes it back
+export function ActionQueue({ queued, onQueue }: ActionQueueProps) {
+    return (
+        <div className="flex flex-col items-center gap-1.5">
+            <span className="text-white/50 text-xs">
+                {queued ? "Queued - played as your turn comes" : "Waiting for your turn... queue a play?"}
+            </span>
+            <div className="flex gap-1.5">
+                {QUEUE_OPTIONS.map((option) => {
+                    const selected = sameAction(queued, option.action);
+                    return (
+                        <button
+                            key={option.label}
+                            onClick={() => onQueue(selected ? null : option.action)}
+                            title={option.title}
+                            aria-pressed={selected}
+                            className={optionClass(selected)}
+                        >
+                            {option.label}
+                        </button>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
+
+interface InsuranceQueueProps {
+    queued: boolean | null;
+    onQueue: (accept: boolean | null) => void;
+}
+
+// Answers insurance before the deal, so an ace upcard doesn't wait on this seat
+export function InsuranceQueue({ queued, onQueue }: InsuranceQueueProps) {
+    return (
+        <div className="flex flex-col gap-1">
+            <span className="text-white/40 text-[10px] font-bold">INSURANCE</span>
+            <div className="flex gap-1">
+                {INSURANCE_OPTIONS.map((option) => (
+                    <button
+                        key={option.label}
+                        onClick={() => onQueue(option.accept)}
+                        title={option.title}
+                        aria-pressed={queued === option.accept}
+                        className={optionClass(queued === option.accept)}
+                    >
+                        {option.label}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+}
@@ -9,6 +9,7 @@ interface ActionToastProps {
         action: string;
         seatIndex: number;
         isOptimal?: boolean;
+        indexPlay?: string;
     } | null;
     playerName: string;
     gamePhase?: string;
@@ -19,6 +20,7 @@ interface ActionEntry {
     action: string;
     playerName: string;
     isOptimal?: boolean;
+    indexPlay?: string; // The count-based play that was the right call
     timestamp: number;
 }
 
@@ -54,6 +56,7 @@ export function ActionToast({ action, playerName, gamePhase }: ActionToastProps)
                 action: action.action,
                 playerName,
                 isOptimal: action.isOptimal,
+                indexPlay: action.indexPlay,
                 timestamp: Date.now(),
             };
 
@@ -111,6 +114,16 @@ export function ActionToast({ action, playerName, gamePhase }: ActionToastProps)
                                             {entry.isOptimal ? "😊" : "😔"}
                                         </span>
                                     )}
+
+                                    {/* Index play - the count called for a deviation */}
+                                    {entry.indexPlay && (
+                                        <span
+                                            className="text-[10px] font-bold text-amber-300 bg-amber-300/15 rounded px-1"
+                                            title={entry.indexPlay}
+                                        >
+                                            IDX
+                                        </span>
+                                    )}
                                 </m.div>
                             </m.div>
                         );
@@ -0,0 +1,183 @@
+"use client";
+
+import { LazyMotion, domAnimation, m } from "framer-motion";
+import { useEffect, useState } from "react";
+import { AUTOPLAY_PROFILES, Autoplay, AutoplayProfile, AutoplaySettings } from "@/lib/gameTypes";
+
+interface AutoplayPanelProps {
+    isOpen: boolean;
+    onClose: () => void;
+    autoplay: Autoplay | null;  // Running for this player, if it is
+    chips: number;
+    onSetAutoplay: (settings: AutoplaySettings | null) => Promise<void>;
+}
+
+const PROFILE_IDS = Object.keys(AUTOPLAY_PROFILES) as AutoplayProfile[];
+
+// A limit field - blank means no limit
+function parseLimit(value: string): number | null {
+    const limit = parseInt(value, 10);
+    return Number.isFinite(limit) && limit > 0 ? limit : null;
+}
+
+export function AutoplayPanel({ isOpen, onClose, autoplay, chips, onSetAutoplay }: AutoplayPanelProps) {
+    const [profile, setProfile] = useState<AutoplayProfile>("basic_strategy");
+    const [stopLoss, setStopLoss] = useState("");
+    const [stopWin, setStopWin] = useState("");
+    const [maxRounds, setMaxRounds] = useState("");
+
+    // ESC key to close
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === "Escape") {
+                onClose();
+            }
+        };
+
+        if (isOpen) {
+            window.addEventListener("keydown", handleKeyDown);
+            return () => window.removeEventListener("keydown", handleKeyDown);
+        }
+    }, [isOpen, onClose]);
+
+    if (!isOpen) return null;
+
+    const handleStart = () => {
+        onSetAutoplay({
+            profile,
+            stopLoss: parseLimit(stopLoss),
+            stopWin: parseLimit(stopWin),
+            maxRounds: parseLimit(maxRounds),
+        }).then(onClose, () => {});
+    };
+
+    const net = autoplay ? chips - autoplay.startChips : 0;
+
+    return (
+        <LazyMotion features={domAnimation}>
+            <m.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+                onClick={onClose}
+            >
+                <m.div
+                    initial={{ scale: 0.9, opacity: 0 }}
+                    animate={{ scale: 1, opacity: 1 }}
+                    exit={{ scale: 0.9, opacity: 0 }}
+                    onClick={(e) => e.stopPropagation()}
+                    className="relative max-w-md w-full max-h-[90vh] overflow-y-auto bg-gradient-to-b from-gray-900 to-gray-950
+                               rounded-2xl border border-white/10 shadow-2xl"
+                >
+                    {/* Header */}
+                    <div className="flex items-center justify-between px-6 py-4 border-b border-white/10">
+                        <div className="flex items-center gap-3">
+                            <span className="text-2xl">🤖</span>
+                            <div>
+                                <h2 className="text-white font-bold text-lg">Autoplay</h2>
+                                <p className="text-white/50 text-xs">The table decides for you - these hands aren&apos;t graded</p>
+                            </div>
+                        </div>
+                        <button
+                            onClick={onClose}
+                            className="p-2 text-white/50 hover:text-white hover:bg-white/10 rounded-lg transition-all"
+                        >
+                            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                            </svg>
+                        </button>
+                    </div>
+
+                    {autoplay ? (
+                        <div className="p-6 flex flex-col gap-4 text-sm">
+                            <div>
+                                <div className="text-amber-400 font-semibold">{AUTOPLAY_PROFILES[autoplay.profile].label}</div>
+                                <div className="text-white/50 text-xs">{AUTOPLAY_PROFILES[autoplay.profile].description}</div>
+                            </div>
+                            <div className="grid grid-cols-2 gap-2 text-xs">
+                                <span className="text-white/50">Rounds</span>
+                                <span className="text-white/80">
+                                    {autoplay.roundsPlayed}{autoplay.maxRounds !== null && ` of ${autoplay.maxRounds}`}
+                                </span>
+                                <span className="text-white/50">Since it started</span>
+                                <span className={net >= 0 ? "text-emerald-400" : "text-red-400"}>
+                                    {net >= 0 ? "+" : "-"}${Math.abs(net).toLocaleString()}
+                                </span>
+                                <span className="text-white/50">Stops at</span>
+                                <span className="text-white/80">
+                                    {autoplay.stopLoss !== null ? `-$${autoplay.stopLoss.toLocaleString()}` : "no loss limit"}
+                                    {" / "}
+                                    {autoplay.stopWin !== null ? `+$${autoplay.stopWin.toLocaleString()}` : "no win limit"}
+                                </span>
+                            </div>
+                            <button
+                                onClick={() => onSetAutoplay(null)}
+                                className="px-4 py-2 bg-gradient-to-b from-red-500 to-red-700 hover:from-red-400 hover:to-red-600
+                                           text-white font-bold text-xs rounded-lg transition-all"
+                            >
+                                Stop autoplay
+                            </button>
+                        </div>
+                    ) : (
+                        <div className="p-6 flex flex-col gap-4 text-sm">
+                            <div className="flex flex-col gap-2">
+                                {PROFILE_IDS.map((id) => (
+                                    <label
+                                        key={id}
+                                        className={`flex flex-col px-3 py-2 rounded-lg border cursor-pointer transition-all
+                                            ${profile === id ? "border-amber-400/60 bg-amber-400/10" : "border-white/10 hover:bg-white/5"}`}
+                                    >
+                                        <span className="flex items-center gap-2 text-white font-semibold">
+                                            <input
+                                                type="radio"
+                                                name="autoplay-profile"
+                                                checked={profile === id}
+                                                onChange={() => setProfile(id)}
+                                                className="accent-amber-400"
+                                            />
+                                            {AUTOPLAY_PROFILES[id].label}
+                                        </span>
+                                        <span className="text-white/50 text-xs pl-5">{AUTOPLAY_PROFILES[id].description}</span>
+                                    </label>
+                                ))}
+                            </div>
+
+                            {/* Limits - any left blank don't apply */}
+                            <div className="grid grid-cols-3 gap-2">
+                                <LimitInput label="Stop-loss $" value={stopLoss} onChange={setStopLoss} />
+                                <LimitInput label="Stop-win $" value={stopWin} onChange={setStopWin} />
+                                <LimitInput label="Rounds" value={maxRounds} onChange={setMaxRounds} />
+                            </div>
+
+                            <button
+                                onClick={handleStart}
+                                className="px-4 py-2 bg-gradient-to-b from-emerald-500 to-emerald-700 hover:from-emerald-400 hover:to-emerald-600
+                                           text-white font-bold text-xs rounded-lg transition-all"
+                            >
+                                Start autoplay
+                            </button>
+                        </div>
+                    )}
+                </m.div>
+            </m.div>
+        </LazyMotion>
+    );
+}
+
+function LimitInput({ label, value, onChange }: { label: string; value: string; onChange: (value: string) => void }) {
+    return (
+        <label className="flex flex-col gap-1">
+            <span className="text-white/40 text-[11px]">{label}</span>
+            <input
+                value={value}
+                onChange={(e) => onChange(e.target.value.replace(/[^0-9]/g, ""))}
+                inputMode="numeric"
+                placeholder="None"
+                maxLength={7}
+                className="px-3 py-2 bg-black/60 border border-white/10 rounded-lg text-white text-xs
+                           focus:outline-none focus:border-amber-400/60"
+            />
+        </label>
+    );
+}
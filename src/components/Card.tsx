@@ -2,10 +2,10 @@
 
 import { memo, useMemo } from "react";
 import { LazyMotion, domAnimation, m } from "framer-motion";
-import { Card as CardType } from "@/lib/gameTypes";
+import { PublicCard } from "@/lib/gameTypes";
 
 interface CardProps {
-    card: CardType;
+    card: PublicCard;
     delay?: number;
     small?: boolean;
 }
@@ -57,8 +57,9 @@ const cardAnimate = { x: 0, y: 0, rotate: 0, opacity: 1 };
 const sidewaysAnimate = { x: 0, y: 0, rotate: 90, opacity: 1 };
 
 function CardComponent({ card, delay = 0, small = false }: CardProps) {
-    const symbol = suitSymbols[card.suit];
-    const color = suitColors[card.suit];
+    // Face-down cards arrive without a suit - they only ever render the card back
+    const symbol = card.suit ? suitSymbols[card.suit] : "";
+    const color = card.suit ? suitColors[card.suit] : undefined;
     const size = small ? "w-11 h-15" : "w-14 h-20";
     const fontSize = small ? "text-xs" : "text-sm";
     const symbolSize = small ? "text-xl" : "text-2xl";
@@ -132,7 +133,7 @@ export const Card = memo(CardComponent, (prevProps, nextProps) => {
 });
 
 interface CardStackProps {
-    cards: CardType[];
+    cards: PublicCard[];
     isDoubled?: boolean;
 }
 
@@ -0,0 +1,131 @@
+"use client";
+
+import { useState } from "react";
+import { LazyMotion, domAnimation, m, AnimatePresence } from "framer-motion";
+import { CountQuizRecord, CountingSystem } from "@/lib/gameTypes";
+import { COUNTING_SYSTEMS, TRUE_COUNT_TOLERANCE, isRunningCountCorrect, isTrueCountCorrect } from "@/lib/countingSystems";
+
+interface CountQuizProps {
+    quiz: { system: CountingSystem; askTrueCount: boolean } | null;
+    result: CountQuizRecord | null;
+    onAnswer: (runningCount: number, trueCount?: number) => void;
+    onDismiss: () => void;
+}
+
+function signed(count: number, digits = 0): string {
+    return `${count > 0 ? "+" : ""}${count.toFixed(digits)}`;
+}
+
+// The counting trainer's question at the end of a round, then how the answer scored.
+// It floats over the table rather than blocking it - the next round deals on regardless.
+export function CountQuiz({ quiz, result, onAnswer, onDismiss }: CountQuizProps) {
+    const [running, setRunning] = useState("");
+    const [trueCount, setTrueCount] = useState("");
+
+    const submit = () => {
+        const runningAnswer = Number(running);
+        if (running.trim() === "" || !Number.isFinite(runningAnswer)) return;
+        const trueAnswer = Number(trueCount);
+        onAnswer(runningAnswer, quiz?.askTrueCount && trueCount.trim() !== "" && Number.isFinite(trueAnswer) ? trueAnswer : undefined);
+        setRunning("");
+        setTrueCount("");
+    };
+
+    const trueCorrect = result ? isTrueCountCorrect(result) : null;
+
+    return (
+        <LazyMotion features={domAnimation}>
+            <AnimatePresence>
+                {(quiz || result) && (
+                    <m.div
+                        initial={{ opacity: 0, y: -10 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: -10 }}
+                        className="fixed top-20 left-1/2 -translate-x-1/2 z-40 w-[260px]"
+                    >
+                        <div className="bg-black/85 backdrop-blur-sm rounded-xl border border-cyan-400/30 p-3 shadow-lg text-xs">
+                            {quiz ? (
+                                <form
+                                    onSubmit={(e) => {
+                                        e.preventDefault();
+                                        submit();
+                                    }}
+                                    className="flex flex-col gap-2"
+                                >
+                                    <div className="text-white/80 font-semibold">
+                                        🔢 What&apos;s the {COUNTING_SYSTEMS[quiz.system].name} count?
+                                    </div>
+                                    <label className="flex items-center justify-between gap-2 text-white/60">
+                                        Running count
+                                        <input
+                                            type="number"
+                                            step={1}
+                                            value={running}
+                                            onChange={(e) => setRunning(e.target.value)}
+                                            autoFocus
+                                            className="w-20 px-2 py-1 bg-black/60 border border-white/10 rounded-md text-white text-right"
+                                        />
+                                    </label>
+                                    {quiz.askTrueCount && (
+                                        <label className="flex items-center justify-between gap-2 text-white/60">
+                                            True count
+                                            <input
+                                                type="number"
+                                                step={0.5}
+                                                value={trueCount}
+                                                onChange={(e) => setTrueCount(e.target.value)}
+                                                className="w-20 px-2 py-1 bg-black/60 border border-white/10 rounded-md text-white text-right"
+                                            />
+                                        </label>
+                                    )}
+                                    <div className="flex justify-end gap-2 mt-1">
+                                        <button
+                                            type="button"
+                                            onClick={onDismiss}
+                                            className="px-3 py-1 text-white/50 hover:text-white rounded-md transition-all"
+                                        >
+                                            Skip
+                                        </button>
+                                        <button
+                                            type="submit"
+                                            className="px-3 py-1 bg-cyan-500 hover:bg-cyan-400 text-black font-bold rounded-md transition-all"
+                                        >
+                                            Check
+                                        </button>
+                                    </div>
+                                </form>
+                            ) : result && (
+                                <div className="flex flex-col gap-1.5">
+                                    <div className="flex justify-between">
+                                        <span className="text-white/60">Running count</span>
+                                        <span className={isRunningCountCorrect(result) ? "text-emerald-400 font-bold" : "text-red-400 font-bold"}>
+                                            {signed(result.runningCount)} {isRunningCountCorrect(result) ? "✓" : `✗ (you said ${signed(result.runningAnswer)})`}
+                                        </span>
+                                    </div>
+                                    {result.trueCount !== null && (
+                                        <div className="flex justify-between">
+                                            <span className="text-white/60">True count</span>
+                                            <span className={trueCorrect ? "text-emerald-400 font-bold" : "text-red-400 font-bold"}>
+                                                {signed(result.trueCount, 1)}{" "}
+                                                {trueCorrect ? "✓" : result.trueAnswer === null ? "✗ (no answer)" : `✗ (you said ${signed(result.trueAnswer, 1)})`}
+                                            </span>
+                                        </div>
+                                    )}
+                                    {result.trueCount !== null && (
+                                        <div className="text-[10px] text-white/40">True counts within {TRUE_COUNT_TOLERANCE} count as right</div>
+                                    )}
+                                    <button
+                                        onClick={onDismiss}
+                                        className="self-end mt-1 px-3 py-1 bg-white/10 hover:bg-white/20 text-white font-bold rounded-md transition-all"
+                                    >
+                                        Done
+                                    </button>
+                                </div>
+                            )}
+                        </div>
+                    </m.div>
+                )}
+            </AnimatePresence>
+        </LazyMotion>
+    );
+}
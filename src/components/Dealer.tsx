@@ -3,11 +3,11 @@
 import { memo, useMemo } from "react";
 import Image from "next/image";
 import { LazyMotion, domAnimation, m } from "framer-motion";
-import { Card as CardType, calculateHandValue, isBlackjack } from "@/lib/gameTypes";
+import { PublicCard, calculateHandValue, isBlackjack, isFaceUp } from "@/lib/gameTypes";
 import { CardStack } from "./Card";
 
 interface DealerProps {
-    hand: CardType[];
+    hand: PublicCard[];
     phase: string;
 }
 
@@ -24,9 +24,9 @@ function DealerComponent({ hand, phase }: DealerProps) {
     // Memoize expensive calculations
     const { value, allFaceUp, isBusted, hasBJ, showValue, displayValue } = useMemo(() => {
         const { value } = calculateHandValue(hand);
-        const allFaceUp = hand.every((card) => card.faceUp);
+        const allFaceUp = hand.every(isFaceUp);
         const isBusted = allFaceUp && value > 21;
-        const hasBJ = isBlackjack(hand) && allFaceUp;
+        const hasBJ = hand.every(isFaceUp) && isBlackjack(hand);
         const showValue = hand.length > 0 && phase !== "waiting";
 
         let displayValue: string;
@@ -0,0 +1,271 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { LazyMotion, domAnimation, m, AnimatePresence } from "framer-motion";
+import {
+    DrillHand,
+    DrillKind,
+    DrillMode,
+    DrillStats,
+    PlayAction,
+    TableRules,
+    DEFAULT_TABLE_RULES,
+    describeTableRules,
+} from "@/lib/gameTypes";
+import { DRILLS, isDrillAvailable } from "@/lib/drills";
+import { DrillResult } from "@/hooks/useDrillSocket";
+import { Card } from "./Card";
+import { haptic } from "@/lib/haptics";
+
+interface DrillProps {
+    connected: boolean;
+    stats: DrillStats;
+    drill: { kind: DrillKind; mode: DrillMode; rules: TableRules } | null;
+    hand: DrillHand | null;
+    result: DrillResult | null;
+    onStartDrill: (kind: DrillKind, mode: DrillMode, rules: Partial<TableRules>) => void;
+    onAnswer: (action: PlayAction) => void;
+    onNextHand: () => void;
+    onBackToLobby: () => void;
+}
+
+const NEXT_HAND_DELAY = 700; // Right answers move on by themselves
+
+const ACTIONS: { action: PlayAction; label: string; key: string }[] = [
+    { action: "hit", label: "Hit", key: "h" },
+    { action: "stand", label: "Stand", key: "s" },
+    { action: "double", label: "Double", key: "d" },
+    { action: "split", label: "Split", key: "p" },
+    { action: "surrender", label: "Surrender", key: "r" },
+];
+
+// Rule toggles for the drill's chart - the rest use the defaults
+const RULE_TOGGLES: { key: "dealerHitsSoft17" | "doubleAfterSplit"; label: string }[] = [
+    { key: "dealerHitsSoft17", label: "Dealer hits soft 17" },
+    { key: "doubleAfterSplit", label: "Double after split" },
+];
+
+export function Drill({ connected, stats, drill, hand, result, onStartDrill, onAnswer, onNextHand, onBackToLobby }: DrillProps) {
+    const [mode, setMode] = useState<DrillMode>("flag");
+    const [rules, setRules] = useState<TableRules>(DEFAULT_TABLE_RULES);
+
+    const awaitingAnswer = !!hand && (!result || result.retry);
+
+    const isAllowed = (action: PlayAction) =>
+        !!hand && (action === "double" ? hand.canDouble : action === "split" ? hand.canSplit : action === "surrender" ? hand.canSurrender : true);
+
+    // Right answers deal the next hand after a beat; wrong ones wait to be read
+    useEffect(() => {
+        if (!result?.isCorrect) return;
+        const timer = setTimeout(onNextHand, NEXT_HAND_DELAY);
+        return () => clearTimeout(timer);
+    }, [result, onNextHand]);
+
+    // Same keys as the table: H/S/D/P/R, and Space or Enter for the next hand
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
+            const key = e.key.toLowerCase();
+            if (awaitingAnswer) {
+                const match = ACTIONS.find((a) => a.key === key);
+                if (match && isAllowed(match.action)) {
+                    onAnswer(match.action);
+                }
+            } else if (result && (key === " " || key === "enter")) {
+                e.preventDefault();
+                onNextHand();
+            }
+        };
+        window.addEventListener("keydown", handleKeyDown);
+        return () => window.removeEventListener("keydown", handleKeyDown);
+    });
+
+    const start = (kind: DrillKind) => {
+        haptic("medium");
+        onStartDrill(kind, mode, rules);
+    };
+
+    return (
+        <LazyMotion features={domAnimation}>
+            <div
+                className="min-h-screen w-full px-4 py-10 flex flex-col items-center"
+                style={{
+                    background: "radial-gradient(ellipse 150% 100% at 50% 120%, #1a5c3a 0%, #0d3320 35%, #061a10 70%, #020a06 100%)",
+                }}
+            >
+                {/* Header */}
+                <div className="w-full max-w-3xl flex items-center justify-between mb-6">
+                    <button
+                        onClick={onBackToLobby}
+                        aria-label="Back to lobby"
+                        className="p-2 text-white/60 hover:text-emerald-400 hover:bg-emerald-400/10 rounded-lg transition-all"
+                        title="Lobby"
+                    >
+                        <span className="text-lg">🏠</span>
+                    </button>
+                    <div className="text-center">
+                        <h1 className="text-amber-400 text-2xl sm:text-3xl font-serif font-bold tracking-[0.2em]">PRACTICE</h1>
+                        <p className="text-white/50 text-xs mt-1">Rapid-fire strategy drills - no chips on the line</p>
+                    </div>
+                    <span className={`w-2 h-2 rounded-full ${connected ? "bg-emerald-400" : "bg-red-400"}`} title={connected ? "Connected" : "Connecting"} />
+                </div>
+
+                <div className="w-full max-w-3xl flex flex-col gap-4">
+                    {/* Drill picker */}
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                        {(Object.keys(DRILLS) as DrillKind[]).map((kind) => {
+                            const kindStats = stats[kind];
+                            const available = isDrillAvailable(kind, rules);
+                            return (
+                                <button
+                                    key={kind}
+                                    onClick={() => start(kind)}
+                                    disabled={!connected || !available}
+                                    className={`p-3 rounded-xl text-left transition-all disabled:opacity-40 border
+                                        ${drill?.kind === kind
+                                            ? "bg-amber-500/20 border-amber-400/60"
+                                            : "bg-black/40 border-white/10 hover:bg-white/10"}`}
+                                >
+                                    <div className="text-white font-bold text-sm">{DRILLS[kind].label}</div>
+                                    <div className="text-white/50 text-[11px] leading-tight mt-0.5">{DRILLS[kind].description}</div>
+                                    <div className="text-[11px] mt-1.5 text-white/60">
+                                        {kindStats && kindStats.total > 0
+                                            ? `${Math.round((kindStats.correct / kindStats.total) * 100)}% of ${kindStats.total} · best streak ${kindStats.bestStreak}`
+                                            : "Not tried yet"}
+                                    </div>
+                                </button>
+                            );
+                        })}
+                    </div>
+
+                    {/* Mode and rules - they apply from the next drill started */}
+                    <div className="flex flex-wrap items-center gap-x-5 gap-y-2 px-4 py-3 bg-black/40 rounded-xl border border-white/10 text-xs text-white/70">
+                        <div className="flex items-center gap-1 bg-black/40 rounded-lg p-0.5">
+                            {(["flag", "block"] as DrillMode[]).map((option) => (
+                                <button
+                                    key={option}
+                                    onClick={() => setMode(option)}
+                                    className={`px-2.5 py-1 rounded-md font-semibold transition-all
+                                        ${mode === option ? "bg-amber-500 text-black" : "text-white/60 hover:text-white"}`}
+                                    title={option === "flag" ? "Show the right play and move on" : "Wrong plays must be replayed correctly"}
+                                >
+                                    {option === "flag" ? "Flag mistakes" : "Block mistakes"}
+                                </button>
+                            ))}
+                        </div>
+                        <label className="flex items-center gap-2">
+                            Decks
+                            <select
+                                value={rules.numDecks}
+                                onChange={(e) => setRules({ ...rules, numDecks: Number(e.target.value) })}
+                                className="px-2 py-1 bg-black/60 border border-white/10 rounded-md text-white"
+                            >
+                                {[1, 2, 6, 8].map((decks) => (
+                                    <option key={decks} value={decks}>{decks}</option>
+                                ))}
+                            </select>
+                        </label>
+                        {RULE_TOGGLES.map(({ key, label }) => (
+                            <label key={key} className="flex items-center gap-2 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={rules[key]}
+                                    onChange={(e) => setRules({ ...rules, [key]: e.target.checked })}
+                                    className="accent-amber-400"
+                                />
+                                {label}
+                            </label>
+                        ))}
+                        <label className="flex items-center gap-2 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={rules.surrender !== "none"}
+                                onChange={(e) => setRules({ ...rules, surrender: e.target.checked ? "late" : "none" })}
+                                className="accent-amber-400"
+                            />
+                            Surrender
+                        </label>
+                    </div>
+
+                    {/* The hand */}
+                    {drill && hand ? (
+                        <div className="flex flex-col items-center gap-5 py-6 px-4 bg-black/30 rounded-2xl border border-white/10">
+                            <div className="text-white/40 text-[11px]">
+                                {DRILLS[drill.kind].label} · {describeTableRules(drill.rules).join(" · ")}
+                            </div>
+
+                            <div className="flex flex-col items-center gap-1">
+                                <span className="text-white/50 text-xs uppercase tracking-wide">Dealer</span>
+                                <Card card={hand.upcard} />
+                            </div>
+                            <div className="flex flex-col items-center gap-1">
+                                <div className="flex gap-2">
+                                    {hand.cards.map((card, index) => (
+                                        <Card key={`${card.rank}-${card.suit}-${index}`} card={card} delay={index * 0.08} />
+                                    ))}
+                                </div>
+                                <span className="text-white/50 text-xs uppercase tracking-wide">You</span>
+                            </div>
+
+                            {/* Actions */}
+                            <div className="flex flex-wrap justify-center gap-2">
+                                {ACTIONS.map(({ action, label, key }) => (
+                                    <button
+                                        key={action}
+                                        onClick={() => {
+                                            haptic("light");
+                                            onAnswer(action);
+                                        }}
+                                        disabled={!awaitingAnswer || !isAllowed(action)}
+                                        className={`px-4 py-2 rounded-xl font-bold text-sm transition-all disabled:opacity-30
+                                            ${result?.retry && result.action === action
+                                                ? "bg-red-500/60 text-white"
+                                                : "bg-white/10 hover:bg-white/20 text-white"}`}
+                                    >
+                                        {label} <span className="text-white/40 text-[10px] ml-0.5">{key.toUpperCase()}</span>
+                                    </button>
+                                ))}
+                            </div>
+
+                            {/* Feedback */}
+                            <AnimatePresence mode="wait">
+                                {result && (
+                                    <m.div
+                                        key={`${result.action}-${result.retry}-${result.streak}`}
+                                        initial={{ opacity: 0, y: 8 }}
+                                        animate={{ opacity: 1, y: 0 }}
+                                        exit={{ opacity: 0 }}
+                                        className={`w-full max-w-md px-4 py-3 rounded-xl text-sm text-center border
+                                            ${result.isCorrect
+                                                ? "bg-emerald-500/15 border-emerald-400/40 text-emerald-200"
+                                                : "bg-red-500/15 border-red-400/40 text-red-200"}`}
+                                    >
+                                        <div className="font-bold mb-0.5">
+                                            {result.isCorrect
+                                                ? `Correct · streak ${result.streak}`
+                                                : result.retry
+                                                    ? `Not ${result.action} - try again`
+                                                    : `Not ${result.action} - the play is ${result.correct}`}
+                                        </div>
+                                        {/* Blocked plays keep the answer back until it's found */}
+                                        {(!result.retry || result.isCorrect) && <div className="text-white/70">{result.explanation}</div>}
+                                        {!result.isCorrect && !result.retry && (
+                                            <button
+                                                onClick={onNextHand}
+                                                className="mt-2 px-4 py-1.5 bg-white/10 hover:bg-white/20 text-white font-bold text-xs rounded-lg transition-all"
+                                            >
+                                                Next hand
+                                            </button>
+                                        )}
+                                    </m.div>
+                                )}
+                            </AnimatePresence>
+                        </div>
+                    ) : (
+                        <div className="py-10 text-center text-white/40 text-sm">Pick a drill to start dealing.</div>
+                    )}
+                </div>
+            </div>
+        </LazyMotion>
+    );
+}
@@ -0,0 +1,201 @@
+"use client";
+
+import { LazyMotion, domAnimation, m } from "framer-motion";
+import { useEffect, useState } from "react";
+import { Card, ShoeFairness, ShoeVerification, verifyShoe } from "@/lib/gameTypes";
+
+interface FairnessPanelProps {
+    isOpen: boolean;
+    onClose: () => void;
+    shoeFairness: ShoeFairness | null;
+    previousShoeFairness: ShoeFairness | null;
+    clientSeed: string;
+    onSetClientSeed: (seed: string) => void;
+    getObservedCards: (shoeNumber: number) => Record<number, Card>;
+}
+
+export function FairnessPanel({
+    isOpen,
+    onClose,
+    shoeFairness,
+    previousShoeFairness,
+    clientSeed,
+    onSetClientSeed,
+    getObservedCards,
+}: FairnessPanelProps) {
+    const [seedInput, setSeedInput] = useState(clientSeed);
+    const [verification, setVerification] = useState<{ shoeNumber: number; result: ShoeVerification } | null>(null);
+
+    // ESC key to close
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === "Escape") {
+                onClose();
+            }
+        };
+
+        if (isOpen) {
+            window.addEventListener("keydown", handleKeyDown);
+            return () => window.removeEventListener("keydown", handleKeyDown);
+        }
+    }, [isOpen, onClose]);
+
+    if (!isOpen) return null;
+
+    const handleVerify = () => {
+        if (!previousShoeFairness) return;
+        setVerification({
+            shoeNumber: previousShoeFairness.shoeNumber,
+            result: verifyShoe(previousShoeFairness, getObservedCards(previousShoeFairness.shoeNumber)),
+        });
+    };
+
+    // Only show a result for the shoe it was computed for
+    const result = verification && verification.shoeNumber === previousShoeFairness?.shoeNumber
+        ? verification.result
+        : null;
+
+    return (
+        <LazyMotion features={domAnimation}>
+            <m.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+                onClick={onClose}
+            >
+                <m.div
+                    initial={{ scale: 0.9, opacity: 0 }}
+                    animate={{ scale: 1, opacity: 1 }}
+                    exit={{ scale: 0.9, opacity: 0 }}
+                    onClick={(e) => e.stopPropagation()}
+                    className="relative max-w-lg w-full max-h-[90vh] overflow-y-auto bg-gradient-to-b from-gray-900 to-gray-950
+                               rounded-2xl border border-white/10 shadow-2xl"
+                >
+                    {/* Header */}
+                    <div className="flex items-center justify-between px-6 py-4 border-b border-white/10">
+                        <div className="flex items-center gap-3">
+                            <span className="text-2xl">🛡️</span>
+                            <div>
+                                <h2 className="text-white font-bold text-lg">Provably Fair</h2>
+                                <p className="text-white/50 text-xs">Check every shoe against its published commitment</p>
+                            </div>
+                        </div>
+                        <button
+                            onClick={onClose}
+                            className="p-2 text-white/50 hover:text-white hover:bg-white/10 rounded-lg transition-all"
+                        >
+                            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                            </svg>
+                        </button>
+                    </div>
+
+                    <div className="p-6 flex flex-col gap-5 text-sm">
+                        {/* Current shoe */}
+                        <section className="flex flex-col gap-2">
+                            <h3 className="text-amber-400 font-semibold">
+                                Current shoe {shoeFairness ? `#${shoeFairness.shoeNumber}` : ""}
+                            </h3>
+                            <Field label="Server seed hash (commitment)" value={shoeFairness?.commitment ?? "—"} />
+                            {shoeFairness?.clientSeeds ? (
+                                <SeedList seeds={shoeFairness.clientSeeds} />
+                            ) : (
+                                <p className="text-white/50 text-xs">Player seeds are mixed in at the first deal of the shoe.</p>
+                            )}
+                        </section>
+
+                        {/* Your seed */}
+                        <section className="flex flex-col gap-2">
+                            <h3 className="text-amber-400 font-semibold">Your seed</h3>
+                            <div className="flex gap-2">
+                                <input
+                                    value={seedInput}
+                                    onChange={(e) => setSeedInput(e.target.value.replace(/[^0-9A-Za-z]/g, ""))}
+                                    maxLength={64}
+                                    className="flex-1 px-3 py-2 bg-black/60 border border-white/10 rounded-lg text-white font-mono text-xs
+                                               focus:outline-none focus:border-amber-400/60"
+                                />
+                                <button
+                                    onClick={() => onSetClientSeed(seedInput)}
+                                    disabled={!seedInput || seedInput === clientSeed}
+                                    className="px-4 py-2 bg-amber-500 hover:bg-amber-400 text-black font-bold text-xs rounded-lg transition-colors disabled:opacity-40"
+                                >
+                                    Use
+                                </button>
+                            </div>
+                            <p className="text-white/40 text-xs">Used for the next shoe if you are seated when it is first dealt.</p>
+                        </section>
+
+                        {/* Previous shoe - revealed */}
+                        <section className="flex flex-col gap-2">
+                            <h3 className="text-amber-400 font-semibold">
+                                Last shoe {previousShoeFairness ? `#${previousShoeFairness.shoeNumber}` : ""}
+                            </h3>
+                            {previousShoeFairness ? (
+                                <>
+                                    <Field label="Commitment" value={previousShoeFairness.commitment} />
+                                    <Field label="Revealed server seed" value={previousShoeFairness.serverSeed ?? "—"} />
+                                    {previousShoeFairness.clientSeeds && <SeedList seeds={previousShoeFairness.clientSeeds} />}
+                                    <button
+                                        onClick={handleVerify}
+                                        className="self-start px-4 py-2 bg-gradient-to-b from-emerald-500 to-emerald-700 hover:from-emerald-400 hover:to-emerald-600
+                                                   text-white font-bold text-xs rounded-lg transition-all"
+                                    >
+                                        Verify
+                                    </button>
+                                    {result && <VerificationResult result={result} />}
+                                </>
+                            ) : (
+                                <p className="text-white/50 text-xs">No shoe has been retired yet. Seeds are revealed at every reshuffle.</p>
+                            )}
+                        </section>
+                    </div>
+                </m.div>
+            </m.div>
+        </LazyMotion>
+    );
+}
+
+function Field({ label, value }: { label: string; value: string }) {
+    return (
+        <div>
+            <div className="text-white/40 text-[11px]">{label}</div>
+            <div className="text-white/80 font-mono text-[11px] break-all">{value}</div>
+        </div>
+    );
+}
+
+function SeedList({ seeds }: { seeds: { name: string; seed: string }[] }) {
+    if (seeds.length === 0) {
+        return <p className="text-white/50 text-xs">No player seeds were mixed in.</p>;
+    }
+    return (
+        <div>
+            <div className="text-white/40 text-[11px]">Player seeds (in seat order)</div>
+            {seeds.map((s, i) => (
+                <div key={i} className="text-white/80 font-mono text-[11px] break-all">
+                    <span className="text-white/50">{s.name}:</span> {s.seed}
+                </div>
+            ))}
+        </div>
+    );
+}
+
+function VerificationResult({ result }: { result: ShoeVerification }) {
+    if (!result.commitmentValid) {
+        return <p className="text-red-400 font-semibold">✗ The revealed seed does not match the commitment</p>;
+    }
+    if (result.mismatches.length > 0) {
+        return (
+            <p className="text-red-400 font-semibold">
+                ✗ {result.mismatches.length} of {result.checked} cards you saw do not match the shoe order
+            </p>
+        );
+    }
+    return (
+        <p className="text-emerald-400 font-semibold">
+            ✓ Commitment matches and all {result.checked} cards you saw were dealt in the seeded order
+        </p>
+    );
+}
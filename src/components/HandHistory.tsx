@@ -0,0 +1,199 @@
+"use client";
+
+import { LazyMotion, domAnimation, m } from "framer-motion";
+import { useEffect } from "react";
+import { Card, HandResult, RoundRecord, RoundSeatRecord, calculateHandValue } from "@/lib/gameTypes";
+
+interface HandHistoryProps {
+    isOpen: boolean;
+    onClose: () => void;
+    playerId: string | null;
+    rounds: RoundRecord[];
+    hasMore: boolean;
+    onLoadMore: (before: number) => void;
+    onReplay: (round: RoundRecord) => void;
+}
+
+const suitSymbols: Record<string, string> = {
+    hearts: "♥",
+    diamonds: "♦",
+    clubs: "♣",
+    spades: "♠",
+};
+
+const resultStyles: Record<HandResult, string> = {
+    blackjack: "text-amber-400",
+    win: "text-emerald-400",
+    push: "text-white/60",
+    lose: "text-red-400",
+};
+
+export function HandHistory({ isOpen, onClose, playerId, rounds, hasMore, onLoadMore, onReplay }: HandHistoryProps) {
+    // ESC key to close
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === "Escape") {
+                onClose();
+            }
+        };
+
+        if (isOpen) {
+            window.addEventListener("keydown", handleKeyDown);
+            return () => window.removeEventListener("keydown", handleKeyDown);
+        }
+    }, [isOpen, onClose]);
+
+    if (!isOpen) return null;
+
+    const oldest = rounds[rounds.length - 1];
+
+    return (
+        <LazyMotion features={domAnimation}>
+            <m.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+                onClick={onClose}
+            >
+                <m.div
+                    initial={{ scale: 0.9, opacity: 0 }}
+                    animate={{ scale: 1, opacity: 1 }}
+                    exit={{ scale: 0.9, opacity: 0 }}
+                    onClick={(e) => e.stopPropagation()}
+                    className="relative max-w-lg w-full max-h-[90vh] overflow-y-auto bg-gradient-to-b from-gray-900 to-gray-950
+                               rounded-2xl border border-white/10 shadow-2xl"
+                >
+                    {/* Header */}
+                    <div className="flex items-center justify-between px-6 py-4 border-b border-white/10">
+                        <div className="flex items-center gap-3">
+                            <span className="text-2xl">📜</span>
+                            <div>
+                                <h2 className="text-white font-bold text-lg">My Hands</h2>
+                                <p className="text-white/50 text-xs">Every round you played at this table</p>
+                            </div>
+                        </div>
+                        <button
+                            onClick={onClose}
+                            className="p-2 text-white/50 hover:text-white hover:bg-white/10 rounded-lg transition-all"
+                        >
+                            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                            </svg>
+                        </button>
+                    </div>
+
+                    <div className="p-6 flex flex-col gap-3 text-sm">
+                        {rounds.length === 0 && (
+                            <p className="text-white/50 text-xs text-center py-6">No hands yet. Finished rounds show up here.</p>
+                        )}
+
+                        {rounds.map((round) => {
+                            const mySeats = round.seats.filter((s) => s.playerId === playerId);
+                            return mySeats.length > 0 ? <RoundRow key={round.roundNumber} round={round} seats={mySeats} onReplay={() => onReplay(round)} /> : null;
+                        })}
+
+                        {hasMore && oldest && (
+                            <button
+                                onClick={() => onLoadMore(oldest.roundNumber)}
+                                className="self-center px-4 py-2 text-white/70 hover:text-white bg-white/5 hover:bg-white/10
+                                           text-xs rounded-lg transition-all"
+                            >
+                                Load more
+                            </button>
+                        )}
+                    </div>
+                </m.div>
+            </m.div>
+        </LazyMotion>
+    );
+}
+
+// One round as the player saw it - every spot they played, from one shared bankroll
+function RoundRow({ round, seats, onReplay }: { round: RoundRecord; seats: RoundSeatRecord[]; onReplay: () => void }) {
+    const net = seats[0].chipsAfter - seats[0].chipsBefore;
+    const dealerValue = calculateHandValue(round.dealerHand).value;
+    const insuranceBet = seats.reduce((total, s) => total + s.insuranceBet, 0);
+    const insurancePayout = seats.reduce((total, s) => total + s.insurancePayout, 0);
+
+    // Results come from the payout events - hands only keep their final status
+    const results = new Map<string, HandResult>();
+    for (const event of round.events) {
+        if (event.type === "payout") {
+            results.set(`${event.seatIndex}:${event.handIndex}`, event.result);
+        }
+    }
+
+    return (
+        <div className="rounded-xl bg-black/40 border border-white/5 px-4 py-3 flex flex-col gap-2">
+            <div className="flex items-center justify-between">
+                <div className="text-white/80 font-semibold">
+                    Round #{round.roundNumber}
+                    <span className="ml-2 text-white/40 text-xs font-normal">
+                        {new Date(round.startedAt).toLocaleString()}
+                    </span>
+                </div>
+                <div className="flex items-center gap-3">
+                    <div className={`font-mono font-bold ${net > 0 ? "text-emerald-400" : net < 0 ? "text-red-400" : "text-white/60"}`}>
+                        {net > 0 ? "+" : ""}{net}
+                    </div>
+                    <button
+                        onClick={onReplay}
+                        aria-label={`Replay round ${round.roundNumber}`}
+                        className="px-2 py-1 text-xs text-amber-400/80 hover:text-amber-300 bg-amber-400/10 hover:bg-amber-400/20 rounded-md transition-all"
+                        title="Replay this round"
+                    >
+                        ▶ Replay
+                    </button>
+                </div>
+            </div>
+
+            {seats.flatMap((seat) => seat.hands.map((hand, handIndex) => {
+                const result = results.get(`${seat.seatIndex}:${handIndex}`);
+                return (
+                    <div key={`${seat.seatIndex}:${handIndex}`} className="flex items-center justify-between text-xs">
+                        <div className="flex items-center gap-2">
+                            <CardList cards={hand.cards} />
+                            <span className="text-white/40">({calculateHandValue(hand.cards).value})</span>
+                            {hand.isDoubled && <span className="text-amber-400/70">doubled</span>}
+                            {hand.status === "surrendered" && <span className="text-white/50">surrendered</span>}
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <span className="text-white/40">bet {hand.bet}</span>
+                            {result && <span className={`font-semibold uppercase ${resultStyles[result]}`}>{result}</span>}
+                        </div>
+                    </div>
+                );
+            }))}
+
+            <div className="flex items-center justify-between text-xs text-white/50">
+                <div className="flex items-center gap-2">
+                    <span>Dealer</span>
+                    <CardList cards={round.dealerHand} />
+                    <span className="text-white/40">({dealerValue})</span>
+                </div>
+                {insuranceBet > 0 && (
+                    <span>
+                        Insurance {insuranceBet}
+                        {insurancePayout > 0 ? ` → won ${insurancePayout}` : " → lost"}
+                    </span>
+                )}
+            </div>
+        </div>
+    );
+}
+
+function CardList({ cards }: { cards: Card[] }) {
+    return (
+        <span className="font-mono">
+            {cards.map((card, i) => (
+                <span
+                    key={i}
+                    className={`mr-1 ${card.suit === "hearts" || card.suit === "diamonds" ? "text-red-400" : "text-white/90"}`}
+                >
+                    {card.rank}{suitSymbols[card.suit]}
+                </span>
+            ))}
+        </span>
+    );
+}
@@ -5,13 +5,15 @@ import { motion, AnimatePresence } from "framer-motion";
 interface LeaderboardProps {
     isOpen: boolean;
     onClose: () => void;
+    names: Record<string, string>; // Player ID -> display name
     balances: Record<string, number>;
     adherence?: Record<string, number>;
+    insuranceAdherence?: Record<string, number>; // Insurance and even money decisions
     atmUsage?: Record<string, number>;
     blackjacks?: Record<string, number>;
 }
 
-export function Leaderboard({ isOpen, onClose, balances, adherence = {}, atmUsage = {}, blackjacks = {} }: LeaderboardProps) {
+export function Leaderboard({ isOpen, onClose, names, balances, adherence = {}, insuranceAdherence = {}, atmUsage = {}, blackjacks = {} }: LeaderboardProps) {
     // Sort players by chip count (highest first)
     const sortedPlayers = Object.entries(balances)
         .sort(([, a], [, b]) => b - a)
@@ -79,6 +81,7 @@ export function Leaderboard({ isOpen, onClose, balances, adherence = {}, atmUsag
                             <div className="w-20 text-right shrink-0">Chips</div>
                             <div className="w-10 text-center shrink-0" title="Blackjacks">BJs</div>
                             <div className="w-12 text-right shrink-0">Strategy</div>
+                            <div className="w-10 text-right shrink-0" title="Insurance and even money">Ins.</div>
                             <div className="w-10 text-right shrink-0">ATM</div>
                         </div>
 
@@ -89,11 +92,12 @@ export function Leaderboard({ isOpen, onClose, balances, adherence = {}, atmUsag
                                     No players yet. Be the first to play!
                                 </div>
                             ) : (
-                                sortedPlayers.map(([name, chips], index) => {
-                                    const playerAdherence = adherence[name];
+                                sortedPlayers.map(([playerId, chips], index) => {
+                                    const playerAdherence = adherence[playerId];
+                                    const playerInsuranceAdherence = insuranceAdherence[playerId];
                                     return (
                                         <motion.div
-                                            key={name}
+                                            key={playerId}
                                             initial={{ opacity: 0, x: -20 }}
                                             animate={{ opacity: 1, x: 0 }}
                                             transition={{ delay: index * 0.05 }}
@@ -112,7 +116,7 @@ export function Leaderboard({ isOpen, onClose, balances, adherence = {}, atmUsag
                                             <div className="flex-1 min-w-0 px-2">
                                                 <span className={`font-medium truncate block
                                                                 ${index === 0 ? "text-amber-400" : "text-white"}`}>
-                                                    {name}
+                                                    {names[playerId] ?? "Unknown"}
                                                 </span>
                                             </div>
 
@@ -125,12 +129,12 @@ export function Leaderboard({ isOpen, onClose, balances, adherence = {}, atmUsag
 
                                             {/* Blackjacks - Silver Dollar Style */}
                                             <div className="w-10 flex justify-center shrink-0">
-                                                {(blackjacks[name] ?? 0) > 0 ? (
+                                                {(blackjacks[playerId] ?? 0) > 0 ? (
                                                     <div className="w-5 h-5 rounded-full bg-gradient-to-br from-slate-300 via-slate-100 to-slate-400 
                                                                    border border-slate-400/50 shadow-sm 
                                                                    flex items-center justify-center text-[9px] font-bold text-slate-700"
-                                                        title={`${blackjacks[name]} Blackjacks`}>
-                                                        {blackjacks[name]}
+                                                        title={`${blackjacks[playerId]} Blackjacks`}>
+                                                        {blackjacks[playerId]}
                                                     </div>
                                                 ) : (
                                                     <span className="text-white/30">—</span>
@@ -148,12 +152,23 @@ export function Leaderboard({ isOpen, onClose, balances, adherence = {}, atmUsag
                                                 )}
                                             </div>
 
+                                            {/* Insurance Adherence */}
+                                            <div className="w-10 text-right shrink-0">
+                                                {playerInsuranceAdherence !== undefined ? (
+                                                    <span className={`font-medium ${getAdherenceColor(playerInsuranceAdherence)}`}>
+                                                        {playerInsuranceAdherence}%
+                                                    </span>
+                                                ) : (
+                                                    <span className="text-white/30">—</span>
+                                                )}
+                                            </div>
+
                                             {/* ATM Usage */}
                                             <div className="w-10 text-right font-mono text-sm shrink-0">
-                                                <span className={atmUsage[name] && atmUsage[name] > 0
+                                                <span className={atmUsage[playerId] && atmUsage[playerId] > 0
                                                     ? "text-orange-400"
                                                     : "text-white/30"}>
-                                                    {atmUsage[name] || 0}
+                                                    {atmUsage[playerId] || 0}
                                                 </span>
                                             </div>
                                         </motion.div>
@@ -165,7 +180,7 @@ export function Leaderboard({ isOpen, onClose, balances, adherence = {}, atmUsag
                         {/* Footer */}
                         <div className="px-5 py-3 border-t border-white/10 bg-black/30">
                             <p className="text-xs text-white/40 text-center">
-                                Strategy % shows basic strategy adherence
+                                Strategy % shows basic strategy adherence; Ins. % is insurance and even money, graded apart
                             </p>
                         </div>
                     </motion.div>
@@ -0,0 +1,364 @@
+"use client";
+
+import { useState } from "react";
+import { LazyMotion, domAnimation, m, AnimatePresence } from "framer-motion";
+import {
+    TableListing,
+    TableRules,
+    DEFAULT_TABLE_RULES,
+    DEFAULT_SIDE_BET_PAYOUTS,
+    MIN_BET_FLOOR,
+    MAX_BET_CEILING,
+    describeTableRules,
+} from "@/lib/gameTypes";
+import { CreateTableOptions } from "@/hooks/useLobbySocket";
+import { haptic } from "@/lib/haptics";
+
+interface LobbyProps {
+    tables: TableListing[];
+    connected: boolean;
+    createdTable: { table: TableListing; inviteCode: string | null } | null;
+    onEnterTable: (roomId: string) => void;
+    onCreateTable: (options: CreateTableOptions) => void;
+    onJoinByCode: (inviteCode: string) => void;
+    onDismissCreatedTable: () => void;
+    onStartDrills: () => void;
+}
+
+// Rule toggles offered when creating a table - everything else uses the defaults
+const RULE_TOGGLES: { key: keyof TableRules; label: string }[] = [
+    { key: "dealerHitsSoft17", label: "Dealer hits soft 17" },
+    { key: "doubleAfterSplit", label: "Double after split" },
+    { key: "resplitAces", label: "Resplit aces" },
+    { key: "hitSplitAces", label: "Hit split aces" },
+    { key: "indexPlays", label: "Grade with index plays" },
+];
+
+export function Lobby({
+    tables,
+    connected,
+    createdTable,
+    onEnterTable,
+    onCreateTable,
+    onJoinByCode,
+    onDismissCreatedTable,
+    onStartDrills,
+}: LobbyProps) {
+    const [showCreateForm, setShowCreateForm] = useState(false);
+    const [inviteCode, setInviteCode] = useState("");
+    const [name, setName] = useState("");
+    const [isPrivate, setIsPrivate] = useState(false);
+    const [minBet, setMinBet] = useState(DEFAULT_TABLE_RULES.minBet);
+    const [maxBet, setMaxBet] = useState(DEFAULT_TABLE_RULES.maxBet);
+    const [rules, setRules] = useState<TableRules>(DEFAULT_TABLE_RULES);
+
+    const handleCreate = () => {
+        if (!name.trim()) return;
+        haptic("medium");
+        onCreateTable({ name: name.trim(), isPrivate, minBet, maxBet, rules });
+        setShowCreateForm(false);
+        setName("");
+    };
+
+    const handleJoinByCode = () => {
+        if (!inviteCode.trim()) return;
+        haptic("light");
+        onJoinByCode(inviteCode.trim());
+        setInviteCode("");
+    };
+
+    return (
+        <LazyMotion features={domAnimation}>
+            <div
+                className="min-h-screen w-full px-4 py-10 flex flex-col items-center"
+                style={{
+                    background: "radial-gradient(ellipse 150% 100% at 50% 120%, #1a5c3a 0%, #0d3320 35%, #061a10 70%, #020a06 100%)",
+                }}
+            >
+                {/* Header */}
+                <div className="text-center mb-8">
+                    <h1 className="text-amber-400 text-3xl sm:text-4xl font-serif font-bold tracking-[0.2em]">BLACKJACK LIVE</h1>
+                    <p className="text-white/50 text-sm mt-2">Pick a table, start your own, or join friends with an invite code</p>
+                </div>
+
+                <div className="w-full max-w-3xl flex flex-col gap-4">
+                    {/* Actions */}
+                    <div className="flex flex-col sm:flex-row gap-3">
+                        <m.button
+                            whileHover={{ scale: 1.02 }}
+                            whileTap={{ scale: 0.98 }}
+                            onClick={() => setShowCreateForm(!showCreateForm)}
+                            disabled={!connected}
+                            className="px-5 py-3 bg-gradient-to-b from-amber-500 to-orange-600 hover:from-amber-400 hover:to-orange-500
+                                       text-black font-bold text-sm rounded-xl shadow-lg shadow-amber-500/30 transition-all disabled:opacity-40"
+                        >
+                            {showCreateForm ? "Cancel" : "+ Create Table"}
+                        </m.button>
+
+                        <button
+                            onClick={() => {
+                                haptic("light");
+                                onStartDrills();
+                            }}
+                            className="px-5 py-3 bg-white/10 hover:bg-white/20 text-white font-bold text-sm rounded-xl transition-all"
+                            title="Solo strategy drills - no chips"
+                        >
+                            🎓 Practice
+                        </button>
+
+                        <div className="flex flex-1 gap-2">
+                            <input
+                                value={inviteCode}
+                                onChange={(e) => setInviteCode(e.target.value.toUpperCase())}
+                                onKeyDown={(e) => e.key === "Enter" && handleJoinByCode()}
+                                placeholder="Invite code"
+                                maxLength={6}
+                                className="flex-1 px-4 py-3 bg-black/50 border border-white/10 rounded-xl text-white text-sm tracking-widest
+                                           placeholder-white/30 focus:outline-none focus:border-amber-400/60"
+                            />
+                            <button
+                                onClick={handleJoinByCode}
+                                disabled={!connected || !inviteCode.trim()}
+                                className="px-5 py-3 bg-white/10 hover:bg-white/20 text-white font-bold text-sm rounded-xl transition-all disabled:opacity-40"
+                            >
+                                Join
+                            </button>
+                        </div>
+                    </div>
+
+                    {/* Create table form */}
+                    <AnimatePresence>
+                        {showCreateForm && (
+                            <m.div
+                                initial={{ opacity: 0, height: 0 }}
+                                animate={{ opacity: 1, height: "auto" }}
+                                exit={{ opacity: 0, height: 0 }}
+                                className="overflow-hidden"
+                            >
+                                <div className="p-5 bg-black/50 rounded-2xl border border-white/10 flex flex-col gap-4">
+                                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                                        <label className="flex flex-col gap-1 text-xs text-white/60">
+                                            Table name
+                                            <input
+                                                value={name}
+                                                onChange={(e) => setName(e.target.value)}
+                                                maxLength={24}
+                                                placeholder="High Rollers"
+                                                className="px-3 py-2 bg-black/60 border border-white/10 rounded-lg text-white text-sm focus:outline-none focus:border-amber-400/60"
+                                            />
+                                        </label>
+                                        <label className="flex flex-col gap-1 text-xs text-white/60">
+                                            Min bet
+                                            <input
+                                                type="number"
+                                                min={MIN_BET_FLOOR}
+                                                max={MAX_BET_CEILING}
+                                                value={minBet}
+                                                onChange={(e) => setMinBet(Number(e.target.value))}
+                                                className="px-3 py-2 bg-black/60 border border-white/10 rounded-lg text-white text-sm focus:outline-none focus:border-amber-400/60"
+                                            />
+                                        </label>
+                                        <label className="flex flex-col gap-1 text-xs text-white/60">
+                                            Max bet
+                                            <input
+                                                type="number"
+                                                min={minBet}
+                                                max={MAX_BET_CEILING}
+                                                value={maxBet}
+                                                onChange={(e) => setMaxBet(Number(e.target.value))}
+                                                className="px-3 py-2 bg-black/60 border border-white/10 rounded-lg text-white text-sm focus:outline-none focus:border-amber-400/60"
+                                            />
+                                        </label>
+                                    </div>
+
+                                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                                        <label className="flex flex-col gap-1 text-xs text-white/60">
+                                            Decks
+                                            <select
+                                                value={rules.numDecks}
+                                                onChange={(e) => setRules({ ...rules, numDecks: Number(e.target.value) })}
+                                                className="px-3 py-2 bg-black/60 border border-white/10 rounded-lg text-white text-sm"
+                                            >
+                                                {[1, 2, 4, 6, 8].map((n) => <option key={n} value={n}>{n}</option>)}
+                                            </select>
+                                        </label>
+                                        <label className="flex flex-col gap-1 text-xs text-white/60">
+                                            Blackjack pays
+                                            <select
+                                                value={rules.blackjackPayout}
+                                                onChange={(e) => setRules({ ...rules, blackjackPayout: e.target.value as TableRules["blackjackPayout"] })}
+                                                className="px-3 py-2 bg-black/60 border border-white/10 rounded-lg text-white text-sm"
+                                            >
+                                                <option value="3:2">3 to 2</option>
+                                                <option value="6:5">6 to 5</option>
+                                            </select>
+                                        </label>
+                                        <label className="flex flex-col gap-1 text-xs text-white/60">
+                                            Surrender
+                                            <select
+                                                value={rules.surrender}
+                                                onChange={(e) => setRules({ ...rules, surrender: e.target.value as TableRules["surrender"] })}
+                                                className="px-3 py-2 bg-black/60 border border-white/10 rounded-lg text-white text-sm"
+                                            >
+                                                <option value="late">Late</option>
+                                                <option value="early">Early</option>
+                                                <option value="none">None</option>
+                                            </select>
+                                        </label>
+                                        <label className="flex flex-col gap-1 text-xs text-white/60">
+                                            Split up to
+                                            <select
+                                                value={rules.maxSplitHands}
+                                                onChange={(e) => setRules({ ...rules, maxSplitHands: Number(e.target.value) })}
+                                                className="px-3 py-2 bg-black/60 border border-white/10 rounded-lg text-white text-sm"
+                                            >
+                                                {[2, 3, 4].map((n) => <option key={n} value={n}>{n} hands</option>)}
+                                            </select>
+                                        </label>
+                                    </div>
+
+                                    <div className="flex flex-wrap gap-x-5 gap-y-2">
+                                        {RULE_TOGGLES.map(({ key, label }) => (
+                                            <label key={key} className="flex items-center gap-2 text-xs text-white/70 cursor-pointer">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={Boolean(rules[key])}
+                                                    onChange={(e) => setRules({ ...rules, [key]: e.target.checked })}
+                                                    className="accent-amber-400"
+                                                />
+                                                {label}
+                                            </label>
+                                        ))}
+                                        <label className="flex items-center gap-2 text-xs text-white/70 cursor-pointer">
+                                            <input
+                                                type="checkbox"
+                                                checked={rules.sideBets !== null}
+                                                onChange={(e) => setRules({ ...rules, sideBets: e.target.checked ? DEFAULT_SIDE_BET_PAYOUTS : null })}
+                                                className="accent-amber-400"
+                                            />
+                                            Side bets (Perfect Pairs, 21+3)
+                                        </label>
+                                        <label className="flex items-center gap-2 text-xs text-white/70 cursor-pointer">
+                                            <input
+                                                type="checkbox"
+                                                checked={isPrivate}
+                                                onChange={(e) => setIsPrivate(e.target.checked)}
+                                                className="accent-amber-400"
+                                            />
+                                            🔒 Private (invite code only)
+                                        </label>
+                                    </div>
+
+                                    <button
+                                        onClick={handleCreate}
+                                        disabled={!name.trim()}
+                                        className="self-end px-6 py-2 bg-gradient-to-b from-emerald-500 to-emerald-700 hover:from-emerald-400 hover:to-emerald-600
+                                                   text-white font-bold text-sm rounded-lg shadow-lg shadow-emerald-500/30 transition-all disabled:opacity-40"
+                                    >
+                                        Create
+                                    </button>
+                                </div>
+                            </m.div>
+                        )}
+                    </AnimatePresence>
+
+                    {/* Table list */}
+                    <div className="flex flex-col gap-3">
+                        {!connected && (
+                            <div className="text-center py-8 text-amber-400/80 text-sm animate-pulse">Connecting to lobby...</div>
+                        )}
+                        {connected && tables.length === 0 && (
+                            <div className="text-center py-8 text-white/50 text-sm">No open tables. Create one!</div>
+                        )}
+                        {tables.map((table, index) => {
+                            const isFull = table.seatsTaken >= table.seatCount;
+                            return (
+                                <m.div
+                                    key={table.roomId}
+                                    initial={{ opacity: 0, y: 10 }}
+                                    animate={{ opacity: 1, y: 0 }}
+                                    transition={{ delay: index * 0.04 }}
+                                    className="flex items-center gap-4 p-4 bg-black/40 hover:bg-black/50 rounded-2xl border border-white/10 transition-colors"
+                                >
+                                    <div className="flex-1 min-w-0">
+                                        <div className="flex items-center gap-2">
+                                            <span className="text-white font-semibold truncate">{table.name}</span>
+                                            <span className="text-amber-400 text-xs font-bold">
+                                                ${table.minBet.toLocaleString()} - ${table.maxBet.toLocaleString()}
+                                            </span>
+                                        </div>
+                                        <div className="text-white/40 text-[11px] mt-1 truncate">
+                                            {describeTableRules(table.rules).join(" · ")}
+                                        </div>
+                                    </div>
+
+                                    {/* Seat occupancy */}
+                                    <div className="flex flex-col items-end gap-1 shrink-0">
+                                        <div className="flex gap-1" aria-label={`${table.seatsTaken} of ${table.seatCount} seats taken`}>
+                                            {Array.from({ length: table.seatCount }, (_, i) => (
+                                                <div
+                                                    key={i}
+                                                    className={`w-2.5 h-2.5 rounded-full ${i < table.seatsTaken ? "bg-emerald-400" : "bg-white/15"}`}
+                                                />
+                                            ))}
+                                        </div>
+                                        <span className="text-white/40 text-[10px]">👁️ {table.connections} online</span>
+                                    </div>
+
+                                    <m.button
+                                        whileHover={{ scale: 1.05 }}
+                                        whileTap={{ scale: 0.95 }}
+                                        onClick={() => {
+                                            haptic("light");
+                                            onEnterTable(table.roomId);
+                                        }}
+                                        className="px-4 py-2 bg-gradient-to-b from-emerald-500 to-emerald-700 hover:from-emerald-400 hover:to-emerald-600
+                                                   text-white font-bold text-xs rounded-lg shadow-lg shadow-emerald-500/20 transition-all shrink-0"
+                                    >
+                                        {isFull ? "Watch" : "Sit"}
+                                    </m.button>
+                                </m.div>
+                            );
+                        })}
+                    </div>
+                </div>
+
+                {/* Private table created - share the invite code */}
+                <AnimatePresence>
+                    {createdTable && (
+                        <m.div
+                            initial={{ opacity: 0 }}
+                            animate={{ opacity: 1 }}
+                            exit={{ opacity: 0 }}
+                            className="fixed inset-0 bg-black/70 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+                            onClick={onDismissCreatedTable}
+                        >
+                            <m.div
+                                initial={{ scale: 0.9 }}
+                                animate={{ scale: 1 }}
+                                onClick={(e) => e.stopPropagation()}
+                                className="w-full max-w-sm p-6 bg-gradient-to-b from-gray-900 to-gray-950 rounded-2xl border border-amber-500/30 text-center"
+                            >
+                                <div className="text-white/60 text-sm">🔒 {createdTable.table.name} is ready</div>
+                                <div className="text-white/40 text-xs mt-4">Share this invite code</div>
+                                <div className="text-amber-400 text-4xl font-mono font-bold tracking-[0.3em] mt-1">
+                                    {createdTable.inviteCode}
+                                </div>
+                                <button
+                                    onClick={() => {
+                                        onDismissCreatedTable();
+                                        onEnterTable(createdTable.table.roomId);
+                                    }}
+                                    className="mt-6 w-full px-6 py-3 bg-gradient-to-b from-emerald-500 to-emerald-700 hover:from-emerald-400 hover:to-emerald-600
+                                               text-white font-bold text-sm rounded-xl shadow-lg shadow-emerald-500/30 transition-all"
+                                >
+                                    Go to table
+                                </button>
+                            </m.div>
+                        </m.div>
+                    )}
+                </AnimatePresence>
+            </div>
+        </LazyMotion>
+    );
+}
@@ -0,0 +1,221 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { RoundEvent, RoundRecord } from "@/lib/gameTypes";
+import { buildReplayFrames } from "@/lib/replay";
+import { Table } from "./Table";
+
+interface ReplayViewerProps {
+    round: RoundRecord;
+    playerId: string | null;
+    onClose: () => void;
+}
+
+const SPEEDS = [0.5, 1, 2, 4];
+
+// Base pause after each kind of event, at 1x
+const EVENT_DELAY: Record<RoundEvent["type"], number> = {
+    deal: 600,
+    action: 900,
+    insurance: 900,
+    side_bet: 600,
+    reveal: 900,
+    payout: 1200,
+};
+
+const noop = () => {};
+const noopAction = () => Promise.resolve();
+
+export function ReplayViewer({ round, playerId, onClose }: ReplayViewerProps) {
+    const frames = useMemo(() => buildReplayFrames(round), [round]);
+    const [frameIndex, setFrameIndex] = useState(0);
+    const [playing, setPlaying] = useState(true);
+    const [speed, setSpeed] = useState(1);
+
+    const lastIndex = frames.length - 1;
+    const atEnd = frameIndex >= lastIndex;
+    const isPlaying = playing && !atEnd;
+    const frame = frames[frameIndex];
+
+    // Advance one event at a time while playing
+    useEffect(() => {
+        if (!isPlaying) return;
+        const next = frames[frameIndex + 1];
+        const delay = (next?.event ? EVENT_DELAY[next.event.type] : 600) / speed;
+        const timeout = setTimeout(() => setFrameIndex((i) => Math.min(i + 1, lastIndex)), delay);
+        return () => clearTimeout(timeout);
+    }, [isPlaying, frameIndex, frames, speed, lastIndex]);
+
+    const togglePlay = () => {
+        if (atEnd) {
+            setFrameIndex(0);
+            setPlaying(true);
+        } else {
+            setPlaying(!playing);
+        }
+    };
+
+    const step = (delta: number) => {
+        setPlaying(false);
+        setFrameIndex((i) => Math.max(0, Math.min(i + delta, lastIndex)));
+    };
+
+    // Space to play/pause, arrows to step, ESC to leave
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === "Escape") {
+                onClose();
+            } else if (e.key === " ") {
+                e.preventDefault();
+                togglePlay();
+            } else if (e.key === "ArrowLeft") {
+                step(-1);
+            } else if (e.key === "ArrowRight") {
+                step(1);
+            }
+        };
+
+        window.addEventListener("keydown", handleKeyDown);
+        return () => window.removeEventListener("keydown", handleKeyDown);
+    });
+
+    const controls = (
+        <div className="absolute bottom-0 left-0 right-0">
+            <div className="absolute inset-0 bg-gradient-to-t from-black via-black/90 to-transparent pointer-events-none" />
+            <div className="relative h-28 px-3 sm:px-6 flex items-center justify-between gap-4">
+                <div className="flex flex-col min-w-[120px]">
+                    <span className="text-amber-400 font-bold text-sm">Replay · Round #{round.roundNumber}</span>
+                    <span className="text-white/50 text-xs">{new Date(round.startedAt).toLocaleString()}</span>
+                </div>
+
+                <div className="flex flex-col items-center gap-2 flex-1 max-w-md">
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={() => step(-1)}
+                            disabled={frameIndex === 0}
+                            aria-label="Step back"
+                            className="px-3 py-2 text-white/70 hover:text-white bg-white/5 hover:bg-white/10 rounded-lg transition-all disabled:opacity-30"
+                        >
+                            ⏮
+                        </button>
+                        <button
+                            onClick={togglePlay}
+                            aria-label={isPlaying ? "Pause" : "Play"}
+                            className="px-5 py-2 bg-gradient-to-b from-amber-400 to-amber-600 hover:from-amber-300 hover:to-amber-500
+                                       text-black font-bold rounded-lg shadow-lg transition-all"
+                        >
+                            {isPlaying ? "⏸" : "▶"}
+                        </button>
+                        <button
+                            onClick={() => step(1)}
+                            disabled={atEnd}
+                            aria-label="Step forward"
+                            className="px-3 py-2 text-white/70 hover:text-white bg-white/5 hover:bg-white/10 rounded-lg transition-all disabled:opacity-30"
+                        >
+                            ⏭
+                        </button>
+                        <div className="flex items-center gap-1 ml-2">
+                            {SPEEDS.map((s) => (
+                                <button
+                                    key={s}
+                                    onClick={() => setSpeed(s)}
+                                    aria-label={`Playback speed ${s}x`}
+                                    className={`px-2 py-1 text-xs rounded-md transition-all ${speed === s
+                                        ? "bg-amber-400/20 text-amber-300"
+                                        : "text-white/50 hover:text-white hover:bg-white/10"
+                                        }`}
+                                >
+                                    {s}x
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    <input
+                        type="range"
+                        min={0}
+                        max={lastIndex}
+                        value={frameIndex}
+                        onChange={(e) => {
+                            setPlaying(false);
+                            setFrameIndex(Number(e.target.value));
+                        }}
+                        aria-label="Replay position"
+                        className="w-full accent-amber-400"
+                    />
+                </div>
+
+                <div className="flex items-center justify-end min-w-[100px]">
+                    <button
+                        onClick={onClose}
+                        className="px-3 py-1.5 text-xs text-white/70 hover:text-white hover:bg-white/10
+                                   rounded-lg transition-all border border-white/20"
+                    >
+                        Exit replay
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+
+    return (
+        <Table
+            gameState={frame.state}
+            playerId={playerId}
+            lastPayout={null}
+            seatPayouts={frame.seatPayouts}
+            sideBetPayouts={frame.sideBetPayouts}
+            betBehindWinnings={{}}
+            lastInsurancePayout={null}
+            leaderboardNames={{}}
+            leaderboard={null}
+            leaderboardAdherence={null}
+            leaderboardInsuranceAdherence={null}
+            leaderboardAtmUsage={null}
+            leaderboardBlackjacks={null}
+            chatMessages={[]}
+            lastAction={frame.lastAction}
+            onJoinSeat={noop}
+            onPlaceBet={noopAction}
+            onClearBet={noop}
+            onHit={noopAction}
+            onStand={noopAction}
+            onDouble={noopAction}
+            onSplit={noopAction}
+            onSurrender={noopAction}
+            onInsurance={noopAction}
+            onPlayOn={noopAction}
+            onQueueAction={noopAction}
+            onQueueInsurance={noopAction}
+            onSetAutoplay={noopAction}
+            onPlaceSideBet={noopAction}
+            onBetBehind={noop}
+            onClearBetBehind={noop}
+            onLeaveSeat={noop}
+            onRequestLeaderboard={noop}
+            onSendChat={noop}
+            onSendReaction={noop}
+            onSendQuickEmote={noop}
+            onUseAtm={noop}
+            onBackToLobby={noop}
+            clientSeed=""
+            onSetClientSeed={noop}
+            indexPlays={false}
+            onSetIndexPlays={noop}
+            countTrainer={null}
+            onSetCountTrainer={noop}
+            countQuiz={null}
+            countResult={null}
+            countQuizzes={[]}
+            onAnswerCountQuiz={noop}
+            onDismissCountQuiz={noop}
+            getObservedCards={() => ({})}
+            handHistory={[]}
+            handHistoryHasMore={false}
+            onRequestHandHistory={noop}
+            strategyDecisions={null}
+            onRequestStrategyReport={noop}
+            onReplayRound={noop}
+            replay={controls}
+        />
+    );
+}
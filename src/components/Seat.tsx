@@ -2,7 +2,8 @@
 
 import { useState, useMemo, useCallback, memo } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { Seat as SeatType, calculateHandValue } from "@/lib/gameTypes";
+import { AUTOPLAY_PROFILES, AutoplayProfile, Seat as SeatType, SideBetKind, SideBetOutcome, calculateHandValue } from "@/lib/gameTypes";
+import { SIDE_BETS, SIDE_BET_KINDS, SIDE_BET_RESULT_LABELS } from "@/lib/sideBets";
 import { CardStack } from "./Card";
 import { BetDisplay } from "./Chip";
 
@@ -17,9 +18,28 @@ interface SeatProps {
         result: 'win' | 'lose' | 'push' | 'blackjack';
     };
     showPayout?: boolean;
+    sideBetSpots?: boolean; // The table offers side bets
+    sideBetPayouts?: SideBetOutcome[];
+    selectedBetSpot?: BetSpot | null; // Own seat while betting - where chips go
+    onSelectBetSpot?: (spot: BetSpot) => void;
+    myBetBehind?: number; // What the viewer has riding on this seat
+    betBehindWinnings?: number; // The viewer's winnings on it this round
+    onBetBehind?: (amount: number) => void; // Someone else's seat while betting
+    onClearBetBehind?: () => void;
+    joinAs?: string; // Already seated - an empty seat is taken as another spot under this name
+    autoplay?: AutoplayProfile; // The server is deciding for this seat's player
     onJoin: (name: string) => void;
 }
 
+const BET_BEHIND_AMOUNTS = [10, 50, 100];
+
+function betsBehindTotal(seat: SeatType): number {
+    return seat.betsBehind.reduce((total, backer) => total + backer.stakes.reduce((a, b) => a + b, 0), 0);
+}
+
+// Where a clicked chip is bet: the main bet or one of the side bet spots
+export type BetSpot = "main" | SideBetKind;
+
 function SeatComponent({
     seat,
     seatIndex,
@@ -28,6 +48,16 @@ function SeatComponent({
     activeHandIndex,
     payout,
     showPayout,
+    sideBetSpots,
+    sideBetPayouts,
+    selectedBetSpot,
+    onSelectBetSpot,
+    myBetBehind = 0,
+    betBehindWinnings,
+    onBetBehind,
+    onClearBetBehind,
+    joinAs,
+    autoplay,
     onJoin,
 }: SeatProps) {
     const [showJoinInput, setShowJoinInput] = useState(false);
@@ -80,7 +110,13 @@ function SeatComponent({
                 <motion.div
                     whileHover={{ scale: 1.08, y: -3 }}
                     whileTap={{ scale: 0.95 }}
-                    onClick={() => !showJoinInput && setShowJoinInput(true)}
+                    onClick={() => {
+                        if (joinAs) {
+                            onJoin(joinAs);
+                        } else if (!showJoinInput) {
+                            setShowJoinInput(true);
+                        }
+                    }}
                     className="relative cursor-pointer group"
                 >
                     {/* Seat base */}
@@ -100,7 +136,7 @@ function SeatComponent({
                                     className="flex flex-col items-center gap-1"
                                 >
                                     <span className="text-white/40 text-xl">+</span>
-                                    <span className="text-white/40 text-[10px]">Join</span>
+                                    <span className="text-white/40 text-[10px]">{joinAs ? "Add spot" : "Join"}</span>
                                 </motion.div>
                             ) : (
                                 <motion.div
@@ -280,6 +316,89 @@ function SeatComponent({
                 </motion.div>
             )}
 
+            {/* Side bet spots - tap one of your own to bet chips on it, tap again for the main bet */}
+            {sideBetSpots && (onSelectBetSpot || SIDE_BET_KINDS.some((kind) => seat.sideBets[kind] > 0)) && (
+                <div className="flex gap-1.5">
+                    {SIDE_BET_KINDS.map((kind) => {
+                        const stake = seat.sideBets[kind];
+                        const outcome = sideBetPayouts?.find((o) => o.kind === kind);
+                        const selected = selectedBetSpot === kind;
+                        if (!onSelectBetSpot && stake === 0) return null;
+                        return (
+                            <div key={kind} className="relative flex flex-col items-center">
+                                <button
+                                    onClick={() => onSelectBetSpot?.(selected ? "main" : kind)}
+                                    disabled={!onSelectBetSpot}
+                                    aria-label={`${SIDE_BETS[kind].label} side bet${stake > 0 ? `: $${stake}` : ""}`}
+                                    title={SIDE_BETS[kind].label}
+                                    className={`w-9 h-9 rounded-full border-2 flex flex-col items-center justify-center leading-none transition-all
+                                        ${selected
+                                            ? "border-amber-400 bg-amber-400/20 shadow-lg shadow-amber-400/30"
+                                            : "border-dashed border-white/25 bg-black/30"}
+                                        ${outcome && !outcome.result ? "opacity-40" : ""}
+                                        ${onSelectBetSpot ? "cursor-pointer hover:border-amber-400/60" : ""}`}
+                                >
+                                    <span className="text-[8px] font-bold text-white/70">{SIDE_BETS[kind].short}</span>
+                                    {stake > 0 && <span className="text-[9px] font-bold text-amber-400">${stake}</span>}
+                                </button>
+                                <AnimatePresence>
+                                    {outcome?.result && (
+                                        <motion.span
+                                            initial={{ opacity: 0, y: 4 }}
+                                            animate={{ opacity: 1, y: 0 }}
+                                            exit={{ opacity: 0 }}
+                                            className="absolute top-full mt-0.5 whitespace-nowrap px-1.5 py-0.5 rounded bg-emerald-500 text-white text-[9px] font-bold shadow-lg"
+                                        >
+                                            {SIDE_BET_RESULT_LABELS[outcome.result]} +${outcome.amount}
+                                        </motion.span>
+                                    )}
+                                </AnimatePresence>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+
+            {/* Bets behind - other players backing this hand */}
+            {(seat.betsBehind.length > 0 || onBetBehind) && (
+                <div className="flex flex-col items-center gap-1">
+                    {seat.betsBehind.length > 0 && (
+                        <span
+                            title={seat.betsBehind.map((b) => b.displayName).join(", ")}
+                            className="px-2 py-0.5 rounded-full bg-black/40 border border-white/10 text-[9px] font-medium text-white/60"
+                        >
+                            🤝 {seat.betsBehind.length} behind · ${betsBehindTotal(seat).toLocaleString()}
+                            {myBetBehind > 0 && <span className="text-amber-400"> (you ${myBetBehind})</span>}
+                            {!!betBehindWinnings && <span className="text-emerald-400 font-bold"> +${betBehindWinnings}</span>}
+                        </span>
+                    )}
+                    {onBetBehind && (
+                        <div className="flex items-center gap-1">
+                            <span className="text-[9px] text-white/40">Back</span>
+                            {BET_BEHIND_AMOUNTS.map((amount) => (
+                                <button
+                                    key={amount}
+                                    onClick={() => onBetBehind(amount)}
+                                    aria-label={`Bet $${amount} behind ${seat.displayName}`}
+                                    className="px-1.5 py-0.5 rounded bg-amber-400/20 hover:bg-amber-400/40 text-amber-300 text-[9px] font-bold transition-all"
+                                >
+                                    ${amount}
+                                </button>
+                            ))}
+                            {myBetBehind > 0 && onClearBetBehind && (
+                                <button
+                                    onClick={onClearBetBehind}
+                                    aria-label={`Clear your bet behind ${seat.displayName}`}
+                                    className="px-1.5 py-0.5 rounded bg-white/10 hover:bg-red-500/30 text-white/60 text-[9px] font-bold transition-all"
+                                >
+                                    ✕
+                                </button>
+                            )}
+                        </div>
+                    )}
+                </div>
+            )}
+
             {/* Player info card */}
             <motion.div
                 animate={isActivePlayer ? {
@@ -295,6 +414,7 @@ function SeatComponent({
                         ? "bg-gradient-to-br from-emerald-600 to-emerald-800 shadow-lg shadow-emerald-500/30"
                         : "bg-gradient-to-br from-gray-700 to-gray-900 shadow-lg shadow-black/30"}
                     ${isActivePlayer ? "ring-2 ring-amber-400" : ""}
+                    ${seat.disconnectedUntil !== null ? "opacity-60" : ""}
                 `}
             >
                 {/* Avatar circle */}
@@ -315,6 +435,18 @@ function SeatComponent({
                     <span className="text-[11px] text-amber-400 font-bold">
                         ${seat.chips.toLocaleString()}
                     </span>
+                    {/* Seat held while the player reconnects */}
+                    {seat.disconnectedUntil !== null && (
+                        <span className="text-[9px] text-white/60 animate-pulse">Reconnecting...</span>
+                    )}
+                    {autoplay && (
+                        <span
+                            title={`Autoplay: ${AUTOPLAY_PROFILES[autoplay].description}`}
+                            className="text-[9px] font-bold text-sky-300"
+                        >
+                            🤖 AUTO
+                        </span>
+                    )}
                 </div>
 
                 {/* Active indicator */}
@@ -340,10 +472,23 @@ export const Seat = memo(SeatComponent, (prevProps, nextProps) => {
         prevProps.showPayout === nextProps.showPayout &&
         prevProps.payout?.result === nextProps.payout?.result &&
         prevProps.payout?.amount === nextProps.payout?.amount &&
+        prevProps.joinAs === nextProps.joinAs &&
+        prevProps.autoplay === nextProps.autoplay &&
         prevProps.seat.playerId === nextProps.seat.playerId &&
         prevProps.seat.displayName === nextProps.seat.displayName &&
+        prevProps.seat.disconnectedUntil === nextProps.seat.disconnectedUntil &&
         prevProps.seat.chips === nextProps.seat.chips &&
         prevProps.seat.bet === nextProps.seat.bet &&
+        prevProps.sideBetSpots === nextProps.sideBetSpots &&
+        prevProps.sideBetPayouts === nextProps.sideBetPayouts &&
+        prevProps.selectedBetSpot === nextProps.selectedBetSpot &&
+        !!prevProps.onSelectBetSpot === !!nextProps.onSelectBetSpot &&
+        SIDE_BET_KINDS.every((kind) => prevProps.seat.sideBets[kind] === nextProps.seat.sideBets[kind]) &&
+        prevProps.seat.betsBehind.length === nextProps.seat.betsBehind.length &&
+        betsBehindTotal(prevProps.seat) === betsBehindTotal(nextProps.seat) &&
+        prevProps.myBetBehind === nextProps.myBetBehind &&
+        prevProps.betBehindWinnings === nextProps.betBehindWinnings &&
+        !!prevProps.onBetBehind === !!nextProps.onBetBehind &&
         prevProps.seat.hands.length === nextProps.seat.hands.length &&
         prevProps.seat.hands.every((hand, i) =>
             hand.cards.length === nextProps.seat.hands[i]?.cards.length &&
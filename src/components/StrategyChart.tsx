@@ -0,0 +1,126 @@
+"use client";
+
+import { useState } from "react";
+import { ChartCell, ChartPosition, ChartRow, ChartSection, DEALER_UPCARDS, StrategyChart as Chart } from "@/lib/basicStrategy";
+import { describeIndexPlay, findIndexPlays, isIndexActive } from "@/lib/indexPlays";
+
+interface StrategyChartProps {
+    chart: Chart;
+    highlight: ChartPosition | null; // The player's current hand, if it's their turn
+    trueCount: number | null; // Index plays are marked when set
+}
+
+const cellStyles: Record<ChartCell, string> = {
+    H: "bg-green-500/80 text-white",
+    S: "bg-red-500/80 text-white",
+    D: "bg-yellow-500/90 text-black",
+    Ds: "bg-yellow-500/90 text-black",
+    P: "bg-blue-500/80 text-white",
+    Rh: "bg-white/80 text-black",
+    Rs: "bg-white/80 text-black",
+    Rp: "bg-white/80 text-black",
+};
+
+const cellDescriptions: Record<ChartCell, string> = {
+    H: "Hit",
+    S: "Stand",
+    D: "Double, otherwise hit",
+    Ds: "Double, otherwise stand",
+    P: "Split",
+    Rh: "Surrender, otherwise hit",
+    Rs: "Surrender, otherwise stand",
+    Rp: "Surrender, otherwise split",
+};
+
+const sectionTitles: Record<ChartSection, string> = {
+    hard: "Hard totals",
+    soft: "Soft totals",
+    pairs: "Pairs",
+};
+
+function samePosition(a: ChartPosition | null, b: ChartPosition | null): boolean {
+    return !!a && !!b && a.section === b.section && a.rowKey === b.rowKey && a.column === b.column;
+}
+
+export function StrategyChart({ chart, highlight, trueCount }: StrategyChartProps) {
+    // Tapping a cell spells it out - otherwise the player's own cell is described
+    const [selected, setSelected] = useState<ChartPosition | null>(null);
+    const described = selected ?? highlight;
+    const describedRow = described ? chart[described.section].find((row) => row.key === described.rowKey) : undefined;
+    const describedCell = described ? describedRow?.cells[described.column] : undefined;
+    const describedIndexPlays = described && trueCount !== null ? findIndexPlays(described) : [];
+
+    const renderSection = (section: ChartSection, rows: ChartRow[]) => (
+        <table className="w-full border-separate border-spacing-0.5 text-[11px] sm:text-xs">
+            <thead>
+                <tr>
+                    <th className="text-left text-white/50 font-semibold pr-1">{sectionTitles[section]}</th>
+                    {DEALER_UPCARDS.map((upcard) => (
+                        <th key={upcard} className="text-white/50 font-semibold w-[8%]">{upcard}</th>
+                    ))}
+                </tr>
+            </thead>
+            <tbody>
+                {rows.map((row) => (
+                    <tr key={row.key}>
+                        <th className="text-left text-white/80 font-mono font-semibold pr-1 whitespace-nowrap">{row.label}</th>
+                        {row.cells.map((cell, column) => {
+                            const position = { section, rowKey: row.key, column };
+                            const isCurrent = samePosition(position, highlight);
+                            const isSelected = samePosition(position, selected);
+                            const indexPlays = trueCount !== null ? findIndexPlays(position) : [];
+                            const isDeviating = trueCount !== null && indexPlays.some((p) => isIndexActive(p, trueCount));
+                            return (
+                                <td key={column} className="p-0">
+                                    <button
+                                        onClick={() => setSelected(isSelected ? null : position)}
+                                        aria-label={`${row.label} against ${DEALER_UPCARDS[column]}: ${cellDescriptions[cell]}`}
+                                        className={`relative w-full py-1 rounded font-bold transition-all ${cellStyles[cell]}
+                                            ${isCurrent ? "ring-2 ring-amber-300 scale-110 relative z-10 animate-pulse" : ""}
+                                            ${isSelected ? "ring-2 ring-white" : "hover:brightness-125"}`}
+                                    >
+                                        {cell}
+                                        {indexPlays.length > 0 && (
+                                            <span
+                                                className={`absolute top-0.5 right-0.5 w-1.5 h-1.5 rounded-full bg-amber-300
+                                                    ${isDeviating ? "ring-1 ring-black/60" : "opacity-60"}`}
+                                            />
+                                        )}
+                                    </button>
+                                </td>
+                            );
+                        })}
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    );
+
+    return (
+        <div className="flex flex-col gap-4">
+            <div className="text-xs text-center min-h-[1.25rem]">
+                {described && describedRow && describedCell ? (
+                    <span className="text-white/80">
+                        {samePosition(described, highlight) && <span className="text-amber-300 font-semibold">Your hand · </span>}
+                        {sectionTitles[described.section].replace(/s$/, "")} {describedRow.label} against {DEALER_UPCARDS[described.column]}:{" "}
+                        <span className="font-semibold text-white">{cellDescriptions[describedCell]}</span>
+                        {trueCount !== null && describedIndexPlays.map((indexPlay) => (
+                            <span
+                                key={indexPlay.set}
+                                className={`block ${isIndexActive(indexPlay, trueCount) ? "text-amber-300 font-semibold" : "text-white/50"}`}
+                            >
+                                {indexPlay.set}: {describeIndexPlay(indexPlay)}
+                                {isIndexActive(indexPlay, trueCount) ? " - in play at this count" : ""}
+                            </span>
+                        ))}
+                    </span>
+                ) : (
+                    <span className="text-white/40">Columns are the dealer&apos;s upcard. Tap a cell for details.</span>
+                )}
+            </div>
+            {renderSection("hard", chart.hard)}
+            {renderSection("soft", chart.soft)}
+            {renderSection("pairs", chart.pairs)}
+        </div>
+    );
+}
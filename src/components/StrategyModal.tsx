@@ -2,13 +2,31 @@
 
 import { LazyMotion, domAnimation, m } from "framer-motion";
 import { useEffect } from "react";
+import { TableRules } from "@/lib/gameTypes";
+import { ChartPosition, getStrategyChart } from "@/lib/basicStrategy";
+import { StrategyChart } from "./StrategyChart";
 
 interface StrategyModalProps {
     isOpen: boolean;
     onClose: () => void;
+    rules: TableRules;
+    highlight: ChartPosition | null;
+    indexPlays: boolean;
+    onSetIndexPlays: (enabled: boolean) => void;
+    trueCount: number | null; // Null while the counting trainer hides the count
 }
 
-export function StrategyModal({ isOpen, onClose }: StrategyModalProps) {
+// The rules that change the chart
+function describeChartRules(rules: TableRules): string {
+    return [
+        `${rules.numDecks} ${rules.numDecks === 1 ? "Deck" : "Decks"}`,
+        rules.dealerHitsSoft17 ? "Dealer Hits Soft 17" : "Dealer Stands on Soft 17",
+        rules.doubleAfterSplit ? "Double After Split" : "No Double After Split",
+        rules.surrender === "none" ? "No Surrender" : "Surrender",
+    ].join(", ");
+}
+
+export function StrategyModal({ isOpen, onClose, rules, highlight, indexPlays, onSetIndexPlays, trueCount }: StrategyModalProps) {
     // ESC key to close
     useEffect(() => {
         const handleKeyDown = (e: KeyboardEvent) => {
@@ -25,6 +43,9 @@ export function StrategyModal({ isOpen, onClose }: StrategyModalProps) {
 
     if (!isOpen) return null;
 
+    // A table graded with index plays grades everyone with them
+    const showIndexPlays = rules.indexPlays || indexPlays;
+
     return (
         <LazyMotion features={domAnimation}>
             <m.div
@@ -48,7 +69,7 @@ export function StrategyModal({ isOpen, onClose }: StrategyModalProps) {
                             <span className="text-2xl">📊</span>
                             <div>
                                 <h2 className="text-white font-bold text-lg">Basic Strategy Chart</h2>
-                                <p className="text-white/50 text-xs">Double-Deck, Dealer Stands on Soft 17</p>
+                                <p className="text-white/50 text-xs">{describeChartRules(rules)}</p>
                             </div>
                         </div>
                         <button
@@ -61,15 +82,41 @@ export function StrategyModal({ isOpen, onClose }: StrategyModalProps) {
                         </button>
                     </div>
 
-                    {/* Chart Image */}
+                    {/* Chart for this table's rules */}
                     <div className="p-4 overflow-auto max-h-[70vh]" style={{ touchAction: "pinch-zoom" }}>
-                        <img
-                            src="/basic-strategy-chart.png"
-                            alt="Basic Strategy Chart"
-                            className="w-full h-auto rounded-lg"
+                        <StrategyChart
+                            chart={getStrategyChart(rules)}
+                            highlight={highlight}
+                            trueCount={showIndexPlays ? trueCount : null}
                         />
                     </div>
 
+                    {/* Index plays opt-in */}
+                    <div className="px-6 py-2 border-t border-white/10 flex items-center justify-between gap-3 text-xs">
+                        <label className={`flex items-center gap-2 text-white/70 ${rules.indexPlays ? "" : "cursor-pointer"}`}>
+                            <input
+                                type="checkbox"
+                                checked={showIndexPlays}
+                                disabled={rules.indexPlays}
+                                onChange={(e) => onSetIndexPlays(e.target.checked)}
+                                className="accent-amber-400"
+                            />
+                            {rules.indexPlays ? "This table grades with index plays" : "Grade my plays with index plays"}
+                        </label>
+                        {showIndexPlays && (
+                            trueCount === null ? (
+                                <span className="text-white/40">Count hidden while training</span>
+                            ) : (
+                                <span className="text-white/50">
+                                    True count{" "}
+                                    <span className="font-mono font-semibold text-white">
+                                        {trueCount > 0 ? "+" : ""}{trueCount.toFixed(1)}
+                                    </span>
+                                </span>
+                            )
+                        )}
+                    </div>
+
                     {/* Legend */}
                     <div className="px-6 py-3 border-t border-white/10 bg-black/30">
                         <div className="flex flex-wrap gap-3 text-xs text-white/70">
@@ -77,6 +124,10 @@ export function StrategyModal({ isOpen, onClose }: StrategyModalProps) {
                             <span><span className="inline-block w-3 h-3 bg-red-500 rounded mr-1"></span> Stand</span>
                             <span><span className="inline-block w-3 h-3 bg-yellow-500 rounded mr-1"></span> Double</span>
                             <span><span className="inline-block w-3 h-3 bg-blue-500 rounded mr-1"></span> Split</span>
+                            <span><span className="inline-block w-3 h-3 bg-white rounded mr-1"></span> Surrender</span>
+                            {showIndexPlays && (
+                                <span><span className="inline-block w-1.5 h-1.5 bg-amber-300 rounded-full mr-1 align-middle"></span> Index play</span>
+                            )}
                             <span className="text-white/40">Press ESC to close</span>
                         </div>
                     </div>
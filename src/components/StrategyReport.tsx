@@ -0,0 +1,209 @@
+"use client";
+
+import { LazyMotion, domAnimation, m } from "framer-motion";
+import { useEffect, useMemo } from "react";
+import { StrategyDecision, TableRules } from "@/lib/gameTypes";
+import { ChartPosition, ChartRow, ChartSection, DEALER_UPCARDS, getStrategyChart } from "@/lib/basicStrategy";
+import { CellStats, buildStrategyReport, positionKey } from "@/lib/strategyReport";
+
+interface StrategyReportProps {
+    isOpen: boolean;
+    onClose: () => void;
+    rules: TableRules;
+    decisions: StrategyDecision[] | null; // Null until the server answers
+}
+
+const TREND_DAYS = 14;
+
+const sectionTitles: Record<ChartSection, string> = {
+    hard: "Hard",
+    soft: "Soft",
+    pairs: "Pairs",
+};
+
+// Green when every play in the cell was right, through yellow to red as the error rate climbs
+function heatStyle(stats: CellStats | undefined): string {
+    if (!stats) return "bg-white/5 text-white/20";
+    const errorRate = stats.mistakes / stats.total;
+    if (errorRate === 0) return "bg-emerald-500/70 text-white";
+    if (errorRate <= 0.2) return "bg-yellow-500/80 text-black";
+    if (errorRate <= 0.5) return "bg-orange-500/80 text-white";
+    return "bg-red-600/90 text-white";
+}
+
+export function StrategyReport({ isOpen, onClose, rules, decisions }: StrategyReportProps) {
+    // ESC key to close
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === "Escape") {
+                onClose();
+            }
+        };
+
+        if (isOpen) {
+            window.addEventListener("keydown", handleKeyDown);
+            return () => window.removeEventListener("keydown", handleKeyDown);
+        }
+    }, [isOpen, onClose]);
+
+    const report = useMemo(() => (decisions ? buildStrategyReport(decisions) : null), [decisions]);
+
+    if (!isOpen) return null;
+
+    const chart = getStrategyChart(rules);
+    const rowLabel = (position: ChartPosition) =>
+        chart[position.section].find((row) => row.key === position.rowKey)?.label ?? String(position.rowKey);
+
+    const renderHeatmap = (section: ChartSection, rows: ChartRow[]) => (
+        <table className="w-full border-separate border-spacing-0.5 text-[10px] sm:text-xs">
+            <thead>
+                <tr>
+                    <th className="text-left text-white/50 font-semibold pr-1">{sectionTitles[section]}</th>
+                    {DEALER_UPCARDS.map((upcard) => (
+                        <th key={upcard} className="text-white/50 font-semibold w-[8%]">{upcard}</th>
+                    ))}
+                </tr>
+            </thead>
+            <tbody>
+                {rows.map((row) => (
+                    <tr key={row.key}>
+                        <th className="text-left text-white/80 font-mono font-semibold pr-1 whitespace-nowrap">{row.label}</th>
+                        {DEALER_UPCARDS.map((upcard, column) => {
+                            const stats = report?.cells[positionKey({ section, rowKey: row.key, column })];
+                            return (
+                                <td
+                                    key={upcard}
+                                    className={`py-1 rounded text-center font-bold ${heatStyle(stats)}`}
+                                    title={stats
+                                        ? `${row.label} against ${upcard}: ${stats.mistakes} of ${stats.total} misplayed`
+                                        : `${row.label} against ${upcard}: not played yet`}
+                                >
+                                    {stats ? (stats.mistakes > 0 ? stats.mistakes : "✓") : ""}
+                                </td>
+                            );
+                        })}
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    );
+
+    const trend = report?.trend.slice(-TREND_DAYS) ?? [];
+
+    return (
+        <LazyMotion features={domAnimation}>
+            <m.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+                onClick={onClose}
+            >
+                <m.div
+                    initial={{ scale: 0.9, opacity: 0 }}
+                    animate={{ scale: 1, opacity: 1 }}
+                    exit={{ scale: 0.9, opacity: 0 }}
+                    onClick={(e) => e.stopPropagation()}
+                    className="relative max-w-2xl w-full max-h-[90vh] overflow-y-auto bg-gradient-to-b from-gray-900 to-gray-950
+                               rounded-2xl border border-white/10 shadow-2xl"
+                >
+                    {/* Header */}
+                    <div className="flex items-center justify-between px-6 py-4 border-b border-white/10">
+                        <div className="flex items-center gap-3">
+                            <span className="text-2xl">🎯</span>
+                            <div>
+                                <h2 className="text-white font-bold text-lg">My Strategy</h2>
+                                <p className="text-white/50 text-xs">
+                                    {report && report.total > 0
+                                        ? `${report.total} graded decisions · ${Math.round(((report.total - report.mistakes) / report.total) * 100)}% by the book`
+                                        : "Where your play strays from the chart"}
+                                </p>
+                            </div>
+                        </div>
+                        <button
+                            onClick={onClose}
+                            className="p-2 text-white/50 hover:text-white hover:bg-white/10 rounded-lg transition-all"
+                        >
+                            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                            </svg>
+                        </button>
+                    </div>
+
+                    {!report ? (
+                        <div className="p-8 text-center text-white/50 text-sm">Loading…</div>
+                    ) : report.total === 0 ? (
+                        <div className="p-8 text-center text-white/50 text-sm">
+                            No graded decisions yet. Play a few hands and check back.
+                        </div>
+                    ) : (
+                        <div className="p-4 flex flex-col gap-5">
+                            {/* Biggest leaks */}
+                            <section>
+                                <h3 className="text-white/70 text-xs font-semibold uppercase tracking-wide mb-2">Biggest leaks</h3>
+                                {report.leaks.length === 0 ? (
+                                    <p className="text-emerald-400 text-sm">No mistakes on record - every play matched the chart.</p>
+                                ) : (
+                                    <ul className="flex flex-col gap-1.5">
+                                        {report.leaks.map((leak) => (
+                                            <li
+                                                key={positionKey(leak.position)}
+                                                className="flex items-center justify-between gap-3 px-3 py-2 rounded-lg bg-white/5 text-sm"
+                                            >
+                                                <span className="text-white">
+                                                    <span className="font-mono font-semibold">
+                                                        {sectionTitles[leak.position.section]} {rowLabel(leak.position)} v {DEALER_UPCARDS[leak.position.column]}
+                                                    </span>
+                                                    <span className="text-white/50">
+                                                        {" "}· usually {leak.usualAction}, should {leak.correct}
+                                                    </span>
+                                                </span>
+                                                <span className="text-right shrink-0">
+                                                    <span className="text-red-400 font-semibold">{leak.mistakes}/{leak.total}</span>
+                                                    <span className="text-white/40 text-xs block">${leak.chipsAtRisk.toLocaleString()} bet</span>
+                                                </span>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </section>
+
+                            {/* Adherence by day */}
+                            <section>
+                                <h3 className="text-white/70 text-xs font-semibold uppercase tracking-wide mb-2">By day</h3>
+                                <div className="flex items-end gap-1 h-20">
+                                    {trend.map((day) => {
+                                        const percent = Math.round((day.correct / day.total) * 100);
+                                        return (
+                                            <div
+                                                key={day.day}
+                                                className="flex-1 flex flex-col items-center justify-end h-full"
+                                                title={`${day.day}: ${percent}% of ${day.total} decisions`}
+                                            >
+                                                <div
+                                                    className={`w-full rounded-t ${percent >= 90 ? "bg-emerald-500" : percent >= 70 ? "bg-yellow-500" : "bg-red-500"}`}
+                                                    style={{ height: `${Math.max(percent, 4)}%` }}
+                                                />
+                                                <span className="text-[9px] text-white/40 mt-0.5">{day.day.slice(8)}</span>
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            </section>
+
+                            {/* Heatmap */}
+                            <section className="flex flex-col gap-3">
+                                <h3 className="text-white/70 text-xs font-semibold uppercase tracking-wide">
+                                    Mistakes by hand and dealer upcard
+                                </h3>
+                                {renderHeatmap("hard", chart.hard)}
+                                {renderHeatmap("soft", chart.soft)}
+                                {renderHeatmap("pairs", chart.pairs)}
+                            </section>
+                        </div>
+                    )}
+                </m.div>
+            </m.div>
+        </LazyMotion>
+    );
+}
@@ -1,8 +1,11 @@
 "use client";
 
-import { useEffect, useState, useRef } from "react";
-import { GameState, canSplit, canDouble, ChatMessage } from "@/lib/gameTypes";
-import { Seat } from "./Seat";
+import { ReactNode, useCallback, useEffect, useState, useRef } from "react";
+import { PublicGameState, canSplit, canDouble, canHit, canSurrender, describeTableRules, checkBetLimits, isShortBet, formatBetLimits, isFaceUp, ChatMessage, Card, RoundRecord, StrategyDecision, CountingSystem, CountQuizRecord, SideBetKind, SideBetOutcome, QueuedAction, AutoplaySettings, Seat as SeatType } from "@/lib/gameTypes";
+import { getChartPosition } from "@/lib/basicStrategy";
+import { getTrueCount } from "@/lib/indexPlays";
+import { SIDE_BETS, SIDE_BET_KINDS, sideBetTotal } from "@/lib/sideBets";
+import { BetSpot, Seat } from "./Seat";
 import { Dealer, Shoe } from "./Dealer";
 import { Timer } from "./Timer";
 import { Chip, ChipValue } from "./Chip";
@@ -12,15 +15,28 @@ import { haptic } from "@/lib/haptics";
 import { Leaderboard } from "./Leaderboard";
 import { Chat } from "./Chat";
 import { StrategyModal } from "./StrategyModal";
+import { FairnessPanel } from "./FairnessPanel";
+import { HandHistory } from "./HandHistory";
+import { StrategyReport } from "./StrategyReport";
 import { TrueCountDisplay } from "./TrueCountDisplay";
+import { CountQuiz } from "./CountQuiz";
 import { ActionToast } from "./ActionToast";
 import { QuickEmoteSelector, FloatingEmotes } from "./QuickEmotes";
+import { ActionQueue, InsuranceQueue } from "./ActionQueue";
+import { AutoplayPanel } from "./AutoplayPanel";
 
 // Memoized animation variants for performance
 const pulseAnimation = { opacity: [0.4, 0.8, 0.4] };
 
+// Chips sent with a request the table hasn't answered yet
+interface UnconfirmedChips {
+    seatIndex: number;
+    spot: BetSpot;
+    amount: number;
+}
+
 interface TableProps {
-    gameState: GameState;
+    gameState: PublicGameState;
     playerId: string | null;
     lastPayout: {
         seatIndex: number;
@@ -31,35 +47,68 @@ interface TableProps {
         amount: number;
         result: 'win' | 'lose' | 'push' | 'blackjack';
     }>;
+    sideBetPayouts: Record<number, SideBetOutcome[]>;
+    betBehindWinnings: Record<number, number>;
     lastInsurancePayout: {
         seatIndex: number;
         amount: number;
     } | null;
+    leaderboardNames: Record<string, string>;
     leaderboard: Record<string, number> | null;
     leaderboardAdherence: Record<string, number> | null;
+    leaderboardInsuranceAdherence: Record<string, number> | null;
     leaderboardAtmUsage: Record<string, number> | null;
     leaderboardBlackjacks: Record<string, number> | null;
     chatMessages: ChatMessage[];
-    lastAction: { playerId: string; action: string; seatIndex: number } | null;
+    lastAction: { playerId: string; action: string; seatIndex: number; isOptimal?: boolean; indexPlay?: string } | null;
     onJoinSeat: (seatIndex: number, name: string) => void;
-    onPlaceBet: (amount: number) => void;
-    onClearBet: () => void;
-    onHit: () => void;
-    onStand: () => void;
-    onDouble: () => void;
-    onSplit: () => void;
-    onSurrender: () => void;
-    onInsurance: (accept: boolean) => void;
-    onLeaveSeat: () => void;
+    // Actions settle once the table acks them, and reject with its reason if it refuses
+    onPlaceBet: (amount: number, seatIndex: number) => Promise<void>;
+    onClearBet: (seatIndex: number) => void;
+    onHit: () => Promise<void>;
+    onStand: () => Promise<void>;
+    onDouble: () => Promise<void>;
+    onSplit: () => Promise<void>;
+    onSurrender: () => Promise<void>;
+    onInsurance: (accept: boolean, seatIndex: number) => Promise<void>;
+    onPlayOn: (seatIndex: number) => Promise<void>;
+    onQueueAction: (action: QueuedAction | null, seatIndex: number) => Promise<void>;
+    onQueueInsurance: (accept: boolean | null, seatIndex: number) => Promise<void>;
+    onSetAutoplay: (settings: AutoplaySettings | null) => Promise<void>;
+    onPlaceSideBet: (kind: SideBetKind, amount: number, seatIndex: number) => Promise<void>;
+    onBetBehind: (seatIndex: number, amount: number) => void;
+    onClearBetBehind: (seatIndex: number) => void;
+    onLeaveSeat: (seatIndex?: number) => void;  // Every spot unless one is named
     onRequestLeaderboard: () => void;
     onSendChat: (message: string) => void;
     onSendReaction: (messageId: string, emoji: string) => void;
     onSendQuickEmote: (emoji: string) => void;
     onUseAtm: () => void;
+    onBackToLobby: () => void;
+    clientSeed: string;
+    onSetClientSeed: (seed: string) => void;
+    indexPlays: boolean; // Graded against index plays by the player's own choice
+    onSetIndexPlays: (enabled: boolean) => void;
+    countTrainer: CountingSystem | null; // Counting system being trained in - hides the count
+    onSetCountTrainer: (system: CountingSystem | null) => void;
+    countQuiz: { system: CountingSystem; askTrueCount: boolean } | null;
+    countResult: CountQuizRecord | null;
+    countQuizzes: CountQuizRecord[];
+    onAnswerCountQuiz: (runningCount: number, trueCount?: number) => void;
+    onDismissCountQuiz: () => void;
+    getObservedCards: (shoeNumber: number) => Record<number, Card>;
+    handHistory: RoundRecord[];
+    handHistoryHasMore: boolean;
+    onRequestHandHistory: (before?: number) => void;
+    strategyDecisions: StrategyDecision[] | null;
+    onRequestStrategyReport: () => void;
+    onReplayRound: (round: RoundRecord) => void;
+    replay?: ReactNode; // Replay controls - when set the table is a read-only playback of a recorded round
 }
 
 const BETTING_TIME = 5000;  // 5 seconds - restarts on bet changes
 const TURN_TIME = 10000;
+const MAX_SPOTS = 3;  // Spots one player may hold - MAX_SPOTS_PER_PLAYER on the server
 
 // Seat positions in semicircle arc (from left to right)
 // Each seat has angle, x offset from center, and y offset from bottom
@@ -77,9 +126,13 @@ export function Table({
     playerId,
     lastPayout,
     seatPayouts,
+    sideBetPayouts,
+    betBehindWinnings,
     lastInsurancePayout,
+    leaderboardNames,
     leaderboard,
     leaderboardAdherence,
+    leaderboardInsuranceAdherence,
     leaderboardAtmUsage,
     leaderboardBlackjacks,
     chatMessages,
@@ -93,48 +146,151 @@ export function Table({
     onSplit,
     onSurrender,
     onInsurance,
+    onPlayOn,
+    onQueueAction,
+    onQueueInsurance,
+    onSetAutoplay,
+    onPlaceSideBet,
+    onBetBehind,
+    onClearBetBehind,
     onLeaveSeat,
     onRequestLeaderboard,
     onSendChat,
     onSendReaction,
     onSendQuickEmote,
     onUseAtm,
+    onBackToLobby,
+    clientSeed,
+    onSetClientSeed,
+    indexPlays,
+    onSetIndexPlays,
+    countTrainer,
+    onSetCountTrainer,
+    countQuiz,
+    countResult,
+    countQuizzes,
+    onAnswerCountQuiz,
+    onDismissCountQuiz,
+    getObservedCards,
+    handHistory,
+    handHistoryHasMore,
+    onRequestHandHistory,
+    strategyDecisions,
+    onRequestStrategyReport,
+    onReplayRound,
+    replay,
 }: TableProps) {
     // Mute toggle state
     const [isMuted, setIsMuted] = useState(false);
     const [showKeyboardHints, setShowKeyboardHints] = useState(false);
     const [showLeaderboard, setShowLeaderboard] = useState(false);
     const [showStrategyModal, setShowStrategyModal] = useState(false);
+    const [showFairnessPanel, setShowFairnessPanel] = useState(false);
+    const [showHandHistory, setShowHandHistory] = useState(false);
+    const [showStrategyReport, setShowStrategyReport] = useState(false);
     const [showCountModal, setShowCountModal] = useState(false);
-    const prevIsMyTurnRef = useRef(false);
-
-    const currentPlayerSeatIndex = gameState.seats.findIndex((s) => s.playerId === playerId);
+    const [showAutoplay, setShowAutoplay] = useState(false);
+    const [betSpot, setBetSpot] = useState<BetSpot>("main");
+    const [selectedSpot, setSelectedSpot] = useState<number | null>(null);
+    const [unconfirmed, setUnconfirmed] = useState<UnconfirmedChips[]>([]);
+    // The play action waiting on the table, and the chips it costs (a double, split or insurance)
+    const [pendingAction, setPendingAction] = useState<{ cost: number } | null>(null);
+    const prevMyTurnSpotRef = useRef(-1);
+
+    // A player may hold several spots. The action bar works on one of them: the active spot
+    // on your turn, the first still to decide on insurance, otherwise the one picked for betting.
+    const mySpots = gameState.seats.flatMap((s, i) => (playerId && s.playerId === playerId ? [i] : []));
+    const isMyTurn = !replay && gameState.phase === "player_turn" && mySpots.includes(gameState.activePlayerIndex);
+    const undecidedSpot = mySpots.find((i) => gameState.seats[i].bet > 0 && gameState.seats[i].insuranceBet === 0);
+    const currentPlayerSeatIndex = isMyTurn
+        ? gameState.activePlayerIndex
+        : gameState.phase === "insurance" && undecidedSpot !== undefined
+            ? undecidedSpot
+            : selectedSpot !== null && mySpots.includes(selectedSpot) ? selectedSpot : mySpots[0] ?? -1;
     const isInSeat = currentPlayerSeatIndex !== -1;
     const currentSeat = isInSeat ? gameState.seats[currentPlayerSeatIndex] : null;
 
     const isBetting = gameState.phase === "betting";
-    const isMyTurn = gameState.phase === "player_turn" &&
-        gameState.activePlayerIndex === currentPlayerSeatIndex;
 
-    // Calculate displayed chips (subtract pending bet during betting phase)
+    // The first of your hands still waiting for its turn - a play can be queued for it
+    const queueSpot = replay ? undefined : mySpots.find((i) => {
+        const seat = gameState.seats[i];
+        return ["dealing", "insurance", "player_turn"].includes(gameState.phase) && !(isMyTurn && i === gameState.activePlayerIndex) &&
+            seat.status === "playing" && seat.hands[0]?.status === "playing";
+    });
+
+    // Calculate displayed chips (subtract pending bets on every spot, and bets behind, during betting phase)
+    const pendingOwn = mySpots.reduce((total, i) => total + gameState.seats[i].bet + sideBetTotal(gameState.seats[i]), 0);
+    const pendingBehind = gameState.seats.reduce((total, seat) =>
+        total + (seat.betsBehind.find((b) => b.playerId === playerId)?.stakes[0] ?? 0), 0);
+    // Chips on a request still waiting for its ack count as spent, and come back if it's refused
+    const unconfirmedTotal = unconfirmed.reduce((total, chips) => total + chips.amount, pendingAction?.cost ?? 0);
     const displayedChips = currentSeat
-        ? (isBetting ? currentSeat.chips - currentSeat.bet : currentSeat.chips)
+        ? (isBetting ? currentSeat.chips - pendingOwn - pendingBehind : currentSeat.chips) - unconfirmedTotal
         : 0;
 
+    // Shows the chips as down straight away, until the table answers either way
+    const stake = (request: Promise<void>, chips: UnconfirmedChips) => {
+        setUnconfirmed((list) => [...list, chips]);
+        const settle = () => setUnconfirmed((list) => list.filter((c) => c !== chips));
+        request.then(settle, settle);
+    };
+
+    // Locks the action buttons until the table has answered, so a double-tap can't send twice
+    const act = useCallback((request: Promise<void>, cost = 0) => {
+        setPendingAction({ cost });
+        const settle = () => setPendingAction(null);
+        request.then(settle, settle);
+    }, []);
+    const actionPending = pendingAction !== null;
+
+    // Anyone but the seat's owner can back a hand that has a bet down
+    const canBackSeat = (seat: SeatType) =>
+        isBetting && !replay && !!playerId && !!seat.playerId && seat.playerId !== playerId && seat.bet > 0;
+
     // Get active hand for action checks
+    const rules = gameState.rules;
+    // Chips go on a side bet spot only while the table offers them and a main bet is down
+    const chipSpot: BetSpot = rules.sideBets && currentSeat && currentSeat.bet > 0 ? betSpot : "main";
+    // A main bet chip only lights up if the bet it makes stays under the table maximum -
+    // the minimum is met by adding chips, and checked when betting closes
+    const currentBet = (currentSeat?.bet ?? 0) + unconfirmed
+        .filter((chips) => isBetting && chips.seatIndex === currentPlayerSeatIndex && chips.spot === "main")
+        .reduce((total, chips) => total + chips.amount, 0);
+    const fitsLimits = (amount: number) => chipSpot !== "main" || checkBetLimits(amount, currentBet + amount, rules) === null;
+    const allInAmount = Math.min(displayedChips, rules.maxBet - currentBet);
     const activeHand = currentSeat?.hands[gameState.activeHandIndex];
-    const canDoubleDown = activeHand && canDouble(activeHand) && displayedChips >= activeHand.bet;
-    const canSplitHand = activeHand && canSplit(activeHand) && displayedChips >= activeHand.bet && (currentSeat?.hands.length ?? 0) < 4;
-    const canSurrenderHand = activeHand && activeHand.cards.length === 2 && !activeHand.isSplit;
-
-    // Play "your turn" sound and haptic when it becomes the player's turn
+    const canHitHand = activeHand && canHit(activeHand, rules);
+    const canDoubleDown = activeHand && canDouble(activeHand, rules) && displayedChips >= activeHand.bet;
+    const canSplitHand = activeHand && canSplit(activeHand, currentSeat?.hands.length ?? 0, rules) && displayedChips >= activeHand.bet;
+    const canSurrenderHand = activeHand && canSurrender(activeHand, rules);
+
+    // The strategy chart cell for the hand being played, lit up while it's your turn
+    const dealerUpcard = gameState.dealerHand[0];
+    const strategyHighlight = isMyTurn && activeHand && dealerUpcard && isFaceUp(dealerUpcard)
+        ? getChartPosition(activeHand, dealerUpcard, !!canSplitHand)
+        : null;
+
+    // Payout and dealer rules are printed on the felt; the rest go in a small line beneath
+    const [deckLabel, , , ...extraRuleLabels] = describeTableRules(rules);
+
+    // Pre-peek decisions: insurance against an Ace, early surrender against an Ace or ten
+    const dealerShowsAce = gameState.dealerHand[0]?.rank === "A";
+    const firstHand = currentSeat?.hands[0];
+    const awaitingPeekDecision = gameState.phase === "insurance" && !!currentSeat && currentSeat.bet > 0 && currentSeat.insuranceBet === 0;
+    const canTakeInsurance = awaitingPeekDecision && dealerShowsAce && currentSeat.chips >= Math.floor(currentSeat.bet / 2);
+    const canEarlySurrender = awaitingPeekDecision && rules.surrender === "early" &&
+        !!firstHand && firstHand.status === "playing" && canSurrender(firstHand, rules);
+
+    // Play "your turn" sound and haptic when it becomes the player's turn - again as it moves to their next spot
+    const myTurnSpot = isMyTurn ? gameState.activePlayerIndex : -1;
     useEffect(() => {
-        if (isMyTurn && !prevIsMyTurnRef.current) {
+        if (myTurnSpot !== -1 && myTurnSpot !== prevMyTurnSpotRef.current) {
             sounds?.play("yourTurn");
             haptic("medium");
         }
-        prevIsMyTurnRef.current = isMyTurn;
-    }, [isMyTurn]);
+        prevMyTurnSpotRef.current = myTurnSpot;
+    }, [myTurnSpot]);
 
     // Track phase changes for dealer voice lines
     // Use seatPayouts to determine if sounds should play based on actual outcomes
@@ -158,6 +314,7 @@ export function Table({
                 let handValue = 0;
                 let aces = 0;
                 for (const card of dealerHand) {
+                    if (!card.faceUp) continue;
                     if (card.rank === 'A') {
                         aces++;
                         handValue += 11;
@@ -204,7 +361,7 @@ export function Table({
 
     // Keyboard shortcuts for game actions
     useEffect(() => {
-        if (!isMyTurn) return;
+        if (!isMyTurn || actionPending) return;
 
         const handleKeyDown = (e: KeyboardEvent) => {
             // Don't trigger if typing in an input
@@ -215,26 +372,26 @@ export function Table({
             const key = e.key.toLowerCase();
             switch (key) {
                 case 'h':
-                    onHit();
+                    if (canHitHand) act(onHit());
                     break;
                 case 's':
-                    onStand();
+                    act(onStand());
                     break;
                 case 'd':
-                    if (canDoubleDown) onDouble();
+                    if (canDoubleDown) act(onDouble(), activeHand?.bet);
                     break;
                 case 'p':
-                    if (canSplitHand) onSplit();
+                    if (canSplitHand) act(onSplit(), activeHand?.bet);
                     break;
                 case 'r':
-                    if (canSurrenderHand) onSurrender();
+                    if (canSurrenderHand) act(onSurrender());
                     break;
             }
         };
 
         window.addEventListener('keydown', handleKeyDown);
         return () => window.removeEventListener('keydown', handleKeyDown);
-    }, [isMyTurn, canDoubleDown, canSplitHand, canSurrenderHand, onHit, onStand, onDouble, onSplit, onSurrender]);
+    }, [isMyTurn, actionPending, act, activeHand, canHitHand, canDoubleDown, canSplitHand, canSurrenderHand, onHit, onStand, onDouble, onSplit, onSurrender]);
 
     // Handle mute toggle
     const handleMuteToggle = () => {
@@ -248,7 +405,7 @@ export function Table({
         waiting: "Waiting for players...",
         betting: "💰 Place your bets!",
         dealing: "🃏 Dealing cards...",
-        insurance: "🛡️ Insurance?",
+        insurance: dealerShowsAce ? "🛡️ Insurance?" : "🏳️ Early surrender?",
         player_turn: gameState.activePlayerIndex >= 0
             ? `${gameState.seats[gameState.activePlayerIndex]?.displayName}'s turn`
             : "Player turn",
@@ -346,14 +503,21 @@ export function Table({
                     {/* Table rules text - positioned INSIDE the table surface */}
                     <div className="absolute left-1/2 -translate-x-1/2 top-[15%] sm:top-[12%] text-center pointer-events-none z-10">
                         <div className="text-amber-400/40 text-xs sm:text-sm md:text-lg font-serif tracking-[0.2em] sm:tracking-[0.3em] font-bold">
-                            BLACKJACK PAYS 3 TO 2
+                            BLACKJACK PAYS {rules.blackjackPayout.replace(":", " TO ")}
                         </div>
                         <div className="text-amber-400/30 text-[10px] sm:text-xs md:text-sm font-serif mt-1 sm:mt-2 tracking-wider sm:tracking-widest">
-                            DEALER STANDS ON ALL 17s
+                            {rules.dealerHitsSoft17 ? "DEALER HITS SOFT 17" : "DEALER STANDS ON ALL 17s"}
+                        </div>
+                        <div className="text-amber-400/30 text-[10px] sm:text-xs md:text-sm font-serif mt-0.5 sm:mt-1 tracking-wider sm:tracking-widest">
+                            BETS {formatBetLimits(rules)}
                         </div>
                         <div className="text-amber-400/25 text-[8px] sm:text-[10px] md:text-xs font-serif mt-0.5 sm:mt-1 tracking-wider sm:tracking-widest hidden sm:block">
                             INSURANCE PAYS 2 TO 1
                         </div>
+                        {/* Remaining house rules for this table */}
+                        <div className="text-amber-400/20 text-[8px] sm:text-[10px] font-serif mt-0.5 sm:mt-1 tracking-wider uppercase hidden sm:block">
+                            {[deckLabel, ...extraRuleLabels].join(" · ")}
+                        </div>
                     </div>
                 </div>
 
@@ -382,134 +546,209 @@ export function Table({
 
                     {/* Right side - Shoe, Mute, and Leave */}
                     <div className="flex items-center gap-2 sm:gap-3">
-                        <Shoe cardsRemaining={gameState.shoe.length} />
-
-                        {/* ATM button - only shows when player has $0 */}
-                        {isInSeat && displayedChips === 0 && currentSeat?.bet === 0 && (
-                            <m.button
-                                initial={{ scale: 0 }}
-                                animate={{ scale: 1 }}
-                                whileHover={{ scale: 1.1 }}
-                                whileTap={{ scale: 0.95 }}
-                                onClick={() => {
-                                    haptic("medium");
-                                    onUseAtm();
-                                }}
-                                aria-label="Use ATM to get chips"
-                                className="px-3 py-1.5 bg-gradient-to-b from-emerald-500 to-emerald-700 hover:from-emerald-400 hover:to-emerald-600
-                                           text-white font-bold text-sm rounded-lg shadow-lg shadow-emerald-500/30 transition-all
-                                           flex items-center gap-1.5"
-                                title="Get $10,000 from ATM"
-                            >
-                                <span>🏧</span>
-                                <span className="hidden sm:inline">ATM</span>
-                            </m.button>
-                        )}
+                        <Shoe cardsRemaining={gameState.cardsRemaining} />
+
+                        {/* Replays are view-only - no table controls */}
+                        {!replay && (
+                            <>
+                                {/* ATM button - only shows when player has $0 */}
+                                {isInSeat && displayedChips === 0 && currentSeat?.bet === 0 && (
+                                    <m.button
+                                        initial={{ scale: 0 }}
+                                        animate={{ scale: 1 }}
+                                        whileHover={{ scale: 1.1 }}
+                                        whileTap={{ scale: 0.95 }}
+                                        onClick={() => {
+                                            haptic("medium");
+                                            onUseAtm();
+                                        }}
+                                        aria-label="Use ATM to get chips"
+                                        className="px-3 py-1.5 bg-gradient-to-b from-emerald-500 to-emerald-700 hover:from-emerald-400 hover:to-emerald-600
+                                                   text-white font-bold text-sm rounded-lg shadow-lg shadow-emerald-500/30 transition-all
+                                                   flex items-center gap-1.5"
+                                        title="Get $10,000 from ATM"
+                                    >
+                                        <span>🏧</span>
+                                        <span className="hidden sm:inline">ATM</span>
+                                    </m.button>
+                                )}
+
+                                {/* Lobby button */}
+                                <button
+                                    onClick={() => {
+                                        haptic("light");
+                                        onBackToLobby();
+                                    }}
+                                    aria-label="Back to lobby"
+                                    className="p-2 text-white/60 hover:text-emerald-400 hover:bg-emerald-400/10 rounded-lg transition-all"
+                                    title="Lobby"
+                                >
+                                    <span className="text-lg">🏠</span>
+                                </button>
+
+                                {/* Strategy Chart button */}
+                                <button
+                                    onClick={() => {
+                                        haptic("light");
+                                        setShowStrategyModal(true);
+                                    }}
+                                    aria-label="View basic strategy chart"
+                                    className="p-2 text-white/60 hover:text-purple-400 hover:bg-purple-400/10 rounded-lg transition-all"
+                                    title="Basic Strategy Chart"
+                                >
+                                    <span className="text-lg">📊</span>
+                                </button>
+
+                                {/* Provably fair button */}
+                                <button
+                                    onClick={() => {
+                                        haptic("light");
+                                        setShowFairnessPanel(true);
+                                    }}
+                                    aria-label="Verify shuffle fairness"
+                                    className="p-2 text-white/60 hover:text-emerald-400 hover:bg-emerald-400/10 rounded-lg transition-all"
+                                    title="Provably Fair"
+                                >
+                                    <span className="text-lg">🛡️</span>
+                                </button>
+
+                                {/* Hand history button */}
+                                <button
+                                    onClick={() => {
+                                        haptic("light");
+                                        onRequestHandHistory();
+                                        setShowHandHistory(true);
+                                    }}
+                                    aria-label="View my hand history"
+                                    className="p-2 text-white/60 hover:text-amber-400 hover:bg-amber-400/10 rounded-lg transition-all"
+                                    title="My Hands"
+                                >
+                                    <span className="text-lg">📜</span>
+                                </button>
+
+                                {/* Strategy report button */}
+                                <button
+                                    onClick={() => {
+                                        haptic("light");
+                                        onRequestStrategyReport();
+                                        setShowStrategyReport(true);
+                                    }}
+                                    aria-label="View my strategy report"
+                                    className="p-2 text-white/60 hover:text-rose-400 hover:bg-rose-400/10 rounded-lg transition-all"
+                                    title="My Strategy"
+                                >
+                                    <span className="text-lg">🎯</span>
+                                </button>
+
+                                {/* Autoplay button - for seated players */}
+                                {isInSeat && !replay && (
+                                    <button
+                                        onClick={() => {
+                                            haptic("light");
+                                            setShowAutoplay(true);
+                                        }}
+                                        aria-label="Set up autoplay"
+                                        className={`p-2 hover:text-sky-400 hover:bg-sky-400/10 rounded-lg transition-all
+                                            ${playerId && gameState.autoplay[playerId] ? "text-sky-400" : "text-white/60"}`}
+                                        title="Autoplay"
+                                    >
+                                        <span className="text-lg">🤖</span>
+                                    </button>
+                                )}
+
+                                {/* Card Count button */}
+                                <button
+                                    onClick={() => {
+                                        haptic("light");
+                                        setShowCountModal(true);
+                                    }}
+                                    aria-label="View card count"
+                                    className="p-2 text-white/60 hover:text-cyan-400 hover:bg-cyan-400/10 rounded-lg transition-all"
+                                    title={countTrainer ? "Counting Trainer" : "Card Count (Hi-Lo)"}
+                                >
+                                    <span className="text-lg">🔢</span>
+                                </button>
+
+                                {/* Leaderboard button */}
+                                <button
+                                    onClick={() => {
+                                        haptic("light");
+                                        onRequestLeaderboard();
+                                        setShowLeaderboard(true);
+                                    }}
+                                    aria-label="View leaderboard"
+                                    className="p-2 text-white/60 hover:text-amber-400 hover:bg-amber-400/10 rounded-lg transition-all"
+                                    title="Leaderboard"
+                                >
+                                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+                                    </svg>
+                                </button>
+
+                                {/* Mute toggle button */}
+                                <button
+                                    onClick={handleMuteToggle}
+                                    aria-label={isMuted ? "Unmute sounds" : "Mute sounds"}
+                                    className="p-2 text-white/60 hover:text-white hover:bg-white/10 rounded-lg transition-all"
+                                    title={isMuted ? "Unmute" : "Mute"}
+                                >
+                                    {isMuted ? (
+                                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" />
+                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 14l2-2m0 0l2-2m-2 2l-2-2m2 2l2 2" />
+                                        </svg>
+                                    ) : (
+                                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" />
+                                        </svg>
+                                    )}
+                                </button>
 
-                        {/* Strategy Chart button */}
-                        <button
-                            onClick={() => {
-                                haptic("light");
-                                setShowStrategyModal(true);
-                            }}
-                            aria-label="View basic strategy chart"
-                            className="p-2 text-white/60 hover:text-purple-400 hover:bg-purple-400/10 rounded-lg transition-all"
-                            title="Basic Strategy Chart"
-                        >
-                            <span className="text-lg">📊</span>
-                        </button>
-
-                        {/* Card Count button */}
-                        <button
-                            onClick={() => {
-                                haptic("light");
-                                setShowCountModal(true);
-                            }}
-                            aria-label="View card count"
-                            className="p-2 text-white/60 hover:text-cyan-400 hover:bg-cyan-400/10 rounded-lg transition-all"
-                            title="Card Count (Hi-Lo)"
-                        >
-                            <span className="text-lg">🔢</span>
-                        </button>
-
-                        {/* Leaderboard button */}
-                        <button
-                            onClick={() => {
-                                haptic("light");
-                                onRequestLeaderboard();
-                                setShowLeaderboard(true);
-                            }}
-                            aria-label="View leaderboard"
-                            className="p-2 text-white/60 hover:text-amber-400 hover:bg-amber-400/10 rounded-lg transition-all"
-                            title="Leaderboard"
-                        >
-                            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
-                            </svg>
-                        </button>
-
-                        {/* Mute toggle button */}
-                        <button
-                            onClick={handleMuteToggle}
-                            aria-label={isMuted ? "Unmute sounds" : "Mute sounds"}
-                            className="p-2 text-white/60 hover:text-white hover:bg-white/10 rounded-lg transition-all"
-                            title={isMuted ? "Unmute" : "Mute"}
-                        >
-                            {isMuted ? (
-                                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" />
-                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 14l2-2m0 0l2-2m-2 2l-2-2m2 2l2 2" />
-                                </svg>
-                            ) : (
-                                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" />
-                                </svg>
-                            )}
-                        </button>
-
-                        {/* Quick Emote selector for seated players */}
-                        <QuickEmoteSelector
-                            onEmote={onSendQuickEmote}
-                            disabled={!isInSeat}
-                        />
+                                {/* Quick Emote selector for seated players */}
+                                <QuickEmoteSelector
+                                    onEmote={onSendQuickEmote}
+                                    disabled={!isInSeat}
+                                />
 
-                        {/* Cocktail button - plays drink sound */}
-                        <button
-                            onClick={() => {
-                                haptic("light");
-                                sounds?.play("drink");
-                            }}
-                            aria-label="Order a drink"
-                            className="p-2 text-white/60 hover:text-pink-400 hover:bg-pink-400/10 rounded-lg transition-all"
-                            title="Order a drink 🍸"
-                        >
-                            <span className="text-lg">🍸</span>
-                        </button>
-
-                        {/* Keyboard hints toggle */}
-                        <button
-                            onClick={() => setShowKeyboardHints(!showKeyboardHints)}
-                            aria-label="Toggle keyboard shortcuts"
-                            className={`p-2 rounded-lg transition-all hidden sm:block ${showKeyboardHints
-                                ? 'text-amber-400 bg-amber-400/10'
-                                : 'text-white/60 hover:text-white hover:bg-white/10'
-                                }`}
-                            title="Keyboard shortcuts"
-                        >
-                            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4" />
-                            </svg>
-                        </button>
-
-                        {isInSeat && (
-                            <button
-                                onClick={onLeaveSeat}
-                                aria-label="Leave the table"
-                                className="px-3 py-1.5 text-xs text-red-400/80 hover:text-red-300 hover:bg-red-500/10 
-                                       rounded-lg transition-all border border-red-500/20 hover:border-red-500/40"
-                            >
-                                Leave Table
-                            </button>
+                                {/* Cocktail button - plays drink sound */}
+                                <button
+                                    onClick={() => {
+                                        haptic("light");
+                                        sounds?.play("drink");
+                                    }}
+                                    aria-label="Order a drink"
+                                    className="p-2 text-white/60 hover:text-pink-400 hover:bg-pink-400/10 rounded-lg transition-all"
+                                    title="Order a drink 🍸"
+                                >
+                                    <span className="text-lg">🍸</span>
+                                </button>
+
+                                {/* Keyboard hints toggle */}
+                                <button
+                                    onClick={() => setShowKeyboardHints(!showKeyboardHints)}
+                                    aria-label="Toggle keyboard shortcuts"
+                                    className={`p-2 rounded-lg transition-all hidden sm:block ${showKeyboardHints
+                                        ? 'text-amber-400 bg-amber-400/10'
+                                        : 'text-white/60 hover:text-white hover:bg-white/10'
+                                        }`}
+                                    title="Keyboard shortcuts"
+                                >
+                                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4" />
+                                    </svg>
+                                </button>
+
+                                {isInSeat && (
+                                    <button
+                                        onClick={() => onLeaveSeat()}
+                                        aria-label="Leave the table"
+                                        className="px-3 py-1.5 text-xs text-red-400/80 hover:text-red-300 hover:bg-red-500/10 
+                                               rounded-lg transition-all border border-red-500/20 hover:border-red-500/40"
+                                    >
+                                        Leave Table
+                                    </button>
+                                )}
+                            </>
                         )}
                     </div>
                 </div>
@@ -543,6 +782,16 @@ export function Table({
                                     activeHandIndex={gameState.activeHandIndex}
                                     payout={seatPayouts[index]}
                                     showPayout={gameState.phase === "payout"}
+                                    sideBetSpots={!!rules.sideBets}
+                                    sideBetPayouts={sideBetPayouts[index]}
+                                    selectedBetSpot={isBetting && seat.playerId === playerId && !replay ? chipSpot : null}
+                                    onSelectBetSpot={isBetting && seat.playerId === playerId && !replay ? setBetSpot : undefined}
+                                    myBetBehind={seat.betsBehind.find((b) => b.playerId === playerId)?.stakes.reduce((a, b) => a + b, 0)}
+                                    betBehindWinnings={betBehindWinnings[index]}
+                                    onBetBehind={canBackSeat(seat) ? (amount) => onBetBehind(index, amount) : undefined}
+                                    onClearBetBehind={() => onClearBetBehind(index)}
+                                    joinAs={isInSeat && mySpots.length < MAX_SPOTS && !replay ? currentSeat?.displayName : undefined}
+                                    autoplay={seat.playerId ? gameState.autoplay[seat.playerId]?.profile : undefined}
                                     onJoin={(name) => onJoinSeat(index, name)}
                                 />
                             </div>
@@ -559,7 +808,7 @@ export function Table({
 
                 {/* Bottom action bar */}
                 <AnimatePresence>
-                    {isInSeat && (
+                    {isInSeat && !replay && (
                         <m.div
                             initial={{ y: 120 }}
                             animate={{ y: 0 }}
@@ -586,16 +835,42 @@ export function Table({
                                             </span>
                                         </div>
                                     </div>
-                                    {currentSeat && currentSeat.bet > 0 && (
+                                    {currentSeat && currentBet > 0 && (
                                         <m.div
                                             initial={{ opacity: 0, scale: 0.8 }}
                                             animate={{ opacity: 1, scale: 1 }}
                                             className="flex items-center gap-1.5 text-emerald-400 text-sm font-medium"
                                         >
                                             <span className="w-2 h-2 rounded-full bg-emerald-400 animate-pulse" />
-                                            Bet: ${currentSeat.bet.toLocaleString()}
+                                            Bet: ${currentBet.toLocaleString()}
                                         </m.div>
                                     )}
+                                    {/* Spot picker - which of your seats the chips go on */}
+                                    {mySpots.length > 1 && (
+                                        <div className="flex items-center gap-1">
+                                            {mySpots.map((spot) => (
+                                                <span key={spot} className="flex items-center">
+                                                    <button
+                                                        onClick={() => setSelectedSpot(spot)}
+                                                        disabled={!isBetting}
+                                                        aria-label={`Bet on seat ${spot + 1}`}
+                                                        className={`px-1.5 py-0.5 rounded-l text-[10px] font-bold transition-all
+                                                            ${spot === currentPlayerSeatIndex ? "bg-amber-400 text-black" : "bg-white/10 text-white/60 hover:bg-white/20"}`}
+                                                    >
+                                                        Seat {spot + 1}
+                                                    </button>
+                                                    <button
+                                                        onClick={() => onLeaveSeat(spot)}
+                                                        aria-label={`Leave seat ${spot + 1}`}
+                                                        title="Leave this spot"
+                                                        className="px-1 py-0.5 rounded-r bg-white/5 text-white/40 hover:text-red-300 hover:bg-red-500/20 text-[10px] transition-all"
+                                                    >
+                                                        ✕
+                                                    </button>
+                                                </span>
+                                            ))}
+                                        </div>
+                                    )}
                                 </div>
 
                                 {/* Center: Chips (betting) or Actions (playing) */}
@@ -604,19 +879,22 @@ export function Table({
                                         <>
                                             {/* Current bet display - always reserve space to prevent shifting */}
                                             <div className="min-w-[100px] flex justify-center">
-                                                {currentSeat && currentSeat.bet > 0 ? (
+                                                {currentSeat && currentBet > 0 ? (
                                                     <m.div
                                                         initial={{ scale: 0 }}
                                                         animate={{ scale: 1 }}
                                                         className="flex items-center gap-2 px-4 py-2 bg-emerald-500/20 rounded-xl border border-emerald-500/30"
                                                     >
                                                         <span className="text-emerald-400 font-bold text-lg">
-                                                            ${currentSeat.bet.toLocaleString()}
+                                                            ${currentBet.toLocaleString()}
                                                         </span>
+                                                        {isShortBet(currentBet, rules) && (
+                                                            <span className="text-amber-400 text-xs">min ${rules.minBet.toLocaleString()}</span>
+                                                        )}
                                                         <button
                                                             onClick={(e) => {
                                                                 e.stopPropagation();
-                                                                onClearBet();
+                                                                onClearBet(currentPlayerSeatIndex);
                                                             }}
                                                             aria-label="Clear current bet"
                                                             className="ml-2 text-red-400 hover:text-red-300 text-xs font-medium
@@ -638,23 +916,45 @@ export function Table({
                                                         value={value}
                                                         size="sm"
                                                         selected={false}
-                                                        disabled={displayedChips < value}
+                                                        disabled={displayedChips < value || !fitsLimits(value)}
                                                         onClick={() => {
                                                             sounds?.play("chipClick");
-                                                            onPlaceBet(value);
+                                                            const request = chipSpot === "main"
+                                                                ? onPlaceBet(value, currentPlayerSeatIndex)
+                                                                : onPlaceSideBet(chipSpot, value, currentPlayerSeatIndex);
+                                                            stake(request, { seatIndex: currentPlayerSeatIndex, spot: chipSpot, amount: value });
                                                         }}
                                                     />
                                                 ))}
                                             </div>
 
+                                            {/* Bet spot - which bet the chips go on */}
+                                            {rules.sideBets && (
+                                                <div className="flex flex-col gap-1">
+                                                    {(["main", ...SIDE_BET_KINDS] as BetSpot[]).map((spot) => (
+                                                        <button
+                                                            key={spot}
+                                                            onClick={() => setBetSpot(spot)}
+                                                            disabled={spot !== "main" && !currentSeat?.bet}
+                                                            title={spot === "main" ? "Main bet" : `${SIDE_BETS[spot].label} - place a main bet first`}
+                                                            className={`px-2 py-0.5 rounded text-[10px] font-bold transition-all disabled:opacity-30
+                                                                ${chipSpot === spot ? "bg-amber-400 text-black" : "bg-white/10 text-white/60 hover:bg-white/20"}`}
+                                                        >
+                                                            {spot === "main" ? "Bet" : SIDE_BETS[spot].short}
+                                                            {spot !== "main" && currentSeat && currentSeat.sideBets[spot] > 0 && ` $${currentSeat.sideBets[spot]}`}
+                                                        </button>
+                                                    ))}
+                                                </div>
+                                            )}
+
                                             {/* All-In Button */}
-                                            {displayedChips > 0 && (
+                                            {allInAmount > 0 && checkBetLimits(allInAmount, currentBet + allInAmount, rules) === null && !isShortBet(currentBet + allInAmount, rules) && (
                                                 <m.button
                                                     whileHover={{ scale: 1.05 }}
                                                     whileTap={{ scale: 0.95 }}
                                                     onClick={() => {
                                                         sounds?.play("chipClick");
-                                                        onPlaceBet(displayedChips);
+                                                        stake(onPlaceBet(allInAmount, currentPlayerSeatIndex), { seatIndex: currentPlayerSeatIndex, spot: "main", amount: allInAmount });
                                                     }}
                                                     className="px-4 py-2 bg-gradient-to-b from-amber-500 to-orange-600 hover:from-amber-400 hover:to-orange-500
                                                            text-black font-bold text-sm rounded-lg shadow-lg shadow-amber-500/30 transition-all"
@@ -663,6 +963,14 @@ export function Table({
                                                 </m.button>
                                             )}
 
+                                            {/* Insurance answered ahead, for an ace upcard */}
+                                            {currentSeat && (
+                                                <InsuranceQueue
+                                                    queued={currentSeat.queuedInsurance}
+                                                    onQueue={(accept) => onQueueInsurance(accept, currentPlayerSeatIndex)}
+                                                />
+                                            )}
+
                                             {/* Betting hint */}
                                             <span className="text-white/50 text-xs hidden sm:inline">
                                                 Click chip to bet
@@ -670,19 +978,25 @@ export function Table({
                                         </>
                                     ) : isMyTurn ? (
                                         <div className="flex flex-col items-center gap-2">
-                                            {/* Fixed-width container to prevent layout shift */}
-                                            <div className="flex gap-2 sm:gap-3 justify-center">
-                                                {/* HIT button - always visible */}
+                                            {/* Fixed-width container to prevent layout shift - held still while an action is unanswered */}
+                                            <div
+                                                aria-busy={actionPending}
+                                                className={`flex gap-2 sm:gap-3 justify-center transition-opacity ${actionPending ? "pointer-events-none opacity-60" : ""}`}
+                                            >
+                                                {/* HIT button - always visible (disabled on split aces that can't be hit) */}
                                                 <m.button
-                                                    whileHover={{ scale: 1.05, y: -2 }}
-                                                    whileTap={{ scale: 0.95 }}
-                                                    onClick={() => { haptic("light"); onHit(); }}
+                                                    whileHover={canHitHand ? { scale: 1.05, y: -2 } : {}}
+                                                    whileTap={canHitHand ? { scale: 0.95 } : {}}
+                                                    onClick={() => { if (canHitHand) { haptic("light"); act(onHit()); } }}
                                                     aria-label="Hit - take another card (keyboard: H)"
-                                                    className="px-5 sm:px-8 py-2.5 sm:py-3 bg-gradient-to-b from-emerald-500 to-emerald-700 hover:from-emerald-400 hover:to-emerald-600
-                                                       text-white font-bold text-sm sm:text-base rounded-xl shadow-lg shadow-emerald-500/30 transition-all relative"
+                                                    aria-disabled={!canHitHand}
+                                                    className={`px-5 sm:px-8 py-2.5 sm:py-3 rounded-xl shadow-lg transition-all relative
+                                                       ${canHitHand
+                                                            ? 'bg-gradient-to-b from-emerald-500 to-emerald-700 hover:from-emerald-400 hover:to-emerald-600 text-white font-bold text-sm sm:text-base shadow-emerald-500/30'
+                                                            : 'bg-gray-700/30 text-gray-600 font-bold text-sm sm:text-base cursor-not-allowed opacity-40'}`}
                                                 >
                                                     HIT
-                                                    {showKeyboardHints && (
+                                                    {showKeyboardHints && canHitHand && (
                                                         <span className="absolute -bottom-5 left-1/2 -translate-x-1/2 text-[10px] text-white/50 font-normal">H</span>
                                                     )}
                                                 </m.button>
@@ -691,7 +1005,7 @@ export function Table({
                                                 <m.button
                                                     whileHover={{ scale: 1.05, y: -2 }}
                                                     whileTap={{ scale: 0.95 }}
-                                                    onClick={() => { haptic("light"); onStand(); }}
+                                                    onClick={() => { haptic("light"); act(onStand()); }}
                                                     aria-label="Stand - keep your cards (keyboard: S)"
                                                     className="px-5 sm:px-8 py-2.5 sm:py-3 bg-gradient-to-b from-red-500 to-red-700 hover:from-red-400 hover:to-red-600
                                                        text-white font-bold text-sm sm:text-base rounded-xl shadow-lg shadow-red-500/30 transition-all relative"
@@ -706,7 +1020,7 @@ export function Table({
                                                 <m.button
                                                     whileHover={canDoubleDown ? { scale: 1.05, y: -2 } : {}}
                                                     whileTap={canDoubleDown ? { scale: 0.95 } : {}}
-                                                    onClick={() => { if (canDoubleDown) { haptic("light"); onDouble(); } }}
+                                                    onClick={() => { if (canDoubleDown) { haptic("light"); act(onDouble(), activeHand?.bet); } }}
                                                     aria-label="Double down - double your bet and take one card (keyboard: D)"
                                                     aria-disabled={!canDoubleDown}
                                                     className={`px-4 sm:px-6 py-2.5 sm:py-3 rounded-xl shadow-lg transition-all relative
@@ -724,7 +1038,7 @@ export function Table({
                                                 <m.button
                                                     whileHover={canSplitHand ? { scale: 1.05, y: -2 } : {}}
                                                     whileTap={canSplitHand ? { scale: 0.95 } : {}}
-                                                    onClick={() => { if (canSplitHand) { haptic("light"); onSplit(); } }}
+                                                    onClick={() => { if (canSplitHand) { haptic("light"); act(onSplit(), activeHand?.bet); } }}
                                                     aria-label="Split - split your pair into two hands (keyboard: P)"
                                                     aria-disabled={!canSplitHand}
                                                     className={`px-4 sm:px-6 py-2.5 sm:py-3 rounded-xl shadow-lg transition-all relative
@@ -742,7 +1056,7 @@ export function Table({
                                                 <m.button
                                                     whileHover={canSurrenderHand ? { scale: 1.05, y: -2 } : {}}
                                                     whileTap={canSurrenderHand ? { scale: 0.95 } : {}}
-                                                    onClick={() => { if (canSurrenderHand) { haptic("light"); onSurrender(); } }}
+                                                    onClick={() => { if (canSurrenderHand) { haptic("light"); act(onSurrender()); } }}
                                                     aria-label="Surrender - forfeit half your bet (keyboard: R)"
                                                     aria-disabled={!canSurrenderHand}
                                                     className={`px-3 sm:px-6 py-2.5 sm:py-3 rounded-xl shadow-lg transition-all text-xs sm:text-sm relative
@@ -765,32 +1079,55 @@ export function Table({
                                                 🎯 Your turn! {showKeyboardHints ? '' : 'Use keyboard shortcuts (H/S/D/P/R)'}
                                             </m.div>
                                         </div>
-                                    ) : gameState.phase === "insurance" && currentSeat && currentSeat.bet > 0 && currentSeat.insuranceBet === 0 && currentSeat.chips >= Math.floor(currentSeat.bet / 2) ? (
-                                        <div className="flex flex-col items-center gap-3">
+                                    ) : currentSeat && (canTakeInsurance || canEarlySurrender) ? (
+                                        <div
+                                            aria-busy={actionPending}
+                                            className={`flex flex-col items-center gap-3 transition-opacity ${actionPending ? "pointer-events-none opacity-60" : ""}`}
+                                        >
                                             <span className="text-amber-400 text-sm font-medium">
-                                                Dealer shows Ace - Insurance? (costs ${Math.floor(currentSeat.bet / 2)})
+                                                {canTakeInsurance
+                                                    ? `Dealer shows Ace - Insurance? (costs $${Math.floor(currentSeat.bet / 2)})`
+                                                    : `Early surrender? (get back $${Math.floor(currentSeat.bet / 2)})`}
                                             </span>
                                             <div className="flex gap-3">
+                                                {canEarlySurrender && (
+                                                    <m.button
+                                                        whileHover={{ scale: 1.05, y: -2 }}
+                                                        whileTap={{ scale: 0.95 }}
+                                                        onClick={() => { haptic("light"); act(onSurrender()); }}
+                                                        className="px-6 py-3 bg-gradient-to-b from-gray-500 to-gray-700 hover:from-gray-400 hover:to-gray-600
+                                                               text-white font-bold rounded-xl shadow-lg shadow-gray-500/30 transition-all"
+                                                    >
+                                                        SURRENDER
+                                                    </m.button>
+                                                )}
+                                                {canTakeInsurance && (
+                                                    <m.button
+                                                        whileHover={{ scale: 1.05, y: -2 }}
+                                                        whileTap={{ scale: 0.95 }}
+                                                        onClick={() => act(onInsurance(true, currentPlayerSeatIndex), Math.floor(currentSeat.bet / 2))}
+                                                        className="px-8 py-3 bg-gradient-to-b from-emerald-500 to-emerald-700 hover:from-emerald-400 hover:to-emerald-600
+                                                               text-white font-bold rounded-xl shadow-lg shadow-emerald-500/30 transition-all"
+                                                    >
+                                                        YES
+                                                    </m.button>
+                                                )}
                                                 <m.button
                                                     whileHover={{ scale: 1.05, y: -2 }}
                                                     whileTap={{ scale: 0.95 }}
-                                                    onClick={() => onInsurance(true)}
-                                                    className="px-8 py-3 bg-gradient-to-b from-emerald-500 to-emerald-700 hover:from-emerald-400 hover:to-emerald-600
-                                                           text-white font-bold rounded-xl shadow-lg shadow-emerald-500/30 transition-all"
-                                                >
-                                                    YES
-                                                </m.button>
-                                                <m.button
-                                                    whileHover={{ scale: 1.05, y: -2 }}
-                                                    whileTap={{ scale: 0.95 }}
-                                                    onClick={() => onInsurance(false)}
+                                                    onClick={() => act(dealerShowsAce ? onInsurance(false, currentPlayerSeatIndex) : onPlayOn(currentPlayerSeatIndex))}
                                                     className="px-8 py-3 bg-gradient-to-b from-red-500 to-red-700 hover:from-red-400 hover:to-red-600
                                                            text-white font-bold rounded-xl shadow-lg shadow-red-500/30 transition-all"
                                                 >
-                                                    NO
+                                                    {canTakeInsurance ? "NO" : "PLAY ON"}
                                                 </m.button>
                                             </div>
                                         </div>
+                                    ) : queueSpot !== undefined ? (
+                                        <ActionQueue
+                                            queued={gameState.seats[queueSpot].queuedAction}
+                                            onQueue={(action) => onQueueAction(action, queueSpot)}
+                                        />
                                     ) : (
                                         <div className="flex items-center gap-3 text-white/60 text-sm">
                                             <m.div
@@ -824,7 +1161,7 @@ export function Table({
                 </AnimatePresence>
 
                 {/* Not in seat - show subtle prompt */}
-                {!isInSeat && (
+                {!isInSeat && !replay && (
                     <div className="absolute bottom-10 left-1/2 -translate-x-1/2">
                         <m.div
                             animate={{ opacity: [0.4, 0.8, 0.4], y: [0, -5, 0] }}
@@ -832,12 +1169,17 @@ export function Table({
                             className="px-6 py-3 bg-black/50 rounded-full border border-white/10 backdrop-blur-sm"
                         >
                             <span className="text-white/70 text-sm font-medium">
-                                Click an empty seat to join the table
+                                {isBetting && gameState.seats.some((seat) => seat.bet > 0)
+                                    ? "Join an empty seat, or back a player's hand"
+                                    : "Click an empty seat to join the table"}
                             </span>
                         </m.div>
                     </div>
                 )}
 
+                {/* Replay controls take the place of the action bar */}
+                {replay}
+
                 {/* Payout Animation Overlay */}
                 <AnimatePresence>
                     {lastPayout && lastPayout.amount > 0 && (
@@ -967,16 +1309,65 @@ export function Table({
             <Leaderboard
                 isOpen={showLeaderboard}
                 onClose={() => setShowLeaderboard(false)}
+                names={leaderboardNames}
                 balances={leaderboard || {}}
                 adherence={leaderboardAdherence || {}}
+                insuranceAdherence={leaderboardInsuranceAdherence || {}}
                 atmUsage={leaderboardAtmUsage || {}}
                 blackjacks={leaderboardBlackjacks || {}}
             />
 
+            {/* Provably Fair Panel */}
+            <FairnessPanel
+                isOpen={showFairnessPanel}
+                onClose={() => setShowFairnessPanel(false)}
+                shoeFairness={gameState.shoeFairness}
+                previousShoeFairness={gameState.previousShoeFairness}
+                clientSeed={clientSeed}
+                onSetClientSeed={onSetClientSeed}
+                getObservedCards={getObservedCards}
+            />
+
+            {/* Autoplay settings, or the run in progress */}
+            <AutoplayPanel
+                isOpen={showAutoplay}
+                onClose={() => setShowAutoplay(false)}
+                autoplay={playerId ? gameState.autoplay[playerId] ?? null : null}
+                chips={currentSeat?.chips ?? 0}
+                onSetAutoplay={onSetAutoplay}
+            />
+
+            {/* Hand History */}
+            <HandHistory
+                isOpen={showHandHistory}
+                onClose={() => setShowHandHistory(false)}
+                playerId={playerId}
+                rounds={handHistory}
+                hasMore={handHistoryHasMore}
+                onLoadMore={onRequestHandHistory}
+                onReplay={(round) => {
+                    setShowHandHistory(false);
+                    onReplayRound(round);
+                }}
+            />
+
+            {/* Strategy report */}
+            <StrategyReport
+                isOpen={showStrategyReport}
+                onClose={() => setShowStrategyReport(false)}
+                rules={rules}
+                decisions={strategyDecisions}
+            />
+
             {/* Strategy Modal */}
             <StrategyModal
                 isOpen={showStrategyModal}
                 onClose={() => setShowStrategyModal(false)}
+                rules={rules}
+                highlight={strategyHighlight}
+                indexPlays={indexPlays}
+                onSetIndexPlays={onSetIndexPlays}
+                trueCount={countTrainer ? null : getTrueCount(gameState.runningCount, gameState.cardsRemaining)}
             />
 
             {/* True Count Display - stays visible in corner */}
@@ -984,17 +1375,30 @@ export function Table({
                 isVisible={showCountModal}
                 onClose={() => setShowCountModal(false)}
                 runningCount={gameState.runningCount}
-                cardsRemaining={gameState.shoe.length}
+                cardsRemaining={gameState.cardsRemaining}
+                countTrainer={countTrainer}
+                onSetCountTrainer={onSetCountTrainer}
+                countQuizzes={countQuizzes}
             />
 
-            {/* Chat */}
-            <Chat
-                messages={chatMessages}
-                onSendMessage={onSendChat}
-                onSendReaction={onSendReaction}
-                currentPlayerName={currentSeat?.displayName || null}
+            {/* Counting trainer quiz */}
+            <CountQuiz
+                quiz={countQuiz}
+                result={countResult}
+                onAnswer={onAnswerCountQuiz}
+                onDismiss={onDismissCountQuiz}
             />
 
+            {/* Chat */}
+            {!replay && (
+                <Chat
+                    messages={chatMessages}
+                    onSendMessage={onSendChat}
+                    onSendReaction={onSendReaction}
+                    currentPlayerName={currentSeat?.displayName || null}
+                />
+            )}
+
             {/* Action Toast - shows player actions to everyone */}
             <ActionToast
                 action={lastAction}
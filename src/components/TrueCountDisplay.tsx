@@ -1,19 +1,32 @@
 "use client";
 
 import { LazyMotion, domAnimation, m } from "framer-motion";
+import { CountQuizRecord, CountingSystem } from "@/lib/gameTypes";
+import { COUNTING_SYSTEMS, COUNTING_SYSTEM_IDS, COUNT_QUIZ_INTERVAL, describeTags, getCountAccuracy } from "@/lib/countingSystems";
+import { getTrueCount } from "@/lib/indexPlays";
 
 interface TrueCountDisplayProps {
     isVisible: boolean;
     onClose: () => void;
     runningCount: number;
     cardsRemaining: number;
+    countTrainer: CountingSystem | null; // Training hides the count
+    onSetCountTrainer: (system: CountingSystem | null) => void;
+    countQuizzes: CountQuizRecord[];
 }
 
-export function TrueCountDisplay({ isVisible, onClose, runningCount, cardsRemaining }: TrueCountDisplayProps) {
+const RECENT_QUIZZES = 20;
+
+function percent(correct: number, total: number): string {
+    return total > 0 ? `${Math.round((correct / total) * 100)}%` : "-";
+}
+
+export function TrueCountDisplay({ isVisible, onClose, runningCount, cardsRemaining, countTrainer, onSetCountTrainer, countQuizzes }: TrueCountDisplayProps) {
     if (!isVisible) return null;
 
-    const decksRemaining = Math.max(cardsRemaining / 52, 0.5);
-    const trueCount = runningCount / decksRemaining;
+    // The same true count the server grades index plays and quizzes on
+    const decksRemaining = cardsRemaining / 52;
+    const trueCount = getTrueCount(runningCount, cardsRemaining);
 
     // Color based on advantage
     const getAdvantageColor = () => {
@@ -22,6 +35,10 @@ export function TrueCountDisplay({ isVisible, onClose, runningCount, cardsRemain
         return "text-white";
     };
 
+    const systemQuizzes = countTrainer ? countQuizzes.filter((q) => q.system === countTrainer) : [];
+    const overall = getCountAccuracy(systemQuizzes);
+    const recent = getCountAccuracy(systemQuizzes.slice(-RECENT_QUIZZES));
+
     return (
         <LazyMotion features={domAnimation}>
             <m.div
@@ -30,7 +47,7 @@ export function TrueCountDisplay({ isVisible, onClose, runningCount, cardsRemain
                 exit={{ opacity: 0, y: -10 }}
                 className="fixed top-20 right-4 z-30 pointer-events-auto"
             >
-                <div className="bg-black/80 backdrop-blur-sm rounded-xl border border-white/10 p-3 shadow-lg min-w-[140px]">
+                <div className="bg-black/80 backdrop-blur-sm rounded-xl border border-white/10 p-3 shadow-lg min-w-[140px] max-w-[220px]">
                     {/* Header with close button */}
                     <div className="flex items-center justify-between mb-2">
                         <span className="text-xs text-white/60">🔢 Count</span>
@@ -42,34 +59,80 @@ export function TrueCountDisplay({ isVisible, onClose, runningCount, cardsRemain
                         </button>
                     </div>
 
-                    {/* Running Count */}
-                    <div className="flex justify-between items-center text-xs mb-1">
-                        <span className="text-white/50">Running:</span>
-                        <span className={runningCount > 0 ? "text-emerald-400 font-bold" : runningCount < 0 ? "text-red-400 font-bold" : "text-white font-bold"}>
-                            {runningCount > 0 ? "+" : ""}{runningCount}
-                        </span>
-                    </div>
+                    {countTrainer ? (
+                        <>
+                            {/* Trainer - the count stays hidden, only the player's accuracy shows */}
+                            <div className="text-xs text-white/70 mb-1">
+                                Counting <span className="font-bold text-cyan-300">{COUNTING_SYSTEMS[countTrainer].name}</span> - count hidden
+                            </div>
+                            <div className="text-[10px] text-white/40 mb-2">Quizzed every {COUNT_QUIZ_INTERVAL} rounds</div>
+                            <div className="flex justify-between items-center text-xs mb-1">
+                                <span className="text-white/50">Running:</span>
+                                <span className="text-white font-medium">
+                                    {percent(overall.runningCorrect, overall.quizzes)}
+                                    <span className="text-white/40"> · last {RECENT_QUIZZES} {percent(recent.runningCorrect, recent.quizzes)}</span>
+                                </span>
+                            </div>
+                            {COUNTING_SYSTEMS[countTrainer].balanced && (
+                                <div className="flex justify-between items-center text-xs mb-1">
+                                    <span className="text-white/50">True:</span>
+                                    <span className="text-white font-medium">
+                                        {percent(overall.trueCorrect, overall.trueQuizzes)}
+                                        <span className="text-white/40"> · last {RECENT_QUIZZES} {percent(recent.trueCorrect, recent.trueQuizzes)}</span>
+                                    </span>
+                                </div>
+                            )}
+                            <div className="text-[10px] text-white/40">{overall.quizzes} {overall.quizzes === 1 ? "quiz" : "quizzes"} answered</div>
+                        </>
+                    ) : (
+                        <>
+                            {/* Running Count */}
+                            <div className="flex justify-between items-center text-xs mb-1">
+                                <span className="text-white/50">Running:</span>
+                                <span className={runningCount > 0 ? "text-emerald-400 font-bold" : runningCount < 0 ? "text-red-400 font-bold" : "text-white font-bold"}>
+                                    {runningCount > 0 ? "+" : ""}{runningCount}
+                                </span>
+                            </div>
 
-                    {/* Decks Remaining */}
-                    <div className="flex justify-between items-center text-xs mb-1">
-                        <span className="text-white/50">Decks:</span>
-                        <span className="text-white font-medium">{decksRemaining.toFixed(1)}</span>
-                    </div>
+                            {/* Decks Remaining */}
+                            <div className="flex justify-between items-center text-xs mb-1">
+                                <span className="text-white/50">Decks:</span>
+                                <span className="text-white font-medium">{decksRemaining.toFixed(1)}</span>
+                            </div>
 
-                    {/* True Count - highlighted */}
-                    <div className="flex justify-between items-center text-sm mt-2 pt-2 border-t border-white/10">
-                        <span className="text-white/70 font-medium">True:</span>
-                        <span className={`font-black text-lg ${getAdvantageColor()}`}>
-                            {trueCount > 0 ? "+" : ""}{trueCount.toFixed(1)}
-                        </span>
-                    </div>
+                            {/* True Count - highlighted */}
+                            <div className="flex justify-between items-center text-sm mt-2 pt-2 border-t border-white/10">
+                                <span className="text-white/70 font-medium">True:</span>
+                                <span className={`font-black text-lg ${getAdvantageColor()}`}>
+                                    {trueCount > 0 ? "+" : ""}{trueCount.toFixed(1)}
+                                </span>
+                            </div>
+                        </>
+                    )}
 
                     {/* Legend */}
-                    <div className="text-[10px] text-white/30 mt-2 text-center">
-                        <span className="text-emerald-400/60">2-6:+1</span>
-                        <span className="mx-1">7-9:0</span>
-                        <span className="text-red-400/60">10-A:-1</span>
+                    <div className="text-[10px] text-white/30 mt-2 text-center flex flex-wrap justify-center gap-x-1">
+                        {describeTags(countTrainer ?? "hi_lo").map(({ ranks, tag }) => (
+                            <span key={ranks} className={tag > 0 ? "text-emerald-400/60" : tag < 0 ? "text-red-400/60" : ""}>
+                                {ranks}:{tag > 0 ? "+" : ""}{tag}
+                            </span>
+                        ))}
                     </div>
+
+                    {/* Trainer */}
+                    <label className="flex items-center justify-between gap-2 mt-2 pt-2 border-t border-white/10 text-[11px] text-white/60">
+                        Trainer
+                        <select
+                            value={countTrainer ?? ""}
+                            onChange={(e) => onSetCountTrainer((e.target.value || null) as CountingSystem | null)}
+                            className="px-1.5 py-0.5 bg-black/60 border border-white/10 rounded text-white"
+                        >
+                            <option value="">Off</option>
+                            {COUNTING_SYSTEM_IDS.map((system) => (
+                                <option key={system} value={system}>{COUNTING_SYSTEMS[system].name}</option>
+                            ))}
+                        </select>
+                    </label>
                 </div>
             </m.div>
         </LazyMotion>
@@ -0,0 +1,121 @@
+"use client";
+
+import { useEffect, useState, useCallback, useRef } from "react";
+import PartySocket from "partysocket";
+import {
+    DrillClientMessage,
+    DrillHand,
+    DrillKind,
+    DrillMode,
+    DrillServerMessage,
+    DrillStats,
+    PlayAction,
+    TableRules,
+    DRILL_PARTY,
+    DRILL_ROOM_ID,
+} from "@/lib/gameTypes";
+import { getPlayerToken } from "@/lib/playerIdentity";
+import { sounds } from "@/lib/sounds";
+
+const PARTYKIT_HOST = process.env.NEXT_PUBLIC_PARTYKIT_HOST || "localhost:1999";
+
+export type DrillResult = Extract<DrillServerMessage, { type: "drill_result" }>;
+
+export function useDrillSocket() {
+    const [connected, setConnected] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [stats, setStats] = useState<DrillStats>({});
+    const [drill, setDrill] = useState<{ kind: DrillKind; mode: DrillMode; rules: TableRules } | null>(null);
+    const [hand, setHand] = useState<DrillHand | null>(null);
+    const [result, setResult] = useState<DrillResult | null>(null);
+    const socketRef = useRef<PartySocket | null>(null);
+    const modeRef = useRef<DrillMode>("flag");
+
+    useEffect(() => {
+        const socket = new PartySocket({
+            host: PARTYKIT_HOST,
+            party: DRILL_PARTY,
+            room: DRILL_ROOM_ID,
+            // Drill results are kept per player, like everything else
+            query: { token: getPlayerToken() },
+        });
+
+        socketRef.current = socket;
+
+        socket.addEventListener("open", () => {
+            setConnected(true);
+            setError(null);
+        });
+
+        socket.addEventListener("close", () => {
+            setConnected(false);
+            // The server forgets the drill with the connection
+            setDrill(null);
+            setHand(null);
+            setResult(null);
+        });
+
+        socket.addEventListener("message", (event) => {
+            try {
+                const msg: DrillServerMessage = JSON.parse(event.data);
+
+                switch (msg.type) {
+                    case "drill_stats":
+                        setStats(msg.stats);
+                        break;
+                    case "drill_hand":
+                        setDrill({ kind: msg.kind, mode: modeRef.current, rules: msg.rules });
+                        setHand(msg.hand);
+                        setResult(null);
+                        sounds?.play("cardDeal");
+                        break;
+                    case "drill_result":
+                        setResult(msg);
+                        setStats(msg.stats);
+                        break;
+                    case "error":
+                        setError(msg.message);
+                        setTimeout(() => setError(null), 3000);
+                        break;
+                }
+            } catch (e) {
+                console.error("Failed to parse drill message:", e);
+            }
+        });
+
+        return () => {
+            socket.close();
+        };
+    }, []);
+
+    const send = useCallback((message: DrillClientMessage) => {
+        if (socketRef.current?.readyState === WebSocket.OPEN) {
+            socketRef.current.send(JSON.stringify(message));
+        }
+    }, []);
+
+    const startDrill = useCallback((kind: DrillKind, mode: DrillMode, rules?: Partial<TableRules>) => {
+        modeRef.current = mode;
+        send({ type: "drill_start", kind, mode, rules });
+    }, [send]);
+
+    const answer = useCallback((action: PlayAction) => {
+        send({ type: "drill_answer", action });
+    }, [send]);
+
+    const nextHand = useCallback(() => {
+        send({ type: "drill_next" });
+    }, [send]);
+
+    return {
+        connected,
+        error,
+        stats,
+        drill,
+        hand,
+        result,
+        startDrill,
+        answer,
+        nextHand,
+    };
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import { useEffect, useState, useCallback, useRef } from "react";
+import PartySocket from "partysocket";
+import {
+    TableListing,
+    TableRules,
+    LobbyClientMessage,
+    LobbyServerMessage,
+    LOBBY_PARTY,
+    LOBBY_ROOM_ID,
+} from "@/lib/gameTypes";
+
+const PARTYKIT_HOST = process.env.NEXT_PUBLIC_PARTYKIT_HOST || "localhost:1999";
+
+export interface CreateTableOptions {
+    name: string;
+    isPrivate: boolean;
+    minBet: number;
+    maxBet: number;
+    rules: Partial<TableRules>;
+}
+
+export function useLobbySocket(onEnterTable: (roomId: string) => void) {
+    const [tables, setTables] = useState<TableListing[]>([]);
+    const [connected, setConnected] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [createdTable, setCreatedTable] = useState<{ table: TableListing; inviteCode: string | null } | null>(null);
+    const socketRef = useRef<PartySocket | null>(null);
+
+    // Keep the latest navigation callback without reconnecting when it changes
+    const onEnterTableRef = useRef(onEnterTable);
+    useEffect(() => {
+        onEnterTableRef.current = onEnterTable;
+    }, [onEnterTable]);
+
+    useEffect(() => {
+        const socket = new PartySocket({
+            host: PARTYKIT_HOST,
+            party: LOBBY_PARTY,
+            room: LOBBY_ROOM_ID,
+        });
+
+        socketRef.current = socket;
+
+        socket.addEventListener("open", () => {
+            setConnected(true);
+            setError(null);
+        });
+
+        socket.addEventListener("close", () => {
+            setConnected(false);
+        });
+
+        socket.addEventListener("message", (event) => {
+            try {
+                const msg: LobbyServerMessage = JSON.parse(event.data);
+
+                switch (msg.type) {
+                    case "tables":
+                        setTables(msg.tables);
+                        break;
+                    case "table_created":
+                        // Private tables stay in the lobby so the creator can copy the invite code
+                        if (msg.inviteCode) {
+                            setCreatedTable({ table: msg.table, inviteCode: msg.inviteCode });
+                        } else {
+                            onEnterTableRef.current(msg.table.roomId);
+                        }
+                        break;
+                    case "invite_resolved":
+                        onEnterTableRef.current(msg.roomId);
+                        break;
+                    case "error":
+                        setError(msg.message);
+                        setTimeout(() => setError(null), 3000);
+                        break;
+                }
+            } catch (e) {
+                console.error("Failed to parse lobby message:", e);
+            }
+        });
+
+        return () => {
+            socket.close();
+        };
+    }, []);
+
+    const send = useCallback((message: LobbyClientMessage) => {
+        if (socketRef.current?.readyState === WebSocket.OPEN) {
+            socketRef.current.send(JSON.stringify(message));
+        }
+    }, []);
+
+    const createTable = useCallback((options: CreateTableOptions) => {
+        send({ type: "create_table", ...options });
+    }, [send]);
+
+    const joinByCode = useCallback((inviteCode: string) => {
+        send({ type: "join_by_code", inviteCode });
+    }, [send]);
+
+    const dismissCreatedTable = useCallback(() => {
+        setCreatedTable(null);
+    }, []);
+
+    return {
+        tables,
+        connected,
+        error,
+        createdTable,
+        createTable,
+        joinByCode,
+        dismissCreatedTable,
+    };
+}
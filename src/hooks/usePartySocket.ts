@@ -2,23 +2,102 @@
 
 import { useEffect, useState, useCallback, useRef } from "react";
 import PartySocket from "partysocket";
-import { GameState, ClientMessage, ServerMessage, ChatMessage } from "@/lib/gameTypes";
+import {
+    AutoplaySettings,
+    PublicGameState,
+    ClientMessage,
+    ChatMessage,
+    Card,
+    CountQuizRecord,
+    CountingSystem,
+    QueuedAction,
+    RoundRecord,
+    SideBetKind,
+    SideBetOutcome,
+    StrategyDecision,
+    isFaceUp,
+} from "@/lib/gameTypes";
+import { COUNTING_SYSTEMS } from "@/lib/countingSystems";
 import { sounds } from "@/lib/sounds";
 import { celebrateWin, celebrateBlackjack } from "@/lib/confetti";
+import { getPlayerToken } from "@/lib/playerIdentity";
+import { randomSeed } from "@/lib/fairness";
+import { PROTOCOL_VERSION, RequestError, parseServerMessage } from "@/lib/protocol";
+import { applyStatePatch } from "@/lib/statePatch";
 
 const PARTYKIT_HOST = process.env.NEXT_PUBLIC_PARTYKIT_HOST || "localhost:1999";
+const INDEX_PLAYS_KEY = "blackjack_index_plays";
+const COUNT_TRAINER_KEY = "blackjack_count_trainer";
+const REQUEST_TIMEOUT = 10000; // Give up on an answer from the table after 10 seconds
+
+interface PendingRequest {
+    resolve: () => void;
+    reject: (error: RequestError) => void;
+    timeout: ReturnType<typeof setTimeout>;
+}
+
+let nextRequestId = 0;
+
+// Sends a message with a fresh request ID. The promise settles when the table acks or rejects
+// it, and rejects on its own if the socket is down or no answer comes in time.
+function sendRequest(socket: PartySocket | null, pending: Map<string, PendingRequest>, message: ClientMessage): Promise<void> {
+    if (socket?.readyState !== WebSocket.OPEN) {
+        return Promise.reject(new RequestError("disconnected", "Not connected to the table"));
+    }
+    const requestId = String(++nextRequestId);
+    const promise = new Promise<void>((resolve, reject) => {
+        const timeout = setTimeout(() => {
+            pending.delete(requestId);
+            reject(new RequestError("timeout", "The table didn't answer"));
+        }, REQUEST_TIMEOUT);
+        pending.set(requestId, { resolve, reject, timeout });
+    });
+    socket.send(JSON.stringify({ ...message, requestId }));
+    return promise;
+}
+
+// Settles every request still waiting - for when the socket goes away
+function rejectPending(pending: Map<string, PendingRequest>, error: RequestError) {
+    for (const request of pending.values()) {
+        clearTimeout(request.timeout);
+        request.reject(error);
+    }
+    pending.clear();
+}
+
+// Whether this player grades against index plays - kept across visits when storage allows
+function loadIndexPlays(): boolean {
+    try {
+        return localStorage.getItem(INDEX_PLAYS_KEY) === "1";
+    } catch {
+        return false;
+    }
+}
+
+// The counting system this player is training in, if any - kept like the index plays setting
+function loadCountTrainer(): CountingSystem | null {
+    try {
+        const system = localStorage.getItem(COUNT_TRAINER_KEY);
+        return system && system in COUNTING_SYSTEMS ? (system as CountingSystem) : null;
+    } catch {
+        return null;
+    }
+}
 
 export function usePartySocket(room: string = "main") {
-    const [gameState, setGameState] = useState<GameState | null>(null);
+    const [gameState, setGameState] = useState<PublicGameState | null>(null);
     const [connected, setConnected] = useState(false);
     const [reconnecting, setReconnecting] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    // The room speaks a newer protocol than this page - only a refresh will help
+    const [outdated, setOutdated] = useState(false);
     const socketRef = useRef<PartySocket | null>(null);
     const [lastAction, setLastAction] = useState<{
         playerId: string;
         action: string;
         seatIndex: number;
         isOptimal?: boolean;
+        indexPlay?: string;
     } | null>(null);
     const [lastPayout, setLastPayout] = useState<{
         seatIndex: number;
@@ -30,72 +109,176 @@ export function usePartySocket(room: string = "main") {
         amount: number;
         result: 'win' | 'lose' | 'push' | 'blackjack';
     }>>({});
+    // Side bets are settled after the deal and shown on the seat until the next round
+    const [sideBetPayouts, setSideBetPayouts] = useState<Record<number, SideBetOutcome[]>>({});
+    // Winnings on my own bets behind, by the seat they were on
+    const [betBehindWinnings, setBetBehindWinnings] = useState<Record<number, number>>({});
     const [lastInsurancePayout, setLastInsurancePayout] = useState<{
         seatIndex: number;
         amount: number;
     } | null>(null);
+    const [leaderboardNames, setLeaderboardNames] = useState<Record<string, string>>({});
     const [leaderboard, setLeaderboard] = useState<Record<string, number> | null>(null);
     const [leaderboardAdherence, setLeaderboardAdherence] = useState<Record<string, number> | null>(null);
+    const [leaderboardInsuranceAdherence, setLeaderboardInsuranceAdherence] = useState<Record<string, number> | null>(null);
     const [leaderboardAtmUsage, setLeaderboardAtmUsage] = useState<Record<string, number> | null>(null);
     const [leaderboardBlackjacks, setLeaderboardBlackjacks] = useState<Record<string, number> | null>(null);
     const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
-    const [connectionId, setConnectionId] = useState<string | null>(null);
+    const [playerId, setPlayerId] = useState<string | null>(null);
+    const [legacyRecord, setLegacyRecord] = useState<{ name: string; chips: number } | null>(null);
+    const playerIdRef = useRef<string | null>(null);
+    const [handHistory, setHandHistory] = useState<RoundRecord[]>([]);
+    const [handHistoryHasMore, setHandHistoryHasMore] = useState(false);
+    const [strategyDecisions, setStrategyDecisions] = useState<StrategyDecision[] | null>(null);
+    // Provably fair: our seed for the shuffle, and every card we saw dealt (shoe number -> shoeIndex -> card)
+    const [clientSeed, setClientSeedState] = useState(() => randomSeed(16));
+    const clientSeedRef = useRef(clientSeed);
+    const [indexPlays, setIndexPlaysState] = useState(loadIndexPlays);
+    const indexPlaysRef = useRef(indexPlays);
+    const [countTrainer, setCountTrainerState] = useState(loadCountTrainer);
+    const countTrainerRef = useRef(countTrainer);
+    const [countQuiz, setCountQuiz] = useState<{ system: CountingSystem; askTrueCount: boolean } | null>(null);
+    const [countResult, setCountResult] = useState<CountQuizRecord | null>(null);
+    const [countQuizzes, setCountQuizzes] = useState<CountQuizRecord[]>([]);
+    const observedCardsRef = useRef<Record<number, Record<number, Card>>>({});
     const prevPhaseRef = useRef<string | null>(null);
-    const gameStateRef = useRef<GameState | null>(null);
+    const gameStateRef = useRef<PublicGameState | null>(null);
+    // Version of the state we hold - a patch for any other base means we missed one
+    const stateVersionRef = useRef<number | null>(null);
+    const resyncingRef = useRef(false);
+    const pendingRef = useRef(new Map<string, PendingRequest>());
 
     useEffect(() => {
         const socket = new PartySocket({
             host: PARTYKIT_HOST,
             room,
+            // Identity token - the server derives our stable player ID from it
+            query: { token: getPlayerToken(), v: String(PROTOCOL_VERSION) },
         });
 
         socketRef.current = socket;
+        const pending = pendingRef.current;
 
         socket.addEventListener("open", () => {
             setConnected(true);
             setReconnecting(false);
             setError(null);
-            setConnectionId(socket.id || null);
         });
 
         socket.addEventListener("close", () => {
             setConnected(false);
             setReconnecting(true); // PartySocket auto-reconnects
+            // The room sends a full state when we're back - patches before it don't apply
+            stateVersionRef.current = null;
+            resyncingRef.current = false;
+            rejectPending(pending, new RequestError("disconnected", "Lost connection to the table"));
         });
 
         socket.addEventListener("error", () => {
             setError("Connection error");
         });
 
+        const receiveState = (state: PublicGameState, version: number) => {
+            // Clear payouts when transitioning from payout to betting (new round)
+            if (prevPhaseRef.current === "payout" && state.phase === "betting") {
+                setLastPayout(null);
+                setSeatPayouts({});
+                setSideBetPayouts({});
+                setBetBehindWinnings({});
+            }
+            // Clear seat payouts when starting dealing phase
+            if (prevPhaseRef.current !== "dealing" && state.phase === "dealing") {
+                setSeatPayouts({});
+            }
+            recordObservedCards(observedCardsRef.current, state);
+            prevPhaseRef.current = state.phase;
+            gameStateRef.current = state;
+            stateVersionRef.current = version;
+            setGameState(state);
+        };
+
+        // Ask for the whole state again - once, until it arrives
+        const resync = () => {
+            if (resyncingRef.current) return;
+            resyncingRef.current = true;
+            sendRequest(socket, pending, { type: "request_state" }).catch(() => {
+                resyncingRef.current = false;
+            });
+        };
+
         socket.addEventListener("message", (event) => {
             try {
-                const msg: ServerMessage = JSON.parse(event.data);
+                const parsed = parseServerMessage(event.data);
+                if (!parsed.ok) {
+                    console.error("Dropped invalid message:", parsed.error);
+                    return;
+                }
+                const msg = parsed.message;
 
                 switch (msg.type) {
+                    case "session":
+                        playerIdRef.current = msg.playerId;
+                        setPlayerId(msg.playerId);
+                        sendRequest(socket, pending, { type: "set_client_seed", seed: clientSeedRef.current }).catch(() => {});
+                        if (indexPlaysRef.current) {
+                            sendRequest(socket, pending, { type: "set_index_plays", enabled: true }).catch(() => {});
+                        }
+                        if (countTrainerRef.current) {
+                            sendRequest(socket, pending, { type: "set_count_trainer", system: countTrainerRef.current }).catch(() => {});
+                        }
+                        break;
                     case "state_update":
-                        // Clear payouts when transitioning from payout to betting (new round)
-                        if (prevPhaseRef.current === "payout" && msg.state.phase === "betting") {
-                            setLastPayout(null);
-                            setSeatPayouts({});
+                        resyncingRef.current = false;
+                        receiveState(msg.state, msg.version);
+                        break;
+                    case "state_patch": {
+                        // Until the first full state arrives there is nothing to patch - it's on its way
+                        const base = gameStateRef.current;
+                        if (!base || stateVersionRef.current === null || resyncingRef.current) break;
+                        if (msg.version !== stateVersionRef.current + 1) {
+                            resync();
+                            break;
                         }
-                        // Clear seat payouts when starting dealing phase
-                        if (prevPhaseRef.current !== "dealing" && msg.state.phase === "dealing") {
-                            setSeatPayouts({});
+                        let patched: PublicGameState;
+                        try {
+                            patched = applyStatePatch(base, msg.ops);
+                        } catch {
+                            resync();
+                            break;
                         }
-                        prevPhaseRef.current = msg.state.phase;
-                        gameStateRef.current = msg.state;
-                        setGameState(msg.state);
+                        receiveState(patched, msg.version);
                         break;
+                    }
                     case "error":
+                        if (msg.code === "protocol_mismatch") {
+                            // Stop reconnecting - every attempt would be turned away the same way
+                            setOutdated(true);
+                            socket.close();
+                            break;
+                        }
                         setError(msg.message);
                         setTimeout(() => setError(null), 3000);
                         break;
+                    case "ack":
+                    case "rejected": {
+                        const request = pending.get(msg.requestId);
+                        if (!request) break;
+                        pending.delete(msg.requestId);
+                        clearTimeout(request.timeout);
+                        if (msg.type === "ack") {
+                            request.resolve();
+                        } else {
+                            request.reject(new RequestError(msg.code, msg.message));
+                        }
+                        break;
+                    }
                     case "player_action":
                         setLastAction({
                             playerId: msg.playerId,
                             action: msg.action,
                             seatIndex: msg.seatIndex,
                             isOptimal: msg.isOptimal,
+                            indexPlay: msg.indexPlay,
                         });
                         break;
                     case "card_dealt":
@@ -118,9 +301,8 @@ export function usePartySocket(room: string = "main") {
                             }
                         }));
 
-                        // Find current player's seat index from the latest game state
-                        const currentSeatIndex = gameStateRef.current?.seats.findIndex(s => s.playerId === socket.id) ?? -1;
-                        const isMyPayout = currentSeatIndex !== -1 && msg.seatIndex === currentSeatIndex;
+                        // Any of the current player's spots, from the latest game state
+                        const isMyPayout = gameStateRef.current?.seats[msg.seatIndex]?.playerId === playerIdRef.current;
 
                         // Only process sounds and lastPayout for the current player
                         if (isMyPayout) {
@@ -156,9 +338,8 @@ export function usePartySocket(room: string = "main") {
                         break;
                     }
                     case "insurance_payout": {
-                        // Find current player's seat index from the latest game state
-                        const currentSeatIdxIns = gameStateRef.current?.seats.findIndex(s => s.playerId === socket.id) ?? -1;
-                        const isMyInsurancePayout = currentSeatIdxIns !== -1 && msg.seatIndex === currentSeatIdxIns;
+                        // Any of the current player's spots, from the latest game state
+                        const isMyInsurancePayout = gameStateRef.current?.seats[msg.seatIndex]?.playerId === playerIdRef.current;
 
                         // Only show insurance payout animation and play sounds for the current player
                         if (isMyInsurancePayout) {
@@ -174,12 +355,65 @@ export function usePartySocket(room: string = "main") {
                         }
                         break;
                     }
+                    case "side_bet_payout": {
+                        const { seatIndex, kind, result, amount } = msg;
+                        setSideBetPayouts(prev => ({
+                            ...prev,
+                            [seatIndex]: [...(prev[seatIndex] ?? []), { kind, result, amount }],
+                        }));
+                        const isMine = gameStateRef.current?.seats[seatIndex]?.playerId === playerIdRef.current;
+                        if (isMine && result) {
+                            sounds?.play("win");
+                            sounds?.play("chipCollect");
+                        }
+                        break;
+                    }
+                    case "bet_behind_payout": {
+                        if (msg.playerId !== playerIdRef.current) break;
+                        const { seatIndex, amount } = msg;
+                        setBetBehindWinnings(prev => ({ ...prev, [seatIndex]: (prev[seatIndex] ?? 0) + amount }));
+                        if (amount > 0) {
+                            sounds?.play("chipCollect");
+                        }
+                        break;
+                    }
                     case "leaderboard":
+                        setLeaderboardNames(msg.names);
                         setLeaderboard(msg.balances);
                         setLeaderboardAdherence(msg.adherence);
+                        setLeaderboardInsuranceAdherence(msg.insuranceAdherence);
                         setLeaderboardAtmUsage(msg.atmUsage);
                         setLeaderboardBlackjacks(msg.blackjackCounts);
                         break;
+                    case "legacy_record":
+                        setLegacyRecord({ name: msg.name, chips: msg.chips });
+                        break;
+                    case "legacy_claimed":
+                        setLegacyRecord(null);
+                        break;
+                    case "hand_history":
+                        // A request without `before` is a refresh - anything else is the next page
+                        setHandHistory(prev => msg.before === undefined ? msg.rounds : [...prev, ...msg.rounds]);
+                        setHandHistoryHasMore(msg.hasMore);
+                        break;
+                    case "strategy_report":
+                        setStrategyDecisions(msg.decisions);
+                        break;
+                    case "count_quiz":
+                        setCountQuiz({ system: msg.system, askTrueCount: msg.askTrueCount });
+                        setCountResult(null);
+                        break;
+                    case "count_result":
+                        setCountQuiz(null);
+                        setCountResult(msg.quiz);
+                        setCountQuizzes(msg.quizzes);
+                        break;
+                    case "count_history":
+                        setCountQuizzes(msg.quizzes);
+                        break;
+                    case "chat_history":
+                        setChatMessages(msg.chatMessages);
+                        break;
                     case "chat_broadcast":
                         setChatMessages(prev => {
                             const newMessages = [...prev, msg.chatMessage];
@@ -210,77 +444,179 @@ export function usePartySocket(room: string = "main") {
 
         return () => {
             socket.close();
+            rejectPending(pending, new RequestError("disconnected", "Left the table"));
         };
     }, [room]);
 
-    const send = useCallback((message: ClientMessage) => {
-        if (socketRef.current?.readyState === WebSocket.OPEN) {
-            socketRef.current.send(JSON.stringify(message));
-        }
+    // Every action returns a promise for the table's answer. A refusal also shows in the error
+    // toast, so callers only need to catch it when they have something to undo.
+    const send = useCallback((message: ClientMessage): Promise<void> => {
+        const request = sendRequest(socketRef.current, pendingRef.current, message);
+        request.catch((e: RequestError) => {
+            setError(e.message);
+            setTimeout(() => setError(null), 3000);
+        });
+        return request;
     }, []);
 
     const joinSeat = useCallback((seatIndex: number, displayName: string) => {
-        send({ type: "join_seat", seatIndex, displayName });
+        return send({ type: "join_seat", seatIndex, displayName });
     }, [send]);
 
-    const leaveSeat = useCallback(() => {
-        send({ type: "leave_seat" });
+    // Leaves every spot unless one is named
+    const leaveSeat = useCallback((seatIndex?: number) => {
+        return send({ type: "leave_seat", seatIndex });
     }, [send]);
 
     const spectate = useCallback((displayName: string) => {
-        send({ type: "spectate", displayName });
+        return send({ type: "spectate", displayName });
     }, [send]);
 
-    const placeBet = useCallback((amount: number) => {
-        send({ type: "place_bet", amount });
+    const placeBet = useCallback((amount: number, seatIndex?: number) => {
+        return send({ type: "place_bet", amount, seatIndex });
     }, [send]);
 
-    const clearBet = useCallback(() => {
-        send({ type: "clear_bet" });
+    const clearBet = useCallback((seatIndex?: number) => {
+        return send({ type: "clear_bet", seatIndex });
     }, [send]);
 
     const hit = useCallback(() => {
-        send({ type: "hit" });
+        return send({ type: "hit" });
     }, [send]);
 
     const stand = useCallback(() => {
-        send({ type: "stand" });
+        return send({ type: "stand" });
     }, [send]);
 
     const double = useCallback(() => {
-        send({ type: "double" });
+        return send({ type: "double" });
     }, [send]);
 
     const split = useCallback(() => {
-        send({ type: "split" });
+        return send({ type: "split" });
+    }, [send]);
+
+    const insurance = useCallback((accept: boolean, seatIndex?: number) => {
+        return send({ type: "insurance", accept, seatIndex });
+    }, [send]);
+
+    const playOn = useCallback((seatIndex?: number) => {
+        return send({ type: "play_on", seatIndex });
+    }, [send]);
+
+    // Decisions made ahead of time - null takes one back
+    const queueAction = useCallback((action: QueuedAction | null, seatIndex?: number) => {
+        return send({ type: "queue_action", action, seatIndex });
+    }, [send]);
+
+    const queueInsurance = useCallback((accept: boolean | null, seatIndex?: number) => {
+        return send({ type: "queue_insurance", accept, seatIndex });
+    }, [send]);
+
+    const setAutoplay = useCallback((settings: AutoplaySettings | null) => {
+        return send({ type: "set_autoplay", settings });
+    }, [send]);
+
+    const placeSideBet = useCallback((kind: SideBetKind, amount: number, seatIndex?: number) => {
+        return send({ type: "place_side_bet", kind, amount, seatIndex });
     }, [send]);
 
-    const insurance = useCallback((accept: boolean) => {
-        send({ type: "insurance", accept });
+    const betBehind = useCallback((seatIndex: number, amount: number, displayName: string) => {
+        return send({ type: "bet_behind", seatIndex, amount, displayName });
+    }, [send]);
+
+    const clearBetBehind = useCallback((seatIndex: number) => {
+        return send({ type: "clear_bet_behind", seatIndex });
     }, [send]);
 
     const surrender = useCallback(() => {
-        send({ type: "surrender" });
+        return send({ type: "surrender" });
     }, [send]);
 
     const requestLeaderboard = useCallback(() => {
-        send({ type: "request_leaderboard" });
+        return send({ type: "request_leaderboard" });
     }, [send]);
 
     const sendChat = useCallback((message: string) => {
-        send({ type: "chat_message", message });
+        return send({ type: "chat_message", message });
     }, [send]);
 
     const sendReaction = useCallback((messageId: string, emoji: string) => {
-        send({ type: "chat_reaction", messageId, emoji });
+        return send({ type: "chat_reaction", messageId, emoji });
     }, [send]);
 
     const sendQuickEmote = useCallback((emoji: string) => {
-        send({ type: "quick_emote", emoji });
+        return send({ type: "quick_emote", emoji });
     }, [send]);
 
     const useAtm = useCallback(() => {
-        send({ type: "use_atm" });
+        return send({ type: "use_atm" });
+    }, [send]);
+
+    const setClientSeed = useCallback((seed: string) => {
+        clientSeedRef.current = seed;
+        setClientSeedState(seed);
+        return send({ type: "set_client_seed", seed });
+    }, [send]);
+
+    const setIndexPlays = useCallback((enabled: boolean) => {
+        indexPlaysRef.current = enabled;
+        setIndexPlaysState(enabled);
+        try {
+            localStorage.setItem(INDEX_PLAYS_KEY, enabled ? "1" : "0");
+        } catch {
+            // Private browsing - the setting lasts for the tab
+        }
+        return send({ type: "set_index_plays", enabled });
+    }, [send]);
+
+    const setCountTrainer = useCallback((system: CountingSystem | null) => {
+        countTrainerRef.current = system;
+        setCountTrainerState(system);
+        setCountQuiz(null);
+        setCountResult(null);
+        try {
+            if (system) {
+                localStorage.setItem(COUNT_TRAINER_KEY, system);
+            } else {
+                localStorage.removeItem(COUNT_TRAINER_KEY);
+            }
+        } catch {
+            // Private browsing - the setting lasts for the tab
+        }
+        return send({ type: "set_count_trainer", system });
+    }, [send]);
+
+    const answerCountQuiz = useCallback((runningCount: number, trueCount?: number) => {
+        return send({ type: "count_answer", runningCount, trueCount });
+    }, [send]);
+
+    // Skipping a quiz, or closing its result
+    const dismissCountQuiz = useCallback(() => {
+        setCountQuiz(null);
+        setCountResult(null);
+    }, []);
+
+    const getObservedCards = useCallback((shoeNumber: number) => {
+        return observedCardsRef.current[shoeNumber] ?? {};
+    }, []);
+
+    const claimLegacy = useCallback((name: string) => {
+        return send({ type: "claim_legacy", name });
+    }, [send]);
+
+    const dismissLegacyRecord = useCallback(() => {
+        setLegacyRecord(null);
+    }, []);
+
+    const requestHandHistory = useCallback((before?: number) => {
+        return send({ type: "request_hand_history", before });
+    }, [send]);
+
+    // Cleared while the fresh report is on its way
+    const requestStrategyReport = useCallback(() => {
+        setStrategyDecisions(null);
+        return send({ type: "request_strategy_report" });
     }, [send]);
 
     return {
@@ -288,12 +624,17 @@ export function usePartySocket(room: string = "main") {
         connected,
         reconnecting,
         error,
+        outdated,
         lastAction,
         lastPayout,
         seatPayouts,
+        sideBetPayouts,
+        betBehindWinnings,
         lastInsurancePayout,
+        leaderboardNames,
         leaderboard,
         leaderboardAdherence,
+        leaderboardInsuranceAdherence,
         leaderboardAtmUsage,
         leaderboardBlackjacks,
         chatMessages,
@@ -307,12 +648,63 @@ export function usePartySocket(room: string = "main") {
         double,
         split,
         insurance,
+        playOn,
+        queueAction,
+        queueInsurance,
+        setAutoplay,
+        placeSideBet,
+        betBehind,
+        clearBetBehind,
         surrender,
         requestLeaderboard,
         sendChat,
         sendReaction,
         sendQuickEmote,
         useAtm,
-        connectionId,
+        legacyRecord,
+        claimLegacy,
+        dismissLegacyRecord,
+        clientSeed,
+        setClientSeed,
+        indexPlays,
+        setIndexPlays,
+        countTrainer,
+        setCountTrainer,
+        countQuiz,
+        countResult,
+        countQuizzes,
+        answerCountQuiz,
+        dismissCountQuiz,
+        getObservedCards,
+        handHistory,
+        handHistoryHasMore,
+        requestHandHistory,
+        strategyDecisions,
+        requestStrategyReport,
+        playerId,
     };
 }
+
+// Remember every face-up card by its position in the shoe, for the fairness verifier.
+// Only the current and previous shoes are kept - older ones can no longer be checked.
+function recordObservedCards(observed: Record<number, Record<number, Card>>, state: PublicGameState) {
+    const shoeNumber = state.shoeFairness?.shoeNumber;
+    if (shoeNumber === undefined) return;
+
+    const cards = [
+        ...state.dealerHand,
+        ...state.seats.flatMap((seat) => seat.hands.flatMap((hand) => hand.cards)),
+    ];
+    const shoe = (observed[shoeNumber] ??= {});
+    for (const card of cards) {
+        if (isFaceUp(card) && card.shoeIndex !== undefined) {
+            shoe[card.shoeIndex] = card;
+        }
+    }
+
+    for (const key of Object.keys(observed)) {
+        if (Number(key) < shoeNumber - 1) {
+            delete observed[Number(key)];
+        }
+    }
+}
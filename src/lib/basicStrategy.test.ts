@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { Card, Hand, Rank, normalizeTableRules } from "./gameTypes";
+import { getChartPosition, getOptimalAction, getStrategyChart } from "./basicStrategy";
+
+function card(rank: Rank): Card {
+    return { rank, suit: "spades", faceUp: true };
+}
+
+function hand(...ranks: Rank[]): Hand {
+    return { cards: ranks.map(card), bet: 100, status: "playing", isDoubled: false, isSplit: false };
+}
+
+function cell(section: "hard" | "soft" | "pairs", label: string, upcard: string, rules = normalizeTableRules()) {
+    const chart = getStrategyChart(rules);
+    const row = chart[section].find((r) => r.label === label)!;
+    return row.cells[["2", "3", "4", "5", "6", "7", "8", "9", "10", "A"].indexOf(upcard)];
+}
+
+describe("basic strategy", () => {
+    it("doubles 11 against an ace only when the dealer hits soft 17", () => {
+        expect(cell("hard", "11", "A")).toBe("H");
+        expect(cell("hard", "11", "A", normalizeTableRules({ dealerHitsSoft17: true }))).toBe("D");
+    });
+
+    it("adds the H17 surrenders", () => {
+        const h17 = normalizeTableRules({ dealerHitsSoft17: true });
+        expect(cell("hard", "15", "A", h17)).toBe("Rh");
+        expect(cell("hard", "17", "A", h17)).toBe("Rs");
+        expect(cell("pairs", "8,8", "A", h17)).toBe("Rp");
+        expect(cell("hard", "15", "A")).toBe("H");
+    });
+
+    it("drops surrender from the chart when the table has none", () => {
+        const chart = getStrategyChart(normalizeTableRules({ surrender: "none" }));
+        const cells = [...chart.hard, ...chart.soft, ...chart.pairs].flatMap((row) => row.cells);
+        expect(cells.some((c) => c.startsWith("R"))).toBe(false);
+    });
+
+    it("splits small pairs less without double after split", () => {
+        const noDas = normalizeTableRules({ doubleAfterSplit: false });
+        expect(cell("pairs", "2,2", "2")).toBe("P");
+        expect(cell("pairs", "2,2", "2", noDas)).toBe("H");
+        expect(cell("pairs", "2,2", "3")).toBe("P");
+        expect(cell("pairs", "2,2", "3", noDas)).toBe("H");
+        expect(cell("pairs", "2,2", "4", noDas)).toBe("P");
+        // A single deck still splits them against a 3
+        expect(cell("pairs", "2,2", "3", normalizeTableRules({ doubleAfterSplit: false, numDecks: 1 }))).toBe("P");
+        expect(cell("pairs", "4,4", "5", noDas)).toBe("H");
+    });
+
+    it("doubles more with fewer decks", () => {
+        const single = normalizeTableRules({ numDecks: 1 });
+        expect(cell("hard", "8", "6", single)).toBe("D");
+        expect(cell("hard", "9", "2", single)).toBe("D");
+        expect(cell("hard", "9", "2")).toBe("H");
+    });
+
+    it("plays a hand from its chart cell", () => {
+        const upcard = card("6");
+        expect(getOptimalAction(hand("8", "8"), upcard, true, true, true)).toBe("split");
+        expect(getOptimalAction(hand("8", "8"), upcard, true, false, true)).toBe("stand");
+        expect(getOptimalAction(hand("A", "7"), upcard, true, false, true)).toBe("double");
+        expect(getOptimalAction(hand("A", "2", "5"), upcard, false, false, false)).toBe("stand");
+        expect(getOptimalAction(hand("10", "6"), card("K"), true, false, false)).toBe("hit");
+        expect(getOptimalAction(hand("10", "6"), card("K"), true, false, true)).toBe("surrender");
+    });
+
+    it("only uses the pair rows while the pair can be split", () => {
+        expect(getChartPosition(hand("8", "8"), card("10"), true)).toEqual({ section: "pairs", rowKey: 8, column: 8 });
+        expect(getChartPosition(hand("8", "8"), card("10"), false)).toEqual({ section: "hard", rowKey: 16, column: 8 });
+        expect(getChartPosition(hand("A", "6"), card("A"), false)).toEqual({ section: "soft", rowKey: 17, column: 9 });
+    });
+});
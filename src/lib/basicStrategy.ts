@@ -1,10 +1,45 @@
-// Basic Strategy Tables for Blackjack
-// Based on standard rules: Dealer stands on all 17s, 6-deck shoe, 3:2 blackjack
+// Basic Strategy for Blackjack - shared by the server (to grade decisions), the simulator
+// and the chart in StrategyModal.
+//
+// The chart is built for the table's rules rather than stored: the multi-deck S17 chart
+// is the starting point, and each rule (H17, double after split, surrender, deck count)
+// changes the handful of cells it is known to change.
 
-import { Card, Hand, calculateHandValue, Rank } from "./gameTypes";
+import { Card, Hand, Rank, TableRules, DEFAULT_TABLE_RULES, calculateHandValue } from "./gameTypes";
 
 export type Action = "hit" | "stand" | "double" | "split" | "surrender";
 
+// H = Hit, S = Stand, D = Double (hit if can't), Ds = Double (stand if can't), P = Split,
+// Rh / Rs / Rp = Surrender (hit / stand / split if can't)
+export type ChartCell = "H" | "S" | "D" | "Ds" | "P" | "Rh" | "Rs" | "Rp";
+
+export type ChartSection = "hard" | "soft" | "pairs";
+
+export interface ChartRow {
+    key: number; // Hard total, soft total or pair card value (11 = aces)
+    label: string;
+    cells: ChartCell[]; // One per dealer upcard, 2 through A
+}
+
+export interface StrategyChart {
+    hard: ChartRow[];
+    soft: ChartRow[];
+    pairs: ChartRow[];
+}
+
+// Where a hand sits on the chart
+export interface ChartPosition {
+    section: ChartSection;
+    rowKey: number;
+    column: number;
+}
+
+export const DEALER_UPCARDS = ["2", "3", "4", "5", "6", "7", "8", "9", "10", "A"];
+
+const HARD_ROWS = [7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18]; // 7 stands for 5-7, 18 for 18+
+const SOFT_ROWS = [13, 14, 15, 16, 17, 18, 19, 20]; // A,2 through A,9
+const PAIR_ROWS = [2, 3, 4, 5, 6, 7, 8, 9, 10, 11];
+
 // Map dealer upcard to column index (2-A = 0-9)
 function getDealerIndex(dealerUpcard: Card): number {
     const rank = dealerUpcard.rank;
@@ -20,116 +55,202 @@ function getRankValue(rank: Rank): number {
     return parseInt(rank);
 }
 
-// Hard totals strategy (rows: 5-21, cols: dealer 2-A)
-// H = Hit, S = Stand, D = Double (hit if can't), Ds = Double (stand if can't), Rh = Surrender (hit if can't)
-const HARD_STRATEGY: Record<number, string[]> = {
-    5: ["H", "H", "H", "H", "H", "H", "H", "H", "H", "H"],
-    6: ["H", "H", "H", "H", "H", "H", "H", "H", "H", "H"],
-    7: ["H", "H", "H", "H", "H", "H", "H", "H", "H", "H"],
-    8: ["H", "H", "H", "H", "H", "H", "H", "H", "H", "H"],
-    9: ["H", "D", "D", "D", "D", "H", "H", "H", "H", "H"],
-    10: ["D", "D", "D", "D", "D", "D", "D", "D", "H", "H"],
-    11: ["D", "D", "D", "D", "D", "D", "D", "D", "D", "D"],
-    12: ["H", "H", "S", "S", "S", "H", "H", "H", "H", "H"],
-    13: ["S", "S", "S", "S", "S", "H", "H", "H", "H", "H"],
-    14: ["S", "S", "S", "S", "S", "H", "H", "H", "H", "H"],
-    15: ["S", "S", "S", "S", "S", "H", "H", "H", "Rh", "H"],
-    16: ["S", "S", "S", "S", "S", "H", "H", "Rh", "Rh", "Rh"],
-    17: ["S", "S", "S", "S", "S", "S", "S", "S", "S", "S"],
-    18: ["S", "S", "S", "S", "S", "S", "S", "S", "S", "S"],
-    19: ["S", "S", "S", "S", "S", "S", "S", "S", "S", "S"],
-    20: ["S", "S", "S", "S", "S", "S", "S", "S", "S", "S"],
-    21: ["S", "S", "S", "S", "S", "S", "S", "S", "S", "S"],
-};
-
-// Soft totals strategy (rows: A,2 through A,9 = 13-20 soft, cols: dealer 2-A)
-const SOFT_STRATEGY: Record<number, string[]> = {
-    13: ["H", "H", "H", "D", "D", "H", "H", "H", "H", "H"],  // A,2
-    14: ["H", "H", "H", "D", "D", "H", "H", "H", "H", "H"],  // A,3
-    15: ["H", "H", "D", "D", "D", "H", "H", "H", "H", "H"],  // A,4
-    16: ["H", "H", "D", "D", "D", "H", "H", "H", "H", "H"],  // A,5
-    17: ["H", "D", "D", "D", "D", "H", "H", "H", "H", "H"],  // A,6
-    18: ["Ds", "Ds", "Ds", "Ds", "Ds", "S", "S", "H", "H", "H"],  // A,7
-    19: ["S", "S", "S", "S", "Ds", "S", "S", "S", "S", "S"],  // A,8
-    20: ["S", "S", "S", "S", "S", "S", "S", "S", "S", "S"],  // A,9
-};
-
-// Pair splitting strategy (rows: pair value, cols: dealer 2-A)
-// Y = Split, N = Don't split, Y/N = Split only if DAS (Double After Split) allowed
-const PAIR_STRATEGY: Record<number, string[]> = {
-    2: ["Y", "Y", "Y", "Y", "Y", "Y", "N", "N", "N", "N"],  // 2,2
-    3: ["Y", "Y", "Y", "Y", "Y", "Y", "N", "N", "N", "N"],  // 3,3
-    4: ["N", "N", "N", "Y", "Y", "N", "N", "N", "N", "N"],  // 4,4
-    5: ["N", "N", "N", "N", "N", "N", "N", "N", "N", "N"],  // 5,5 (treat as 10)
-    6: ["Y", "Y", "Y", "Y", "Y", "N", "N", "N", "N", "N"],  // 6,6
-    7: ["Y", "Y", "Y", "Y", "Y", "Y", "N", "N", "N", "N"],  // 7,7
-    8: ["Y", "Y", "Y", "Y", "Y", "Y", "Y", "Y", "Y", "Y"],  // 8,8
-    9: ["Y", "Y", "Y", "Y", "Y", "N", "Y", "Y", "N", "N"],  // 9,9
-    10: ["N", "N", "N", "N", "N", "N", "N", "N", "N", "N"],  // 10,10
-    11: ["Y", "Y", "Y", "Y", "Y", "Y", "Y", "Y", "Y", "Y"],  // A,A
-};
+// Upcards as values, 2-11 with the ace as 11
+const UPCARD_VALUES = [2, 3, 4, 5, 6, 7, 8, 9, 10, 11];
+
+function between(upcard: number, low: number, high: number): boolean {
+    return upcard >= low && upcard <= high;
+}
+
+function hardCell(total: number, up: number, rules: TableRules): ChartCell {
+    const h17 = rules.dealerHitsSoft17;
+    const decks = rules.numDecks;
+    const surrender = rules.surrender !== "none";
+
+    switch (total) {
+        case 7:
+            return "H";
+        case 8:
+            return decks === 1 && between(up, 5, 6) ? "D" : "H";
+        case 9:
+            return between(up, 3, 6) || (up === 2 && decks <= 2) ? "D" : "H";
+        case 10:
+            return up <= 9 ? "D" : "H";
+        case 11:
+            return up <= 10 || h17 || decks <= 2 ? "D" : "H";
+        case 12:
+            return between(up, 4, 6) ? "S" : "H";
+        case 13:
+        case 14:
+            return up <= 6 ? "S" : "H";
+        case 15:
+            if (up <= 6) return "S";
+            return surrender && (up === 10 || (up === 11 && h17)) ? "Rh" : "H";
+        case 16:
+            if (up <= 6) return "S";
+            return surrender && (up >= 10 || (up === 9 && (decks >= 4 || h17))) ? "Rh" : "H";
+        case 17:
+            return surrender && up === 11 && h17 ? "Rs" : "S";
+        default:
+            return "S";
+    }
+}
+
+function softCell(total: number, up: number, rules: TableRules): ChartCell {
+    const h17 = rules.dealerHitsSoft17;
+    const decks = rules.numDecks;
+
+    switch (total) {
+        case 13: // A,2
+        case 14: // A,3
+            return between(up, 5, 6) || (up === 4 && decks === 1) ? "D" : "H";
+        case 15: // A,4
+        case 16: // A,5
+            return between(up, 4, 6) ? "D" : "H";
+        case 17: // A,6
+            return between(up, 3, 6) || (up === 2 && decks === 1) ? "D" : "H";
+        case 18: // A,7
+            if (between(up, 3, 6) || (up === 2 && h17)) return "Ds";
+            return up >= 9 ? "H" : "S";
+        case 19: // A,8
+            return up === 6 && (h17 || decks === 1) ? "Ds" : "S";
+        default:
+            return "S";
+    }
+}
+
+// Pairs that aren't split are played as the hard (or, for aces, soft) total
+function pairCell(value: number, up: number, rules: TableRules): ChartCell {
+    const das = rules.doubleAfterSplit;
+    const decks = rules.numDecks;
+
+    let split: boolean;
+    switch (value) {
+        case 2:
+            split = das ? between(up, 2, 7) : between(up, decks === 1 ? 3 : 4, 7);
+            break;
+        case 3:
+            split = das ? between(up, 2, decks === 1 ? 8 : 7) : between(up, 4, 7);
+            break;
+        case 4:
+            split = das && between(up, decks === 1 ? 4 : 5, 6);
+            break;
+        case 5:
+        case 10:
+            split = false;
+            break;
+        case 6:
+            split = between(up, das || decks <= 2 ? 2 : 3, das && decks <= 2 ? 7 : 6);
+            break;
+        case 7:
+            split = between(up, 2, das && decks <= 2 ? 8 : 7);
+            break;
+        case 8:
+            if (up === 11 && rules.dealerHitsSoft17 && rules.surrender !== "none") return "Rp";
+            split = true;
+            break;
+        case 9:
+            split = up <= 9 && up !== 7;
+            break;
+        default:
+            split = true; // Aces
+    }
+
+    if (split) return "P";
+    return hardCell(Math.min(Math.max(value * 2, 7), 18), up, rules);
+}
+
+function pairLabel(value: number): string {
+    const rank = value === 11 ? "A" : String(value);
+    return `${rank},${rank}`;
+}
+
+const chartCache = new Map<string, StrategyChart>();
+
+// The chart for a rule set - only the deck count, H17, DAS and surrender change it
+export function getStrategyChart(rules: TableRules = DEFAULT_TABLE_RULES): StrategyChart {
+    const key = `${rules.numDecks}:${rules.dealerHitsSoft17}:${rules.doubleAfterSplit}:${rules.surrender !== "none"}`;
+    const cached = chartCache.get(key);
+    if (cached) return cached;
+
+    const chart: StrategyChart = {
+        hard: HARD_ROWS.map((total) => ({
+            key: total,
+            label: total === 7 ? "5-7" : total === 18 ? "18+" : String(total),
+            cells: UPCARD_VALUES.map((up) => hardCell(total, up, rules)),
+        })),
+        soft: SOFT_ROWS.map((total) => ({
+            key: total,
+            label: `A,${total - 11}`,
+            cells: UPCARD_VALUES.map((up) => softCell(total, up, rules)),
+        })),
+        pairs: PAIR_ROWS.map((value) => ({
+            key: value,
+            label: pairLabel(value),
+            cells: UPCARD_VALUES.map((up) => pairCell(value, up, rules)),
+        })),
+    };
+    chartCache.set(key, chart);
+    return chart;
+}
+
+/**
+ * Finds the chart cell that covers a hand. Pairs use the pair rows only while they
+ * can still be split; soft 12 (aces that can't be split) is not on the chart.
+ */
+export function getChartPosition(hand: Hand, dealerUpcard: Card, canSplit: boolean): ChartPosition | null {
+    const cards = hand.cards;
+    const column = getDealerIndex(dealerUpcard);
+
+    if (cards.length === 2 && canSplit && getRankValue(cards[0].rank) === getRankValue(cards[1].rank)) {
+        return { section: "pairs", rowKey: getRankValue(cards[0].rank), column };
+    }
+
+    const { value, isSoft } = calculateHandValue(cards);
+    if (isSoft && value >= 13 && value <= 20) {
+        return { section: "soft", rowKey: value, column };
+    }
+    if (isSoft && value === 12) return null;
+
+    return { section: "hard", rowKey: Math.min(Math.max(value, 7), 18), column };
+}
+
+export function getChartCell(chart: StrategyChart, position: ChartPosition): ChartCell | undefined {
+    return chart[position.section].find((row) => row.key === position.rowKey)?.cells[position.column];
+}
 
 /**
- * Gets the optimal action according to basic strategy
+ * Gets the optimal action according to basic strategy for the table's rules
  */
 export function getOptimalAction(
     hand: Hand,
     dealerUpcard: Card,
     canDouble: boolean,
     canSplit: boolean,
-    canSurrender: boolean
+    canSurrender: boolean,
+    rules: TableRules = DEFAULT_TABLE_RULES
 ): Action {
-    const cards = hand.cards;
-    const { value, isSoft } = calculateHandValue(cards);
-    const dealerIdx = getDealerIndex(dealerUpcard);
-
-    // Check for pair splitting first
-    if (cards.length === 2 && canSplit) {
-        const rank1 = cards[0].rank;
-        const rank2 = cards[1].rank;
-
-        // Check if it's a valid pair
-        const val1 = getRankValue(rank1);
-        const val2 = getRankValue(rank2);
-
-        if (val1 === val2 || (rank1 === rank2)) {
-            const pairValue = rank1 === "A" ? 11 : val1;
-            const pairRow = PAIR_STRATEGY[pairValue];
-            if (pairRow && pairRow[dealerIdx] === "Y") {
-                return "split";
-            }
-        }
-    }
-
-    // Soft hands (contain Ace counted as 11)
-    if (isSoft && value >= 13 && value <= 20) {
-        const softRow = SOFT_STRATEGY[value];
-        if (softRow) {
-            const action = softRow[dealerIdx];
-            if (action === "D" && canDouble) return "double";
-            if (action === "D" && !canDouble) return "hit";
-            if (action === "Ds" && canDouble) return "double";
-            if (action === "Ds" && !canDouble) return "stand";
-            if (action === "H") return "hit";
-            if (action === "S") return "stand";
-        }
-    }
+    const position = getChartPosition(hand, dealerUpcard, canSplit);
+    if (!position) return "hit"; // Soft 12
 
-    // Hard hands
-    const hardValue = Math.min(Math.max(value, 5), 21);
-    const hardRow = HARD_STRATEGY[hardValue];
-    if (hardRow) {
-        const action = hardRow[dealerIdx];
-        if (action === "D" && canDouble) return "double";
-        if (action === "D" && !canDouble) return "hit";
-        if (action === "Rh" && canSurrender) return "surrender";
-        if (action === "Rh" && !canSurrender) return "hit";
-        if (action === "H") return "hit";
-        if (action === "S") return "stand";
+    switch (getChartCell(getStrategyChart(rules), position)) {
+        case "P":
+            return "split";
+        case "D":
+            return canDouble ? "double" : "hit";
+        case "Ds":
+            return canDouble ? "double" : "stand";
+        case "Rh":
+            return canSurrender ? "surrender" : "hit";
+        case "Rs":
+            return canSurrender ? "surrender" : "stand";
+        case "Rp":
+            return canSurrender ? "surrender" : "split";
+        case "H":
+            return "hit";
+        default:
+            return "stand";
     }
-
-    // Default fallback
-    return value >= 17 ? "stand" : "hit";
 }
 
 /**
@@ -141,8 +262,9 @@ export function isOptimalAction(
     dealerUpcard: Card,
     canDouble: boolean,
     canSplit: boolean,
-    canSurrender: boolean
+    canSurrender: boolean,
+    rules: TableRules = DEFAULT_TABLE_RULES
 ): boolean {
-    const optimal = getOptimalAction(hand, dealerUpcard, canDouble, canSplit, canSurrender);
+    const optimal = getOptimalAction(hand, dealerUpcard, canDouble, canSplit, canSurrender, rules);
     return playerAction === optimal;
 }
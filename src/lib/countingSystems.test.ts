@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { CountQuizRecord, createDeck } from "./gameTypes";
+import {
+    COUNTING_SYSTEMS,
+    COUNTING_SYSTEM_IDS,
+    createRunningCounts,
+    describeTags,
+    getCountAccuracy,
+    getCountTag,
+    getSystemTrueCount,
+} from "./countingSystems";
+
+function quiz(runningCount: number, runningAnswer: number, trueCount: number | null, trueAnswer: number | null): CountQuizRecord {
+    return { at: 0, system: "hi_lo", runningCount, runningAnswer, trueCount, trueAnswer };
+}
+
+describe("counting systems", () => {
+    it("counts a balanced system back to zero over a deck", () => {
+        for (const system of COUNTING_SYSTEM_IDS.filter((s) => COUNTING_SYSTEMS[s].balanced)) {
+            const total = createDeck().reduce((count, card) => count + getCountTag(system, card.rank), 0);
+            expect(total).toBe(0);
+        }
+    });
+
+    it("brings KO from its starting count to +4 by the end of the shoe", () => {
+        const start = createRunningCounts(6).ko;
+        const shoe = Array.from({ length: 6 }, createDeck).flat();
+        expect(start).toBe(-20);
+        expect(shoe.reduce((count, card) => count + getCountTag("ko", card.rank), start)).toBe(4);
+    });
+
+    it("reads a tag table as runs of ranks", () => {
+        expect(describeTags("hi_lo")).toEqual([
+            { ranks: "2-6", tag: 1 },
+            { ranks: "7-9", tag: 0 },
+            { ranks: "10-A", tag: -1 },
+        ]);
+    });
+
+    it("asks for true counts to the nearest half point, with no fewer than half a deck left", () => {
+        // +5 over 1.5 decks is 3.33
+        expect(getSystemTrueCount("hi_lo", 5, 78)).toBe(3.5);
+        // 13 cards left still divide as half a deck
+        expect(getSystemTrueCount("zen", 3, 13)).toBe(6);
+        expect(getSystemTrueCount("ko", 3, 13)).toBeNull();
+    });
+
+    it("takes true counts within half a point and skips them for unbalanced counts", () => {
+        expect(getCountAccuracy([
+            quiz(4, 4, 1.6, 2),
+            quiz(4, 5, 1.6, 1),
+            quiz(-3, -3, null, null),
+        ])).toEqual({ quizzes: 3, runningCorrect: 2, trueQuizzes: 2, trueCorrect: 1 });
+    });
+});
@@ -0,0 +1,107 @@
+// Card-counting systems - each is a tag table (what every rank adds to the running count)
+// and where the count starts. The engine keeps a running count for all of them, so the
+// counting trainer can quiz a player in whichever one they are learning.
+
+import { CountQuizRecord, CountingSystem, Rank } from "./gameTypes";
+import { getTrueCount } from "./indexPlays";
+
+export interface CountingSystemInfo {
+    name: string;
+    // Tags for 2, 3, 4, 5, 6, 7, 8, 9, ten-valued cards and the ace
+    tags: [number, number, number, number, number, number, number, number, number, number];
+    balanced: boolean; // Sums to zero over a deck - only balanced counts are turned into a true count
+}
+
+export const COUNTING_SYSTEMS: Record<CountingSystem, CountingSystemInfo> = {
+    hi_lo: { name: "Hi-Lo", tags: [1, 1, 1, 1, 1, 0, 0, 0, -1, -1], balanced: true },
+    ko: { name: "KO", tags: [1, 1, 1, 1, 1, 1, 0, 0, -1, -1], balanced: false },
+    hi_opt_1: { name: "Hi-Opt I", tags: [0, 1, 1, 1, 1, 0, 0, 0, -1, 0], balanced: true },
+    omega_2: { name: "Omega II", tags: [1, 1, 2, 2, 2, 1, 0, -1, -2, 0], balanced: true },
+    zen: { name: "Zen", tags: [1, 1, 2, 2, 2, 1, 0, 0, -2, -1], balanced: true },
+};
+
+export const COUNTING_SYSTEM_IDS = Object.keys(COUNTING_SYSTEMS) as CountingSystem[];
+
+export function getCountTag(system: CountingSystem, rank: Rank): number {
+    const tags = COUNTING_SYSTEMS[system].tags;
+    if (rank === "A") return tags[9];
+    if (rank === "10" || rank === "J" || rank === "Q" || rank === "K") return tags[8];
+    return tags[Number(rank) - 2];
+}
+
+const TAG_LABELS = ["2", "3", "4", "5", "6", "7", "8", "9", "10", "A"];
+
+// The tag table as runs of ranks - Hi-Lo reads "2-6: +1, 7-9: 0, 10-A: -1"
+export function describeTags(system: CountingSystem): { ranks: string; tag: number }[] {
+    const tags = COUNTING_SYSTEMS[system].tags;
+    const runs: { from: number; to: number; tag: number }[] = [];
+    tags.forEach((tag, index) => {
+        const last = runs[runs.length - 1];
+        if (last && last.tag === tag) {
+            last.to = index;
+        } else {
+            runs.push({ from: index, to: index, tag });
+        }
+    });
+    return runs.map(({ from, to, tag }) => ({
+        ranks: from === to ? TAG_LABELS[from] : `${TAG_LABELS[from]}-${TAG_LABELS[to]}`,
+        tag,
+    }));
+}
+
+// KO starts below zero by four a deck past the first, so its count reaches the key count
+// of +4 by the end of the shoe without converting to a true count
+export function getInitialRunningCount(system: CountingSystem, numDecks: number): number {
+    return system === "ko" ? -4 * (numDecks - 1) : 0;
+}
+
+export function createRunningCounts(numDecks: number): Record<CountingSystem, number> {
+    return Object.fromEntries(
+        COUNTING_SYSTEM_IDS.map((system) => [system, getInitialRunningCount(system, numDecks)])
+    ) as Record<CountingSystem, number>;
+}
+
+// Quizzes take true counts to the nearest half point - the step the answer box moves in
+export function roundTrueCount(trueCount: number): number {
+    return Math.round(trueCount * 2) / 2;
+}
+
+// The true count a quiz asks for, or null for an unbalanced count
+export function getSystemTrueCount(system: CountingSystem, runningCount: number, cardsRemaining: number): number | null {
+    return COUNTING_SYSTEMS[system].balanced ? roundTrueCount(getTrueCount(runningCount, cardsRemaining)) : null;
+}
+
+export const COUNT_QUIZ_INTERVAL = 3; // Rounds between quizzes for a trainee
+
+// A true count answer is right within half a point - nobody divides by the exact decks left
+export const TRUE_COUNT_TOLERANCE = 0.5;
+
+export function isRunningCountCorrect(quiz: CountQuizRecord): boolean {
+    return quiz.runningAnswer === quiz.runningCount;
+}
+
+export function isTrueCountCorrect(quiz: CountQuizRecord): boolean | null {
+    if (quiz.trueCount === null) return null;
+    return quiz.trueAnswer !== null && Math.abs(quiz.trueAnswer - quiz.trueCount) <= TRUE_COUNT_TOLERANCE;
+}
+
+export interface CountAccuracy {
+    quizzes: number;
+    runningCorrect: number;
+    trueQuizzes: number; // Quizzes that asked for a true count
+    trueCorrect: number;
+}
+
+// Accuracy over a run of quizzes - the trainer shows it for all of them and for the latest few
+export function getCountAccuracy(quizzes: CountQuizRecord[]): CountAccuracy {
+    const accuracy: CountAccuracy = { quizzes: quizzes.length, runningCorrect: 0, trueQuizzes: 0, trueCorrect: 0 };
+    for (const quiz of quizzes) {
+        if (isRunningCountCorrect(quiz)) accuracy.runningCorrect++;
+        const trueCorrect = isTrueCountCorrect(quiz);
+        if (trueCorrect !== null) {
+            accuracy.trueQuizzes++;
+            if (trueCorrect) accuracy.trueCorrect++;
+        }
+    }
+    return accuracy;
+}
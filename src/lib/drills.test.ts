@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { Card, DrillHand, DrillKind, Hand, Rank, normalizeTableRules } from "./gameTypes";
+import { getChartPosition } from "./basicStrategy";
+import { DRILLS, dealDrillHand, explainDrillAnswer, getDrillAnswer, getDrillSpots, isDrillAvailable } from "./drills";
+
+function card(rank: Rank): Card {
+    return { rank, suit: "spades", faceUp: true };
+}
+
+// A fixed sequence, so every run deals the same hands
+function seededRandom(seed: number): () => number {
+    return () => {
+        seed = (seed * 16807) % 2147483647;
+        return (seed - 1) / 2147483646;
+    };
+}
+
+describe("drills", () => {
+    const rules = normalizeTableRules({});
+
+    it("deals every hand on one of the drill's chart cells", () => {
+        const random = seededRandom(42);
+        for (const kind of Object.keys(DRILLS) as DrillKind[]) {
+            const spots = getDrillSpots(kind);
+            for (let i = 0; i < 200; i++) {
+                const dealt = dealDrillHand(kind, rules, random);
+                const hand: Hand = { cards: dealt.cards, bet: 0, status: "playing", isDoubled: false, isSplit: false };
+                expect(spots).toContainEqual(getChartPosition(hand, dealt.upcard, dealt.canSplit));
+            }
+        }
+    });
+
+    it("only offers surrender spots at tables that allow surrender", () => {
+        expect(isDrillAvailable("surrender", normalizeTableRules({ surrender: "none" }))).toBe(false);
+        expect(isDrillAvailable("surrender", rules)).toBe(true);
+        expect(isDrillAvailable("stiff_hands", normalizeTableRules({ surrender: "none" }))).toBe(true);
+    });
+
+    it("explains the chart's play in one line", () => {
+        const drillHand: DrillHand = {
+            cards: [card("10"), card("6")],
+            upcard: card("5"),
+            canDouble: true,
+            canSplit: false,
+            canSurrender: true,
+        };
+
+        expect(getDrillAnswer(drillHand, rules)).toBe("stand");
+        expect(explainDrillAnswer(drillHand, rules)).toBe("Stand: the dealer's 5 busts about 42% of the time - don't risk busting first.");
+    });
+});
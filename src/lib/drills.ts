@@ -0,0 +1,169 @@
+// Practice drills - which hands each drill deals, and why the chart plays them the way it
+// does. The drill room (party/drill.ts) deals and grades; the client shows the labels.
+
+import {
+    Card,
+    DrillHand,
+    DrillKind,
+    Hand,
+    PlayAction,
+    Rank,
+    Suit,
+    TableRules,
+    calculateHandValue,
+    canDouble,
+    canSplit,
+    canSurrender,
+} from "./gameTypes";
+import { ChartPosition, DEALER_UPCARDS, getChartPosition, getOptimalAction } from "./basicStrategy";
+
+export interface DrillInfo {
+    label: string;
+    description: string;
+}
+
+export const DRILLS: Record<DrillKind, DrillInfo> = {
+    soft_doubles: { label: "Soft doubles", description: "A,2 through A,8 - when to double, stand or hit" },
+    pair_splits: { label: "Pair splits", description: "Every pair against every upcard" },
+    surrender: { label: "Surrender spots", description: "14 to 17 against 9, 10 and ace" },
+    stiff_hands: { label: "Stiff hands", description: "12 to 16 - stand and let the dealer bust, or hit" },
+};
+
+const SUITS: Suit[] = ["hearts", "diamonds", "clubs", "spades"];
+const TEN_RANKS: Rank[] = ["10", "J", "Q", "K"];
+const ALL_COLUMNS = DEALER_UPCARDS.map((_, column) => column);
+
+function range(from: number, to: number): number[] {
+    return Array.from({ length: to - from + 1 }, (_, i) => from + i);
+}
+
+function spotsFor(section: ChartPosition["section"], rowKeys: number[], columns: number[]): ChartPosition[] {
+    return rowKeys.flatMap((rowKey) => columns.map((column) => ({ section, rowKey, column })));
+}
+
+// The chart cells a drill deals from - the right plays differ across them, so there is no
+// answer to learn by rote
+export function getDrillSpots(kind: DrillKind): ChartPosition[] {
+    switch (kind) {
+        case "soft_doubles":
+            return spotsFor("soft", range(13, 19), ALL_COLUMNS);
+        case "pair_splits":
+            return spotsFor("pairs", range(2, 11), ALL_COLUMNS);
+        case "surrender":
+            return [...spotsFor("hard", range(14, 17), [7, 8, 9]), { section: "pairs", rowKey: 8, column: 9 }];
+        case "stiff_hands":
+            return spotsFor("hard", range(12, 16), ALL_COLUMNS);
+    }
+}
+
+// Surrender spots need a table that offers surrender
+export function isDrillAvailable(kind: DrillKind, rules: TableRules): boolean {
+    return kind !== "surrender" || rules.surrender !== "none";
+}
+
+function pick<T>(items: T[], random: () => number): T {
+    return items[Math.floor(random() * items.length)];
+}
+
+function rankOf(value: number, random: () => number): Rank {
+    if (value === 11) return "A";
+    if (value === 10) return pick(TEN_RANKS, random);
+    return String(value) as Rank;
+}
+
+function cardOf(value: number, random: () => number): Card {
+    return { rank: rankOf(value, random), suit: pick(SUITS, random), faceUp: true };
+}
+
+// Two cards that land on the spot - hard totals are never pairs, so they stay on the hard rows
+function cardsFor(position: ChartPosition, random: () => number): Card[] {
+    switch (position.section) {
+        case "pairs":
+            return [cardOf(position.rowKey, random), cardOf(position.rowKey, random)];
+        case "soft":
+            return [cardOf(11, random), cardOf(position.rowKey - 11, random)];
+        case "hard": {
+            const firsts = range(2, 10).filter((first) => {
+                const second = position.rowKey - first;
+                return second >= 2 && second <= 10 && second !== first;
+            });
+            const first = pick(firsts, random);
+            return [cardOf(first, random), cardOf(position.rowKey - first, random)];
+        }
+    }
+}
+
+// Drill hands are played for no chips
+function toHand(cards: Card[]): Hand {
+    return { cards, bet: 0, status: "playing", isDoubled: false, isSplit: false };
+}
+
+export function dealDrillHand(kind: DrillKind, rules: TableRules, random: () => number = Math.random): DrillHand {
+    const position = pick(getDrillSpots(kind), random);
+    const cards = cardsFor(position, random);
+    const upcard = cardOf(position.column === 9 ? 11 : position.column + 2, random);
+    const hand = toHand(cards);
+    return {
+        cards,
+        upcard,
+        canDouble: canDouble(hand, rules),
+        canSplit: canSplit(hand, 1, rules),
+        canSurrender: canSurrender(hand, rules),
+    };
+}
+
+export function getDrillAnswer(hand: DrillHand, rules: TableRules): PlayAction {
+    return getOptimalAction(toHand(hand.cards), hand.upcard, hand.canDouble, hand.canSplit, hand.canSurrender, rules);
+}
+
+
+// Rough share of dealer hands that bust from each upcard (2-A), six decks
+const DEALER_BUST_PERCENT = [35, 37, 40, 42, 42, 26, 24, 23, 23, 17];
+
+function describeHand(position: ChartPosition, total: number): string {
+    if (position.section === "pairs") {
+        return position.rowKey === 11 ? "a pair of aces" : `a pair of ${position.rowKey}s`;
+    }
+    return position.section === "soft" ? `soft ${total}` : `hard ${total}`;
+}
+
+/**
+ * Why the chart plays a drill hand the way it does - one line, in plain words
+ */
+export function explainDrillAnswer(hand: DrillHand, rules: TableRules): string {
+    const answer = getDrillAnswer(hand, rules);
+    const position = getChartPosition(toHand(hand.cards), hand.upcard, hand.canSplit);
+    const { value } = calculateHandValue(hand.cards);
+    if (!position) return `${answer}.`;
+
+    const up = DEALER_UPCARDS[position.column];
+    const upcard = up === "A" ? "an ace" : `a ${up}`;
+    const bust = DEALER_BUST_PERCENT[position.column];
+    const weakUpcard = position.column <= 4;
+    const label = describeHand(position, value);
+
+    switch (answer) {
+        case "surrender":
+            return `Surrender: ${label} wins too rarely against ${upcard} - giving up half the bet loses less than playing it out.`;
+        case "split":
+            if (position.rowKey === 11) return "Split: each ace starts a hand on 11, far better than one soft 12.";
+            if (position.rowKey === 8) return "Split: 16 is the worst total there is - two hands starting from 8 lose much less.";
+            return weakUpcard
+                ? `Split: the dealer's ${up} busts about ${bust}% of the time, so two bets against it beat one.`
+                : `Split: two hands starting from ${position.rowKey} do better against ${upcard} than one ${value}.`;
+        case "double":
+            return weakUpcard
+                ? `Double: the dealer's ${up} busts about ${bust}% of the time - get more money out while you're the favourite.`
+                : `Double: ${label} is the favourite against ${upcard}, and one card is all it needs.`;
+        case "stand":
+            if (position.section === "soft") return `Stand: ${label} already beats what ${upcard} usually makes.`;
+            return weakUpcard
+                ? `Stand: the dealer's ${up} busts about ${bust}% of the time - don't risk busting first.`
+                : `Stand: ${label} is as good as this hand gets against ${upcard}.`;
+        case "hit":
+            if (position.section === "soft") return `Hit: one card can't bust ${label}, and it isn't strong enough to stand against ${upcard}.`;
+            return weakUpcard
+                ? `Hit: the dealer's ${up} only busts about ${bust}% of the time - too rarely to stand on ${value}.`
+                : `Hit: ${upcard} only busts about ${bust}% of the time, so ${label} has to improve.`;
+    }
+}
@@ -0,0 +1,58 @@
+import { createHash } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import { Card, ShoeFairness, createShoe, verifyShoe } from "./gameTypes";
+import { sha256Hex } from "./fairness";
+
+const nodeSha256 = (message: string) => createHash("sha256").update(message, "utf8").digest("hex");
+
+// Deal a shoe the way the engine does - pop() from the end - noting each card's place
+function dealFrom(shoe: Card[], count: number): Record<number, Card> {
+    const size = shoe.length;
+    const observed: Record<number, Card> = {};
+    for (let i = 0; i < count; i++) {
+        const shoeIndex = size - shoe.length;
+        observed[shoeIndex] = shoe.pop()!;
+    }
+    return observed;
+}
+
+describe("fairness", () => {
+    it("hashes the NIST SHA-256 test vectors", () => {
+        expect(sha256Hex("")).toBe("e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855");
+        expect(sha256Hex("abc")).toBe("ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad");
+        // 56 bytes - the padding spills into a second block
+        expect(sha256Hex("abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq"))
+            .toBe("248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1");
+    });
+
+    it("hashes the same as node:crypto", () => {
+        const messages = ["", "abc", "abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq", "a".repeat(55), "a".repeat(64), "x".repeat(1000), "seed:Ålice:🂡:0"];
+        for (const message of messages) {
+            expect(sha256Hex(message)).toBe(nodeSha256(message));
+        }
+    });
+
+    it("verifies a revealed shoe against the cards that were dealt", () => {
+        const serverSeed = "9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08";
+        const fairness: ShoeFairness = {
+            shoeNumber: 1,
+            numDecks: 2,
+            commitment: sha256Hex(serverSeed),
+            clientSeeds: [{ name: "Alice", seed: "alice1" }, { name: "Bob", seed: "bob2" }],
+            serverSeed,
+        };
+        const observed = dealFrom(createShoe(2, serverSeed, ["alice1", "bob2"]), 20);
+
+        expect(verifyShoe(fairness, observed)).toEqual({ commitmentValid: true, checked: 20, mismatches: [] });
+
+        // A seed other than the one committed to is caught by the commitment...
+        expect(verifyShoe({ ...fairness, serverSeed: "0".repeat(64) }, observed)).toMatchObject({ commitmentValid: false, checked: 0 });
+
+        // ...and one committed to but not shuffled with, by the cards
+        const swapped = { ...fairness, serverSeed: "0".repeat(64), commitment: sha256Hex("0".repeat(64)) };
+        expect(verifyShoe(swapped, observed).mismatches.length).toBeGreaterThan(0);
+
+        // So is a dropped client seed
+        expect(verifyShoe({ ...fairness, clientSeeds: [{ name: "Alice", seed: "alice1" }] }, observed).mismatches.length).toBeGreaterThan(0);
+    });
+});
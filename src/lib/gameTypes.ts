@@ -1,3 +1,6 @@
+import { shuffleWithSeed, sha256Hex } from './fairness';
+import type { PatchOp } from './statePatch';
+
 // Card and deck utilities
 export type Suit = 'hearts' | 'diamonds' | 'clubs' | 'spades';
 export type Rank = 'A' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9' | '10' | 'J' | 'Q' | 'K';
@@ -6,8 +9,18 @@ export interface Card {
     suit: Suit;
     rank: Rank;
     faceUp: boolean;
+    shoeIndex?: number;  // Position in the shoe's deal order (0 = first card dealt), for fairness checks
+}
+
+// A face-down card as clients see it - rank and suit are withheld until it is revealed
+export interface HiddenCard {
+    suit?: undefined;
+    rank?: undefined;
+    faceUp: false;
 }
 
+export type PublicCard = Card | HiddenCard;
+
 export interface Hand {
     cards: Card[];
     bet: number;
@@ -25,10 +38,105 @@ export interface Seat {
     hands: Hand[];
     status: 'empty' | 'waiting' | 'betting' | 'playing' | 'done';
     insuranceBet: number;  // Insurance side bet (half of main bet)
+    sideBets: Record<SideBetKind, number>;  // Staked this round - settled straight after the deal
+    betsBehind: BetBehind[];  // Other players' wagers riding on this seat's hand
+    disconnectedUntil: number | null;  // Seat is held for a dropped player until this time
+    queuedAction: QueuedAction | null;  // Played the moment the seat's turn comes, if it still fits the hand
+    queuedInsurance: boolean | null;  // Insurance answered before the deal - used only if the dealer shows an ace
+}
+
+// A decision made while waiting for the seat's turn. The totals make it conditional, as in
+// "stand on 17 or more" - when the hand is outside them the player decides as usual.
+export interface QueuedAction {
+    action: PlayAction;
+    minTotal?: number;
+    maxTotal?: number;
+}
+
+// A wager on someone else's seat - it follows the seat owner's doubles and splits
+export interface BetBehind {
+    playerId: string;
+    displayName: string;
+    stakes: number[];  // One per hand, lined up with the seat's hands (0 where it didn't follow a split)
+}
+
+export type SurrenderRule = 'none' | 'early' | 'late';
+export type BlackjackPayout = '3:2' | '6:5';
+
+// Side bets, decided on the first two cards (and the dealer's upcard, for 21+3)
+export type SideBetKind = 'perfectPairs' | 'twentyOnePlusThree';
+export type PerfectPairsResult = 'mixed_pair' | 'coloured_pair' | 'perfect_pair';
+export type TwentyOnePlusThreeResult = 'flush' | 'straight' | 'three_of_a_kind' | 'straight_flush' | 'suited_trips';
+export type SideBetResult = PerfectPairsResult | TwentyOnePlusThreeResult;
+
+// What each winning side bet result pays, X to 1
+export interface SideBetPayouts {
+    perfectPairs: Record<PerfectPairsResult, number>;
+    twentyOnePlusThree: Record<TwentyOnePlusThreeResult, number>;
+}
+
+// A settled side bet as shown on the seat - amount is the winnings, 0 when it lost
+export interface SideBetOutcome {
+    kind: SideBetKind;
+    result: SideBetResult | null;
+    amount: number;
 }
 
+export const DEFAULT_SIDE_BET_PAYOUTS: SideBetPayouts = {
+    perfectPairs: { mixed_pair: 6, coloured_pair: 12, perfect_pair: 25 },
+    twentyOnePlusThree: { flush: 5, straight: 10, three_of_a_kind: 30, straight_flush: 40, suited_trips: 100 },
+};
+
+// House rules for a table - fixed when the room is created
+export interface TableRules {
+    numDecks: number;
+    dealerHitsSoft17: boolean;
+    doubleAfterSplit: boolean;
+    maxSplitHands: number;  // Hands a seat may split into (2 = no resplitting)
+    resplitAces: boolean;
+    hitSplitAces: boolean;
+    surrender: SurrenderRule;
+    blackjackPayout: BlackjackPayout;
+    penetration: number;  // Fraction of the shoe dealt before the cut card
+    indexPlays: boolean;  // Grade everyone against count-adjusted play (see indexPlays.ts)
+    sideBets: SideBetPayouts | null;  // Side bet spots and their payouts - null for none
+    minBet: number;  // Table limits for one spot's main bet, and for each bet behind
+    maxBet: number;
+}
+
+// Bounds on the limits a table can be opened with
+export const MIN_BET_FLOOR = 10;
+export const MAX_BET_CEILING = 100000;
+
+// The main table plays the game's original rules - tables opened from the lobby pick their own
+export const DEFAULT_TABLE_RULES: TableRules = {
+    numDecks: 6,
+    dealerHitsSoft17: false,
+    doubleAfterSplit: true,
+    maxSplitHands: 2,
+    resplitAces: false,
+    hitSplitAces: true,
+    surrender: 'late',
+    blackjackPayout: '3:2',
+    penetration: 0.80,
+    indexPlays: false,
+    sideBets: DEFAULT_SIDE_BET_PAYOUTS,
+    minBet: 10,
+    maxBet: 5000,
+};
+
 export type GamePhase = 'waiting' | 'betting' | 'dealing' | 'insurance' | 'player_turn' | 'dealer_turn' | 'payout';
 
+// Public record of how a shoe was shuffled. The server seed stays secret until the
+// shoe is retired; the commitment (its SHA-256) is published from the start.
+export interface ShoeFairness {
+    shoeNumber: number;
+    numDecks: number;
+    commitment: string;
+    clientSeeds: { name: string; seed: string }[] | null;  // Mixed in at the first deal - null until then
+    serverSeed: string | null;  // Revealed when the shoe is reshuffled
+}
+
 export interface ChatMessage {
     id: string;
     sender: string;
@@ -48,45 +156,273 @@ export interface GameState {
     timer: number;
     timerEndTime: number | null;
     spectators: { id: string; name: string }[];
-    chipBalances: Record<string, number>; // persisted by display name
+    chipBalances: Record<string, number>; // persisted by player ID
     lastUpdate: number;
     runningCount: number; // Hi-Lo running count for card counting
-    chatMessages: ChatMessage[]; // Last 50 chat messages
+    rules: TableRules;
+    shoeFairness: ShoeFairness | null; // Shoe in play
+    previousShoeFairness: ShoeFairness | null; // Last retired shoe, seed revealed
+    autoplay: Record<string, Autoplay>; // Player ID -> autoplay running for them
+}
+
+// Autoplay - the server makes a player's decisions the moment they're due, until a limit
+// is reached. Every profile declines insurance; its decisions aren't graded.
+export type AutoplayProfile = 'basic_strategy' | 'stand_on_12' | 'decline_insurance';
+
+export const AUTOPLAY_PROFILES: Record<AutoplayProfile, { label: string; description: string }> = {
+    basic_strategy: { label: 'Basic strategy', description: "Plays every hand by the table's strategy chart" },
+    stand_on_12: { label: 'Stand on 12+', description: 'Hits below 12 and stands on anything else' },
+    decline_insurance: { label: 'No insurance', description: 'Declines insurance - you play your hands' },
+};
+
+export interface AutoplaySettings {
+    profile: AutoplayProfile;
+    stopLoss: number | null;  // Stop once the bankroll is down this much from where autoplay started
+    stopWin: number | null;  // Stop once it is up this much
+    maxRounds: number | null;  // Stop after this many rounds
+}
+
+export interface Autoplay extends AutoplaySettings {
+    startChips: number;
+    roundsPlayed: number;
+}
+
+// The view of the game sent to clients: the shoe is reduced to a card count
+// and face-down cards are masked so nobody can read the next card or the hole card
+export interface PublicGameState extends Omit<GameState, 'shoe' | 'dealerHand'> {
+    cardsRemaining: number;
+    dealerHand: PublicCard[];
+}
+
+// Stats saved before player IDs existed were keyed by display name. They are kept
+// aside until someone claims them for their ID (see BlackjackServer.handleClaimLegacy)
+export interface LegacyRecord {
+    chips: number;
+    strategy: { correct: number; total: number } | null;
+    atmUsage: number;
+    blackjacks: number;
+}
+
+// Hand history - one record per round, persisted in room storage when the round is paid
+export type HandResult = 'win' | 'lose' | 'push' | 'blackjack';
+export type RoundActionType = 'hit' | 'stand' | 'double' | 'split' | 'surrender' | 'timeout';
+export type PlayAction = Exclude<RoundActionType, 'timeout'>;
+
+// Everything that happened in a round, in order. seatIndex null means the dealer.
+export type RoundEvent =
+    | { type: 'deal'; at: number; seatIndex: number | null; handIndex: number; card: Card }
+    | { type: 'action'; at: number; seatIndex: number; handIndex: number; action: RoundActionType; isOptimal?: boolean }
+    | { type: 'insurance'; at: number; seatIndex: number; accepted: boolean; amount: number; isOptimal?: boolean }
+    | { type: 'side_bet'; at: number; seatIndex: number; kind: SideBetKind; stake: number; result: SideBetResult | null; amount: number }
+    | { type: 'reveal'; at: number }  // Dealer turns over the hole card
+    | { type: 'payout'; at: number; seatIndex: number; handIndex: number; result: HandResult; amount: number };
+
+// A graded playing decision and the chart cell it was made in - the strategy report is built from these
+export interface StrategyDecision {
+    at: number;
+    section: 'hard' | 'soft' | 'pairs';
+    rowKey: number;  // Hard total, soft total or pair card value (11 = aces), as on the chart
+    column: number;  // Dealer upcard, 2-A = 0-9
+    action: PlayAction;
+    correct: PlayAction;  // The play it was graded against
+    bet: number;
+}
+
+// Card-counting systems the server keeps a running count in
+export type CountingSystem = 'hi_lo' | 'ko' | 'hi_opt_1' | 'omega_2' | 'zen';
+
+// One counting trainer quiz - the counts at the end of a round, and what the player gave
+export interface CountQuizRecord {
+    at: number;
+    system: CountingSystem;
+    runningCount: number;
+    runningAnswer: number;
+    trueCount: number | null;  // Unbalanced systems (KO) are not asked for a true count
+    trueAnswer: number | null;
+}
+
+export interface RoundSeatRecord {
+    seatIndex: number;
+    playerId: string;
+    displayName: string;
+    bet: number;
+    sideBets?: Record<SideBetKind, number>;  // Missing from rounds recorded before side bets
+    betsBehind?: BetBehind[];  // As they finished - missing from rounds recorded before bet behind
+    chipsBefore: number;  // Before the bets (and side bets) on all of the player's spots, and their bets behind, were taken
+    chipsAfter: number;
+    insuranceBet: number;
+    insurancePayout: number;
+    hands: Hand[];  // As they finished
+}
+
+export interface RoundRecord {
+    roundNumber: number;
+    shoeNumber: number | null;
+    rules: TableRules;
+    startedAt: number;
+    endedAt: number;
+    dealerHand: Card[];
+    seats: RoundSeatRecord[];
+    events: RoundEvent[];
 }
 
 // Message types from client to server
 export type ClientMessage =
     | { type: 'join_seat'; seatIndex: number; displayName: string }
-    | { type: 'leave_seat' }
+    | { type: 'leave_seat'; seatIndex?: number }  // One spot, or all of them when left out
     | { type: 'spectate'; displayName: string }
-    | { type: 'place_bet'; amount: number }
-    | { type: 'clear_bet' }
+    // A player may hold several spots - seatIndex says which one, defaulting to their first
+    | { type: 'place_bet'; amount: number; seatIndex?: number }
+    | { type: 'clear_bet'; seatIndex?: number }
     | { type: 'hit' }
     | { type: 'stand' }
     | { type: 'double' }
     | { type: 'split' }
     | { type: 'surrender' }
-    | { type: 'insurance'; accept: boolean }  // Accept or decline insurance
-    | { type: 'request_state' }
+    | { type: 'insurance'; accept: boolean; seatIndex?: number }  // Accept or decline insurance - defaults to the first undecided spot
+    | { type: 'play_on'; seatIndex?: number }  // Turn down early surrender against a ten
+    | { type: 'queue_action'; action: QueuedAction | null; seatIndex?: number }  // Decide ahead of the seat's turn - null takes it back
+    | { type: 'queue_insurance'; accept: boolean | null; seatIndex?: number }  // Answer insurance ahead of the deal - null takes it back
+    | { type: 'set_autoplay'; settings: AutoplaySettings | null }  // Let the server decide for me - null turns it off
+    | { type: 'place_side_bet'; kind: SideBetKind; amount: number; seatIndex?: number }  // Cleared along with the main bet by clear_bet
+    | { type: 'bet_behind'; seatIndex: number; amount: number; displayName: string }  // Back another player's hand - the name is for spectators
+    | { type: 'clear_bet_behind'; seatIndex: number }
+    | { type: 'request_state' }  // Resync - answered with a full state_update
     | { type: 'request_leaderboard' }
     | { type: 'chat_message'; message: string }
     | { type: 'chat_reaction'; messageId: string; emoji: string }
     | { type: 'quick_emote'; emoji: string }
-    | { type: 'use_atm' };
+    | { type: 'use_atm' }
+    | { type: 'claim_legacy'; name: string }  // Take over a bankroll saved under a display name
+    | { type: 'set_client_seed'; seed: string }  // Mixed into the next shoe's shuffle
+    | { type: 'set_index_plays'; enabled: boolean }  // Grade my decisions against count-adjusted play
+    | { type: 'request_hand_history'; before?: number }  // Page back through rounds older than `before`
+    | { type: 'request_strategy_report' }
+    | { type: 'set_count_trainer'; system: CountingSystem | null }  // Quiz me on the count in this system; null stops it
+    | { type: 'count_answer'; runningCount: number; trueCount?: number };
+
+// Every client message goes out with an ID, echoed back in the ack or rejection that answers it
+export type ClientRequest = ClientMessage & { requestId: string };
+
+// Stable reasons an error was sent - clients branch on the code, the message is for display
+export type ErrorCode =
+    | BetErrorCode
+    | 'protocol_mismatch'  // The client is out of date - refresh to get the current one
+    | 'unauthorized'       // Missing or invalid player token
+    | 'rate_limited'
+    | 'invalid_message'    // Not JSON, or a field doesn't match its message's schema
+    | 'unknown_message'
+    | 'wrong_phase'        // Not at this point in the round
+    | 'not_your_turn'
+    | 'invalid_seat'       // No such seat, or nobody in it
+    | 'seat_taken'
+    | 'too_many_spots'
+    | 'not_seated'
+    | 'no_bet'             // Needs a main bet down first
+    | 'own_seat'
+    | 'not_allowed'        // The table rules or the hand don't allow it
+    | 'invalid_name'
+    | 'invalid_seed'
+    | 'nothing_to_claim'
+    | 'no_quiz';
 
 // Message types from server to client
 export type ServerMessage =
-    | { type: 'state_update'; state: GameState }
-    | { type: 'error'; message: string }
-    | { type: 'player_action'; playerId: string; action: string; seatIndex: number; isOptimal?: boolean }
+    | { type: 'session'; playerId: string }  // Sent on connect - the stable ID this client plays as
+    // Every state the room sends has a version one past the last. A full state comes on
+    // connect and on request_state; after that, patches against the version before them.
+    | { type: 'state_update'; state: PublicGameState; version: number }
+    | { type: 'state_patch'; version: number; ops: PatchOp[] }
+    | { type: 'error'; code: ErrorCode; message: string }  // Not tied to a request - connection problems
+    | { type: 'ack'; requestId: string }  // The request was carried out
+    | { type: 'rejected'; requestId: string; code: ErrorCode; message: string }  // ...or turned down, and why
+    | { type: 'player_action'; playerId: string; action: string; seatIndex: number; isOptimal?: boolean; indexPlay?: string }  // indexPlay: the deviation that set the right play
     | { type: 'card_dealt'; target: 'player' | 'dealer'; seatIndex?: number; handIndex?: number; card: Card }
     | { type: 'payout'; seatIndex: number; amount: number; result: 'win' | 'lose' | 'push' | 'blackjack' }
     | { type: 'insurance_payout'; seatIndex: number; amount: number }
-    | { type: 'leaderboard'; balances: Record<string, number>; adherence: Record<string, number>; atmUsage: Record<string, number>; blackjackCounts: Record<string, number> }
+    | { type: 'side_bet_payout'; seatIndex: number; kind: SideBetKind; result: SideBetResult | null; amount: number }  // amount: winnings, 0 when lost
+    | { type: 'bet_behind_payout'; playerId: string; seatIndex: number; amount: number; result: HandResult }  // amount: winnings on one backed hand
+    | { type: 'leaderboard'; names: Record<string, string>; balances: Record<string, number>; adherence: Record<string, number>; insuranceAdherence: Record<string, number>; atmUsage: Record<string, number>; blackjackCounts: Record<string, number> }
+    | { type: 'legacy_record'; name: string; chips: number }  // An unclaimed name-keyed bankroll matches the name just used
+    | { type: 'legacy_claimed'; name: string; chips: number }
+    | { type: 'hand_history'; rounds: RoundRecord[]; hasMore: boolean; before?: number }
+    | { type: 'strategy_report'; decisions: StrategyDecision[] }  // The requester's graded decisions, oldest first
+    | { type: 'count_quiz'; system: CountingSystem; askTrueCount: boolean }  // The round is paid - what's the count?
+    | { type: 'count_result'; quiz: CountQuizRecord; quizzes: CountQuizRecord[] }
+    | { type: 'count_history'; quizzes: CountQuizRecord[] }  // The trainee's past quizzes, oldest first
+    | { type: 'chat_history'; chatMessages: ChatMessage[] }  // The last 50 messages, sent on connect
     | { type: 'chat_broadcast'; chatMessage: ChatMessage }
     | { type: 'chat_reaction'; messageId: string; emoji: string; sender: string }
     | { type: 'quick_emote'; seatIndex: number; emoji: string };
 
+// Lobby - discovery and creation of tables
+export const LOBBY_PARTY = 'lobby';
+export const LOBBY_ROOM_ID = 'lobby';
+export const DEFAULT_TABLE_ID = 'main-table';
+
+export interface TableListing {
+    roomId: string;
+    name: string;
+    isPrivate: boolean;
+    minBet: number;
+    maxBet: number;
+    rules: TableRules;
+    seatsTaken: number;
+    seatCount: number;
+    connections: number;
+    createdAt: number;
+    updatedAt: number;
+}
+
+// Sent by each table room to the lobby whenever its occupancy changes
+export interface TableOccupancyReport {
+    roomId: string;
+    rules: TableRules;
+    seatsTaken: number;
+    seatCount: number;
+    connections: number;
+}
+
+export type LobbyClientMessage =
+    | { type: 'create_table'; name: string; isPrivate: boolean; minBet: number; maxBet: number; rules: Partial<TableRules> }
+    | { type: 'join_by_code'; inviteCode: string }
+    | { type: 'request_tables' };
+
+export type LobbyServerMessage =
+    | { type: 'tables'; tables: TableListing[] }
+    | { type: 'table_created'; table: TableListing; inviteCode: string | null }
+    | { type: 'invite_resolved'; roomId: string }
+    | { type: 'error'; message: string };
+
+// Practice drills - solo, rapid-fire decisions on one kind of hand, graded as they're made.
+// No chips change hands; results are kept apart from the table economy.
+export const DRILL_PARTY = 'drill';
+export const DRILL_ROOM_ID = 'practice';
+
+export type DrillKind = 'soft_doubles' | 'pair_splits' | 'surrender' | 'stiff_hands';
+export type DrillMode = 'flag' | 'block';  // Flag a wrong play and move on, or block it until it's put right
+
+export interface DrillHand {
+    cards: Card[];
+    upcard: Card;
+    canDouble: boolean;
+    canSplit: boolean;
+    canSurrender: boolean;
+}
+
+export type DrillStats = Partial<Record<DrillKind, { correct: number; total: number; bestStreak: number }>>;
+
+export type DrillClientMessage =
+    | { type: 'drill_start'; kind: DrillKind; mode: DrillMode; rules?: Partial<TableRules> }
+    | { type: 'drill_answer'; action: PlayAction }
+    | { type: 'drill_next' };
+
+export type DrillServerMessage =
+    | { type: 'drill_stats'; stats: DrillStats }
+    | { type: 'drill_hand'; kind: DrillKind; rules: TableRules; hand: DrillHand }
+    | { type: 'drill_result'; action: PlayAction; correct: PlayAction; isCorrect: boolean; explanation: string; retry: boolean; streak: number; stats: DrillStats }
+    | { type: 'error'; message: string };
+
 // Card utilities
 export function createDeck(): Card[] {
     const suits: Suit[] = ['hearts', 'diamonds', 'clubs', 'spades'];
@@ -102,21 +438,45 @@ export function createDeck(): Card[] {
     return deck;
 }
 
-export function createShoe(numDecks: number = 6): Card[] {
+// Shuffled with the provably fair generator - the same seeds always give the same shoe
+export function createShoe(numDecks: number, serverSeed: string, clientSeeds: string[]): Card[] {
     const shoe: Card[] = [];
     for (let i = 0; i < numDecks; i++) {
         shoe.push(...createDeck());
     }
-    return shuffleArray(shoe);
+    return shuffleWithSeed(shoe, serverSeed, clientSeeds);
+}
+
+// Cards in the order they come out of a revealed shoe (the server deals with pop(),
+// so the end of the shuffled array comes out first)
+export function dealOrder(fairness: ShoeFairness): Card[] {
+    const clientSeeds = (fairness.clientSeeds ?? []).map((c) => c.seed);
+    return createShoe(fairness.numDecks, fairness.serverSeed ?? '', clientSeeds).reverse();
 }
 
-export function shuffleArray<T>(array: T[]): T[] {
-    const shuffled = [...array];
-    for (let i = shuffled.length - 1; i > 0; i--) {
-        const j = Math.floor(Math.random() * (i + 1));
-        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+export interface ShoeVerification {
+    commitmentValid: boolean;
+    checked: number;
+    mismatches: number[];  // shoeIndex of every observed card that doesn't match
+}
+
+// Check a revealed shoe against the cards this client actually saw dealt
+export function verifyShoe(fairness: ShoeFairness, observed: Record<number, Card>): ShoeVerification {
+    const commitmentValid = fairness.serverSeed !== null && sha256Hex(fairness.serverSeed) === fairness.commitment;
+    if (!commitmentValid || fairness.clientSeeds === null) {
+        return { commitmentValid, checked: 0, mismatches: [] };
+    }
+
+    const order = dealOrder(fairness);
+    const mismatches: number[] = [];
+    for (const [index, card] of Object.entries(observed)) {
+        const expected = order[Number(index)];
+        if (!expected || expected.rank !== card.rank || expected.suit !== card.suit) {
+            mismatches.push(Number(index));
+        }
     }
-    return shuffled;
+
+    return { commitmentValid, checked: Object.keys(observed).length, mismatches };
 }
 
 export function getCardValue(card: Card): number[] {
@@ -125,12 +485,20 @@ export function getCardValue(card: Card): number[] {
     return [parseInt(card.rank)];
 }
 
-export function calculateHandValue(cards: Card[]): { value: number; isSoft: boolean } {
+export function isFaceUp(card: PublicCard): card is Card {
+    return card.faceUp;
+}
+
+export function maskCard(card: Card): PublicCard {
+    return card.faceUp ? card : { faceUp: false };
+}
+
+export function calculateHandValue(cards: PublicCard[]): { value: number; isSoft: boolean } {
     let total = 0;
     let aces = 0;
 
     for (const card of cards) {
-        if (!card.faceUp) continue;
+        if (!isFaceUp(card)) continue;
 
         if (card.rank === 'A') {
             aces++;
@@ -159,9 +527,14 @@ export function isBlackjack(cards: Card[]): boolean {
     return hasAce && hasTenValue;
 }
 
-export function canSplit(hand: Hand): boolean {
+export function isSplitAces(hand: Hand): boolean {
+    return hand.isSplit && hand.cards[0]?.rank === 'A';
+}
+
+export function canSplit(hand: Hand, handCount: number, rules: TableRules): boolean {
     if (hand.cards.length !== 2) return false;
-    if (hand.isSplit) return false; // Already split hands can't split again for simplicity
+    if (handCount >= rules.maxSplitHands) return false;
+    if (isSplitAces(hand) && !rules.resplitAces) return false;
     const rank1 = hand.cards[0].rank;
     const rank2 = hand.cards[1].rank;
     // Can split if same rank or both are 10-value cards
@@ -170,8 +543,131 @@ export function canSplit(hand: Hand): boolean {
     return tenValues.includes(rank1) && tenValues.includes(rank2);
 }
 
-export function canDouble(hand: Hand): boolean {
-    return hand.cards.length === 2 && !hand.isDoubled;
+export function canHit(hand: Hand, rules: TableRules): boolean {
+    return !isSplitAces(hand) || rules.hitSplitAces;
+}
+
+export function canDouble(hand: Hand, rules: TableRules): boolean {
+    if (hand.cards.length !== 2 || hand.isDoubled) return false;
+    if (hand.isSplit && !rules.doubleAfterSplit) return false;
+    return canHit(hand, rules);
+}
+
+// Surrender is only offered on the original two-card hand
+export function canSurrender(hand: Hand, rules: TableRules): boolean {
+    return rules.surrender !== 'none' && hand.cards.length === 2 && !hand.isSplit;
+}
+
+export function dealerShouldHit(cards: Card[], rules: TableRules): boolean {
+    const { value, isSoft } = calculateHandValue(cards);
+    if (value < 17) return true;
+    return value === 17 && isSoft && rules.dealerHitsSoft17;
+}
+
+// Amount won (excluding the returned stake) for a natural blackjack
+export function blackjackWinnings(bet: number, rules: TableRules): number {
+    return Math.floor(bet * (rules.blackjackPayout === '6:5' ? 1.2 : 1.5));
+}
+
+// Clamp untrusted rule input (e.g. from a room creation request) to supported values
+export function normalizeTableRules(input: Partial<TableRules> = {}): TableRules {
+    const rules = { ...DEFAULT_TABLE_RULES };
+    if (typeof input.numDecks === 'number' && Number.isInteger(input.numDecks)) {
+        rules.numDecks = Math.min(Math.max(input.numDecks, 1), 8);
+    }
+    if (typeof input.dealerHitsSoft17 === 'boolean') rules.dealerHitsSoft17 = input.dealerHitsSoft17;
+    if (typeof input.doubleAfterSplit === 'boolean') rules.doubleAfterSplit = input.doubleAfterSplit;
+    if (typeof input.maxSplitHands === 'number' && Number.isInteger(input.maxSplitHands)) {
+        rules.maxSplitHands = Math.min(Math.max(input.maxSplitHands, 1), 4);
+    }
+    if (typeof input.resplitAces === 'boolean') rules.resplitAces = input.resplitAces;
+    if (typeof input.hitSplitAces === 'boolean') rules.hitSplitAces = input.hitSplitAces;
+    if (input.surrender === 'none' || input.surrender === 'early' || input.surrender === 'late') {
+        rules.surrender = input.surrender;
+    }
+    if (input.blackjackPayout === '3:2' || input.blackjackPayout === '6:5') {
+        rules.blackjackPayout = input.blackjackPayout;
+    }
+    if (typeof input.penetration === 'number' && Number.isFinite(input.penetration)) {
+        rules.penetration = Math.min(Math.max(input.penetration, 0.5), 0.9);
+    }
+    if (typeof input.indexPlays === 'boolean') rules.indexPlays = input.indexPlays;
+    if (input.sideBets === null) {
+        rules.sideBets = null;
+    } else if (typeof input.sideBets === 'object' && input.sideBets !== undefined) {
+        rules.sideBets = normalizeSideBetPayouts(input.sideBets);
+    }
+    if (typeof input.minBet === 'number' && Number.isInteger(input.minBet)) {
+        rules.minBet = Math.min(Math.max(input.minBet, MIN_BET_FLOOR), MAX_BET_CEILING);
+    }
+    if (typeof input.maxBet === 'number' && Number.isInteger(input.maxBet)) {
+        rules.maxBet = Math.min(Math.max(input.maxBet, MIN_BET_FLOOR), MAX_BET_CEILING);
+    }
+    rules.maxBet = Math.max(rules.maxBet, rules.minBet);
+    return rules;
+}
+
+// Why a bet was turned down - sent along with the error so clients can tell them apart
+export type BetErrorCode = 'invalid_amount' | 'below_minimum' | 'above_maximum' | 'insufficient_chips';
+
+// Checks the total a bet would come to against the table maximum. Chips are added one at
+// a time, so a bet may sit below the minimum until betting closes - a short one is
+// dropped then (see isShortBet).
+export function checkBetLimits(amount: number, total: number, rules: TableRules): BetErrorCode | null {
+    if (!Number.isInteger(amount) || amount <= 0) return 'invalid_amount';
+    if (total > rules.maxBet) return 'above_maximum';
+    return null;
+}
+
+export function isShortBet(total: number, rules: TableRules): boolean {
+    return total > 0 && total < rules.minBet;
+}
+
+export function formatBetLimits(rules: TableRules): string {
+    return `$${rules.minBet.toLocaleString()} - $${rules.maxBet.toLocaleString()}`;
+}
+
+// Each payout falls back to the default unless it's a whole number from 1 to 1000
+function normalizeSideBetPayouts(input: Partial<SideBetPayouts>): SideBetPayouts {
+    const normalize = <T extends string>(table: Record<T, number>, given: Partial<Record<T, unknown>> | undefined): Record<T, number> => {
+        const result = { ...table };
+        for (const key of Object.keys(table) as T[]) {
+            const value = given?.[key];
+            if (typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= 1000) {
+                result[key] = value;
+            }
+        }
+        return result;
+    };
+    return {
+        perfectPairs: normalize(DEFAULT_SIDE_BET_PAYOUTS.perfectPairs, input.perfectPairs),
+        twentyOnePlusThree: normalize(DEFAULT_SIDE_BET_PAYOUTS.twentyOnePlusThree, input.twentyOnePlusThree),
+    };
+}
+
+// Short labels for showing a table's rules to players
+export function describeTableRules(rules: TableRules): string[] {
+    const labels = [
+        `${rules.numDecks} ${rules.numDecks === 1 ? 'deck' : 'decks'}`,
+        rules.dealerHitsSoft17 ? 'Dealer hits soft 17' : 'Dealer stands on all 17s',
+        `Blackjack pays ${rules.blackjackPayout.replace(':', ' to ')}`,
+    ];
+    if (rules.doubleAfterSplit) labels.push('Double after split');
+    if (rules.maxSplitHands <= 1) {
+        labels.push('No splitting');
+    } else if (rules.maxSplitHands > 2) {
+        labels.push(`Resplit to ${rules.maxSplitHands} hands${rules.resplitAces ? ' (aces too)' : ''}`);
+    }
+    if (!rules.hitSplitAces) labels.push('One card on split aces');
+    if (rules.surrender !== 'none') labels.push(`${rules.surrender === 'early' ? 'Early' : 'Late'} surrender`);
+    if (rules.indexPlays) labels.push('Graded with index plays');
+    if (rules.sideBets) labels.push('Perfect Pairs and 21+3');
+    return labels;
+}
+
+// The shoe is drawn from the end, so the cut card sits at the undealt fraction
+export function getCutCardIndex(shoeSize: number, rules: TableRules): number {
+    return Math.floor(shoeSize * (1 - rules.penetration));
 }
 
 export function createEmptySeat(): Seat {
@@ -182,17 +678,22 @@ export function createEmptySeat(): Seat {
         bet: 0,
         lastBet: 0,
         insuranceBet: 0,
+        sideBets: { perfectPairs: 0, twentyOnePlusThree: 0 },
+        betsBehind: [],
         hands: [],
-        status: 'empty'
+        status: 'empty',
+        disconnectedUntil: null,
+        queuedAction: null,
+        queuedInsurance: null
     };
 }
 
-export function createInitialGameState(): GameState {
-    const shoe = createShoe(6);
+// The shoe starts empty - the server seeds and fills it (BlackjackServer.reshuffleShoe)
+export function createInitialGameState(rules: TableRules = DEFAULT_TABLE_RULES): GameState {
     return {
         phase: 'waiting',
-        shoe,
-        cutCardIndex: Math.floor(shoe.length * 0.80),
+        shoe: [],
+        cutCardIndex: 0,
         needsReshuffle: false,
         dealerHand: [],
         seats: Array.from({ length: 6 }, () => createEmptySeat()),
@@ -204,6 +705,18 @@ export function createInitialGameState(): GameState {
         chipBalances: {},
         lastUpdate: Date.now(),
         runningCount: 0,
-        chatMessages: []
+        rules,
+        shoeFairness: null,
+        previousShoeFairness: null,
+        autoplay: {}
+    };
+}
+
+export function toPublicGameState(state: GameState): PublicGameState {
+    const { shoe, dealerHand, ...rest } = state;
+    return {
+        ...rest,
+        cardsRemaining: shoe.length,
+        dealerHand: dealerHand.map(maskCard),
     };
 }
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { Card, Hand, Rank, normalizeTableRules } from "./gameTypes";
+import { describeIndexPlay, getIndexAction, getTrueCount, INDEX_PLAYS } from "./indexPlays";
+
+function card(rank: Rank): Card {
+    return { rank, suit: "spades", faceUp: true };
+}
+
+function hand(...ranks: Rank[]): Hand {
+    return { cards: ranks.map(card), bet: 100, status: "playing", isDoubled: false, isSplit: false };
+}
+
+describe("index plays", () => {
+    it("divides the running count by the decks left, never less than half a deck", () => {
+        expect(getTrueCount(6, 156)).toBe(2);
+        expect(getTrueCount(3, 10)).toBe(6);
+    });
+
+    it("stands on 16 against a ten from +0", () => {
+        const noSurrender = normalizeTableRules({ surrender: "none" });
+        expect(getIndexAction(hand("10", "6"), card("K"), true, false, false, -0.5, noSurrender).action).toBe("hit");
+        const decision = getIndexAction(hand("10", "6"), card("K"), true, false, false, 0, noSurrender);
+        expect(decision.action).toBe("stand");
+        expect(decision.indexPlay?.name).toBe("16 vs 10");
+    });
+
+    it("hits 12 against a 4 below +0", () => {
+        expect(getIndexAction(hand("10", "2"), card("4"), true, false, false, -1).action).toBe("hit");
+        expect(getIndexAction(hand("10", "2"), card("4"), true, false, false, 0).action).toBe("stand");
+    });
+
+    it("only doubles or splits where the play is on offer", () => {
+        expect(getIndexAction(hand("10", "10"), card("6"), true, true, false, 5).action).toBe("split");
+        expect(getIndexAction(hand("10", "10"), card("6"), true, false, false, 5).action).toBe("stand");
+        expect(getIndexAction(hand("5", "5"), card("K"), true, false, false, 4).action).toBe("double");
+        expect(getIndexAction(hand("5", "3", "2"), card("K"), false, false, false, 4).action).toBe("hit");
+    });
+
+    it("surrenders the Fab 4 from the index and plays the hand out below it", () => {
+        expect(getIndexAction(hand("10", "4"), card("K"), true, false, true, 3).action).toBe("surrender");
+        expect(getIndexAction(hand("10", "5"), card("K"), true, false, true, -1).action).toBe("hit");
+        expect(getIndexAction(hand("10", "5"), card("K"), true, false, true, 0).action).toBe("surrender");
+        // 15 v 10 stands from +4 once surrender is off the table
+        expect(getIndexAction(hand("10", "5"), card("K"), false, false, false, 4).action).toBe("stand");
+    });
+
+    it("only reports a play when it changes the advice", () => {
+        expect(getIndexAction(hand("10", "6"), card("K"), true, false, true, 1).indexPlay).toBeNull();
+        expect(getIndexAction(hand("9", "2"), card("6"), true, false, false, 5).indexPlay).toBeNull();
+    });
+
+    it("describes a play with its index", () => {
+        const [sixteen] = INDEX_PLAYS;
+        expect(describeIndexPlay(sixteen)).toBe("16 vs 10: stand at +0 or higher");
+        expect(describeIndexPlay(INDEX_PLAYS.find((p) => p.name === "13 vs 2")!)).toBe("13 vs 2: hit below -1");
+    });
+});
@@ -0,0 +1,140 @@
+// Index plays - count-based deviations from basic strategy, on the Hi-Lo true count.
+//
+// Each play names a chart cell and the true count at which the right play changes: the
+// Illustrious 18 (the most valuable deviations, insurance included) and the Fab 4
+// surrenders. Away from its index a cell is played by the chart, so a deviation can
+// never make the advice worse than basic strategy.
+
+import { Card, Hand, TableRules, DEFAULT_TABLE_RULES } from "./gameTypes";
+import { Action, ChartPosition, ChartSection, DEALER_UPCARDS, getChartPosition, getOptimalAction } from "./basicStrategy";
+
+export type IndexPlaySet = "Illustrious 18" | "Fab 4";
+
+export interface IndexPlay {
+    name: string; // "16 vs 10"
+    set: IndexPlaySet;
+    section: ChartSection;
+    rowKey: number;
+    column: number; // Dealer upcard column, 2-A = 0-9
+    action: Action; // Played at the index or above - or below it, for `below` plays
+    index: number;
+    below?: boolean;
+}
+
+// Take insurance at +3 or higher - the first of the Illustrious 18
+export const INSURANCE_INDEX = 3;
+
+function play(set: IndexPlaySet, section: ChartSection, rowKey: number, upcard: string, action: Action, index: number, below?: boolean): IndexPlay {
+    const row = section === "pairs" ? `${rowKey},${rowKey}` : String(rowKey);
+    return { name: `${row} vs ${upcard}`, set, section, rowKey, column: DEALER_UPCARDS.indexOf(upcard), action, index, below };
+}
+
+export const INDEX_PLAYS: IndexPlay[] = [
+    play("Illustrious 18", "hard", 16, "10", "stand", 0),
+    play("Illustrious 18", "hard", 15, "10", "stand", 4),
+    play("Illustrious 18", "pairs", 10, "5", "split", 5),
+    play("Illustrious 18", "pairs", 10, "6", "split", 4),
+    play("Illustrious 18", "hard", 10, "10", "double", 4),
+    play("Illustrious 18", "hard", 12, "3", "stand", 2),
+    play("Illustrious 18", "hard", 12, "2", "stand", 3),
+    play("Illustrious 18", "hard", 11, "A", "double", 1),
+    play("Illustrious 18", "hard", 9, "2", "double", 1),
+    play("Illustrious 18", "hard", 10, "A", "double", 4),
+    play("Illustrious 18", "hard", 9, "7", "double", 3),
+    play("Illustrious 18", "hard", 16, "9", "stand", 5),
+    play("Illustrious 18", "hard", 13, "2", "hit", -1, true),
+    play("Illustrious 18", "hard", 12, "4", "hit", 0, true),
+    play("Illustrious 18", "hard", 12, "5", "hit", -2, true),
+    play("Illustrious 18", "hard", 12, "6", "hit", -1, true),
+    play("Illustrious 18", "hard", 13, "3", "hit", -2, true),
+    play("Fab 4", "hard", 14, "10", "surrender", 3),
+    play("Fab 4", "hard", 15, "10", "surrender", 0),
+    play("Fab 4", "hard", 15, "9", "surrender", 2),
+    play("Fab 4", "hard", 15, "A", "surrender", 1),
+];
+
+// Running count per deck still in the shoe - never less than half a deck, so the last
+// few cards don't blow the count up
+export function getTrueCount(runningCount: number, cardsRemaining: number): number {
+    return runningCount / Math.max(cardsRemaining / 52, 0.5);
+}
+
+function formatCount(count: number): string {
+    return count >= 0 ? `+${count}` : String(count);
+}
+
+// "16 vs 10: stand at +0 or higher"
+export function describeIndexPlay(indexPlay: IndexPlay): string {
+    const when = indexPlay.below ? `below ${formatCount(indexPlay.index)}` : `at ${formatCount(indexPlay.index)} or higher`;
+    return `${indexPlay.name}: ${indexPlay.action} ${when}`;
+}
+
+// Insurance - even money on a blackjack included - loses in the long run without a count.
+// With one (trueCount set) it's taken from INSURANCE_INDEX up.
+export function shouldTakeInsurance(trueCount: number | null): boolean {
+    return trueCount !== null && trueCount >= INSURANCE_INDEX;
+}
+
+export function isIndexActive(indexPlay: IndexPlay, trueCount: number): boolean {
+    return indexPlay.below ? trueCount < indexPlay.index : trueCount >= indexPlay.index;
+}
+
+// The index plays for a chart cell
+export function findIndexPlays(position: ChartPosition): IndexPlay[] {
+    return INDEX_PLAYS.filter((p) => p.section === position.section && p.rowKey === position.rowKey && p.column === position.column);
+}
+
+export interface IndexDecision {
+    action: Action;
+    indexPlay: IndexPlay | null; // The deviation that moved the play off basic strategy
+}
+
+/**
+ * Gets the optimal action for the true count: basic strategy, changed by any index play
+ * for the hand's cell that the count has reached
+ */
+export function getIndexAction(
+    hand: Hand,
+    dealerUpcard: Card,
+    canDouble: boolean,
+    canSplit: boolean,
+    canSurrender: boolean,
+    trueCount: number,
+    rules: TableRules = DEFAULT_TABLE_RULES
+): IndexDecision {
+    const basic = getOptimalAction(hand, dealerUpcard, canDouble, canSplit, canSurrender, rules);
+    const position = getChartPosition(hand, dealerUpcard, canSplit);
+    if (!position) return { action: basic, indexPlay: null };
+
+    // A pair that isn't split is played as its hard total
+    const cell: ChartPosition = position.section === "pairs" && basic !== "split"
+        ? { ...position, section: "hard", rowKey: Math.min(Math.max(position.rowKey * 2, 7), 18) }
+        : position;
+    const plays = findIndexPlays(cell).concat(cell === position ? [] : findIndexPlays(position));
+
+    // Fab 4: surrender from the index up, and play the hand out below it
+    let action = basic;
+    let applied: IndexPlay | null = null;
+    const surrenderPlay = canSurrender ? plays.find((p) => p.action === "surrender") : undefined;
+    if (surrenderPlay) {
+        action = isIndexActive(surrenderPlay, trueCount)
+            ? "surrender"
+            : getOptimalAction(hand, dealerUpcard, canDouble, canSplit, false, rules);
+        applied = surrenderPlay;
+    }
+    if (action === "surrender") {
+        return { action, indexPlay: action !== basic ? applied : null };
+    }
+
+    // Illustrious 18 - only where the play is on offer
+    for (const indexPlay of plays) {
+        if (indexPlay.action === "surrender" || !isIndexActive(indexPlay, trueCount)) continue;
+        if (indexPlay.action === "double" && !canDouble) continue;
+        if (indexPlay.action === "split" && !canSplit) continue;
+        action = indexPlay.action;
+        applied = indexPlay;
+        break;
+    }
+
+    return { action, indexPlay: action !== basic ? applied : null };
+}
@@ -0,0 +1,26 @@
+// Persistent player identity - a random secret token kept in localStorage.
+// The server hashes it into the player ID that chips and stats are keyed by,
+// so the token itself never needs to leave this browser except on connect.
+
+const TOKEN_KEY = "blackjack_player_token";
+
+// Fallback for private browsing, where localStorage throws - identity lasts for the tab
+let sessionToken: string | null = null;
+
+function generateToken(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(32));
+    return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export function getPlayerToken(): string {
+    try {
+        const stored = localStorage.getItem(TOKEN_KEY);
+        if (stored) return stored;
+        const token = generateToken();
+        localStorage.setItem(TOKEN_KEY, token);
+        return token;
+    } catch {
+        sessionToken ??= generateToken();
+        return sessionToken;
+    }
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_TABLE_RULES } from "./gameTypes";
+import { isOccupancyReport, isTableRuleChanges, parseClientMessage, parseDrillMessage, parseLobbyMessage, parseServerMessage } from "./protocol";
+
+const send = (message: object) => parseClientMessage(JSON.stringify({ requestId: "7", ...message }));
+
+describe("wire protocol", () => {
+    it("accepts a well-formed message and drops fields it doesn't know", () => {
+        expect(send({ type: "place_bet", amount: 100, seatIndex: 2, admin: true })).toEqual({
+            ok: true,
+            message: { type: "place_bet", amount: 100, seatIndex: 2, requestId: "7" },
+        });
+        expect(send({ type: "leave_seat" })).toEqual({ ok: true, message: { type: "leave_seat", requestId: "7" } });
+        expect(send({ type: "set_count_trainer", system: null })).toMatchObject({ ok: true });
+        expect(send({ type: "queue_action", action: { action: "stand", minTotal: 17 } })).toMatchObject({ ok: true });
+        expect(send({ type: "queue_action", action: null })).toMatchObject({ ok: true });
+        expect(send({ type: "queue_action", action: { action: "hit", minTotal: 12, maxTotal: 12 } })).toMatchObject({ ok: true });
+        expect(send({ type: "set_autoplay", settings: { profile: "stand_on_12", stopLoss: 500, stopWin: null, maxRounds: 20 } })).toMatchObject({ ok: true });
+    });
+
+    it("turns away fields of the wrong type or out of range", () => {
+        expect(send({ type: "join_seat", seatIndex: "0", displayName: "Alice" })).toEqual({
+            ok: false,
+            code: "invalid_message",
+            error: "Invalid join_seat message: bad seatIndex",
+            requestId: "7",
+        });
+        expect(send({ type: "place_bet", amount: -500 })).toMatchObject({ ok: false, code: "invalid_message" });
+        expect(send({ type: "place_bet", amount: 12.5 })).toMatchObject({ ok: false, code: "invalid_message" });
+        expect(send({ type: "quick_emote", emoji: 42 })).toMatchObject({ ok: false, code: "invalid_message" });
+        expect(send({ type: "place_side_bet", kind: "lucky_ladies", amount: 10 })).toMatchObject({ ok: false });
+        expect(send({ type: "set_count_trainer", system: "wong_halves" })).toMatchObject({ ok: false });
+        expect(send({ type: "queue_action", action: { action: "fold" } })).toMatchObject({ ok: false });
+        expect(send({ type: "queue_action", action: { action: "stand", minTotal: 30 } })).toMatchObject({ ok: false });
+        expect(send({ type: "queue_action", action: { action: "hit", minTotal: 18, maxTotal: 12 } })).toMatchObject({ ok: false });
+        expect(send({ type: "set_autoplay", settings: { profile: "martingale", stopLoss: null, stopWin: null, maxRounds: null } })).toMatchObject({ ok: false });
+        expect(send({ type: "set_autoplay", settings: { profile: "basic_strategy", stopLoss: -50, stopWin: null, maxRounds: null } })).toMatchObject({ ok: false });
+    });
+
+    it("tells unknown message types apart from broken JSON", () => {
+        expect(send({ type: "deal_me_aces" })).toMatchObject({ ok: false, code: "unknown_message" });
+        expect(send({ type: "toString" })).toMatchObject({ ok: false, code: "unknown_message" });
+        expect(parseClientMessage("[1, 2]")).toMatchObject({ ok: false, code: "unknown_message" });
+        expect(parseClientMessage("{nope")).toMatchObject({ ok: false, code: "invalid_message" });
+    });
+
+    it("needs a request ID to answer", () => {
+        expect(send({ type: "hit", requestId: undefined })).toEqual({ ok: false, code: "invalid_message", error: "Missing request ID" });
+        expect(send({ type: "hit", requestId: 42 })).toMatchObject({ ok: false, error: "Missing request ID" });
+        expect(send({ type: "hit", requestId: "x".repeat(65) })).toMatchObject({ ok: false, error: "Missing request ID" });
+    });
+
+    it("checks what the server sends too", () => {
+        const payout = { type: "payout", seatIndex: 0, amount: 150, result: "blackjack" };
+        expect(parseServerMessage(JSON.stringify(payout))).toEqual({ ok: true, message: payout });
+        expect(parseServerMessage(JSON.stringify({ ...payout, result: "jackpot" }))).toMatchObject({ ok: false });
+        expect(parseServerMessage(JSON.stringify({ type: "error", message: "Seat is taken" }))).toMatchObject({ ok: false });
+
+        const rejected = { type: "rejected", requestId: "7", code: "below_minimum", message: "Minimum bet is $10" };
+        expect(parseServerMessage(JSON.stringify(rejected))).toEqual({ ok: true, message: rejected });
+        expect(parseServerMessage(JSON.stringify({ type: "ack" }))).toMatchObject({ ok: false });
+    });
+
+    it("checks the rules a table is opened with", () => {
+        expect(isTableRuleChanges(DEFAULT_TABLE_RULES)).toBe(true);
+        expect(isTableRuleChanges({ maxSplitHands: 4, hitSplitAces: false })).toBe(true);
+        expect(isTableRuleChanges({})).toBe(true);
+        expect(isTableRuleChanges(null)).toBe(false);
+        expect(isTableRuleChanges({ numDecks: "6" })).toBe(false);
+        expect(isTableRuleChanges({ surrender: "always" })).toBe(false);
+        expect(isTableRuleChanges({ minBet: 1 })).toBe(false);
+    });
+
+    it("checks a table's report to the lobby", () => {
+        const report = { roomId: "t-1a2b3c4d", rules: DEFAULT_TABLE_RULES, seatsTaken: 2, seatCount: 6, connections: 3 };
+        expect(isOccupancyReport(report)).toBe(true);
+        expect(isOccupancyReport(null)).toBe(false);
+        expect(isOccupancyReport({ ...report, rules: { numDecks: 6 } })).toBe(false);
+        expect(isOccupancyReport({ ...report, seatsTaken: 7 })).toBe(false);
+        expect(isOccupancyReport({ ...report, connections: "3" })).toBe(false);
+    });
+
+    it("checks the drill room's messages", () => {
+        const drill = (message: object) => parseDrillMessage(JSON.stringify(message));
+        expect(drill({ type: "drill_start", kind: "soft_doubles", mode: "block", rules: { numDecks: 1 } })).toMatchObject({ ok: true });
+        expect(drill({ type: "drill_answer", action: "stand" })).toMatchObject({ ok: true });
+        expect(drill({ type: "drill_start", kind: "toString", mode: "flag" })).toMatchObject({ ok: false, error: "Invalid drill_start message: bad kind" });
+        expect(drill({ type: "drill_start", kind: "pair_splits", mode: "flag", rules: null })).toMatchObject({ ok: false });
+        expect(drill({ type: "drill_answer", action: "fold" })).toMatchObject({ ok: false });
+        expect(drill({ type: "hit" })).toMatchObject({ ok: false, code: "unknown_message" });
+    });
+
+    it("checks the lobby's messages", () => {
+        const lobby = (message: object) => parseLobbyMessage(JSON.stringify(message));
+        const table = { type: "create_table", name: "High Rollers", isPrivate: false, minBet: 100, maxBet: 5000, rules: { numDecks: 2 } };
+        expect(lobby(table)).toMatchObject({ ok: true });
+        expect(lobby({ type: "join_by_code", inviteCode: "ABC234" })).toMatchObject({ ok: true });
+        expect(lobby({ ...table, name: { toString: "x" } })).toMatchObject({ ok: false, error: "Invalid create_table message: bad name" });
+        expect(lobby({ ...table, isPrivate: "yes" })).toMatchObject({ ok: false });
+        expect(lobby({ ...table, rules: { numDecks: 12 } })).toMatchObject({ ok: false });
+        expect(lobby({ type: "join_by_code", inviteCode: null })).toMatchObject({ ok: false });
+        expect(lobby({ type: "hit" })).toMatchObject({ ok: false, code: "unknown_message" });
+    });
+});
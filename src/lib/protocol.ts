@@ -0,0 +1,266 @@
+// Wire protocol - runtime checks for every message between a table room and its clients.
+// JSON.parse hands back whatever the other side sent, so each message is checked against
+// its variant's fields before anything acts on it, and rebuilt with only those fields.
+
+import {
+    AUTOPLAY_PROFILES,
+    ClientMessage,
+    ClientRequest,
+    DrillClientMessage,
+    ErrorCode,
+    LobbyClientMessage,
+    ServerMessage,
+    TableOccupancyReport,
+    TableRules,
+    MIN_BET_FLOOR,
+    MAX_BET_CEILING,
+} from "./gameTypes";
+import { SIDE_BET_KINDS, SIDE_BET_RESULT_LABELS } from "./sideBets";
+import { COUNTING_SYSTEM_IDS } from "./countingSystems";
+import { DRILLS } from "./drills";
+
+// Bump on any change to the messages. Clients send theirs when they connect (the `v` query
+// parameter) and the room turns away any other version, so an old tab is told to refresh.
+export const PROTOCOL_VERSION = 7;
+
+type Check = (value: unknown) => boolean;
+interface Optional { optional: Check }
+
+// One check for each field of a message besides its type - optional fields must be marked
+// optional, so the compiler catches a schema that has fallen behind its message type
+type Fields<M> = {
+    [K in Exclude<keyof M, "type">]-?: undefined extends M[K] ? Optional : Check;
+};
+type Schema<U extends { type: string }> = {
+    [T in U["type"]]: Fields<Extract<U, { type: T }>>;
+};
+
+export type ParseResult<M> =
+    | { ok: true; message: M }
+    | { ok: false; code: ErrorCode; error: string; requestId?: string };  // requestId when it could be read
+
+// Why a request failed - turned down by the room, or on the client's side, never answered
+export type RequestErrorCode = ErrorCode | "timeout" | "disconnected";
+
+export class RequestError extends Error {
+    constructor(readonly code: RequestErrorCode, message: string) {
+        super(message);
+        this.name = "RequestError";
+    }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+const optional = (check: Check): Optional => ({ optional: check });
+const nullable = (check: Check): Check => (value) => value === null || check(value);
+const boolean: Check = (value) => typeof value === "boolean";
+const number: Check = (value) => typeof value === "number" && Number.isFinite(value);
+const integer = (min = -Infinity, max = Infinity): Check => (value) =>
+    Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+const string = (maxLength = Infinity): Check => (value) => typeof value === "string" && value.length <= maxLength;
+const oneOf = (values: readonly unknown[]): Check => (value) => values.includes(value);
+const object: Check = isObject;
+const array = (item: Check = () => true): Check => (value) => Array.isArray(value) && value.every(item);
+const record = (item: Check): Check => (value) => isObject(value) && Object.values(value).every(item);
+
+const seatIndex = integer(0);
+const amount = integer(1);
+const name = string(64);
+const emoji = string(16);
+const card: Check = (value) => isObject(value) && typeof value.faceUp === "boolean";
+const requestId = string(64);
+const handResult = oneOf(["win", "lose", "push", "blackjack"]);
+const handTotal = integer(2, 21);
+const playAction = oneOf(["hit", "stand", "double", "split", "surrender"]);
+const queuedAction: Check = (value) => isObject(value) &&
+    playAction(value.action) &&
+    (value.minTotal === undefined || handTotal(value.minTotal)) &&
+    (value.maxTotal === undefined || handTotal(value.maxTotal)) &&
+    // A range no total falls in could never fire
+    (value.minTotal === undefined || value.maxTotal === undefined || (value.minTotal as number) <= (value.maxTotal as number));
+const autoplaySettings: Check = (value) => isObject(value) &&
+    oneOf(Object.keys(AUTOPLAY_PROFILES))(value.profile) &&
+    nullable(amount)(value.stopLoss) &&
+    nullable(amount)(value.stopWin) &&
+    nullable(integer(1))(value.maxRounds);
+const patchOp: Check = (value) => isObject(value) &&
+    oneOf(["set", "delete", "truncate"])(value.op) &&
+    array((key) => typeof key === "string" || integer(0)(key))(value.path);
+
+// Table rules as the lobby sends them to a new table room, and a table reports them back
+const TABLE_RULES: { [K in keyof TableRules]-?: Check } = {
+    numDecks: integer(1, 8),
+    dealerHitsSoft17: boolean,
+    doubleAfterSplit: boolean,
+    maxSplitHands: integer(1, 4),
+    resplitAces: boolean,
+    hitSplitAces: boolean,
+    surrender: oneOf(["none", "early", "late"]),
+    blackjackPayout: oneOf(["3:2", "6:5"]),
+    penetration: (value) => number(value) && (value as number) >= 0.5 && (value as number) <= 0.9,
+    indexPlays: boolean,
+    sideBets: nullable(object),
+    minBet: integer(MIN_BET_FLOOR, MAX_BET_CEILING),
+    maxBet: integer(MIN_BET_FLOOR, MAX_BET_CEILING),
+};
+
+const CLIENT_MESSAGES: Schema<ClientMessage> = {
+    join_seat: { seatIndex, displayName: name },
+    leave_seat: { seatIndex: optional(seatIndex) },
+    spectate: { displayName: name },
+    place_bet: { amount, seatIndex: optional(seatIndex) },
+    clear_bet: { seatIndex: optional(seatIndex) },
+    hit: {},
+    stand: {},
+    double: {},
+    split: {},
+    surrender: {},
+    insurance: { accept: boolean, seatIndex: optional(seatIndex) },
+    play_on: { seatIndex: optional(seatIndex) },
+    queue_action: { action: nullable(queuedAction), seatIndex: optional(seatIndex) },
+    queue_insurance: { accept: nullable(boolean), seatIndex: optional(seatIndex) },
+    set_autoplay: { settings: nullable(autoplaySettings) },
+    place_side_bet: { kind: oneOf(SIDE_BET_KINDS), amount, seatIndex: optional(seatIndex) },
+    bet_behind: { seatIndex, amount, displayName: name },
+    clear_bet_behind: { seatIndex },
+    request_state: {},
+    request_leaderboard: {},
+    chat_message: { message: string(1000) },
+    chat_reaction: { messageId: string(64), emoji },
+    quick_emote: { emoji },
+    use_atm: {},
+    claim_legacy: { name },
+    set_client_seed: { seed: string(64) },
+    set_index_plays: { enabled: boolean },
+    request_hand_history: { before: optional(number) },
+    request_strategy_report: {},
+    set_count_trainer: { system: nullable(oneOf(COUNTING_SYSTEM_IDS)) },
+    count_answer: { runningCount: number, trueCount: optional(number) },
+};
+
+// The practice drill room's messages (party/drill.ts)
+const DRILL_MESSAGES: Schema<DrillClientMessage> = {
+    drill_start: { kind: oneOf(Object.keys(DRILLS)), mode: oneOf(["flag", "block"]), rules: optional(isTableRuleChanges) },
+    drill_answer: { action: playAction },
+    drill_next: {},
+};
+
+// The lobby's messages (party/lobby.ts). Bet limits are checked against the table's floor
+// and ceiling by the lobby itself, so it can say what they are.
+const LOBBY_MESSAGES: Schema<LobbyClientMessage> = {
+    create_table: { name, isPrivate: boolean, minBet: number, maxBet: number, rules: isTableRuleChanges },
+    join_by_code: { inviteCode: string(16) },
+    request_tables: {},
+};
+
+// Nested game records (the table state, rounds, quizzes) are checked for their shape at the
+// top level only - they come from our own server, and are built from the same types
+const SERVER_MESSAGES: Schema<ServerMessage> = {
+    session: { playerId: string() },
+    state_update: { state: object, version: integer(0) },
+    state_patch: { version: integer(1), ops: array(patchOp) },
+    error: { code: string(), message: string() },
+    ack: { requestId },
+    rejected: { requestId, code: string(), message: string() },
+    player_action: { playerId: string(), action: string(), seatIndex, isOptimal: optional(boolean), indexPlay: optional(string()) },
+    card_dealt: { target: oneOf(["player", "dealer"]), seatIndex: optional(seatIndex), handIndex: optional(integer(0)), card },
+    payout: { seatIndex, amount: number, result: handResult },
+    insurance_payout: { seatIndex, amount: number },
+    side_bet_payout: { seatIndex, kind: oneOf(SIDE_BET_KINDS), result: nullable(oneOf(Object.keys(SIDE_BET_RESULT_LABELS))), amount: number },
+    bet_behind_payout: { playerId: string(), seatIndex, amount: number, result: handResult },
+    leaderboard: {
+        names: record(string()),
+        balances: record(number),
+        adherence: record(number),
+        insuranceAdherence: record(number),
+        atmUsage: record(number),
+        blackjackCounts: record(number),
+    },
+    legacy_record: { name: string(), chips: number },
+    legacy_claimed: { name: string(), chips: number },
+    hand_history: { rounds: array(object), hasMore: boolean, before: optional(number) },
+    strategy_report: { decisions: array(object) },
+    count_quiz: { system: oneOf(COUNTING_SYSTEM_IDS), askTrueCount: boolean },
+    count_result: { quiz: object, quizzes: array(object) },
+    count_history: { quizzes: array(object) },
+    chat_history: { chatMessages: array(object) },
+    chat_broadcast: { chatMessage: object },
+    chat_reaction: { messageId: string(), emoji: string(), sender: string() },
+    quick_emote: { seatIndex, emoji: string() },
+};
+
+function readJson(raw: string): { data: unknown } | null {
+    try {
+        return { data: JSON.parse(raw) };
+    } catch {
+        return null;
+    }
+}
+
+const INVALID_JSON = { ok: false, code: "invalid_message", error: "Invalid message format" } as const;
+
+function checkMessage<U extends { type: string }>(schema: Schema<U>, data: unknown): ParseResult<U> {
+    if (!isObject(data) || typeof data.type !== "string" || !Object.hasOwn(schema, data.type)) {
+        return { ok: false, code: "unknown_message", error: "Unknown message type" };
+    }
+
+    const fields = schema[data.type as U["type"]] as Record<string, Check | Optional>;
+    const message: Record<string, unknown> = { type: data.type };
+    for (const [key, field] of Object.entries(fields)) {
+        const value = data[key];
+        const valid = typeof field === "function" ? field(value) : value === undefined || field.optional(value);
+        if (!valid) {
+            return { ok: false, code: "invalid_message", error: `Invalid ${data.type} message: bad ${key}` };
+        }
+        if (value !== undefined) message[key] = value;
+    }
+    return { ok: true, message: message as U };
+}
+
+// The request ID is read first, so even a message that fails its checks can be answered
+export function parseClientMessage(raw: string): ParseResult<ClientRequest> {
+    const json = readJson(raw);
+    if (!json) return INVALID_JSON;
+    const id = isObject(json.data) && requestId(json.data.requestId) ? json.data.requestId as string : undefined;
+
+    const result = checkMessage(CLIENT_MESSAGES, json.data);
+    if (!result.ok) return { ...result, requestId: id };
+    if (id === undefined) return { ok: false, code: "invalid_message", error: "Missing request ID" };
+    return { ok: true, message: { ...result.message, requestId: id } };
+}
+
+export function parseServerMessage(raw: string): ParseResult<ServerMessage> {
+    const json = readJson(raw);
+    return json ? checkMessage(SERVER_MESSAGES, json.data) : INVALID_JSON;
+}
+
+export function parseDrillMessage(raw: string): ParseResult<DrillClientMessage> {
+    const json = readJson(raw);
+    return json ? checkMessage(DRILL_MESSAGES, json.data) : INVALID_JSON;
+}
+
+export function parseLobbyMessage(raw: string): ParseResult<LobbyClientMessage> {
+    const json = readJson(raw);
+    return json ? checkMessage(LOBBY_MESSAGES, json.data) : INVALID_JSON;
+}
+
+function checkTableRules(value: unknown, partial: boolean): boolean {
+    return isObject(value) && Object.entries(TABLE_RULES).every(([key, check]) => (partial && value[key] === undefined) || check(value[key]));
+}
+
+// Rules a table is opened with - any left out are the defaults (see normalizeTableRules)
+export function isTableRuleChanges(value: unknown): value is Partial<TableRules> {
+    return checkTableRules(value, true);
+}
+
+// What a table room tells the lobby about itself (see BlackjackServer.reportToLobby)
+export function isOccupancyReport(value: unknown): value is TableOccupancyReport {
+    return isObject(value) &&
+        string(64)(value.roomId) &&
+        checkTableRules(value.rules, false) &&
+        integer(0)(value.seatCount) &&
+        integer(0, value.seatCount as number)(value.seatsTaken) &&
+        integer(0)(value.connections);
+}
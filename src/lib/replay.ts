@@ -0,0 +1,224 @@
+// Round replay - rebuilds the table as it looked after each event of a recorded round,
+// so a RoundRecord can be played back through the normal Table components
+
+import {
+    Card,
+    Hand,
+    HandResult,
+    PublicGameState,
+    RoundEvent,
+    RoundRecord,
+    SideBetOutcome,
+    calculateHandValue,
+    createInitialGameState,
+    maskCard,
+    normalizeTableRules,
+    toPublicGameState,
+} from './gameTypes';
+import { sideBetTotal } from './sideBets';
+
+export interface ReplayAction {
+    playerId: string;
+    action: string;
+    seatIndex: number;
+    isOptimal?: boolean;
+}
+
+export interface ReplayFrame {
+    state: PublicGameState;
+    lastAction: ReplayAction | null;  // Same object until the next action, so toasts fire once
+    seatPayouts: Record<number, { amount: number; result: HandResult }>;
+    sideBetPayouts: Record<number, SideBetOutcome[]>;
+    event: RoundEvent | null;  // null for the opening frame
+}
+
+const RESULT_PRIORITY: Record<HandResult, number> = { blackjack: 4, win: 3, push: 2, lose: 1 };
+
+// Status a hand shows after taking a card
+function settleHand(hand: Hand) {
+    const { value } = calculateHandValue(hand.cards);
+    if (value > 21) {
+        hand.status = 'busted';
+    } else if (hand.isDoubled) {
+        hand.status = 'doubled';
+    } else if (hand.cards.length === 2 && value === 21 && !hand.isSplit) {
+        hand.status = 'blackjack';
+    }
+}
+
+export function buildReplayFrames(round: RoundRecord): ReplayFrame[] {
+    // Rounds recorded before table limits existed fill them in from the defaults
+    const state = toPublicGameState(createInitialGameState(normalizeTableRules(round.rules)));
+    state.phase = 'dealing';
+    state.cardsRemaining = round.rules.numDecks * 52;
+    state.lastUpdate = round.startedAt;
+
+    for (const record of round.seats) {
+        const sideBets = record.sideBets ?? { perfectPairs: 0, twentyOnePlusThree: 0 };
+        state.seats[record.seatIndex] = {
+            playerId: record.playerId,
+            displayName: record.displayName,
+            chips: record.chipsBefore - record.bet - sideBetTotal({ sideBets }),
+            bet: record.bet,
+            lastBet: record.bet,
+            insuranceBet: 0,
+            sideBets: { ...sideBets },
+            // Backing is shown as it finished - the replay doesn't step through its doubles and splits
+            betsBehind: (record.betsBehind ?? []).map((backer) => ({ ...backer, stakes: [...backer.stakes] })),
+            hands: [{ cards: [], bet: record.bet, status: 'playing', isDoubled: false, isSplit: false }],
+            status: 'playing',
+            disconnectedUntil: null,
+            queuedAction: null,
+            queuedInsurance: null,
+        };
+    }
+
+    const dealerCards: Card[] = [];
+    const seatPayouts: Record<number, { amount: number; result: HandResult }> = {};
+    const sideBetPayouts: Record<number, SideBetOutcome[]> = {};
+    let lastAction: ReplayAction | null = null;
+    const frames: ReplayFrame[] = [];
+
+    const snapshot = (event: RoundEvent | null) => {
+        state.dealerHand = dealerCards.map(maskCard);
+        frames.push({
+            state: structuredClone(state),
+            lastAction,
+            seatPayouts: structuredClone(seatPayouts),
+            sideBetPayouts: structuredClone(sideBetPayouts),
+            event,
+        });
+    };
+
+    snapshot(null);
+
+    for (const event of round.events) {
+        switch (event.type) {
+            case 'deal': {
+                if (event.card.shoeIndex !== undefined) {
+                    state.cardsRemaining = round.rules.numDecks * 52 - event.card.shoeIndex - 1;
+                }
+                if (event.seatIndex === null) {
+                    dealerCards.push({ ...event.card });
+                    break;
+                }
+                const hand = state.seats[event.seatIndex]?.hands[event.handIndex];
+                if (hand) {
+                    hand.cards.push({ ...event.card, faceUp: true });
+                    settleHand(hand);
+                }
+                break;
+            }
+
+            case 'action': {
+                const seat = state.seats[event.seatIndex];
+                const hand = seat?.hands[event.handIndex];
+                if (!seat || !hand) break;
+
+                state.phase = 'player_turn';
+                state.activePlayerIndex = event.seatIndex;
+                state.activeHandIndex = event.handIndex;
+                lastAction = {
+                    playerId: seat.playerId ?? '',
+                    action: event.action === 'timeout' ? 'stand' : event.action,
+                    seatIndex: event.seatIndex,
+                    isOptimal: event.isOptimal,
+                };
+
+                if (event.action === 'stand' || event.action === 'timeout') {
+                    hand.status = 'standing';
+                } else if (event.action === 'double') {
+                    seat.chips -= hand.bet;
+                    hand.bet *= 2;
+                    hand.isDoubled = true;
+                } else if (event.action === 'surrender') {
+                    hand.status = 'surrendered';
+                    seat.chips += Math.floor(hand.bet / 2);
+                } else if (event.action === 'split') {
+                    // The deal events that follow give each hand its second card
+                    seat.chips -= hand.bet;
+                    const moved = hand.cards.pop();
+                    hand.isSplit = true;
+                    seat.hands.splice(event.handIndex + 1, 0, {
+                        cards: moved ? [moved] : [],
+                        bet: hand.bet,
+                        status: 'playing',
+                        isDoubled: false,
+                        isSplit: true,
+                    });
+                }
+                break;
+            }
+
+            case 'insurance': {
+                const seat = state.seats[event.seatIndex];
+                if (!seat) break;
+                state.phase = 'insurance';
+                seat.insuranceBet = event.accepted ? event.amount : -1;
+                seat.chips -= event.amount;
+                break;
+            }
+
+            case 'side_bet': {
+                const seat = state.seats[event.seatIndex];
+                if (!seat) break;
+                seat.chips += event.amount;
+                (sideBetPayouts[event.seatIndex] ??= []).push({
+                    kind: event.kind,
+                    result: event.result,
+                    amount: event.amount > 0 ? event.amount - event.stake : 0,
+                });
+                break;
+            }
+
+            case 'reveal': {
+                if (dealerCards[1]) {
+                    dealerCards[1] = { ...dealerCards[1], faceUp: true };
+                }
+                state.phase = 'dealer_turn';
+                state.activePlayerIndex = -1;
+                // Insurance is settled the moment the hole card is shown
+                for (const record of round.seats) {
+                    if (record.insurancePayout > 0) {
+                        state.seats[record.seatIndex].chips += record.insurancePayout;
+                    }
+                }
+                break;
+            }
+
+            case 'payout': {
+                const seat = state.seats[event.seatIndex];
+                const hand = seat?.hands[event.handIndex];
+                if (!seat) break;
+
+                state.phase = 'payout';
+                state.activePlayerIndex = -1;
+                // Surrender refunds were already credited when the hand was given up
+                if (hand?.status !== 'surrendered') {
+                    seat.chips += event.amount;
+                }
+
+                // Same display rules as the live payout message: net winnings, best result per seat
+                const won = event.result === 'win' || event.result === 'blackjack';
+                const previous = seatPayouts[event.seatIndex];
+                seatPayouts[event.seatIndex] = {
+                    amount: (previous?.amount ?? 0) + (won ? event.amount - (hand?.bet ?? 0) : 0),
+                    result: previous && RESULT_PRIORITY[previous.result] >= RESULT_PRIORITY[event.result]
+                        ? previous.result
+                        : event.result,
+                };
+                break;
+            }
+        }
+
+        snapshot(event);
+    }
+
+    // End on the recorded balances - they are what the server actually settled
+    const last = frames[frames.length - 1];
+    for (const record of round.seats) {
+        last.state.seats[record.seatIndex].chips = record.chipsAfter;
+    }
+
+    return frames;
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { Card, DEFAULT_TABLE_RULES, Rank, Suit } from "./gameTypes";
+import { evaluatePerfectPairs, evaluateTwentyOnePlusThree, sideBetMultiplier } from "./sideBets";
+
+function card(rank: Rank, suit: Suit): Card {
+    return { rank, suit, faceUp: true };
+}
+
+describe("side bets", () => {
+    it("reads a pair as mixed, coloured or perfect", () => {
+        expect(evaluatePerfectPairs([card("7", "hearts"), card("7", "spades")])).toBe("mixed_pair");
+        expect(evaluatePerfectPairs([card("7", "hearts"), card("7", "diamonds")])).toBe("coloured_pair");
+        expect(evaluatePerfectPairs([card("7", "clubs"), card("7", "clubs")])).toBe("perfect_pair");
+        // Tens and kings count the same in blackjack but are no pair
+        expect(evaluatePerfectPairs([card("10", "clubs"), card("K", "clubs")])).toBeNull();
+    });
+
+    it("reads the two cards and the upcard as a poker hand", () => {
+        expect(evaluateTwentyOnePlusThree([card("2", "hearts"), card("9", "hearts")], card("K", "hearts"))).toBe("flush");
+        expect(evaluateTwentyOnePlusThree([card("A", "hearts"), card("2", "clubs")], card("3", "hearts"))).toBe("straight");
+        expect(evaluateTwentyOnePlusThree([card("Q", "spades"), card("A", "spades")], card("K", "spades"))).toBe("straight_flush");
+        expect(evaluateTwentyOnePlusThree([card("5", "hearts"), card("5", "clubs")], card("5", "spades"))).toBe("three_of_a_kind");
+        expect(evaluateTwentyOnePlusThree([card("5", "clubs"), card("5", "clubs")], card("5", "clubs"))).toBe("suited_trips");
+        // The ace doesn't wrap around
+        expect(evaluateTwentyOnePlusThree([card("K", "hearts"), card("A", "clubs")], card("2", "hearts"))).toBeNull();
+    });
+
+    it("pays from the table's pay table and nothing without one", () => {
+        expect(sideBetMultiplier("perfectPairs", "coloured_pair", DEFAULT_TABLE_RULES)).toBe(12);
+        expect(sideBetMultiplier("perfectPairs", "coloured_pair", { ...DEFAULT_TABLE_RULES, sideBets: null })).toBe(0);
+    });
+});
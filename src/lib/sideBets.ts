@@ -0,0 +1,78 @@
+// Side bets - Perfect Pairs on the player's first two cards, and 21+3 on those two plus
+// the dealer's upcard read as a three-card poker hand. Both are settled as soon as the
+// initial deal is out, before anyone plays (see dealInitialCards in party/engine.ts).
+
+import {
+    Card,
+    PerfectPairsResult,
+    Rank,
+    Seat,
+    SideBetKind,
+    SideBetResult,
+    Suit,
+    TableRules,
+    TwentyOnePlusThreeResult,
+} from "./gameTypes";
+
+export const SIDE_BETS: Record<SideBetKind, { label: string; short: string }> = {
+    perfectPairs: { label: "Perfect Pairs", short: "PP" },
+    twentyOnePlusThree: { label: "21+3", short: "21+3" },
+};
+
+export const SIDE_BET_KINDS = Object.keys(SIDE_BETS) as SideBetKind[];
+
+export const SIDE_BET_RESULT_LABELS: Record<SideBetResult, string> = {
+    mixed_pair: "Mixed pair",
+    coloured_pair: "Coloured pair",
+    perfect_pair: "Perfect pair",
+    flush: "Flush",
+    straight: "Straight",
+    three_of_a_kind: "Three of a kind",
+    straight_flush: "Straight flush",
+    suited_trips: "Suited trips",
+};
+
+const RED_SUITS: Suit[] = ["hearts", "diamonds"];
+
+// Poker order - tens and faces are different ranks here, unlike in blackjack
+const RANK_ORDER: Rank[] = ["2", "3", "4", "5", "6", "7", "8", "9", "10", "J", "Q", "K", "A"];
+
+export function evaluatePerfectPairs(cards: Card[]): PerfectPairsResult | null {
+    const [first, second] = cards;
+    if (!first || !second || first.rank !== second.rank) return null;
+    if (first.suit === second.suit) return "perfect_pair";
+    return RED_SUITS.includes(first.suit) === RED_SUITS.includes(second.suit) ? "coloured_pair" : "mixed_pair";
+}
+
+// Three in a row - the ace plays high (Q-K-A) or low (A-2-3)
+function isStraight(ranks: Rank[]): boolean {
+    const positions = ranks.map((rank) => RANK_ORDER.indexOf(rank)).sort((a, b) => a - b);
+    if (positions[0] + 1 === positions[1] && positions[1] + 1 === positions[2]) return true;
+    return positions[0] === 0 && positions[1] === 1 && positions[2] === RANK_ORDER.length - 1;
+}
+
+export function evaluateTwentyOnePlusThree(cards: Card[], upcard: Card): TwentyOnePlusThreeResult | null {
+    if (cards.length < 2) return null;
+    const three = [cards[0], cards[1], upcard];
+    const ranks = three.map((card) => card.rank);
+    const flush = three.every((card) => card.suit === upcard.suit);
+    const trips = ranks.every((rank) => rank === upcard.rank);
+
+    if (trips) return flush ? "suited_trips" : "three_of_a_kind";
+    if (isStraight(ranks)) return flush ? "straight_flush" : "straight";
+    return flush ? "flush" : null;
+}
+
+export function evaluateSideBet(kind: SideBetKind, cards: Card[], upcard: Card): SideBetResult | null {
+    return kind === "perfectPairs" ? evaluatePerfectPairs(cards) : evaluateTwentyOnePlusThree(cards, upcard);
+}
+
+// What the result pays, X to 1 - nothing at a table without side bets
+export function sideBetMultiplier(kind: SideBetKind, result: SideBetResult, rules: TableRules): number {
+    const payouts = rules.sideBets?.[kind] as Record<SideBetResult, number> | undefined;
+    return payouts?.[result] ?? 0;
+}
+
+export function sideBetTotal(seat: Pick<Seat, "sideBets">): number {
+    return seat.sideBets.perfectPairs + seat.sideBets.twentyOnePlusThree;
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { createInitialGameState, toPublicGameState } from "./gameTypes";
+import { applyStatePatch, diffState, toWireState } from "./statePatch";
+
+describe("state patches", () => {
+    it("rebuilds the next state from the previous one and the patch", () => {
+        const prev = toWireState(toPublicGameState(createInitialGameState()));
+        const game = createInitialGameState();
+        game.phase = "betting";
+        game.seats[2] = { ...game.seats[2], playerId: "alice-id", displayName: "Alice", bet: 100 };
+        game.spectators.push({ id: "bob-id", name: "Bob" });
+        game.chipBalances["alice-id"] = 9900;
+        const next = toWireState(toPublicGameState(game));
+
+        const ops = diffState(prev, next);
+        expect(applyStatePatch(prev, ops)).toEqual(next);
+        expect(ops).toContainEqual({ op: "set", path: ["seats", 2, "bet"], value: 100 });
+        expect(ops.some((op) => op.path[0] === "rules")).toBe(false);
+    });
+
+    it("shortens arrays and removes keys that are gone", () => {
+        const prev = { spectators: [{ id: "a" }, { id: "b" }], chipBalances: { a: 1, b: 2 } };
+        const next = { spectators: [{ id: "a" }], chipBalances: { a: 1 } };
+
+        const ops = diffState(prev, next);
+        expect(ops).toEqual([
+            { op: "truncate", path: ["spectators"], length: 1 },
+            { op: "delete", path: ["chipBalances", "b"] },
+        ]);
+        expect(applyStatePatch(prev, ops)).toEqual(next);
+    });
+
+    it("copies only what the patch touches", () => {
+        const prev = { seats: [{ bet: 0 }, { bet: 0 }], rules: { numDecks: 6 } };
+        const next = applyStatePatch(prev, [{ op: "set", path: ["seats", 1, "bet"], value: 50 }]);
+
+        expect(next.seats[1].bet).toBe(50);
+        expect(prev.seats[1].bet).toBe(0);
+        expect(next.seats[0]).toBe(prev.seats[0]);
+        expect(next.rules).toBe(prev.rules);
+    });
+
+    it("fails on a patch for a state it doesn't fit", () => {
+        expect(() => applyStatePatch({ seats: [] }, [{ op: "set", path: ["seats", 3, "bet"], value: 10 }])).toThrow();
+    });
+});
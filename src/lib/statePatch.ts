@@ -0,0 +1,83 @@
+// State patches - the changes between two versions of the public game state, so a table
+// sends what a hit or a bet changed rather than the whole state every time.
+//
+// Both sides work on the state as it comes out of JSON: the server diffs the last state
+// it sent against the next one, and clients apply the ops in order to their own copy.
+
+export type PatchPath = (string | number)[];
+
+export type PatchOp =
+    | { op: "set"; path: PatchPath; value: unknown }
+    | { op: "delete"; path: PatchPath }  // Remove an object key
+    | { op: "truncate"; path: PatchPath; length: number };  // Shorten an array
+
+type Json = Record<string, unknown> | unknown[];
+
+function isContainer(value: unknown): value is Json {
+    return typeof value === "object" && value !== null;
+}
+
+// Round-trips a value through JSON, so it diffs the same as what clients received
+export function toWireState<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value));
+}
+
+export function diffState(prev: unknown, next: unknown, path: PatchPath = [], ops: PatchOp[] = []): PatchOp[] {
+    if (Object.is(prev, next)) return ops;
+
+    if (Array.isArray(prev) && Array.isArray(next)) {
+        for (let i = 0; i < Math.min(prev.length, next.length); i++) {
+            diffState(prev[i], next[i], [...path, i], ops);
+        }
+        for (let i = prev.length; i < next.length; i++) {
+            ops.push({ op: "set", path: [...path, i], value: next[i] });
+        }
+        if (next.length < prev.length) {
+            ops.push({ op: "truncate", path, length: next.length });
+        }
+        return ops;
+    }
+
+    if (isContainer(prev) && isContainer(next) && !Array.isArray(prev) && !Array.isArray(next)) {
+        for (const key of Object.keys(next)) {
+            if (Object.hasOwn(prev, key)) {
+                diffState(prev[key], next[key], [...path, key], ops);
+            } else {
+                ops.push({ op: "set", path: [...path, key], value: next[key] });
+            }
+        }
+        for (const key of Object.keys(prev)) {
+            if (!Object.hasOwn(next, key)) ops.push({ op: "delete", path: [...path, key] });
+        }
+        return ops;
+    }
+
+    ops.push({ op: "set", path, value: next });
+    return ops;
+}
+
+// Copies only the objects and arrays along the op's path, so everything it didn't touch
+// keeps its identity and memoized components skip re-rendering it
+function applyOp(target: unknown, op: PatchOp, depth: number): unknown {
+    if (depth === op.path.length) {
+        if (op.op === "set") return op.value;
+        if (op.op === "truncate" && Array.isArray(target)) return target.slice(0, op.length);
+        return target;
+    }
+    if (!isContainer(target)) {
+        throw new Error(`Patch path ${op.path.join(".")} is missing`);
+    }
+
+    const key = op.path[depth];
+    const copy = (Array.isArray(target) ? [...target] : { ...target }) as Record<string | number, unknown>;
+    if (op.op === "delete" && depth === op.path.length - 1) {
+        delete copy[key];
+    } else {
+        copy[key] = applyOp(copy[key], op, depth + 1);
+    }
+    return copy;
+}
+
+export function applyStatePatch<T>(state: T, ops: PatchOp[]): T {
+    return ops.reduce<unknown>((current, op) => applyOp(current, op, 0), state) as T;
+}
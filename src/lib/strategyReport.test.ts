@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { StrategyDecision } from "./gameTypes";
+import { buildStrategyReport, positionKey } from "./strategyReport";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function decision(overrides: Partial<StrategyDecision>): StrategyDecision {
+    return { at: 0, section: "hard", rowKey: 16, column: 8, action: "stand", correct: "stand", bet: 100, ...overrides };
+}
+
+describe("strategy report", () => {
+    it("counts mistakes per chart cell", () => {
+        const report = buildStrategyReport([
+            decision({ action: "hit", correct: "surrender" }),
+            decision({ action: "surrender", correct: "surrender" }),
+            decision({ section: "pairs", rowKey: 8, column: 9, action: "split", correct: "split" }),
+        ]);
+        expect(report.total).toBe(3);
+        expect(report.mistakes).toBe(1);
+        expect(report.cells[positionKey({ section: "hard", rowKey: 16, column: 8 })]).toEqual({ total: 2, mistakes: 1 });
+        expect(report.cells[positionKey({ section: "pairs", rowKey: 8, column: 9 })]).toEqual({ total: 1, mistakes: 0 });
+    });
+
+    it("ranks leaks by the chips bet on the wrong play", () => {
+        const report = buildStrategyReport([
+            decision({ rowKey: 12, column: 1, action: "stand", correct: "hit", bet: 100 }),
+            decision({ rowKey: 12, column: 1, action: "stand", correct: "hit", bet: 100 }),
+            decision({ rowKey: 11, column: 9, action: "hit", correct: "double", bet: 500 }),
+        ]);
+        expect(report.leaks.map((leak) => leak.position.rowKey)).toEqual([11, 12]);
+        expect(report.leaks[1]).toMatchObject({ mistakes: 2, total: 2, chipsAtRisk: 200, usualAction: "stand", correct: "hit" });
+    });
+
+    it("tracks adherence day by day", () => {
+        const report = buildStrategyReport([
+            decision({ at: 2 * DAY, action: "hit", correct: "stand" }),
+            decision({ at: 0 }),
+            decision({ at: 2 * DAY + 60_000 }),
+        ]);
+        expect(report.trend).toEqual([
+            { day: "1970-01-01", total: 1, correct: 1 },
+            { day: "1970-01-03", total: 2, correct: 1 },
+        ]);
+    });
+});
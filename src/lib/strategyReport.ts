@@ -0,0 +1,104 @@
+// Personal strategy report - worked out from a player's graded decisions (StrategyDecision):
+// the error rate in each chart cell for the heatmap, the leaks that put the most chips on
+// the wrong play, and adherence day by day.
+
+import { StrategyDecision } from "./gameTypes";
+import { Action, ChartPosition } from "./basicStrategy";
+
+export interface CellStats {
+    total: number;
+    mistakes: number;
+}
+
+export interface StrategyLeak {
+    position: ChartPosition;
+    total: number;
+    mistakes: number;
+    chipsAtRisk: number; // Bet on the hands that were misplayed
+    usualAction: Action; // The wrong play made most often
+    correct: Action;
+}
+
+export interface AdherenceDay {
+    day: string; // YYYY-MM-DD, UTC
+    total: number;
+    correct: number;
+}
+
+export interface StrategyReport {
+    total: number;
+    mistakes: number;
+    cells: Record<string, CellStats>; // By positionKey
+    leaks: StrategyLeak[]; // Most chips at risk first
+    trend: AdherenceDay[]; // Oldest first
+}
+
+export const MAX_LEAKS = 5;
+
+export function positionKey(position: ChartPosition): string {
+    return `${position.section}:${position.rowKey}:${position.column}`;
+}
+
+// The entry with the highest count
+function mostCommon<T extends string>(counts: Partial<Record<T, number>>): T {
+    return (Object.entries(counts) as [T, number][]).sort(([, a], [, b]) => b - a)[0][0];
+}
+
+export function buildStrategyReport(decisions: StrategyDecision[]): StrategyReport {
+    const cells: Record<string, CellStats> = {};
+    const leaks = new Map<string, {
+        position: ChartPosition;
+        mistakes: number;
+        chipsAtRisk: number;
+        actions: Partial<Record<Action, number>>;
+        corrects: Partial<Record<Action, number>>;
+    }>();
+    const days = new Map<string, AdherenceDay>();
+    let mistakes = 0;
+
+    for (const decision of decisions) {
+        const position: ChartPosition = { section: decision.section, rowKey: decision.rowKey, column: decision.column };
+        const key = positionKey(position);
+        const isMistake = decision.action !== decision.correct;
+
+        const cell = (cells[key] ??= { total: 0, mistakes: 0 });
+        cell.total++;
+
+        const day = new Date(decision.at).toISOString().slice(0, 10);
+        const dayStats = days.get(day) ?? { day, total: 0, correct: 0 };
+        dayStats.total++;
+        days.set(day, dayStats);
+
+        if (!isMistake) {
+            dayStats.correct++;
+            continue;
+        }
+
+        mistakes++;
+        cell.mistakes++;
+        const leak = leaks.get(key) ?? { position, mistakes: 0, chipsAtRisk: 0, actions: {}, corrects: {} };
+        leak.mistakes++;
+        leak.chipsAtRisk += decision.bet;
+        leak.actions[decision.action] = (leak.actions[decision.action] ?? 0) + 1;
+        leak.corrects[decision.correct] = (leak.corrects[decision.correct] ?? 0) + 1;
+        leaks.set(key, leak);
+    }
+
+    return {
+        total: decisions.length,
+        mistakes,
+        cells,
+        leaks: [...leaks.entries()]
+            .map(([key, leak]) => ({
+                position: leak.position,
+                total: cells[key].total,
+                mistakes: leak.mistakes,
+                chipsAtRisk: leak.chipsAtRisk,
+                usualAction: mostCommon(leak.actions),
+                correct: mostCommon(leak.corrects),
+            }))
+            .sort((a, b) => b.chipsAtRisk - a.chipsAtRisk || b.mistakes - a.mistakes)
+            .slice(0, MAX_LEAKS),
+        trend: [...days.values()].sort((a, b) => a.day.localeCompare(b.day)),
+    };
+}